@@ -0,0 +1,44 @@
+-- Immutable inspection snapshots (initial intake, post-repair, pre-delivery)
+-- Run this in your Supabase SQL Editor
+
+-- Create inspection_snapshots table
+CREATE TABLE IF NOT EXISTS public.inspection_snapshots (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    dealership_id UUID NOT NULL REFERENCES public.dealerships(id) ON DELETE CASCADE,
+    vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind = ANY (ARRAY['intake'::text, 'post-repair'::text, 'pre-delivery'::text, 'other'::text])),
+    label TEXT,
+    inspection_data JSONB NOT NULL,
+    sections JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.inspection_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view inspection snapshots in their dealership" ON public.inspection_snapshots;
+DROP POLICY IF EXISTS "Users can create inspection snapshots in their dealership" ON public.inspection_snapshots;
+
+-- Snapshots can be read and created but never updated or deleted
+CREATE POLICY "Users can view inspection snapshots in their dealership" ON public.inspection_snapshots
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = inspection_snapshots.dealership_id
+    )
+  );
+
+CREATE POLICY "Users can create inspection snapshots in their dealership" ON public.inspection_snapshots
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = inspection_snapshots.dealership_id
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_inspection_snapshots_dealership_id ON public.inspection_snapshots(dealership_id);
+CREATE INDEX IF NOT EXISTS idx_inspection_snapshots_vehicle_id ON public.inspection_snapshots(vehicle_id);
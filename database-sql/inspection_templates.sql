@@ -0,0 +1,10 @@
+-- Inspection templates
+-- Run this in your Supabase SQL Editor
+--
+-- Templates themselves live in inspection_settings.settings (the "templates" array) next to
+-- the sections they are built from, so no new table is needed.
+
+-- The checklist a vehicle is inspected against, copied from settings on the first inspection save
+-- (or when a template is picked by hand): { templateId, templateName, selectedBy, sections, snapshotAt, snapshotBy }.
+-- Vehicles without one are inspected against whatever their template rules pick today.
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS inspection_template JSONB;
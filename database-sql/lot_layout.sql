@@ -0,0 +1,13 @@
+-- Lot map: a grid of parking spots per location and the spot each vehicle is parked in
+-- Run this in your Supabase SQL Editor
+
+-- { "rows": 4, "spotsPerRow": 12 } - spots are labelled A1..D12
+ALTER TABLE public.locations ADD COLUMN IF NOT EXISTS layout JSONB;
+
+-- Cleared whenever the vehicle changes location or is sold
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS parking_spot TEXT;
+
+-- Only one active vehicle per spot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicles_parking_spot
+  ON public.vehicles(dealership_id, location_name, parking_spot)
+  WHERE parking_spot IS NOT NULL AND is_sold = false;
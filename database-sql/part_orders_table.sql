@@ -0,0 +1,70 @@
+-- Parts ordered for vehicles
+-- Run this in your Supabase SQL Editor
+
+-- Create part_orders table
+CREATE TABLE IF NOT EXISTS public.part_orders (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    dealership_id UUID NOT NULL REFERENCES public.dealerships(id) ON DELETE CASCADE,
+    vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+    vehicle_name TEXT NOT NULL,
+    part_number TEXT,
+    description TEXT NOT NULL,
+    supplier_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+    supplier_name TEXT,
+    cost NUMERIC,
+    ordered_date DATE,
+    eta_date DATE,
+    received_date DATE,
+    inspection_section_key TEXT,
+    inspection_item_id TEXT,
+    inspection_item_label TEXT,
+    todo_id UUID REFERENCES public.todos(id) ON DELETE SET NULL,
+    recon_cost_id UUID REFERENCES public.recon_costs(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_by TEXT NOT NULL,
+    received_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.part_orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage part orders in their dealership" ON public.part_orders;
+
+CREATE POLICY "Users can manage part orders in their dealership" ON public.part_orders
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = part_orders.dealership_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = part_orders.dealership_id
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_part_orders_dealership_id ON public.part_orders(dealership_id);
+CREATE INDEX IF NOT EXISTS idx_part_orders_vehicle_id ON public.part_orders(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_part_orders_outstanding ON public.part_orders(dealership_id) WHERE received_date IS NULL;
+
+-- Create trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_part_orders_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_part_orders_updated_at ON public.part_orders;
+
+CREATE TRIGGER trigger_update_part_orders_updated_at
+    BEFORE UPDATE ON public.part_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION update_part_orders_updated_at();
@@ -0,0 +1,11 @@
+-- Manager override of the required-item readiness gate
+-- Run this in your Supabase SQL Editor
+
+-- Who frontlined the vehicle with items still blocking readiness, and why.
+-- The same reason is kept as a certified team note.
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS readiness_override_by TEXT;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS readiness_override_date TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS readiness_override_reason TEXT;
+
+-- The blockers ("sectionKey:itemId") the override was given over. A blocker outside this list voids it.
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS readiness_override_blockers JSONB;
@@ -0,0 +1,15 @@
+-- Realtime updates for the dashboard, vehicle detail and checklist
+-- Run this in your Supabase SQL Editor
+
+-- Broadcast row changes on the tables the app subscribes to
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vehicles;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.inspection_checklists;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.todos;
+
+-- Send whole rows: update events otherwise leave out large unchanged columns
+-- (inspection_data, team_notes) and delete events carry only the id
+ALTER TABLE public.vehicles REPLICA IDENTITY FULL;
+ALTER TABLE public.inspection_checklists REPLICA IDENTITY FULL;
+ALTER TABLE public.todos REPLICA IDENTITY FULL;
+
+-- Presence (who is viewing a vehicle) uses realtime channels only and needs no tables
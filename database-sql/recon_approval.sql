@@ -0,0 +1,59 @@
+-- Manager approval of recon spend above a threshold
+-- Run this in your Supabase SQL Editor
+
+-- Per-dealership approval policy (dollar limit and percentage-of-price limit)
+CREATE TABLE IF NOT EXISTS public.recon_approval_settings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    dealership_id UUID NOT NULL REFERENCES public.dealerships(id) ON DELETE CASCADE,
+    settings JSONB NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(dealership_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.recon_approval_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage recon approval settings in their dealership" ON public.recon_approval_settings;
+
+CREATE POLICY "Users can manage recon approval settings in their dealership" ON public.recon_approval_settings
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = recon_approval_settings.dealership_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = recon_approval_settings.dealership_id
+    )
+  );
+
+-- Create index for better performance
+CREATE INDEX IF NOT EXISTS idx_recon_approval_settings_dealership_id ON public.recon_approval_settings(dealership_id);
+
+-- Create trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_recon_approval_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_recon_approval_settings_updated_at ON public.recon_approval_settings;
+
+CREATE TRIGGER trigger_update_recon_approval_settings_updated_at
+    BEFORE UPDATE ON public.recon_approval_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_recon_approval_settings_updated_at();
+
+-- Who asked for each work order estimate to be approved, why the policy held it, and the discussion
+ALTER TABLE public.work_order_lines ADD COLUMN IF NOT EXISTS requested_by TEXT;
+ALTER TABLE public.work_order_lines ADD COLUMN IF NOT EXISTS approval_reason TEXT;
+ALTER TABLE public.work_order_lines ADD COLUMN IF NOT EXISTS comments JSONB NOT NULL DEFAULT '[]';
+
+-- The recon cost an approved repair was posted as at sign-off, so it is only counted once
+ALTER TABLE public.work_order_lines ADD COLUMN IF NOT EXISTS recon_cost_id UUID REFERENCES public.recon_costs(id) ON DELETE SET NULL;
@@ -0,0 +1,68 @@
+-- Reconditioning cost ledger and per-vehicle budget cap
+-- Run this in your Supabase SQL Editor
+
+-- Budget cap on each vehicle (NULL = no budget set)
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS recon_budget numeric;
+
+-- Create recon_costs table
+CREATE TABLE IF NOT EXISTS public.recon_costs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    dealership_id UUID NOT NULL REFERENCES public.dealerships(id) ON DELETE CASCADE,
+    vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+    category TEXT NOT NULL CHECK (category = ANY (ARRAY['parts'::text, 'labor'::text, 'sublet'::text, 'detail'::text, 'transport'::text])),
+    description TEXT NOT NULL,
+    quantity NUMERIC NOT NULL DEFAULT 1,
+    unit_cost NUMERIC NOT NULL DEFAULT 0,
+    amount NUMERIC NOT NULL DEFAULT 0,
+    vendor_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+    vendor_name TEXT,
+    inspection_section_key TEXT,
+    inspection_item_id TEXT,
+    inspection_item_label TEXT,
+    incurred_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.recon_costs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage recon costs in their dealership" ON public.recon_costs;
+
+CREATE POLICY "Users can manage recon costs in their dealership" ON public.recon_costs
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = recon_costs.dealership_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = recon_costs.dealership_id
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_recon_costs_dealership_id ON public.recon_costs(dealership_id);
+CREATE INDEX IF NOT EXISTS idx_recon_costs_vehicle_id ON public.recon_costs(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_recon_costs_vendor_id ON public.recon_costs(vendor_id);
+
+-- Create trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_recon_costs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_recon_costs_updated_at ON public.recon_costs;
+
+CREATE TRIGGER trigger_update_recon_costs_updated_at
+    BEFORE UPDATE ON public.recon_costs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_recon_costs_updated_at();
@@ -0,0 +1,54 @@
+-- Recon stage history and SLA targets
+-- Run this in your Supabase SQL Editor
+
+-- Timestamped stage transitions per vehicle (inspection started, section complete, ready, pending, sold)
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS stage_history JSONB NOT NULL DEFAULT '[]';
+
+-- Create sla_settings table with dealership_id
+CREATE TABLE IF NOT EXISTS public.sla_settings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    dealership_id UUID NOT NULL REFERENCES public.dealerships(id) ON DELETE CASCADE,
+    settings JSONB NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(dealership_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.sla_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage SLA settings in their dealership" ON public.sla_settings;
+
+CREATE POLICY "Users can manage SLA settings in their dealership" ON public.sla_settings
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = sla_settings.dealership_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = sla_settings.dealership_id
+    )
+  );
+
+-- Create index for better performance
+CREATE INDEX IF NOT EXISTS idx_sla_settings_dealership_id ON public.sla_settings(dealership_id);
+
+-- Create trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_sla_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_sla_settings_updated_at ON public.sla_settings;
+
+CREATE TRIGGER trigger_update_sla_settings_updated_at
+    BEFORE UPDATE ON public.sla_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_sla_settings_updated_at();
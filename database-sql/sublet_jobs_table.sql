@@ -0,0 +1,67 @@
+-- Sublet jobs: vehicles sent out to vendor contacts
+-- Run this in your Supabase SQL Editor
+
+-- Create sublet_jobs table
+CREATE TABLE IF NOT EXISTS public.sublet_jobs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    dealership_id UUID NOT NULL REFERENCES public.dealerships(id) ON DELETE CASCADE,
+    vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+    vehicle_name TEXT NOT NULL,
+    contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+    vendor_name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    sent_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    expected_return_date DATE,
+    returned_date DATE,
+    from_location TEXT,
+    invoice_amount NUMERIC,
+    invoice_number TEXT,
+    recon_cost_id UUID REFERENCES public.recon_costs(id) ON DELETE SET NULL,
+    notes TEXT,
+    sent_by TEXT NOT NULL,
+    returned_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.sublet_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage sublet jobs in their dealership" ON public.sublet_jobs;
+
+CREATE POLICY "Users can manage sublet jobs in their dealership" ON public.sublet_jobs
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = sublet_jobs.dealership_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = sublet_jobs.dealership_id
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_sublet_jobs_dealership_id ON public.sublet_jobs(dealership_id);
+CREATE INDEX IF NOT EXISTS idx_sublet_jobs_vehicle_id ON public.sublet_jobs(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_sublet_jobs_contact_id ON public.sublet_jobs(contact_id);
+
+-- Create trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_sublet_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_sublet_jobs_updated_at ON public.sublet_jobs;
+
+CREATE TRIGGER trigger_update_sublet_jobs_updated_at
+    BEFORE UPDATE ON public.sublet_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_sublet_jobs_updated_at();
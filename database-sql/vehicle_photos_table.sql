@@ -0,0 +1,66 @@
+-- Photo details (order, captions, tags) and each vehicle's hero photo
+-- Run this in your Supabase SQL Editor
+
+-- Photo shown on the vehicle card, as a path in the reconpro-vehicles bucket (NULL = none picked)
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS hero_photo_path TEXT;
+
+-- Create vehicle_photos table. The image files stay in storage; one row per file
+CREATE TABLE IF NOT EXISTS public.vehicle_photos (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    dealership_id UUID NOT NULL REFERENCES public.dealerships(id) ON DELETE CASCADE,
+    vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+    section_key TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    path TEXT NOT NULL UNIQUE,
+    thumbnail_path TEXT,
+    caption TEXT,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    taken_at TIMESTAMP WITH TIME ZONE,
+    width INTEGER,
+    height INTEGER,
+    uploaded_by TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.vehicle_photos ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage vehicle photos in their dealership" ON public.vehicle_photos;
+
+CREATE POLICY "Users can manage vehicle photos in their dealership" ON public.vehicle_photos
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = vehicle_photos.dealership_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = vehicle_photos.dealership_id
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_vehicle_photos_dealership_id ON public.vehicle_photos(dealership_id);
+CREATE INDEX IF NOT EXISTS idx_vehicle_photos_vehicle_id ON public.vehicle_photos(vehicle_id);
+
+-- Create trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_vehicle_photos_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_vehicle_photos_updated_at ON public.vehicle_photos;
+
+CREATE TRIGGER trigger_update_vehicle_photos_updated_at
+    BEFORE UPDATE ON public.vehicle_photos
+    FOR EACH ROW
+    EXECUTE FUNCTION update_vehicle_photos_updated_at();
@@ -0,0 +1,27 @@
+-- Sold / pending / reactivation details and location history on vehicles
+-- Run this in your Supabase SQL Editor
+
+-- Sale details captured by the Mark as Sold dialog
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS sold_by TEXT;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS sold_date DATE;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS sold_price NUMERIC;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS sold_to TEXT;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS sold_notes TEXT;
+
+-- Pending deal details
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS pending_by TEXT;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS pending_date TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS pending_notes TEXT;
+
+-- Set when a sold or pending vehicle is returned to active inventory
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS reactivated_by TEXT;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS reactivated_date TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS reactivated_from TEXT CHECK (reactivated_from IS NULL OR reactivated_from = ANY (ARRAY['sold'::text, 'pending'::text]));
+
+-- Location moves, oldest first: [{ location, changedBy, changedDate, timestamp }]
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS location_changed_by TEXT;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS location_changed_date TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS location_history JSONB NOT NULL DEFAULT '[]';
+
+-- Sales reporting filters on sold date
+CREATE INDEX IF NOT EXISTS idx_vehicles_sold_date ON public.vehicles(sold_date);
@@ -0,0 +1,8 @@
+-- Vendor scorecards: comeback flag on sublet jobs
+-- Run this in your Supabase SQL Editor
+
+-- Marks a job whose work failed and had to be redone, for the vendor's comeback rate
+ALTER TABLE public.sublet_jobs ADD COLUMN IF NOT EXISTS is_comeback BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Scorecards load every job in the dealership
+CREATE INDEX IF NOT EXISTS idx_sublet_jobs_dealership_sent_date ON public.sublet_jobs(dealership_id, sent_date DESC);
@@ -0,0 +1,75 @@
+-- Work orders: repair lines raised from inspection items rated Needs Attention
+-- Run this in your Supabase SQL Editor
+
+-- Create work_order_lines table
+CREATE TABLE IF NOT EXISTS public.work_order_lines (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    dealership_id UUID NOT NULL REFERENCES public.dealerships(id) ON DELETE CASCADE,
+    vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+    section_key TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    item_label TEXT NOT NULL,
+    description TEXT,
+    estimate NUMERIC,
+    approval_status TEXT NOT NULL DEFAULT 'requested' CHECK (approval_status = ANY (ARRAY['requested'::text, 'approved'::text, 'declined'::text])),
+    approval_by TEXT,
+    approval_date TIMESTAMP WITH TIME ZONE,
+    approval_notes TEXT,
+    assignee_contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+    assignee_name TEXT,
+    completed_by TEXT,
+    completed_date TIMESTAMP WITH TIME ZONE,
+    completion_notes TEXT,
+    reinspection_rating TEXT,
+    reinspected_by TEXT,
+    reinspected_at TIMESTAMP WITH TIME ZONE,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.work_order_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage work orders in their dealership" ON public.work_order_lines;
+
+CREATE POLICY "Users can manage work orders in their dealership" ON public.work_order_lines
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = work_order_lines.dealership_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = auth.uid()
+      AND p.dealership_id = work_order_lines.dealership_id
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_work_order_lines_dealership_id ON public.work_order_lines(dealership_id);
+CREATE INDEX IF NOT EXISTS idx_work_order_lines_vehicle_id ON public.work_order_lines(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_work_order_lines_approval_status ON public.work_order_lines(approval_status);
+
+-- Create trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_work_order_lines_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_work_order_lines_updated_at ON public.work_order_lines;
+
+CREATE TRIGGER trigger_update_work_order_lines_updated_at
+    BEFORE UPDATE ON public.work_order_lines
+    FOR EACH ROW
+    EXECUTE FUNCTION update_work_order_lines_updated_at();
+
+-- Live updates for the vehicle work order panel and the approval queue
+ALTER PUBLICATION supabase_realtime ADD TABLE public.work_order_lines;
+ALTER TABLE public.work_order_lines REPLICA IDENTITY FULL;
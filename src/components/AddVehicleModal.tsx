@@ -1,14 +1,20 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Vehicle, InspectionStatus } from '../types/vehicle';
-import { X, Car, Calendar, MapPin, Gauge, Palette } from 'lucide-react';
+import { DecodedVin } from '../types/vinDecoder';
+import { VinDecoder } from '../utils/vinDecoder';
+import { LocationManager } from '../utils/locationManager';
+import { useAuth } from '../contexts/AuthContext';
+import { X, Car, Calendar, MapPin, Gauge, Palette, CheckCircle2, AlertTriangle } from 'lucide-react';
 
 interface AddVehicleModalProps {
   isOpen: boolean;
   onClose: () => void;
   onAddVehicle: (vehicle: Omit<Vehicle, 'id'>) => void;
+  initialVin?: string; // Pre-fills and decodes a scanned VIN that isn't in inventory yet
 }
 
-const AddVehicleModal: React.FC<AddVehicleModalProps> = ({ isOpen, onClose, onAddVehicle }) => {
+const AddVehicleModal: React.FC<AddVehicleModalProps> = ({ isOpen, onClose, onAddVehicle, initialVin }) => {
+  const { dealership } = useAuth();
   const [formData, setFormData] = useState({
     vin: '',
     year: new Date().getFullYear(),
@@ -23,12 +29,35 @@ const AddVehicleModal: React.FC<AddVehicleModalProps> = ({ isOpen, onClose, onAd
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [decodedVin, setDecodedVin] = useState<DecodedVin | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !initialVin) return;
+    const vin = initialVin.toUpperCase();
+    const decoded = VinDecoder.decode(vin);
+    setDecodedVin(decoded);
+    setFormData(prev => ({
+      ...prev,
+      vin,
+      year: decoded.modelYear || prev.year,
+      make: decoded.make || prev.make,
+      model: decoded.model || prev.model,
+      trim: decoded.trim || prev.trim
+    }));
+  }, [isOpen, initialVin]);
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
     if (!formData.vin.trim()) newErrors.vin = 'VIN is required';
-    if (formData.vin.length !== 17) newErrors.vin = 'VIN must be 17 characters';
+    if (formData.vin.length !== 17) {
+      newErrors.vin = 'VIN must be 17 characters';
+    } else if (!VinDecoder.isValidFormat(formData.vin)) {
+      newErrors.vin = 'VIN contains invalid characters (I, O and Q are not allowed)';
+    } else if (!VinDecoder.isCheckDigitValid(formData.vin) && VinDecoder.getRegion(formData.vin).region === 'North America') {
+      // Check digits are only mandatory for North American VINs
+      newErrors.vin = 'VIN check digit is invalid - please double-check the VIN';
+    }
     if (!formData.make.trim()) newErrors.make = 'Make is required';
     if (!formData.model.trim()) newErrors.model = 'Model is required';
     if (!formData.color.trim()) newErrors.color = 'Color is required';
@@ -49,11 +78,22 @@ const AddVehicleModal: React.FC<AddVehicleModalProps> = ({ isOpen, onClose, onAd
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!validateForm()) return;
 
+    if (dealership) {
+      const capacityCheck = await LocationManager.checkLocationCapacity(dealership.id, formData.location);
+      if (!capacityCheck.allowed) {
+        setErrors(prev => ({ ...prev, location: `${capacityCheck.message} Choose another location.` }));
+        return;
+      }
+      if (capacityCheck.isOverCapacity && !window.confirm(`${capacityCheck.message} Add the vehicle there anyway?`)) {
+        return;
+      }
+    }
+
     const newVehicle: Omit<Vehicle, 'id'> = {
       ...formData,
       vin: formData.vin.toUpperCase(),
@@ -93,6 +133,7 @@ const AddVehicleModal: React.FC<AddVehicleModalProps> = ({ isOpen, onClose, onAd
       notes: ''
     });
     setErrors({});
+    setDecodedVin(null);
     onClose();
   };
 
@@ -103,6 +144,35 @@ const AddVehicleModal: React.FC<AddVehicleModalProps> = ({ isOpen, onClose, onAd
     }
   };
 
+  const handleVinChange = (value: string) => {
+    const vin = value.toUpperCase();
+    handleInputChange('vin', vin);
+
+    if (vin.length !== 17) {
+      setDecodedVin(null);
+      return;
+    }
+
+    const decoded = VinDecoder.decode(vin);
+    const previous = decodedVin;
+    setDecodedVin(decoded);
+
+    // Only fill fields that are blank or still hold a value from a previous decode,
+    // so anything typed by hand is left alone
+    setFormData(prev => {
+      const canFill = (current: string, previousValue?: string) => !current.trim() || current === previousValue;
+      return {
+        ...prev,
+        year: decoded.modelYear && (prev.year === new Date().getFullYear() || prev.year === previous?.modelYear || !prev.year)
+          ? decoded.modelYear
+          : prev.year,
+        make: decoded.make && canFill(prev.make, previous?.make) ? decoded.make : prev.make,
+        model: decoded.model && canFill(prev.model, previous?.model) ? decoded.model : prev.model,
+        trim: decoded.trim && canFill(prev.trim, previous?.trim) ? decoded.trim : prev.trim
+      };
+    });
+  };
+
   const popularMakes = [
     'Acura', 'Audi', 'BMW', 'Buick', 'Cadillac', 'Chevrolet', 'Chrysler', 'Dodge',
     'Ford', 'GMC', 'Honda', 'Hyundai', 'Infiniti', 'Jeep', 'Kia', 'Lexus',
@@ -156,7 +226,7 @@ const AddVehicleModal: React.FC<AddVehicleModalProps> = ({ isOpen, onClose, onAd
                 <input
                   type="text"
                   value={formData.vin}
-                  onChange={(e) => handleInputChange('vin', e.target.value.toUpperCase())}
+                  onChange={(e) => handleVinChange(e.target.value)}
                   placeholder="Enter 17-character VIN"
                   maxLength={17}
                   className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm sm:text-base ${
@@ -164,6 +234,35 @@ const AddVehicleModal: React.FC<AddVehicleModalProps> = ({ isOpen, onClose, onAd
                   }`}
                 />
                 {errors.vin && <p className="text-red-600 text-sm mt-1">{errors.vin}</p>}
+                {decodedVin && !errors.vin && (
+                  decodedVin.errors.length === 0 ? (
+                    <div className="mt-2 p-3 bg-emerald-50 border border-emerald-200 rounded-lg text-sm">
+                      <div className="flex items-center gap-2 text-emerald-800 font-medium">
+                        <CheckCircle2 className="w-4 h-4" />
+                        <span>
+                          Decoded: {[decodedVin.modelYear, decodedVin.make, decodedVin.model, decodedVin.trim].filter(Boolean).join(' ') || 'Unknown vehicle'}
+                        </span>
+                      </div>
+                      <p className="text-emerald-700 text-xs mt-1">
+                        {[decodedVin.manufacturer, decodedVin.plant ? `Plant: ${decodedVin.plant}` : null, decodedVin.country]
+                          .filter(Boolean)
+                          .join(' • ')}
+                        {!decodedVin.model && ' • Model not in lookup table, please enter it manually'}
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                      <div className="flex items-start gap-2">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <div>
+                          {decodedVin.errors.map((error, index) => (
+                            <p key={index}>{error}</p>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  )
+                )}
               </div>
 
               <div>
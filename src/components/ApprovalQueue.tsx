@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { getStockNumber } from '../types/vehicle';
+import { WorkOrderApprovalRequest } from '../types/workOrder';
+import { WorkOrderManager } from '../utils/workOrderManager';
+import { ReconApprovalManager } from '../utils/reconApprovalManager';
+import { ReconCostManager } from '../utils/reconCostManager';
+import { ClipboardCheck, Check, X, User, ArrowRight, MessageSquare } from 'lucide-react';
+
+// Every repair estimate in the dealership waiting on a manager, oldest first
+const ApprovalQueue: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [requests, setRequests] = useState<WorkOrderApprovalRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [action, setAction] = useState<{ lineId: string; kind: 'decline' | 'comment' } | null>(null);
+  const [actionText, setActionText] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const dealershipId = user?.dealershipId;
+
+  useEffect(() => {
+    if (!dealershipId) return;
+    setIsLoading(true);
+    WorkOrderManager.getApprovalRequests(dealershipId)
+      .then(setRequests)
+      .finally(() => setIsLoading(false));
+
+    // Changes arrive without their vehicle, so requests reload the queue and decisions drop out of it
+    return WorkOrderManager.subscribeToLines({ dealershipId }, change => {
+      if (change.type === 'upsert' && change.record.approvalStatus === 'requested') {
+        WorkOrderManager.getApprovalRequests(dealershipId).then(setRequests);
+        return;
+      }
+      const removedId = change.type === 'delete' ? change.id : change.record.id;
+      setRequests(prev => prev.filter(request => request.line.id !== removedId));
+    });
+  }, [dealershipId]);
+
+  const totalRequested = requests.reduce((total, request) => total + (request.line.estimate || 0), 0);
+
+  const openAction = (lineId: string, kind: 'decline' | 'comment') => {
+    setAction({ lineId, kind });
+    setActionText('');
+  };
+
+  const handleDecision = async (request: WorkOrderApprovalRequest, status: 'approved' | 'declined') => {
+    if (!dealershipId || !user) return;
+    setSavingId(request.line.id);
+    try {
+      const saved = await ReconApprovalManager.decide(
+        dealershipId,
+        request,
+        status,
+        { initials: user.initials, name: `${user.firstName} ${user.lastName}` },
+        status === 'declined' ? actionText.trim() : undefined
+      );
+      if (!saved) {
+        alert(`Failed to ${status === 'approved' ? 'approve' : 'decline'} the estimate. Please try again.`);
+        return;
+      }
+      setRequests(prev => prev.filter(entry => entry.line.id !== request.line.id));
+      setAction(null);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleComment = async (request: WorkOrderApprovalRequest) => {
+    if (!dealershipId || !user || !actionText.trim()) return;
+    setSavingId(request.line.id);
+    try {
+      const saved = await ReconApprovalManager.comment(
+        dealershipId,
+        request,
+        actionText.trim(),
+        { initials: user.initials, name: `${user.firstName} ${user.lastName}` }
+      );
+      if (!saved) {
+        alert('Failed to add the comment. Please try again.');
+        return;
+      }
+      setRequests(prev => prev.map(entry => (entry.line.id === saved.id ? { ...entry, line: saved } : entry)));
+      setAction(null);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white/70 dark:bg-gray-900/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 dark:border-gray-700/20 p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center">
+              <ClipboardCheck className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Repair Approvals</h2>
+              <p className="text-gray-600">Recon estimates waiting for a manager before work starts</p>
+            </div>
+          </div>
+          {requests.length > 0 && (
+            <div className="text-right">
+              <p className="text-2xl font-bold text-gray-900">{ReconCostManager.formatCurrency(totalRequested)}</p>
+              <p className="text-xs text-gray-500">across {requests.length} {requests.length === 1 ? 'estimate' : 'estimates'}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white/70 dark:bg-gray-900/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 dark:border-gray-700/20 p-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading estimates...</p>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-gray-500">No estimates are waiting for approval.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {requests.map(({ line, vehicle }) => (
+              <li key={line.id} className="py-3">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <button
+                      onClick={() => navigate(`/vehicle/${vehicle.id}`)}
+                      className="inline-flex items-center gap-1 text-xs font-medium text-blue-700 hover:text-blue-900"
+                    >
+                      {vehicle.year} {vehicle.make} {vehicle.model} • #{getStockNumber(vehicle.vin)}
+                      <ArrowRight className="w-3 h-3" />
+                    </button>
+                    <p className="text-sm font-medium text-gray-900">{line.itemLabel}</p>
+                    {line.description && <p className="text-xs text-gray-700 mt-0.5">{line.description}</p>}
+                    {line.approvalReason && <p className="text-xs font-medium text-yellow-800 mt-0.5">{line.approvalReason}</p>}
+                    <p className="text-xs text-gray-500 mt-0.5 flex items-center gap-1">
+                      Requested by {line.requestedBy || line.createdBy} • raised {new Date(line.createdAt).toLocaleDateString()}
+                      {line.assigneeName && (
+                        <>
+                          {' • '}
+                          <User className="w-3 h-3" />
+                          {line.assigneeName}
+                        </>
+                      )}
+                    </p>
+                    {(line.comments || []).map(comment => (
+                      <p key={comment.id} className="text-xs text-gray-700 mt-1 pl-2 border-l-2 border-gray-200">
+                        <span className="font-medium">{comment.userName}:</span> {comment.text}
+                      </p>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className="text-sm font-semibold text-gray-900 mr-2">
+                      {line.estimate !== undefined ? ReconCostManager.formatCurrency(line.estimate) : 'No estimate'}
+                    </span>
+                    <button
+                      onClick={() => handleDecision({ line, vehicle }, 'approved')}
+                      disabled={savingId === line.id}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                    >
+                      <Check className="w-3 h-3" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => openAction(line.id, 'comment')}
+                      disabled={savingId === line.id}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <MessageSquare className="w-3 h-3" />
+                      Comment
+                    </button>
+                    <button
+                      onClick={() => openAction(line.id, 'decline')}
+                      disabled={savingId === line.id}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <X className="w-3 h-3" />
+                      Decline
+                    </button>
+                  </div>
+                </div>
+
+                {action?.lineId === line.id && (
+                  <div className="mt-2 flex gap-2">
+                    <input
+                      type="text"
+                      value={actionText}
+                      onChange={(e) => setActionText(e.target.value)}
+                      placeholder={action.kind === 'decline' ? 'Reason (optional)' : 'Comment for the requester'}
+                      className="flex-1 px-2 py-1.5 border border-gray-300 rounded text-sm"
+                      autoFocus
+                    />
+                    <button
+                      onClick={() => setAction(null)}
+                      className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    {action.kind === 'decline' ? (
+                      <button
+                        onClick={() => handleDecision({ line, vehicle }, 'declined')}
+                        disabled={savingId === line.id}
+                        className="px-3 py-1.5 text-xs font-semibold text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Decline Estimate
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleComment({ line, vehicle })}
+                        disabled={savingId === line.id || !actionText.trim()}
+                        className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Add Comment
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalQueue;
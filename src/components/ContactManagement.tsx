@@ -2,6 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { ContactManager } from '../utils/contactManager';
 import { Contact, ContactCategory, CONTACT_CATEGORY_CONFIGS } from '../types/contact';
+import { SubletJob, SUBLET_JOB_STATUS_CONFIGS } from '../types/subletJob';
+import { SubletJobManager } from '../utils/subletJobManager';
+import { ReconCostManager } from '../utils/reconCostManager';
+import VendorScorecards from './VendorScorecards';
 import { 
   Phone, 
   Plus, 
@@ -24,7 +28,9 @@ import {
   Users,
   BarChart3,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  History,
+  Trophy
 } from 'lucide-react';
 
 interface ContactModalProps {
@@ -442,6 +448,140 @@ const ContactModal: React.FC<ContactModalProps> = ({ contact, isOpen, onClose, o
   );
 };
 
+interface VendorHistoryModalProps {
+  contact: Contact;
+  dealershipId: string;
+  onClose: () => void;
+}
+
+// Sublet jobs sent to a vendor, with how long they take and what they've cost
+const VendorHistoryModal: React.FC<VendorHistoryModalProps> = ({ contact, dealershipId, onClose }) => {
+  const [jobs, setJobs] = useState<SubletJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    SubletJobManager.getVendorJobs(dealershipId, contact.id)
+      .then(setJobs)
+      .finally(() => setIsLoading(false));
+  }, [dealershipId, contact.id]);
+
+  const summary = SubletJobManager.getVendorSummary(jobs);
+  const formatJobDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString();
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-white/20 dark:border-gray-700/20">
+        <div className="sticky top-0 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm border-b border-gray-200/60 dark:border-gray-700/60 px-6 py-4 rounded-t-2xl">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center shadow-lg">
+                <History className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Vendor History</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{contact.company || contact.name}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="p-3 bg-gray-50/80 dark:bg-gray-700/50 rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-gray-400">Jobs</p>
+              <p className="text-lg font-bold text-gray-900 dark:text-white">{summary.jobCount}</p>
+            </div>
+            <div className="p-3 bg-gray-50/80 dark:bg-gray-700/50 rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-gray-400">At Vendor Now</p>
+              <p className="text-lg font-bold text-gray-900 dark:text-white">{summary.openJobs}</p>
+            </div>
+            <div className="p-3 bg-gray-50/80 dark:bg-gray-700/50 rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-gray-400">Avg Turnaround</p>
+              <p className="text-lg font-bold text-gray-900 dark:text-white">
+                {summary.averageTurnaroundDays !== undefined ? `${summary.averageTurnaroundDays} days` : '—'}
+              </p>
+            </div>
+            <div className="p-3 bg-gray-50/80 dark:bg-gray-700/50 rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-gray-400">Total Invoiced</p>
+              <p className="text-lg font-bold text-gray-900 dark:text-white">{ReconCostManager.formatCurrency(summary.totalInvoiced)}</p>
+            </div>
+            <div className="p-3 bg-gray-50/80 dark:bg-gray-700/50 rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-gray-400">On Time</p>
+              <p className="text-lg font-bold text-gray-900 dark:text-white">
+                {summary.onTimeRate !== undefined ? `${summary.onTimeRate}%` : '—'}
+              </p>
+            </div>
+            <div className="p-3 bg-gray-50/80 dark:bg-gray-700/50 rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-gray-400">Comebacks</p>
+              <p className="text-lg font-bold text-gray-900 dark:text-white">
+                {summary.comebackRate !== undefined ? `${summary.comebackRate}%` : '—'}
+              </p>
+            </div>
+            <div className="p-3 bg-gray-50/80 dark:bg-gray-700/50 rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-gray-400">Avg Invoice</p>
+              <p className="text-lg font-bold text-gray-900 dark:text-white">
+                {summary.averageInvoice !== undefined ? ReconCostManager.formatCurrency(summary.averageInvoice) : '—'}
+              </p>
+            </div>
+            <div className="p-3 bg-gray-50/80 dark:bg-gray-700/50 rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-gray-400">Jobs / Month</p>
+              <p className="text-lg font-bold text-gray-900 dark:text-white">{summary.jobCount > 0 ? summary.jobsPerMonth : '—'}</p>
+            </div>
+          </div>
+
+          {/* Jobs */}
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading job history...</p>
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No vehicles have been sent to this vendor yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {jobs.map(job => {
+                const status = SubletJobManager.getStatus(job);
+                const days = SubletJobManager.getTurnaroundDays(job);
+                return (
+                  <li key={job.id} className="py-3 flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold border ${SUBLET_JOB_STATUS_CONFIGS[status].color}`}>
+                          {SUBLET_JOB_STATUS_CONFIGS[status].label}
+                        </span>
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{job.vehicleName}</p>
+                        {job.isComeback && (
+                          <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold border bg-orange-100 text-orange-800 border-orange-200">
+                            Comeback
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-700 dark:text-gray-300 mt-0.5">{job.description}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                        Sent {formatJobDate(job.sentDate)}
+                        {job.returnedDate ? ` • back ${formatJobDate(job.returnedDate)}` : ' • still out'}
+                        {` • ${days} ${days === 1 ? 'day' : 'days'}`}
+                      </p>
+                    </div>
+                    <span className="text-sm font-semibold text-gray-900 dark:text-white flex-shrink-0">
+                      {job.invoiceAmount !== undefined ? ReconCostManager.formatCurrency(job.invoiceAmount) : 'No invoice'}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const ContactManagement: React.FC = () => {
   const { dealership, user } = useAuth();
   const [contacts, setContacts] = useState<Contact[]>([]);
@@ -452,6 +592,8 @@ const ContactManagement: React.FC = () => {
   const [showFilters, setShowFilters] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingContact, setEditingContact] = useState<Contact | null>(null);
+  const [historyContact, setHistoryContact] = useState<Contact | null>(null);
+  const [showScorecards, setShowScorecards] = useState(false);
   const [loading, setLoading] = useState(false);
   const [stats, setStats] = useState({
     total: 0,
@@ -615,14 +757,27 @@ const ContactManagement: React.FC = () => {
               <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 hidden sm:block">Manage your reconditioning service contacts</p>
             </div>
           </div>
-          <button
-            onClick={() => setShowAddModal(true)}
-            className="inline-flex items-center gap-1 sm:gap-2 px-3 py-1.5 sm:px-4 sm:py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium text-sm"
-          >
-            <Plus className="w-3 h-3 sm:w-4 sm:h-4" />
-            <span className="hidden sm:inline">Add Contact</span>
-            <span className="sm:hidden">Add</span>
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowScorecards(!showScorecards)}
+              className={`inline-flex items-center gap-1 sm:gap-2 px-3 py-1.5 sm:px-4 sm:py-2 rounded-lg transition-colors font-medium text-sm ${
+                showScorecards
+                  ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              <Trophy className="w-3 h-3 sm:w-4 sm:h-4" />
+              <span>Scorecards</span>
+            </button>
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="inline-flex items-center gap-1 sm:gap-2 px-3 py-1.5 sm:px-4 sm:py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium text-sm"
+            >
+              <Plus className="w-3 h-3 sm:w-4 sm:h-4" />
+              <span className="hidden sm:inline">Add Contact</span>
+              <span className="sm:hidden">Add</span>
+            </button>
+          </div>
         </div>
       </div>
 
@@ -679,6 +834,15 @@ const ContactManagement: React.FC = () => {
         </div>
       </div>
 
+      {/* Vendor Scorecards */}
+      {showScorecards && dealership && (
+        <VendorScorecards
+          dealershipId={dealership.id}
+          contacts={contacts}
+          onViewHistory={setHistoryContact}
+        />
+      )}
+
       {/* MOBILE OPTIMIZED: Compact search and filters */}
       <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-xl shadow-lg border border-white/20 dark:border-gray-700/20 p-3 sm:p-4 transition-colors duration-300">
         {/* Search and Filter Toggle Row */}
@@ -878,6 +1042,13 @@ const ContactManagement: React.FC = () => {
                       <PhoneCall className="w-3 h-3 sm:w-4 sm:h-4" />
                       <span>Call</span>
                     </button>
+                    <button
+                      onClick={() => setHistoryContact(contact)}
+                      className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                      title="Vendor History"
+                    >
+                      <History className="w-3 h-3 sm:w-4 sm:h-4" />
+                    </button>
                     <button
                       onClick={() => setEditingContact(contact)}
                       className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
@@ -924,6 +1095,15 @@ const ContactManagement: React.FC = () => {
         }}
         onSave={editingContact ? handleEditContact : handleAddContact}
       />
+
+      {/* Vendor History Modal */}
+      {historyContact && dealership && (
+        <VendorHistoryModal
+          contact={historyContact}
+          dealershipId={dealership.id}
+          onClose={() => setHistoryContact(null)}
+        />
+      )}
     </div>
   );
 };
@@ -48,7 +48,7 @@ const CustomerInspectionPDF: React.FC<CustomerInspectionPDFProps> = ({
       setSettingsLoaded(false);
       if (dealership && isOpen) {
         await InspectionDataManager.initializeDefaultSettings(dealership.id);
-        const settings = await InspectionDataManager.getSettings(dealership.id);
+        const settings = await InspectionDataManager.getVehicleSettings(dealership.id, vehicle);
         if (!cancelled) {
           setInspectionSettings(settings);
           setSettingsLoaded(true);
@@ -62,7 +62,7 @@ const CustomerInspectionPDF: React.FC<CustomerInspectionPDFProps> = ({
     return () => { cancelled = true; };
   }, [dealership, vehicle, isOpen]);
 
-  // Listen for inspection data changes
+  // Listen for inspection data changes, from this browser and from other devices
   useEffect(() => {
     const handleStorageChange = (e: StorageEvent) => {
       if (e.key === 'vehicleInspections') {
@@ -71,8 +71,14 @@ const CustomerInspectionPDF: React.FC<CustomerInspectionPDFProps> = ({
     };
 
     window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, []);
+    const unsubscribe = isOpen
+      ? InspectionDataManager.subscribeToInspection(vehicle.id, () => setLastRefreshed(new Date()))
+      : null;
+    return () => {
+      window.removeEventListener('storage', handleStorageChange);
+      if (unsubscribe) unsubscribe();
+    };
+  }, [isOpen, vehicle.id]);
 
   // Separate useEffect for generating PDF to ensure settings are loaded
   useEffect(() => {
@@ -0,0 +1,415 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  DamageDiagramView,
+  DamagePin,
+  DamageSeverity,
+  DamageType,
+  DAMAGE_DIAGRAM_VIEW_LABELS,
+  DAMAGE_SEVERITY_CONFIGS,
+  DAMAGE_TYPE_CONFIGS
+} from '../types/damage';
+import { DamageDiagramManager } from '../utils/damageDiagramManager';
+import { OfflineSyncManager } from '../utils/offlineSyncManager';
+import { Crosshair, Plus, Trash2, X } from 'lucide-react';
+
+interface DamageDiagramProps {
+  vehicleId: string;
+  pins: DamagePin[];
+  onSavePin: (pin: DamagePin) => void;
+  onRemovePin: (pin: DamagePin) => void;
+}
+
+interface PinModalProps {
+  vehicleId: string;
+  pin: DamagePin;
+  number: number;
+  isNew: boolean;
+  onSave: (pin: DamagePin) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+const PinModal: React.FC<PinModalProps> = ({ vehicleId, pin, number, isNew, onSave, onRemove, onClose }) => {
+  const { user } = useAuth();
+  const [type, setType] = useState<DamageType>(pin.type);
+  const [severity, setSeverity] = useState<DamageSeverity>(pin.severity);
+  const [estimatedCost, setEstimatedCost] = useState(pin.estimatedCost !== undefined ? String(pin.estimatedCost) : '');
+  const [notes, setNotes] = useState(pin.notes || '');
+  const [photoPaths, setPhotoPaths] = useState<string[]>(pin.photoPaths);
+  const [localUrls, setLocalUrls] = useState<Record<string, string>>({}); // Photos not uploaded yet
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Photos taken offline are still on the device
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    OfflineSyncManager.getPendingPhotos(vehicleId)
+      .then(pending => {
+        if (cancelled) return;
+        const queued = pending
+          .filter(photo => photo.sectionKey === 'damage' && photo.itemId === pin.id)
+          .reduce<Record<string, string>>((acc, photo) => {
+            acc[photo.path] = URL.createObjectURL(photo.file);
+            urls.push(acc[photo.path]);
+            return acc;
+          }, {});
+        setLocalUrls(prev => ({ ...queued, ...prev }));
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [vehicleId, pin.id]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0 || !user?.dealershipId) return;
+    setIsUploading(true);
+    setError(null);
+    try {
+      for (const file of Array.from(files)) {
+        if (!file.type.startsWith('image/') || file.size > 10 * 1024 * 1024) continue;
+        const result = await DamageDiagramManager.uploadPhoto(user.dealershipId, vehicleId, pin.id, file, user.initials);
+        if (!result) {
+          setError('Failed to save a photo. Please try again.');
+          continue;
+        }
+        const { path, pending } = result;
+        setPhotoPaths(prev => [...prev, path]);
+        if (pending) setLocalUrls(prev => ({ ...prev, [path]: URL.createObjectURL(file) }));
+      }
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemovePhoto = async (path: string) => {
+    if (!user?.dealershipId) return;
+    setPhotoPaths(prev => prev.filter(entry => entry !== path));
+    await DamageDiagramManager.removePhoto(user.dealershipId, path);
+  };
+
+  const handleSave = () => {
+    const cost = parseFloat(estimatedCost);
+    if (estimatedCost.trim() && (isNaN(cost) || cost < 0)) {
+      setError('Enter the estimated repair cost as a dollar amount.');
+      return;
+    }
+    const updated: DamagePin = { ...pin, type, severity, photoPaths };
+    if (estimatedCost.trim()) {
+      updated.estimatedCost = Math.round(cost * 100) / 100;
+    } else {
+      delete updated.estimatedCost;
+    }
+    if (notes.trim()) {
+      updated.notes = notes.trim();
+    } else {
+      delete updated.notes;
+    }
+    onSave(updated);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200/60">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">{isNew ? 'Mark Damage' : `Damage #${number}`}</h3>
+            <p className="text-sm text-gray-600">{DAMAGE_DIAGRAM_VIEW_LABELS[pin.view]}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+            <div className="grid grid-cols-4 gap-2">
+              {(Object.keys(DAMAGE_TYPE_CONFIGS) as DamageType[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setType(option)}
+                  className={`px-2 py-2 rounded-lg text-sm font-medium border-2 transition-colors ${
+                    type === option ? 'bg-blue-600 text-white border-blue-500' : 'bg-gray-100 text-gray-700 border-gray-200 hover:bg-gray-200'
+                  }`}
+                >
+                  {DAMAGE_TYPE_CONFIGS[option].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Severity</label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(DAMAGE_SEVERITY_CONFIGS) as DamageSeverity[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setSeverity(option)}
+                  className={`px-2 py-2 rounded-lg text-sm font-medium border-2 transition-colors ${
+                    severity === option ? `${DAMAGE_SEVERITY_CONFIGS[option].color} border-current` : 'bg-gray-100 text-gray-700 border-gray-200 hover:bg-gray-200'
+                  }`}
+                >
+                  {DAMAGE_SEVERITY_CONFIGS[option].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Estimated Repair Cost</label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">$</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                inputMode="decimal"
+                value={estimatedCost}
+                onChange={(e) => setEstimatedCost(e.target.value)}
+                placeholder="0.00"
+                className="w-full pl-7 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              placeholder="e.g., Door ding, paint intact"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Photos</label>
+            <div className="grid grid-cols-3 gap-2">
+              {photoPaths.map(path => (
+                <div key={path} className="relative group">
+                  <img
+                    src={localUrls[path] || DamageDiagramManager.getPhotoUrl(path)}
+                    alt="Damage"
+                    className="w-full h-20 object-cover rounded-lg border border-gray-200"
+                  />
+                  {localUrls[path] && (
+                    <span className="absolute bottom-1 left-1 px-1.5 py-0.5 bg-orange-500 text-white text-[10px] rounded-full font-medium">
+                      Waiting to upload
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePhoto(path)}
+                    className="absolute top-1 right-1 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Remove photo"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <label className={`h-20 flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed border-gray-300 hover:border-gray-400 text-gray-500 text-xs cursor-pointer ${
+                isUploading ? 'opacity-50 cursor-not-allowed' : ''
+              }`}>
+                <Plus className="w-4 h-4" />
+                {isUploading ? 'Uploading...' : 'Add Photo'}
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  disabled={isUploading}
+                  onChange={(e) => {
+                    handleFiles(e.target.files);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 border-t border-gray-200/60">
+          {!isNew ? (
+            <button
+              onClick={onRemove}
+              className="inline-flex items-center gap-1 px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors text-sm font-medium"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+          ) : <span />}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isUploading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Tap a spot on the silhouette to mark a dent, scratch, chip or crack there
+const DamageDiagram: React.FC<DamageDiagramProps> = ({ vehicleId, pins, onSavePin, onRemovePin }) => {
+  const { user } = useAuth();
+  const [view, setView] = useState<DamageDiagramView>('top');
+  const [editing, setEditing] = useState<{ pin: DamagePin; isNew: boolean } | null>(null);
+
+  const silhouette = DamageDiagramManager.getSilhouette(view);
+  const numbers = DamageDiagramManager.getPinNumbers(pins);
+  const total = DamageDiagramManager.getTotalEstimate(pins);
+
+  const handleDiagramClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!user) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((e.clientY - bounds.top) / bounds.height) * 100;
+    setEditing({ pin: DamageDiagramManager.createPin(view, x, y, user.initials), isNew: true });
+  };
+
+  const handleSave = (pin: DamagePin) => {
+    if (!user) return;
+    onSavePin(editing?.isNew ? pin : { ...pin, updatedBy: user.initials, updatedAt: new Date().toISOString() });
+    setEditing(null);
+  };
+
+  const handleRemove = (pin: DamagePin) => {
+    if (!confirm(`Delete damage #${numbers[pin.id]}?`)) return;
+    onRemovePin(pin);
+    setEditing(null);
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50/80 rounded-lg border border-gray-200/60">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h5 className="font-medium text-gray-900 text-sm flex items-center gap-2">
+          <Crosshair className="w-4 h-4" />
+          Damage Diagram
+        </h5>
+        <div className="flex gap-1">
+          {(Object.keys(DAMAGE_DIAGRAM_VIEW_LABELS) as DamageDiagramView[]).map(option => {
+            const count = pins.filter(pin => pin.view === option).length;
+            return (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                  view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-100'
+                }`}
+              >
+                {DAMAGE_DIAGRAM_VIEW_LABELS[option]}{count > 0 ? ` (${count})` : ''}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className={`mx-auto ${view === 'top' ? 'max-w-[220px]' : 'max-w-md'}`}>
+        <svg
+          viewBox={`0 0 ${silhouette.width} ${silhouette.height}`}
+          className="w-full h-auto cursor-crosshair select-none"
+          onClick={handleDiagramClick}
+        >
+          <g transform={silhouette.mirrored ? `translate(${silhouette.width} 0) scale(-1 1)` : undefined}>
+            {silhouette.body.map(d => (
+              <path key={d} d={d} fill="#f3f4f6" stroke="#6b7280" strokeWidth={2} />
+            ))}
+            {silhouette.details.map(d => (
+              <path key={d} d={d} fill="#e5e7eb" stroke="#9ca3af" strokeWidth={1.5} />
+            ))}
+          </g>
+          {pins.filter(pin => pin.view === view).map(pin => {
+            const cx = (pin.x / 100) * silhouette.width;
+            const cy = (pin.y / 100) * silhouette.height;
+            return (
+              <g
+                key={pin.id}
+                className="cursor-pointer"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setEditing({ pin, isNew: false });
+                }}
+              >
+                <circle cx={cx} cy={cy} r={11} fill={DAMAGE_SEVERITY_CONFIGS[pin.severity].hex} stroke="#ffffff" strokeWidth={2} />
+                <text x={cx} y={cy + 4} textAnchor="middle" fontSize={11} fontWeight="bold" fill="#ffffff" className="pointer-events-none">
+                  {numbers[pin.id]}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      <p className="text-xs text-gray-500 text-center mt-1">Tap the vehicle to mark damage</p>
+
+      {pins.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {pins.map(pin => (
+            <button
+              key={pin.id}
+              onClick={() => {
+                setView(pin.view);
+                setEditing({ pin, isNew: false });
+              }}
+              className="w-full flex items-center justify-between gap-2 px-3 py-2 bg-white rounded-lg border border-gray-200/60 hover:bg-gray-50 text-left"
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <span
+                  className="w-5 h-5 rounded-full text-white text-xs font-bold flex items-center justify-center flex-shrink-0"
+                  style={{ backgroundColor: DAMAGE_SEVERITY_CONFIGS[pin.severity].hex }}
+                >
+                  {numbers[pin.id]}
+                </span>
+                <span className="text-sm text-gray-900 truncate">
+                  {DamageDiagramManager.describePin(pin)}
+                  {pin.notes && <span className="text-gray-500"> · {pin.notes}</span>}
+                </span>
+              </span>
+              <span className="text-xs text-gray-500 flex-shrink-0">
+                {pin.photoPaths.length > 0 && `${pin.photoPaths.length} photo${pin.photoPaths.length === 1 ? '' : 's'} · `}
+                {DAMAGE_DIAGRAM_VIEW_LABELS[pin.view]}
+              </span>
+            </button>
+          ))}
+          {total > 0 && (
+            <p className="text-sm font-medium text-gray-900 text-right pt-1">
+              Estimated repairs: {DamageDiagramManager.formatCost(total)}
+            </p>
+          )}
+        </div>
+      )}
+
+      {editing && (
+        <PinModal
+          vehicleId={vehicleId}
+          pin={editing.pin}
+          number={numbers[editing.pin.id] || pins.length + 1}
+          isNew={editing.isNew}
+          onSave={handleSave}
+          onRemove={() => handleRemove(editing.pin)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DamageDiagram;
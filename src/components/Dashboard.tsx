@@ -1,7 +1,9 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
-import { Vehicle } from '../types/vehicle';
+import { Vehicle, InspectionStatus } from '../types/vehicle';
+import { RealtimeChange } from '../types/realtime';
 import { DatabaseService } from '../utils/database';
 import { 
   Car,
@@ -12,6 +14,8 @@ import {
   Settings, 
   BarChart3, 
   Plus,
+  Upload,
+  Download,
   Search,
   Filter,
   LogOut,
@@ -39,32 +43,60 @@ import {
   RotateCcw,
   Target,
   Activity,
-  ClipboardList
+  ClipboardList,
+  ClipboardCheck,
+  Timer,
+  ScanLine,
+  Tag,
+  Package
 } from 'lucide-react';
 import { supabase } from '../utils/supabaseClient';
 import { VehicleManager } from '../utils/vehicleManager';
+import { InventoryExportManager, InventoryExportFormat } from '../utils/inventoryExport';
+import { KeyTagGenerator, ScanResult } from '../utils/keyTagGenerator';
+import { ReconCostManager } from '../utils/reconCostManager';
+import { ReconStageManager } from '../utils/reconStageManager';
+import { PartOrderManager } from '../utils/partOrderManager';
 import { InspectionDataManager } from '../utils/inspectionDataManager';
+import { InspectionRecordManager } from '../utils/inspectionRecordManager';
 import VehicleCard from './VehicleCard';
 import AddVehicleModal from './AddVehicleModal';
+import VehicleImportWizard from './VehicleImportWizard';
+import ScanVehicleModal from './ScanVehicleModal';
 import Analytics from './Analytics';
 import UserManagement from './UserManagement';
 import LocationManagement from './LocationManagement';
 import LocationSettings from './LocationSettings';
+import SlaSettings from './SlaSettings';
+import ReconApprovalSettings from './ReconApprovalSettings';
 import ThemeSettings from './ThemeSettings';
 import ContactManagement from './ContactManagement';
 import TodoCalendar from './TodoCalendar';
+import ApprovalQueue from './ApprovalQueue';
 import InspectionSettings from './InspectionSettings';
 import { ProgressCalculator } from '../utils/progressCalculator';
-import { InspectionSection } from '../types/inspectionSettings';
+import { InspectionSection, InspectionSettings as InspectionSettingsType } from '../types/inspectionSettings';
+import { InspectionTemplateManager } from '../utils/inspectionTemplateManager';
+import { InspectionRecord, ProgressOptions, VehicleReadiness } from '../types/inspectionRecord';
+import { SlaSettings as SlaSettingsType, DEFAULT_SLA_SETTINGS } from '../types/reconStage';
 import { Menu as HeadlessMenu } from '@headlessui/react';
 import { ChevronDownIcon } from '@heroicons/react/20/solid';
 
-type DashboardView = 'inventory' | 'analytics' | 'users' | 'locations' | 'contacts' | 'todos' | 'settings' | 'inspection-settings';
-type VehicleFilter = 'all' | 'active' | 'completed' | 'pending' | 'needs-attention' | 'sold' | 'vehicle-pending';
+type DashboardView = 'inventory' | 'analytics' | 'users' | 'locations' | 'contacts' | 'todos' | 'approvals' | 'settings' | 'inspection-settings';
+type VehicleFilter = 'all' | 'active' | 'completed' | 'pending' | 'needs-attention' | 'sold' | 'vehicle-pending' | 'over-budget' | 'sla-breach' | 'waiting-on-parts';
 type LocationFilter = 'all' | 'on-site' | 'off-site' | 'in-transit' | string; // string allows for specific location names
 
+// Section progress buckets on the dashboard, keyed by section status
+const SECTION_FILTER_STATUS: Record<InspectionStatus, 'ready' | 'working' | 'issues' | 'unchecked'> = {
+  'completed': 'ready',
+  'pending': 'working',
+  'needs-attention': 'issues',
+  'not-started': 'unchecked'
+};
+
 const Dashboard: React.FC = () => {
   const { user, dealership, logout } = useAuth();
+  const navigate = useNavigate();
   // Theme context available if needed
   useTheme();
   const [activeView, setActiveView] = useState<DashboardView>('inventory');
@@ -72,6 +104,9 @@ const Dashboard: React.FC = () => {
   const [locationFilter, setLocationFilter] = useState<LocationFilter[]>(['all']);
   const [searchTerm, setSearchTerm] = useState('');
   const [showAddVehicle, setShowAddVehicle] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const [scannedVin, setScannedVin] = useState<string | undefined>(undefined);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   
@@ -80,11 +115,16 @@ const Dashboard: React.FC = () => {
   const [soldVehicles, setSoldVehicles] = useState<Vehicle[]>([]);
   const [pendingVehicles, setPendingVehicles] = useState<Vehicle[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [vehicleInspectionData, setVehicleInspectionData] = useState<Record<string, any>>({});
+  const [vehicleInspectionData, setVehicleInspectionData] = useState<Record<string, InspectionRecord>>({});
+  const [reconCostTotals, setReconCostTotals] = useState<Record<string, number>>({});
+  const [outstandingPartCounts, setOutstandingPartCounts] = useState<Record<string, number>>({});
+  const [slaSettings, setSlaSettings] = useState<SlaSettingsType>(DEFAULT_SLA_SETTINGS);
   const [inspectionDataLoaded, setInspectionDataLoaded] = useState(false);
 
   // NEW: Dynamic sections state
   const [allSections, setAllSections] = useState<InspectionSection[]>([]);
+  const [inspectionSettings, setInspectionSettings] = useState<InspectionSettingsType | null>(null);
+  const [progressOptions, setProgressOptions] = useState<ProgressOptions>({});
   const [isLoadingSettings, setIsLoadingSettings] = useState(true);
 
   // NEW: Locations state
@@ -125,6 +165,8 @@ const Dashboard: React.FC = () => {
             .filter(section => section.isActive)
             .sort((a, b) => a.order - b.order);
           setAllSections(sections);
+          setInspectionSettings(settings);
+          setProgressOptions(ProgressCalculator.getOptions(settings));
           
           // Initialize selectedSection with "emissions" if available, otherwise "all-sections"
           if (sections.length > 0) {
@@ -227,33 +269,63 @@ const Dashboard: React.FC = () => {
     }
   }, [dealership]);
 
-  // Load inspection data for all vehicles
+  // Keep the lists current as vehicles are changed on other devices
   useEffect(() => {
-    if (vehicles.length > 0 && user) {
-      loadInspectionDataForVehicles();
-    }
-  }, [vehicles, user]);
+    if (!dealership) return;
+    return VehicleManager.subscribeToVehicles({ dealershipId: dealership.id }, handleVehicleChange);
+  }, [dealership]);
 
-  const loadInspectionDataForVehicles = async () => {
-    if (!user) return;
-    
+  const loadInspectionDataForVehicles = useCallback(async (vehicleIds: string[], userId: string) => {
     setInspectionDataLoaded(false);
-    const inspectionDataMap: Record<string, any> = {};
+    const inspectionDataMap: Record<string, InspectionRecord> = {};
     
     // Load inspection data for each vehicle
-    for (const vehicle of vehicles) {
+    for (const vehicleId of vehicleIds) {
       try {
-        const data = await InspectionDataManager.loadInspectionData(vehicle.id, user.id);
-        inspectionDataMap[vehicle.id] = data || {};
-        console.log(`Inspection data for vehicle ${vehicle.id}:`, data);
+        const data = await InspectionDataManager.loadInspectionData(vehicleId, userId);
+        inspectionDataMap[vehicleId] = data;
+        console.log(`Inspection data for vehicle ${vehicleId}:`, data);
       } catch (error) {
-        console.error(`Error loading inspection data for vehicle ${vehicle.id}:`, error);
-        inspectionDataMap[vehicle.id] = {};
+        console.error(`Error loading inspection data for vehicle ${vehicleId}:`, error);
+        inspectionDataMap[vehicleId] = InspectionRecordManager.createEmpty();
       }
     }
     
     setVehicleInspectionData(inspectionDataMap);
     setInspectionDataLoaded(true);
+  }, []);
+
+  // Load inspection data for all vehicles. Keyed on the ids so realtime edits to a vehicle don't reload every inspection
+  const vehicleIdsKey = vehicles.map(vehicle => vehicle.id).join(',');
+  useEffect(() => {
+    if (vehicleIdsKey && user) {
+      loadInspectionDataForVehicles(vehicleIdsKey.split(','), user.id);
+    }
+  }, [vehicleIdsKey, user, loadInspectionDataForVehicles]);
+
+  // Moves a changed vehicle into the active, sold or pending list it now belongs to
+  const handleVehicleChange = (change: RealtimeChange<Vehicle>) => {
+    const vehicleId = change.type === 'delete' ? change.id : change.record.id;
+    // Deletes leave every list whatever the status; a null status counts as active, as in loadAllVehicles
+    const status = change.type === 'upsert' ? change.record.status : null;
+    const patch = (list: Vehicle[], belongs: boolean): Vehicle[] => {
+      const exists = list.some(vehicle => vehicle.id === vehicleId);
+      if (change.type === 'delete' || !belongs) {
+        return exists ? list.filter(vehicle => vehicle.id !== vehicleId) : list;
+      }
+      return exists
+        ? list.map(vehicle => (vehicle.id === vehicleId ? change.record : vehicle))
+        : [change.record, ...list];
+    };
+
+    setVehicles(prev => patch(prev, status !== 'sold' && status !== 'pending'));
+    setSoldVehicles(prev => patch(prev, status === 'sold'));
+    setPendingVehicles(prev => patch(prev, status === 'pending'));
+
+    const inspection = change.type === 'upsert' ? change.record.inspection : undefined;
+    if (inspection && InspectionRecordManager.getSectionKeys(inspection).length > 0) {
+      setVehicleInspectionData(prev => ({ ...prev, [vehicleId]: inspection }));
+    }
   };
 
   const loadAllVehicles = async () => {
@@ -271,6 +343,15 @@ const Dashboard: React.FC = () => {
       setVehicles(activeVehicles);
       setSoldVehicles(soldVehiclesList);
       setPendingVehicles(pendingVehiclesList);
+
+      // Recon spend per vehicle for the over-budget filter
+      setReconCostTotals(await ReconCostManager.getCostTotalsByVehicle(dealership.id));
+
+      // Stage targets for the SLA breach filter
+      setSlaSettings(await ReconStageManager.getSlaSettings(dealership.id));
+
+      // Parts not yet received, for the waiting-on-parts filter
+      setOutstandingPartCounts(await PartOrderManager.getOutstandingCountsByVehicle(dealership.id));
     } catch (error) {
       console.error('Error loading vehicles from Supabase:', error);
       setVehicles([]);
@@ -281,6 +362,35 @@ const Dashboard: React.FC = () => {
     setIsLoading(false);
   };
 
+  // Opens the scanned vehicle, or starts adding it when the VIN isn't in inventory yet
+  const handleScan = async (result: ScanResult): Promise<string | void> => {
+    if (!dealership) return;
+
+    if (result.vin) {
+      const vehicle = await VehicleManager.getVehicleByVin(dealership.id, result.vin);
+      setShowScanner(false);
+      if (vehicle) {
+        navigate(`/vehicle/${vehicle.id}`);
+      } else {
+        setScannedVin(result.vin);
+        setShowAddVehicle(true);
+      }
+      return;
+    }
+
+    const matches = await VehicleManager.getVehiclesByStockNumber(dealership.id, result.stockNumber || '');
+    const activeMatches = matches.filter(vehicle => !vehicle.isSold);
+    const match = matches.length === 1 ? matches[0] : activeMatches.length === 1 ? activeMatches[0] : null;
+    if (match) {
+      setShowScanner(false);
+      navigate(`/vehicle/${match.id}`);
+      return;
+    }
+    return matches.length === 0
+      ? `No vehicle with stock #${result.stockNumber}.`
+      : `${matches.length} vehicles share stock #${result.stockNumber} - scan or type the full VIN instead.`;
+  };
+
   const handleAddVehicle = async (vehicleData: Omit<Vehicle, 'id'>) => {
     if (!dealership || !user) return;
 
@@ -431,8 +541,6 @@ const Dashboard: React.FC = () => {
     const hasSoldPendingFilters = vehicleFilter.includes('sold') || vehicleFilter.includes('vehicle-pending');
     
     if (hasInspectionFilters && inspectionDataLoaded && !isLoadingSettings && allSections.length > 0) {
-      const sectionKeys = allSections.map(section => section.key);
-      
       // Filter by inspection status for active vehicles only
       const activeVehicles = vehiclesToFilter.filter(vehicle => {
         // Skip sold/pending vehicles for inspection-based filtering
@@ -440,70 +548,22 @@ const Dashboard: React.FC = () => {
           return false;
         }
 
-        const inspectionData = vehicleInspectionData[vehicle.id] || {};
-        
-        // Calculate section statuses for this vehicle (SAME logic as getFilterCounts)
-        const sectionStatuses: string[] = [];
-        
-        for (const sectionKey of sectionKeys) {
-          const sectionItems = inspectionData[sectionKey] || [];
-          const sectionSettings = allSections.find(s => s.key === sectionKey);
-          
-          if (!sectionSettings) {
-            sectionStatuses.push('not-started');
-            continue;
-          }
-          
-          const allSectionItems = sectionSettings.items || [];
-          
-          if (sectionItems.length === 0) {
-            sectionStatuses.push('not-started');
-            continue;
-          }
-
-          // Use the SAME logic as VehicleCard for section status
-          const inspectedItems = sectionItems.filter((item: any) => item.rating && item.rating !== 'not-checked');
-          
-          // If not all items have been inspected, stay gray
-          if (inspectedItems.length < allSectionItems.length) {
-            sectionStatuses.push('not-started');
-            continue;
-          }
-          
-          // If any inspected item is 'not-checked', return 'not-started' (grey)
-          if (sectionItems.some((item: any) => item.rating === 'not-checked' || !item.rating)) {
-            sectionStatuses.push('not-started');
-            continue;
-          }
-          
-          // Now check the actual ratings since all items are inspected
-          if (sectionItems.some((item: any) => item.rating === 'N')) {
-            sectionStatuses.push('needs-attention');
-          } else if (sectionItems.some((item: any) => item.rating === 'F')) {
-            sectionStatuses.push('pending');
-          } else if (sectionItems.every((item: any) => item.rating === 'G')) {
-            sectionStatuses.push('completed');
-          } else {
-            sectionStatuses.push('not-started');
-          }
-        }
+        const readiness = getVehicleReadiness(vehicle);
         
         // Check if this vehicle matches any of the selected inspection filters
         if (vehicleFilter.includes('completed')) {
           // Completed: ALL sections are 'completed' (green)
-          return sectionStatuses.length > 0 && sectionStatuses.every(status => status === 'completed');
+          return readiness === 'ready';
         }
         
         if (vehicleFilter.includes('needs-attention')) {
           // Issues: ANY section has 'needs-attention' (red)
-          return sectionStatuses.some(status => status === 'needs-attention');
+          return readiness === 'issues';
         }
         
         if (vehicleFilter.includes('active')) {
           // Working: Everything else (not all green, and not any red)
-          const hasRed = sectionStatuses.some(status => status === 'needs-attention');
-          const allGreen = sectionStatuses.length > 0 && sectionStatuses.every(status => status === 'completed');
-          return !hasRed && !allGreen;
+          return readiness === 'working';
         }
         
         return false;
@@ -583,68 +643,56 @@ const Dashboard: React.FC = () => {
     // Apply section-based filter if active
     if (sectionFilter.section && sectionFilter.status && inspectionDataLoaded && !isLoadingSettings) {
       vehiclesToFilter = vehiclesToFilter.filter(vehicle => {
-        const inspectionData = vehicleInspectionData[vehicle.id] || {};
-        const sectionItems = inspectionData[sectionFilter.section!] || [];
-        
-        // DEBUG: Log the section data for each vehicle
-        console.log(`\n=== VEHICLE ${vehicle.year} ${vehicle.make} ${vehicle.model} ===`);
-        console.log(`Section: ${sectionFilter.section}, Filter: ${sectionFilter.status}`);
-        console.log(`Section items:`, sectionItems);
-        
-        // Get the section settings to know how many items should exist (SAME as VehicleCard)
-        const sectionSettings = allSections.find(s => s.key === sectionFilter.section);
-        if (!sectionSettings) {
-          console.log(`No section settings found - categorized as unchecked`);
-          return sectionFilter.status === 'unchecked';
-        }
-        
-        const allSectionItems = sectionSettings.items || [];
-        console.log(`Section has ${allSectionItems.length} total items, ${sectionItems.length} saved items`);
-        
-        // Use the EXACT same logic as VehicleCard and getSectionProgressCounts
-        if (sectionItems.length === 0) {
-          console.log(`No items in section - categorized as unchecked`);
-          return sectionFilter.status === 'unchecked';
-        }
-
-        // Check if ALL items have been inspected (no missing items and no 'not-checked' ratings)
-        const inspectedItems = sectionItems.filter((item: any) => item.rating && item.rating !== 'not-checked');
-        
-        // If not all items have been inspected, it's unchecked (gray)
-        if (inspectedItems.length < allSectionItems.length) {
-          console.log(`Not all items inspected (${inspectedItems.length}/${allSectionItems.length}) - categorized as unchecked`);
-          return sectionFilter.status === 'unchecked';
-        }
+        // Vehicles whose template leaves the section out don't show up under it
+        const section = getVehicleSections(vehicle).find(s => s.key === sectionFilter.section);
+        if (!section) return false;
         
-        // If any inspected item is 'not-checked', it's unchecked (gray) 
-        if (sectionItems.some((item: any) => item.rating === 'not-checked' || !item.rating)) {
-          console.log(`Some items are not-checked - categorized as unchecked`);
-          return sectionFilter.status === 'unchecked';
-        }
+        const status = ProgressCalculator.getSectionStatus(vehicleInspectionData[vehicle.id], section);
+        return sectionFilter.status === SECTION_FILTER_STATUS[status];
+      });
+    }
 
-        // Check for issues (any 'N' rating) - same as getSectionProgressCounts
-        const hasIssues = sectionItems.some((item: any) => item.rating === 'N');
-        if (hasIssues) {
-          console.log(`Has N ratings - categorized as issues`);
-          return sectionFilter.status === 'issues';
-        }
+    // Over-budget narrows whatever else is selected to vehicles whose recon spend exceeds their budget
+    if (vehicleFilter.includes('over-budget')) {
+      vehiclesToFilter = vehiclesToFilter.filter(isVehicleOverBudget);
+    }
 
-        // Check if all items are 'G' (ready) - same as getSectionProgressCounts
-        const allGood = sectionItems.every((item: any) => item.rating === 'G');
-        if (allGood) {
-          console.log(`All items are G - categorized as ready`);
-          return sectionFilter.status === 'ready';
-        }
+    // SLA breach narrows the same way, to vehicles with a recon stage clock past its target
+    if (vehicleFilter.includes('sla-breach')) {
+      vehiclesToFilter = vehiclesToFilter.filter(isVehicleBreachingSla);
+    }
 
-        // Everything else is working - same as getSectionProgressCounts
-        console.log(`Mixed ratings - categorized as working`);
-        return sectionFilter.status === 'working';
-      });
+    // Waiting on parts narrows to vehicles with a part ordered or needed but not yet received
+    if (vehicleFilter.includes('waiting-on-parts')) {
+      vehiclesToFilter = vehiclesToFilter.filter(isVehicleWaitingOnParts);
     }
 
     return vehiclesToFilter;
   };
 
+  // Each vehicle is measured against its own inspection template
+  const getVehicleSections = (vehicle: Vehicle) =>
+    InspectionTemplateManager.getVehicleSections(inspectionSettings, vehicle);
+
+  const getVehicleProgress = (vehicle: Vehicle) =>
+    ProgressCalculator.getVehicleProgress(vehicleInspectionData[vehicle.id], getVehicleSections(vehicle), progressOptions);
+
+  // A manager's readiness override counts the vehicle as ready
+  const getVehicleReadiness = (vehicle: Vehicle): VehicleReadiness => {
+    const progress = getVehicleProgress(vehicle);
+    return ProgressCalculator.isFrontlineReady(vehicle, progress) ? 'ready' : progress.readiness;
+  };
+
+  const isVehicleOverBudget = (vehicle: Vehicle) =>
+    ReconCostManager.isOverBudget(reconCostTotals[vehicle.id] || 0, vehicle.reconBudget);
+
+  const isVehicleBreachingSla = (vehicle: Vehicle) =>
+    ReconStageManager.getVehicleSlaStatus(
+      ReconStageManager.evaluateSla(vehicle, slaSettings, getVehicleSections(vehicle), vehicleInspectionData[vehicle.id], progressOptions)
+    ) === 'breached';
+
+  const isVehicleWaitingOnParts = (vehicle: Vehicle) => (outstandingPartCounts[vehicle.id] || 0) > 0;
+
   const getFilterCounts = () => {
     // Don't categorize until inspection data and settings are loaded
     if (!inspectionDataLoaded || isLoadingSettings || allSections.length === 0) {
@@ -655,7 +703,10 @@ const Dashboard: React.FC = () => {
         pending: 0,
         'needs-attention': 0,
         sold: soldVehicles.length,
-        'vehicle-pending': pendingVehicles.length
+        'vehicle-pending': pendingVehicles.length,
+        'over-budget': vehicles.filter(isVehicleOverBudget).length,
+        'sla-breach': vehicles.filter(isVehicleBreachingSla).length,
+        'waiting-on-parts': vehicles.filter(isVehicleWaitingOnParts).length
       };
     }
 
@@ -673,81 +724,14 @@ const Dashboard: React.FC = () => {
         return 'pending';
       }
 
-      const inspectionData = vehicleInspectionData[vehicle.id] || {};
-      const sectionKeys = allSections.map(section => section.key);
-      
-      // Calculate section statuses for this vehicle (same logic as VehicleCard)
-      const sectionStatuses: string[] = [];
-      
-      for (const sectionKey of sectionKeys) {
-        const sectionItems = inspectionData[sectionKey] || [];
-        const sectionSettings = allSections.find(s => s.key === sectionKey);
-        
-        if (!sectionSettings) {
-          sectionStatuses.push('not-started');
-          continue;
-        }
-        
-        const allSectionItems = sectionSettings.items || [];
-        
-        if (sectionItems.length === 0) {
-          sectionStatuses.push('not-started');
-          continue;
-        }
-
-        // Use the SAME logic as VehicleCard for section status
-        const inspectedItems = sectionItems.filter((item: any) => item.rating && item.rating !== 'not-checked');
-        
-        // If not all items have been inspected, stay gray
-        if (inspectedItems.length < allSectionItems.length) {
-          sectionStatuses.push('not-started');
-          continue;
-        }
-        
-        // If any inspected item is 'not-checked', return 'not-started' (grey)
-        if (sectionItems.some((item: any) => item.rating === 'not-checked' || !item.rating)) {
-          sectionStatuses.push('not-started');
-          continue;
-        }
-        
-        // Now check the actual ratings since all items are inspected
-        if (sectionItems.some((item: any) => item.rating === 'N')) {
-          sectionStatuses.push('needs-attention');
-        } else if (sectionItems.some((item: any) => item.rating === 'F')) {
-          sectionStatuses.push('pending');
-        } else if (sectionItems.every((item: any) => item.rating === 'G')) {
-          sectionStatuses.push('completed');
-        } else {
-          sectionStatuses.push('not-started');
-        }
-      }
+      // Shared engine, so these counts match the cards, vehicle page and PDF
+      const readiness = getVehicleReadiness(vehicle);
       
-      console.log(`Vehicle ${vehicle.id} (${vehicle.year} ${vehicle.make} ${vehicle.model}):`, {
-        sectionStatuses,
-        vehicleStatus: vehicle.status,
-        sectionKeys
-      });
-
-      // NEW LOGIC: Base overall status on section statuses
       // 1. If ANY section has 'needs-attention' (red), vehicle is 'needs-attention'
-      if (sectionStatuses.some(status => status === 'needs-attention')) {
-        console.log(`Vehicle ${vehicle.id} categorized as: needs-attention (has red sections)`);
-        return 'needs-attention';
-      }
-      
       // 2. If ALL sections are 'completed' (green), vehicle is 'completed'
-      if (sectionStatuses.length > 0 && sectionStatuses.every(status => status === 'completed')) {
-        console.log(`Vehicle ${vehicle.id} categorized as: completed (all sections green)`);
-        return 'completed';
-      }
-      
-      // 3. Everything else is 'pending' (working):
-      // - All sections unchecked
-      // - Some sections working + some unchecked
-      // - Some sections green + some unchecked
-      // - Some sections green + some working
-      // - etc.
-      console.log(`Vehicle ${vehicle.id} categorized as: pending (working - mixed statuses)`);
+      // 3. Everything else is 'pending' (working)
+      if (readiness === 'issues') return 'needs-attention';
+      if (readiness === 'ready') return 'completed';
       return 'pending';
     };
     
@@ -764,7 +748,10 @@ const Dashboard: React.FC = () => {
       pending: inspectionBasedCategories.filter(category => category === 'pending').length,
       'needs-attention': inspectionBasedCategories.filter(category => category === 'needs-attention').length,
       sold: soldVehicles.length,
-      'vehicle-pending': pendingVehicles.length
+      'vehicle-pending': pendingVehicles.length,
+      'over-budget': vehicles.filter(isVehicleOverBudget).length,
+      'sla-breach': vehicles.filter(isVehicleBreachingSla).length,
+      'waiting-on-parts': vehicles.filter(isVehicleWaitingOnParts).length
     };
   };
 
@@ -869,54 +856,15 @@ const Dashboard: React.FC = () => {
     let unchecked = 0;
 
     vehicles.forEach(vehicle => {
-      const inspectionData = vehicleInspectionData[vehicle.id] || {};
-      const sectionItems = inspectionData[sectionKey] || [];
-      
-      // Get the section settings to know how many items should exist
-      const sectionSettings = allSections.find(s => s.key === sectionKey);
-      if (!sectionSettings) {
-        unchecked++;
-        return;
-      }
-      
-      const allSectionItems = sectionSettings.items || [];
-      
-      if (sectionItems.length === 0) {
-        unchecked++;
-        return;
-      }
-
-      // Use the SAME logic as VehicleCard/VehicleDetail for consistency
-      const inspectedItems = sectionItems.filter((item: any) => item.rating && item.rating !== 'not-checked');
-      
-      // If not all items have been inspected, it's unchecked (gray)
-      if (inspectedItems.length < allSectionItems.length) {
-        unchecked++;
-        return;
-      }
-      
-      // If any inspected item is 'not-checked', it's unchecked (gray) 
-      if (sectionItems.some((item: any) => item.rating === 'not-checked' || !item.rating)) {
-        unchecked++;
-        return;
+      const section = getVehicleSections(vehicle).find(s => s.key === sectionKey);
+      if (!section) return;
+      const status = ProgressCalculator.getSectionStatus(vehicleInspectionData[vehicle.id], section);
+      switch (SECTION_FILTER_STATUS[status]) {
+        case 'ready': ready++; break;
+        case 'working': working++; break;
+        case 'issues': issues++; break;
+        default: unchecked++;
       }
-
-      // Check for issues (any 'N' rating)
-      const hasIssues = sectionItems.some((item: any) => item.rating === 'N');
-      if (hasIssues) {
-        issues++;
-        return;
-      }
-
-      // Check if all items are 'G' (ready)
-      const allGood = sectionItems.every((item: any) => item.rating === 'G');
-      if (allGood) {
-        ready++;
-        return;
-      }
-
-      // Everything else is working
-      working++;
     });
 
     return { ready, working, issues, unchecked };
@@ -1008,10 +956,18 @@ const Dashboard: React.FC = () => {
   const locationFilterCounts = getLocationFilterCounts();
   const inventorySummary = getInventorySummary();
 
+  // Export exactly what the grid is showing (status, location, section filters and search)
+  const handleExportInventory = (format: InventoryExportFormat) => {
+    InventoryExportManager.exportVehicles(filteredVehicles, allSections, vehicleInspectionData, format, getVehicleSections);
+  };
+
+  const isManager = !!user && ['manager', 'admin', 'super-admin'].includes(user.role);
+
   const sidebarItems = [
     { id: 'inventory', label: 'Inventory', icon: Car, count: vehicles.length },
     { id: 'analytics', label: 'Analytics', icon: BarChart3 },
     { id: 'todos', label: 'Todo & Calendar', icon: Calendar },
+    ...(isManager ? [{ id: 'approvals', label: 'Repair Approvals', icon: ClipboardCheck }] : []),
     { id: 'contacts', label: 'Contacts', icon: Phone },
     { id: 'locations', label: 'Locations', icon: MapPin },
     ...(user?.role === 'admin' ? [
@@ -1027,7 +983,12 @@ const Dashboard: React.FC = () => {
     { id: 'completed', label: 'Ready', icon: CheckCircle2, count: filterCounts.completed },
     { id: 'needs-attention', label: 'Issues', icon: AlertTriangle, count: filterCounts['needs-attention'] },
     { id: 'sold', label: 'Sold Vehicles', icon: Archive, count: filterCounts.sold },
-    { id: 'vehicle-pending', label: 'Pending Vehicles', icon: Clock, count: filterCounts['vehicle-pending'] }
+    { id: 'vehicle-pending', label: 'Pending Vehicles', icon: Clock, count: filterCounts['vehicle-pending'] },
+    { id: 'over-budget', label: 'Over Recon Budget', icon: DollarSign, count: filterCounts['over-budget'] },
+    { id: 'waiting-on-parts', label: 'Waiting on Parts', icon: Package, count: filterCounts['waiting-on-parts'] },
+    ...(slaSettings.enabled ? [
+      { id: 'sla-breach', label: 'Breaching SLA', icon: Timer, count: filterCounts['sla-breach'] }
+    ] : [])
   ];
 
   // NEW: Location filter options
@@ -1173,14 +1134,30 @@ const Dashboard: React.FC = () => {
                       <h2 className="text-lg sm:text-2xl font-bold text-gray-900 dark:text-white">Inventory Overview</h2>
                       <p className="text-xs sm:text-base text-gray-600 dark:text-gray-400">Real-time summary - click any metric to filter</p>
                     </div>
-                    <button
-                      onClick={() => setShowAddVehicle(true)}
-                      className="inline-flex items-center gap-2 px-3 py-2 sm:px-4 sm:py-2 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 font-semibold shadow-lg text-sm"
-                    >
-                      <Plus className="w-4 h-4" />
-                      <span className="hidden sm:inline">Add Vehicle</span>
-                      <span className="sm:hidden">Add</span>
-                    </button>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setShowScanner(true)}
+                        className="inline-flex items-center gap-2 px-3 py-2 sm:px-4 sm:py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-all duration-200 font-semibold shadow-sm text-sm"
+                      >
+                        <ScanLine className="w-4 h-4" />
+                        <span className="hidden sm:inline">Scan</span>
+                      </button>
+                      <button
+                        onClick={() => setShowImportWizard(true)}
+                        className="inline-flex items-center gap-2 px-3 py-2 sm:px-4 sm:py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-all duration-200 font-semibold shadow-sm text-sm"
+                      >
+                        <Upload className="w-4 h-4" />
+                        <span className="hidden sm:inline">Import</span>
+                      </button>
+                      <button
+                        onClick={() => setShowAddVehicle(true)}
+                        className="inline-flex items-center gap-2 px-3 py-2 sm:px-4 sm:py-2 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 font-semibold shadow-lg text-sm"
+                      >
+                        <Plus className="w-4 h-4" />
+                        <span className="hidden sm:inline">Add Vehicle</span>
+                        <span className="sm:hidden">Add</span>
+                      </button>
+                    </div>
                   </div>
 
                   {/* Enhanced Mobile Key Indicators */}
@@ -1491,6 +1468,53 @@ const Dashboard: React.FC = () => {
                       <span className="hidden sm:inline">Filters</span>
                       {showFilters ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
                     </button>
+
+                    <HeadlessMenu as="div" className="relative">
+                      <HeadlessMenu.Button className="px-3 py-2 rounded-lg transition-colors text-sm font-medium flex items-center gap-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600">
+                        <Download className="w-4 h-4" />
+                        <span className="hidden sm:inline">Export</span>
+                      </HeadlessMenu.Button>
+                      <HeadlessMenu.Items className="absolute right-0 z-50 mt-2 w-56 origin-top-right rounded-md bg-white dark:bg-gray-700 shadow-2xl ring-1 ring-black ring-opacity-5 focus:outline-none">
+                        <div className="py-1">
+                          <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                            {filteredVehicles.length} vehicle{filteredVehicles.length === 1 ? '' : 's'} matching current filters
+                          </p>
+                          {([
+                            { format: 'csv', label: 'Download CSV' },
+                            { format: 'xlsx', label: 'Download Excel (.xlsx)' }
+                          ] as { format: InventoryExportFormat; label: string }[]).map(option => (
+                            <HeadlessMenu.Item key={option.format}>
+                              {({ active }) => (
+                                <button
+                                  onClick={() => handleExportInventory(option.format)}
+                                  disabled={filteredVehicles.length === 0}
+                                  className={`${
+                                    active ? 'bg-gray-100 dark:bg-gray-600 text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'
+                                  } flex w-full items-center px-4 py-2 text-sm disabled:opacity-50`}
+                                >
+                                  {option.label}
+                                </button>
+                              )}
+                            </HeadlessMenu.Item>
+                          ))}
+                          <div className="border-t border-gray-200 dark:border-gray-600 my-1"></div>
+                          <HeadlessMenu.Item>
+                            {({ active }) => (
+                              <button
+                                onClick={() => KeyTagGenerator.printKeyTags(filteredVehicles, dealership?.name)}
+                                disabled={filteredVehicles.length === 0}
+                                className={`${
+                                  active ? 'bg-gray-100 dark:bg-gray-600 text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'
+                                } flex w-full items-center gap-2 px-4 py-2 text-sm disabled:opacity-50`}
+                              >
+                                <Tag className="w-4 h-4" />
+                                Print Key Tags
+                              </button>
+                            )}
+                          </HeadlessMenu.Item>
+                        </div>
+                      </HeadlessMenu.Items>
+                    </HeadlessMenu>
                   </div>
 
                   {/* Collapsible Filters */}
@@ -1723,6 +1747,7 @@ const Dashboard: React.FC = () => {
 
             {activeView === 'analytics' && <Analytics />}
             {activeView === 'todos' && <TodoCalendar />}
+            {activeView === 'approvals' && isManager && <ApprovalQueue />}
             {activeView === 'contacts' && <ContactManagement />}
             {activeView === 'locations' && <LocationManagement />}
             {activeView === 'users' && <UserManagement />}
@@ -1731,6 +1756,8 @@ const Dashboard: React.FC = () => {
               <div className="space-y-6">
                 <ThemeSettings />
                 <LocationSettings />
+                <SlaSettings />
+                {isManager && <ReconApprovalSettings />}
               </div>
             )}
           </div>
@@ -1740,9 +1767,32 @@ const Dashboard: React.FC = () => {
       {/* Add Vehicle Modal */}
       <AddVehicleModal
         isOpen={showAddVehicle}
-        onClose={() => setShowAddVehicle(false)}
+        onClose={() => {
+          setShowAddVehicle(false);
+          setScannedVin(undefined);
+        }}
         onAddVehicle={handleAddVehicle}
+        initialVin={scannedVin}
+      />
+
+      {/* Scan Mode */}
+      <ScanVehicleModal
+        isOpen={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScan={handleScan}
       />
+
+      {/* Bulk Import Wizard */}
+      {dealership && user && (
+        <VehicleImportWizard
+          isOpen={showImportWizard}
+          onClose={() => setShowImportWizard(false)}
+          dealershipId={dealership.id}
+          locationNames={locations.map(location => location.name)}
+          importedBy={{ name: `${user.firstName} ${user.lastName}`, initials: user.initials }}
+          onImportComplete={loadAllVehicles}
+        />
+      )}
     </div>
   );
 };
@@ -2,15 +2,23 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Vehicle, TeamNote, InspectionStatus } from '../types/vehicle';
 import { useAuth } from '../contexts/AuthContext';
 import { InspectionDataManager } from '../utils/inspectionDataManager';
-import { InspectionSettings, InspectionSection } from '../types/inspectionSettings';
+import { InspectionRecordManager } from '../utils/inspectionRecordManager';
+import { InspectionSettings, InspectionSection, InspectionItem } from '../types/inspectionSettings';
+import { InspectionItemValue, InspectionRating, InspectionRecord } from '../types/inspectionRecord';
+import { InspectionItemTypeManager } from '../utils/inspectionItemTypeManager';
+import { OfflineSyncManager } from '../utils/offlineSyncManager';
+import { DamageDiagramManager } from '../utils/damageDiagramManager';
+import { DamagePin } from '../types/damage';
+import { InspectionSyncConflict, PendingInspectionChange, PendingPhotoUpload } from '../types/offlineSync';
+import { PhotoManager } from '../utils/photoManager';
+import { VehiclePhoto } from '../types/vehiclePhoto';
 import { AnalyticsManager } from '../utils/analytics';
-import { supabase } from '../utils/supabaseClient';
+import { CompletionEvent } from '../types/analytics';
 import { 
   CheckCircle2, 
   AlertTriangle, 
   Clock, 
   Circle, 
-  Save, 
   RotateCcw,
   Leaf,
   Palette,
@@ -20,21 +28,45 @@ import {
   FileText,
   FileImage,
   Plus,
-  X
+  X,
+  CloudOff,
+  RefreshCw
 } from 'lucide-react';
+import InspectionItemInput from './InspectionItemInput';
+import DamageDiagram from './DamageDiagram';
+
+// pending = taken offline and still waiting in the device queue
+type ItemPhoto = { url: string; thumbnailUrl?: string; path: string; thumbnailPath?: string; name: string; pending?: boolean };
+
+const toItemPhoto = (photo: VehiclePhoto): ItemPhoto => ({
+  url: photo.url,
+  thumbnailUrl: photo.thumbnailUrl,
+  path: photo.path,
+  thumbnailPath: photo.thumbnailPath,
+  name: PhotoManager.getFileName(photo.path)
+});
+
+const RATING_NAMES: Record<InspectionRating, string> = {
+  G: 'Great',
+  F: 'Fair',
+  N: 'Needs Attention',
+  'not-checked': 'Not Checked'
+};
 
 interface InspectionChecklistProps {
   vehicleId: string;
   vehicleName: string;
-  onDataChange?: (data: any) => void;
+  onDataChange?: (data: InspectionRecord) => void;
   vehicle: Vehicle;
   onStatusUpdate: (section: string, status: InspectionStatus) => void;
   onSectionComplete: (section: string, userInitials: string) => void;
   onAddTeamNote: (note: Omit<TeamNote, 'id' | 'timestamp'>) => void;
   activeFilter: string | null;
   onGeneratePdf: () => void;
-  onInspectionDataChange: (data: any) => void;
+  onInspectionDataChange: (data: InspectionRecord) => void;
+  onEdit?: () => void; // Called when this user changes a rating, value or note
   onTeamNoteAdded: (note: TeamNote) => void;
+  reinspectItemKeys?: string[]; // "sectionKey:itemId" of items repaired and waiting to be re-rated
 }
 
 const InspectionChecklist: React.FC<InspectionChecklistProps> = ({ 
@@ -48,32 +80,36 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
   activeFilter,
   onGeneratePdf,
   onInspectionDataChange,
-  onTeamNoteAdded
+  onEdit,
+  onTeamNoteAdded,
+  reinspectItemKeys = []
 }) => {
   const { dealership, user } = useAuth();
   const [inspectionSettings, setInspectionSettings] = useState<InspectionSettings | null>(null);
-  const [inspectionData, setInspectionData] = useState<any>({});
+  const [inspectionData, setInspectionData] = useState<InspectionRecord>(InspectionRecordManager.createEmpty());
   const [isLoading, setIsLoading] = useState(true);
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error' | 'offline'>('idle');
+  const [isOnline, setIsOnline] = useState(OfflineSyncManager.isOnline());
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<InspectionSyncConflict[]>([]);
   
   // Photo modal state
   const [photoModalOpen, setPhotoModalOpen] = useState(false);
   const [currentPhotoItem, setCurrentPhotoItem] = useState<{sectionKey: string, itemId: string, itemLabel: string} | null>(null);
-  const [photos, setPhotos] = useState<{url: string, path: string, name: string}[]>([]);
+  const [photos, setPhotos] = useState<ItemPhoto[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [viewingPhoto, setViewingPhoto] = useState<string | null>(null);
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   
   // NEW: Track photos for all inspection items
-  const [allItemPhotos, setAllItemPhotos] = useState<Record<string, {url: string, path: string, name: string}[]>>({});
+  const [allItemPhotos, setAllItemPhotos] = useState<Record<string, ItemPhoto[]>>({});
 
   // Load inspection settings and data on mount
   useEffect(() => {
     if (dealership && vehicleId && user) {
       loadData();
     }
-  }, [dealership, vehicleId, user]);
+  }, [dealership, vehicleId, user, vehicle.inspectionTemplate?.snapshotAt]);
 
   const loadData = async () => {
     if (!dealership || !vehicleId || !user) return;
@@ -82,107 +118,76 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
     setIsLoading(true);
     
     try {
-      // Load settings
-      const settings = await InspectionDataManager.getSettings(dealership.id);
+      // Load settings, with the sections from this vehicle's inspection template
+      const settings = await InspectionDataManager.getVehicleSettings(dealership.id, vehicle);
       console.log('📋 Loaded inspection settings:', settings);
       setInspectionSettings(settings);
 
       // Load inspection data
-      const data = await InspectionDataManager.loadInspectionData(vehicleId, user.id);
-      console.log('📊 Raw inspection data loaded:', data);
-      
-      // Ensure data structure is correct - preserve ALL sections dynamically
-      const normalizedData = {
-        ...data, // Preserve all existing sections (including dynamic ones like "bananas")
-        customSections: data?.customSections || {},
-        sectionNotes: data?.sectionNotes || {}
-      };
-      
-      console.log('📊 Normalized inspection data:', normalizedData);
-      setInspectionData(normalizedData);
+      // Already migrated to the current record schema, custom sections included
+      const savedData = await InspectionDataManager.loadInspectionData(vehicleId, user.id);
+      // Edits still queued on this device go on top of what the server has
+      const pendingChanges = await OfflineSyncManager.getPendingChanges(vehicleId).catch(() => []);
+      const data = OfflineSyncManager.applyPendingChanges(savedData, pendingChanges);
+      console.log('📊 Inspection data loaded:', data);
+      setInspectionData(data);
+      await refreshQueueState();
+      if (pendingChanges.length > 0) syncPending();
       
       // Load photos for all inspection items
-      await loadAllItemPhotos(settings);
+      await loadAllItemPhotos();
       
       // Notify parent immediately
       if (onInspectionDataChange) {
-        onInspectionDataChange(normalizedData);
+        onInspectionDataChange(data);
       }
     } catch (error) {
       console.error('❌ Error loading inspection data:', error);
       // Set empty data structure on error
-      const emptyData = {
-        emissions: [],
-        cosmetic: [],
-        mechanical: [],
-        cleaning: [],
-        photos: [],
-        customSections: {},
-        sectionNotes: {}
-      };
-      setInspectionData(emptyData);
+      setInspectionData(InspectionRecordManager.createEmpty());
     } finally {
       setIsLoading(false);
     }
   };
 
-  // NEW: Load photos for all inspection items
-  const loadAllItemPhotos = async (settings: InspectionSettings) => {
+  // Load photos for all inspection items, plus any still waiting on this device
+  const loadAllItemPhotos = async (): Promise<Record<string, ItemPhoto[]>> => {
+    if (!dealership) return {};
     try {
-      const photosMap: Record<string, {url: string, path: string, name: string}[]> = {};
-      
-      // Load photos for each section and item
-      for (const section of settings.sections) {
-        if (!section.isActive) continue;
-        
-        for (const item of section.items) {
-          if (!item.isActive) continue;
-          
-          const itemKey = `${section.key}_${item.id}`;
-          const folderPath = `${vehicleId}/${section.key}/${item.id}`;
-          
-          try {
-            const { data: files, error } = await supabase.storage
-              .from('reconpro-vehicles')
-              .list(folderPath);
-
-            if (error) {
-              console.error(`Error loading photos for ${itemKey}:`, error);
-              photosMap[itemKey] = [];
-              continue;
-            }
-
-            if (files && files.length > 0) {
-              const itemPhotos = await Promise.all(
-                files.map(async (file) => {
-                  const { data: { publicUrl } } = supabase.storage
-                    .from('reconpro-vehicles')
-                    .getPublicUrl(`${folderPath}/${file.name}`);
-                  
-                  return {
-                    url: publicUrl,
-                    path: `${folderPath}/${file.name}`,
-                    name: file.name
-                  };
-                })
-              );
-              
-              photosMap[itemKey] = itemPhotos;
-            } else {
-              photosMap[itemKey] = [];
-            }
-          } catch (error) {
-            console.error(`Error processing photos for ${itemKey}:`, error);
-            photosMap[itemKey] = [];
-          }
-        }
-      }
-      
+      const [vehiclePhotos, queued] = await Promise.all([
+        PhotoManager.getVehiclePhotos(dealership.id, vehicleId),
+        getQueuedPhotos()
+      ]);
+      const photosMap: Record<string, ItemPhoto[]> = {};
+      const addPhoto = (sectionKey: string, itemId: string, photo: ItemPhoto) => {
+        const itemKey = `${sectionKey}_${itemId}`;
+        photosMap[itemKey] = [...(photosMap[itemKey] || []), photo];
+      };
+      vehiclePhotos.forEach(photo => addPhoto(photo.sectionKey, photo.itemId, toItemPhoto(photo)));
+      queued.forEach(photo => addPhoto(photo.sectionKey, photo.itemId, {
+        url: URL.createObjectURL(photo.file),
+        path: photo.path,
+        name: photo.name,
+        pending: true
+      }));
+
       setAllItemPhotos(photosMap);
       console.log('📸 Loaded photos for all items:', photosMap);
+      return photosMap;
     } catch (error) {
       console.error('❌ Error loading all item photos:', error);
       setAllItemPhotos({});
+      return {};
+    }
+  };
+
+  // Photos taken offline, shown from the device until they're uploaded
+  const getQueuedPhotos = async (): Promise<PendingPhotoUpload[]> => {
+    try {
+      return await OfflineSyncManager.getPendingPhotos(vehicleId);
+    } catch (error) {
+      console.error('Error reading queued photos:', error);
+      return [];
     }
   };
 
@@ -193,7 +198,7 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
   };
 
   // Simple save function
-  const saveToDatabase = useCallback(async (dataToSave: any) => {
+  const saveToDatabase = useCallback(async (dataToSave: InspectionRecord) => {
     if (!user || !vehicleId) return;
     
     setSaveStatus('saving');
@@ -211,45 +216,257 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
     }
   }, [user, vehicleId]);
 
-  // Handle rating changes - COMPLETELY REWRITTEN
-  const handleRatingChange = (sectionKey: string, itemId: string, newRating: string, itemLabel: string) => {
+  const refreshQueueState = useCallback(async () => {
+    try {
+      const [changes, queuedPhotos, openConflicts] = await Promise.all([
+        OfflineSyncManager.getPendingChanges(vehicleId),
+        OfflineSyncManager.getPendingPhotos(vehicleId),
+        OfflineSyncManager.getConflicts(vehicleId)
+      ]);
+      setPendingCount(changes.length + queuedPhotos.length);
+      setConflicts(openConflicts);
+    } catch (error) {
+      console.error('Error reading offline queue:', error);
+    }
+  }, [vehicleId]);
+
+  // Pushes everything queued on this device to Supabase; anything that doesn't make it stays queued
+  const syncPending = useCallback(async () => {
+    if (!user || !vehicleId) return;
+    if (!OfflineSyncManager.isOnline()) {
+      setSaveStatus('offline');
+      await refreshQueueState();
+      return;
+    }
+
+    setSaveStatus('saving');
+    try {
+      const result = await OfflineSyncManager.syncVehicle(vehicleId, user.id, user.initials);
+      if (result.record) {
+        // The server's copy may include other people's edits; keep anything queued since on top
+        const stillPending = await OfflineSyncManager.getPendingChanges(vehicleId);
+        const merged = OfflineSyncManager.applyPendingChanges(result.record, stillPending);
+        setInspectionData(merged);
+        if (onInspectionDataChange) {
+          onInspectionDataChange(merged);
+        }
+      }
+      // Queued photos that made it up now load from storage instead of the local copy
+      const stillQueued = new Set((await OfflineSyncManager.getPendingPhotos(vehicleId)).map(photo => photo.path));
+      const markUploaded = (photo: ItemPhoto): ItemPhoto => {
+        if (!photo.pending || stillQueued.has(photo.path)) return photo;
+        return { url: PhotoManager.getPublicUrl(photo.path), path: photo.path, name: photo.name };
+      };
+      setPhotos(prev => prev.map(markUploaded));
+      setAllItemPhotos(prev => Object.fromEntries(
+        Object.entries(prev).map(([itemKey, itemPhotos]) => [itemKey, itemPhotos.map(markUploaded)])
+      ));
+      setSaveStatus('saved');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    } catch (error) {
+      console.error('❌ Error syncing queued inspection changes:', error);
+      setSaveStatus(OfflineSyncManager.isOnline() ? 'error' : 'offline');
+    } finally {
+      await refreshQueueState();
+    }
+  }, [user, vehicleId, onInspectionDataChange, refreshQueueState]);
+
+  // Queue first so the edit survives a refresh or lost signal, then try to sync it
+  const persistChange = async (queue: () => Promise<void>, newData: InspectionRecord) => {
+    if (onEdit) onEdit();
+    try {
+      await queue();
+    } catch (error) {
+      // No IndexedDB (some private browsing modes) - save straight to the database as before
+      console.error('Error queueing inspection change:', error);
+      await saveToDatabase(newData);
+      return;
+    }
+    await syncPending();
+  };
+
+  const queueItem = (previousData: InspectionRecord, newData: InspectionRecord, sectionKey: string, itemId: string) => {
     if (!user) return;
+    const item = InspectionRecordManager.getItem(newData, sectionKey, itemId);
+    if (!item) return;
+    persistChange(
+      () => OfflineSyncManager.queueItemChange(
+        vehicleId,
+        sectionKey,
+        item,
+        InspectionRecordManager.getItem(previousData, sectionKey, itemId),
+        user.initials
+      ),
+      newData
+    );
+  };
 
-    console.log('🎯 BUTTON CLICKED:', { sectionKey, itemId, newRating, itemLabel });
-    console.log('🎯 Current inspection data before update:', inspectionData);
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncPending();
+    };
+    const handleOffline = () => {
+      setIsOnline(false);
+      setSaveStatus('offline');
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncPending]);
+
+  // Saves from other devices, with anything still queued here laid back on top
+  useEffect(() => {
+    if (!vehicleId) return;
+    return InspectionDataManager.subscribeToInspection(vehicleId, async record => {
+      let stillPending: PendingInspectionChange[] = [];
+      try {
+        stillPending = await OfflineSyncManager.getPendingChanges(vehicleId);
+      } catch (error) {
+        console.error('Error reading offline queue:', error);
+      }
+      setInspectionData(OfflineSyncManager.applyPendingChanges(record, stillPending));
+    });
+  }, [vehicleId]);
 
-    // Create a completely new data object
-    const newData = { ...inspectionData };
-    
-    // Ensure section exists
-    if (!newData[sectionKey]) {
-      newData[sectionKey] = [];
+  // Keep retrying while anything is queued - the online event doesn't fire for a flaky connection
+  useEffect(() => {
+    if (pendingCount === 0 || !isOnline) return;
+    const timer = setInterval(syncPending, 30000);
+    return () => clearInterval(timer);
+  }, [pendingCount, isOnline, syncPending]);
+
+  const handleNoteChange = (sectionKey: string, note: string) => {
+    if (!user) return;
+    const previousNote = InspectionRecordManager.getSectionNote(inspectionData, sectionKey);
+    if (note === previousNote) return;
+
+    const newData = InspectionRecordManager.setSectionNote(inspectionData, sectionKey, note);
+    setInspectionData(newData);
+    if (onInspectionDataChange) {
+      onInspectionDataChange(newData);
     }
+    persistChange(
+      () => OfflineSyncManager.queueNoteChange(vehicleId, sectionKey, note, previousNote, user.initials),
+      newData
+    );
+  };
 
-    // Find existing item or create new one
-    const existingIndex = newData[sectionKey].findIndex((item: any) => item.id === itemId);
-    
-    if (existingIndex >= 0) {
-      // Update existing item
-      newData[sectionKey][existingIndex] = {
-        ...newData[sectionKey][existingIndex],
-        rating: newRating,
-        updatedBy: user.initials,
-        updatedAt: new Date().toISOString()
-      };
+  const handleResolveConflict = async (conflict: InspectionSyncConflict, keep: 'mine' | 'theirs') => {
+    try {
+      await OfflineSyncManager.resolveConflict(conflict, keep);
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      return;
+    }
+
+    const { change } = conflict;
+    let newData = OfflineSyncManager.applyPendingChanges(inspectionData, [change]);
+    if (keep === 'theirs') {
+      // Show what's on the server in place of the discarded edit
+      if (change.kind === 'note') {
+        newData = InspectionRecordManager.setSectionNote(inspectionData, change.sectionKey, conflict.serverNote || '');
+      } else if (change.kind === 'damage') {
+        newData = conflict.serverPin
+          ? InspectionRecordManager.setDamagePin(inspectionData, conflict.serverPin)
+          : change.pin ? InspectionRecordManager.removeDamagePin(inspectionData, change.pin.id) : inspectionData;
+      } else {
+        newData = conflict.serverItem
+          ? InspectionRecordManager.setItem(inspectionData, change.sectionKey, conflict.serverItem)
+          : inspectionData;
+      }
+    }
+    setInspectionData(newData);
+    if (onInspectionDataChange) {
+      onInspectionDataChange(newData);
+    }
+
+    if (keep === 'mine') {
+      await syncPending();
     } else {
-      // Add new item
-      newData[sectionKey].push({
-        id: itemId,
-        label: itemLabel,
-        rating: newRating,
-        updatedBy: user.initials,
-        updatedAt: new Date().toISOString()
-      });
+      await refreshQueueState();
+    }
+  };
+
+  // "Great (7/32")" - one side of a conflict
+  const describeConflictItem = (sectionKey: string, itemId: string, item: { rating: InspectionRating; value?: InspectionItemValue } | undefined) => {
+    if (!item) return RATING_NAMES['not-checked'];
+    const definition = inspectionSettings?.sections
+      .find(section => section.key === sectionKey)?.items
+      .find(entry => entry.id === itemId);
+    const value = definition ? InspectionItemTypeManager.formatValue(definition, item.value) : null;
+    return value ? `${RATING_NAMES[item.rating]} (${value})` : RATING_NAMES[item.rating];
+  };
+
+  const getConflictTitle = ({ change }: InspectionSyncConflict) => {
+    if (change.kind === 'note') return 'Section notes';
+    if (change.kind === 'damage') {
+      const number = change.pin && DamageDiagramManager.getPinNumbers(InspectionRecordManager.getDamagePins(inspectionData))[change.pin.id];
+      return number ? `Damage #${number}` : 'Damage pin';
+    }
+    return change.item?.label || change.item?.id;
+  };
+
+  const describeConflictSide = (conflict: InspectionSyncConflict, side: 'mine' | 'theirs') => {
+    const { change } = conflict;
+    if (change.kind === 'note') {
+      return (side === 'mine' ? change.note : conflict.serverNote) || 'No notes';
+    }
+    if (change.kind === 'damage') {
+      const pin = side === 'mine' ? (change.removed ? undefined : change.pin) : conflict.serverPin;
+      return pin ? DamageDiagramManager.describePin(pin) : 'Deleted';
+    }
+    return describeConflictItem(change.sectionKey, change.item?.id || '', side === 'mine' ? change.item : conflict.serverItem);
+  };
+
+  // Damage pins are saved like any other checklist edit: queued first, then synced
+  const handleDamagePinSave = (pin: DamagePin) => {
+    if (!user) return;
+    const basePin = InspectionRecordManager.getDamagePin(inspectionData, pin.id);
+    const newData = InspectionRecordManager.setDamagePin(inspectionData, pin);
+    setInspectionData(newData);
+    if (onInspectionDataChange) {
+      onInspectionDataChange(newData);
+    }
+    persistChange(
+      () => OfflineSyncManager.queueDamageChange(vehicleId, pin, false, basePin, user.initials),
+      newData
+    );
+  };
+
+  const handleDamagePinRemove = (pin: DamagePin) => {
+    if (!user) return;
+    const newData = InspectionRecordManager.removeDamagePin(inspectionData, pin.id);
+    setInspectionData(newData);
+    if (onInspectionDataChange) {
+      onInspectionDataChange(newData);
     }
+    persistChange(
+      () => OfflineSyncManager.queueDamageChange(vehicleId, pin, true, pin, user.initials),
+      newData
+    );
+  };
+
+  // Handle rating changes - COMPLETELY REWRITTEN
+  const handleRatingChange = (sectionKey: string, itemId: string, newRating: InspectionRating, itemLabel: string) => {
+    if (!user) return;
+
+    console.log('🎯 BUTTON CLICKED:', { sectionKey, itemId, newRating, itemLabel });
+    console.log('🎯 Current inspection data before update:', inspectionData);
+
+    const newData = InspectionRecordManager.setItemRating(
+      inspectionData,
+      sectionKey,
+      { id: itemId, label: itemLabel },
+      newRating,
+      user.initials
+    );
 
     console.log('🎯 NEW inspection data after update:', newData);
-    console.log('🎯 Updated section data:', newData[sectionKey]);
+    console.log('🎯 Updated section data:', InspectionRecordManager.getSectionItems(newData, sectionKey));
 
     // Force state update
     setInspectionData(newData);
@@ -259,8 +476,8 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
       onInspectionDataChange(newData);
     }
 
-    // Save to database
-    saveToDatabase(newData);
+    // Queue on the device and sync
+    queueItem(inspectionData, newData, sectionKey, itemId);
 
     // Record analytics
     AnalyticsManager.recordTaskUpdate(
@@ -274,6 +491,30 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
     );
   };
 
+  // Measurement, choice, text and pass/fail items - the rating is worked out from the value
+  const handleValueChange = (sectionKey: string, item: InspectionItem, value: InspectionItemValue | undefined) => {
+    if (!user) return;
+
+    const newData = InspectionRecordManager.setItemValue(inspectionData, sectionKey, item, value, user.initials);
+    setInspectionData(newData);
+
+    if (onInspectionDataChange) {
+      onInspectionDataChange(newData);
+    }
+
+    queueItem(inspectionData, newData, sectionKey, item.id);
+
+    AnalyticsManager.recordTaskUpdate(
+      vehicleId,
+      vehicleName,
+      sectionKey as CompletionEvent['section'],
+      user.initials,
+      item.label,
+      undefined,
+      InspectionRecordManager.getItemRating(newData, sectionKey, item.id)
+    );
+  };
+
   const getSectionIcon = (sectionKey: string) => {
     switch (sectionKey) {
       case 'emissions': return Leaf;
@@ -286,10 +527,8 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
   };
 
   // Simple function to get current rating for an item
-  const getCurrentRating = (sectionKey: string, itemId: string): string => {
-    const sectionData = inspectionData[sectionKey] || [];
-    const item = sectionData.find((data: any) => data.id === itemId);
-    const rating = item?.rating || 'not-checked';
+  const getCurrentRating = (sectionKey: string, itemId: string): InspectionRating => {
+    const rating = InspectionRecordManager.getItemRating(inspectionData, sectionKey, itemId);
     console.log(`Getting rating for ${sectionKey}/${itemId}:`, rating);
     return rating;
   };
@@ -298,101 +537,18 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
   const openPhotoModal = async (sectionKey: string, itemId: string, itemLabel: string) => {
     setCurrentPhotoItem({ sectionKey, itemId, itemLabel });
     setPhotoModalOpen(true);
-    setHasUnsavedChanges(false);
     
-    // Check if storage bucket exists and load existing photos
-    await checkStorageBucket();
-    await loadExistingPhotos(sectionKey, itemId);
-  };
-
-  const checkStorageBucket = async () => {
-    try {
-      console.log('🔍 Checking storage bucket...');
-      
-      // Try to list files in the root of the bucket
-      const { data, error } = await supabase.storage
-        .from('reconpro-vehicles')
-        .list('', { limit: 1 });
-
-      if (error) {
-        console.error('❌ Storage bucket error:', error);
-        if (error.message.includes('does not exist')) {
-          console.error('❌ The "reconpro-vehicles" bucket does not exist!');
-          console.error('❌ Please check your Supabase storage configuration.');
-          setUploadError('Storage bucket "reconpro-vehicles" does not exist. Please check your Supabase configuration.');
-        } else {
-          console.error('❌ Storage bucket access error:', error.message);
-          setUploadError(`Storage access error: ${error.message}`);
-        }
-      } else {
-        console.log('✅ Storage bucket exists and is accessible');
-        setUploadError(null);
-      }
-    } catch (error) {
-      console.error('💥 Error checking storage bucket:', error);
-      setUploadError('Failed to check storage bucket. Please verify your Supabase configuration.');
-    }
-  };
-
-  const loadExistingPhotos = async (sectionKey: string, itemId: string) => {
-    try {
-      console.log('📸 Loading existing photos...');
-      
-      // Create a unique folder path for this inspection item
-      const folderPath = `${vehicleId}/${sectionKey}/${itemId}`;
-      
-      console.log('📂 Looking for photos in:', folderPath);
-      
-      // List files in the folder using standard Supabase storage
-      const { data: files, error } = await supabase.storage
-        .from('reconpro-vehicles')
-        .list(folderPath);
-
-      if (error) {
-        console.error('❌ Error loading existing photos:', error);
-        return;
-      }
-
-      console.log('📁 Files found:', files);
-
-      if (files && files.length > 0) {
-        // Get public URLs for all photos
-        const photoData = await Promise.all(
-          files.map(async (file) => {
-            const { data: { publicUrl } } = supabase.storage
-              .from('reconpro-vehicles')
-              .getPublicUrl(`${folderPath}/${file.name}`);
-            
-            return {
-              url: publicUrl,
-              path: `${folderPath}/${file.name}`,
-              name: file.name
-            };
-          })
-        );
-        
-        console.log('🖼️ Photo data loaded:', photoData);
-        setPhotos(photoData);
-      } else {
-        console.log('📭 No existing photos found');
-        setPhotos([]);
-      }
-    } catch (error) {
-      console.error('💥 Error loading existing photos:', error);
-      setPhotos([]);
-    }
+    // Check the storage bucket is reachable, then refresh photos in case someone else added some
+    setUploadError(await PhotoManager.checkBucket());
+    const photosMap = await loadAllItemPhotos();
+    setPhotos(photosMap[`${sectionKey}_${itemId}`] || []);
   };
 
   const closePhotoModal = () => {
-    if (hasUnsavedChanges) {
-      // TODO: Show confirmation dialog before closing
-      console.log('Unsaved changes detected');
-    }
     setPhotoModalOpen(false);
     setCurrentPhotoItem(null);
     setPhotos([]);
     setViewingPhoto(null);
-    setHasUnsavedChanges(false);
   };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -416,7 +572,8 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
     setUploadError(null);
     
     try {
-      const uploadedPhotos: {url: string, path: string, name: string}[] = [];
+      const uploadedPhotos: ItemPhoto[] = [];
+      const location = { vehicleId, sectionKey: currentPhotoItem.sectionKey, itemId: currentPhotoItem.itemId };
       
       for (const file of Array.from(files)) {
         console.log('📁 Processing file:', { 
@@ -431,79 +588,54 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
           continue;
         }
 
-        // Validate file size (max 10MB)
-        if (file.size > 10 * 1024 * 1024) {
+        // Validate file size (max 25MB before compression)
+        if (file.size > 25 * 1024 * 1024) {
           console.warn('⚠️ File too large, skipping:', file.name);
           continue;
         }
 
-        // Create unique filename
-        const timestamp = Date.now();
-        const fileExtension = file.name.split('.').pop();
-        const fileName = `${timestamp}_${Math.random().toString(36).substring(2)}.${fileExtension}`;
-        
-        // Create folder path using standard Supabase storage
-        const folderPath = `${vehicleId}/${currentPhotoItem.sectionKey}/${currentPhotoItem.itemId}`;
-        const filePath = `${folderPath}/${fileName}`;
+        // Resized, compressed and thumbnailed on the device before it goes anywhere
+        const prepared = await PhotoManager.preparePhoto(file);
+        const filePath = PhotoManager.buildPath(vehicleId, location.sectionKey, location.itemId, prepared.extension);
+        const fileName = PhotoManager.getFileName(filePath);
+        const details = PhotoManager.createDetails(location, prepared, user.initials);
         
         console.log('📂 Upload path:', filePath);
-        
-        // Upload to Supabase storage using standard methods
-        const { data, error: uploadError } = await supabase.storage
-          .from('reconpro-vehicles')
-          .upload(filePath, file, {
-            cacheControl: '3600',
-            upsert: false
-          });
-
-        if (uploadError) {
-          console.error('❌ Error uploading file:', uploadError);
-          console.error('❌ Upload error details:', {
-            message: uploadError.message,
-            name: uploadError.name,
-            error: uploadError
-          });
-          
-          // Set user-friendly error message based on error type
-          if (uploadError.message.includes('does not exist')) {
-            setUploadError('Storage bucket not found. Please check your Supabase configuration.');
-          } else if (uploadError.message.includes('not found')) {
-            setUploadError('Storage bucket not accessible. Check your Supabase configuration.');
-          } else if (uploadError.message.includes('400')) {
-            setUploadError('Bad request (400). This usually means the storage bucket is missing or misconfigured.');
-          } else if (uploadError.message.includes('403')) {
-            setUploadError('Access denied (403). Check your storage policies and authentication.');
-          } else if (uploadError.message.includes('401')) {
-            setUploadError('Unauthorized (401). You must be logged in to upload photos.');
-          } else if (uploadError.message.includes('JWT')) {
-            setUploadError('Authentication error. Please log in again.');
-          } else {
-            setUploadError(`Upload failed: ${uploadError.message}`);
+
+        // No signal - keep the photo on the device and upload it on the next sync
+        if (!OfflineSyncManager.isOnline()) {
+          try {
+            await OfflineSyncManager.queuePhoto({
+              ...location,
+              path: filePath,
+              name: fileName,
+              file: prepared.file,
+              thumbnail: prepared.thumbnail,
+              dealershipId: user.dealershipId,
+              details
+            });
+            uploadedPhotos.push({ url: URL.createObjectURL(prepared.file), path: filePath, name: fileName, pending: true });
+          } catch (error) {
+            console.error('❌ Error queueing photo:', error);
+            setUploadError('You are offline and this device could not store the photo. Try again with signal.');
           }
-          
           continue;
         }
-
-        console.log('✅ File uploaded successfully:', data);
-
-        // Get public URL
-        const { data: { publicUrl } } = supabase.storage
-          .from('reconpro-vehicles')
-          .getPublicUrl(filePath);
-
-        console.log('🔗 Public URL generated:', publicUrl);
-
-        uploadedPhotos.push({
-          url: publicUrl,
-          path: filePath,
-          name: fileName
-        });
+        
+        try {
+          const photo = await PhotoManager.uploadPhoto(user.dealershipId, { ...location, path: filePath }, prepared, details);
+          console.log('✅ File uploaded successfully:', photo.path);
+          uploadedPhotos.push(toItemPhoto(photo));
+        } catch (error) {
+          console.error('❌ Error uploading file:', error);
+          setUploadError(PhotoManager.describeUploadError(error instanceof Error ? error.message : String(error)));
+        }
       }
 
       if (uploadedPhotos.length > 0) {
         // Add new photos to the list
         setPhotos(prev => [...prev, ...uploadedPhotos]);
-        setHasUnsavedChanges(true);
+        if (uploadedPhotos.some(photo => photo.pending)) refreshQueueState();
         
         // Update allItemPhotos state
         const itemKey = `${currentPhotoItem.sectionKey}_${currentPhotoItem.itemId}`;
@@ -513,12 +645,9 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
         }));
         
         console.log('🎉 Photos uploaded successfully:', uploadedPhotos);
-        setUploadError(null); // Clear any previous errors
       } else {
         console.warn('⚠️ No photos were uploaded successfully');
-        if (!uploadError) {
-          setUploadError('No photos were uploaded. Please check file types and sizes.');
-        }
+        setUploadError(prev => prev || 'No photos were uploaded. Please check file types and sizes.');
       }
     } catch (error) {
       console.error('💥 Unexpected error during upload:', error);
@@ -530,24 +659,24 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
 
   const removePhoto = async (photoIndex: number) => {
     const photoToRemove = photos[photoIndex];
+    if (!user) return;
     
     console.log('🗑️ Attempting to delete photo:', photoToRemove);
     
     try {
-      // Remove from Supabase storage
-      const { error } = await supabase.storage
-        .from('reconpro-vehicles')
-        .remove([photoToRemove.path]);
-
-      if (error) {
-        console.error('❌ Error removing photo from storage:', error);
-        setUploadError(`Failed to delete photo: ${error.message}`);
+      // Photos still waiting to upload only exist on this device
+      const removed = photoToRemove.pending
+        ? await OfflineSyncManager.removePendingPhoto(photoToRemove.path).then(() => true)
+        : await PhotoManager.deletePhoto(user.dealershipId, photoToRemove);
+
+      if (!removed) {
+        setUploadError('Failed to delete photo. Please try again.');
         return;
       }
 
       // Remove from local state
       setPhotos(prev => prev.filter((_, index) => index !== photoIndex));
-      setHasUnsavedChanges(true);
+      if (photoToRemove.pending) refreshQueueState();
       
       // Update allItemPhotos state
       if (currentPhotoItem) {
@@ -576,42 +705,6 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
     setViewingPhoto(null);
   };
 
-  const savePhotos = async () => {
-    if (!currentPhotoItem || !user) return;
-    
-    setIsUploading(true);
-    
-    try {
-      // Save photo references to database
-      const photoData = {
-        vehicleId,
-        sectionKey: currentPhotoItem.sectionKey,
-        itemId: currentPhotoItem.itemId,
-        photos: photos.map(photo => ({
-          path: photo.path,
-          name: photo.name,
-          uploadedBy: user.initials,
-          uploadedAt: new Date().toISOString()
-        })),
-        updatedBy: user.initials,
-        updatedAt: new Date().toISOString()
-      };
-
-      // TODO: Save to your inspection_photos table or similar
-      console.log('Saving photo data to database:', photoData);
-      
-      // For now, just simulate the save
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      setHasUnsavedChanges(false);
-      console.log('Photos saved successfully to database');
-    } catch (error) {
-      console.error('Error saving photos to database:', error);
-    } finally {
-      setIsUploading(false);
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="bg-white/70 backdrop-blur-sm rounded-xl shadow-lg border border-white/20 p-6">
@@ -675,16 +768,93 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
                   <span className="text-sm">Save Error</span>
                 </div>
               )}
+              {(saveStatus === 'offline' || !isOnline) && saveStatus !== 'saving' && (
+                <div className="flex items-center gap-2 text-orange-600">
+                  <CloudOff className="w-4 h-4" />
+                  <span className="text-sm">Offline</span>
+                </div>
+              )}
             </div>
 
+            {/* Offline Queue */}
+            {pendingCount > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="px-2 py-0.5 bg-orange-100 text-orange-800 border border-orange-200 rounded-full text-xs font-medium">
+                  {pendingCount} waiting to sync
+                </span>
+                {isOnline && (
+                  <button
+                    onClick={syncPending}
+                    disabled={saveStatus === 'saving'}
+                    className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+                    title="Sync now"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Debug Info */}
             <div className="text-xs text-gray-500">
-              Data loaded: {Object.keys(inspectionData).length > 0 ? 'Yes' : 'No'}
+              Data loaded: {InspectionRecordManager.getSectionKeys(inspectionData).length > 0 ? 'Yes' : 'No'}
             </div>
           </div>
         </div>
       </div>
 
+      {/* Sync Conflicts */}
+      {conflicts.length > 0 && (
+        <div className="bg-orange-50/90 rounded-xl shadow-lg border border-orange-200 p-4 sm:p-6 mb-6">
+          <div className="flex items-center gap-2 text-orange-800 mb-1">
+            <AlertTriangle className="w-5 h-5" />
+            <h4 className="font-bold">Changed by someone else while you were offline</h4>
+          </div>
+          <p className="text-sm text-orange-700 mb-4">Pick which version to keep for each item.</p>
+          <div className="space-y-3">
+            {conflicts.map(conflict => {
+              const { change } = conflict;
+              const section = inspectionSettings.sections.find(entry => entry.key === change.sectionKey);
+              const theirInitials = conflict.serverItem?.updatedBy || conflict.serverPin?.updatedBy;
+              return (
+                <div key={conflict.id} className="p-3 bg-white/80 rounded-lg border border-orange-200/60">
+                  <p className="text-sm font-medium text-gray-900">{getConflictTitle(conflict)}</p>
+                  <p className="text-xs text-gray-500 mb-2">
+                    {change.kind === 'damage' ? 'Damage Diagram' : section?.label || change.sectionKey}
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm mb-3">
+                    <div className="p-2 bg-blue-50 rounded-lg border border-blue-200/60">
+                      <span className="text-xs font-semibold text-blue-800 block">Yours ({change.userInitials})</span>
+                      <span className="text-gray-700 whitespace-pre-wrap">{describeConflictSide(conflict, 'mine')}</span>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded-lg border border-gray-200/60">
+                      <span className="text-xs font-semibold text-gray-700 block">
+                        Theirs{theirInitials ? ` (${theirInitials})` : ''}
+                      </span>
+                      <span className="text-gray-700 whitespace-pre-wrap">{describeConflictSide(conflict, 'theirs')}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleResolveConflict(conflict, 'mine')}
+                      className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+                    >
+                      Keep Mine
+                    </button>
+                    <button
+                      onClick={() => handleResolveConflict(conflict, 'theirs')}
+                      className="px-3 py-1.5 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+                    >
+                      Keep Theirs
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Inspection Sections */}
       {activeSections
         .filter(section => !activeFilter || section.key === activeFilter)
@@ -715,11 +885,18 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
                       .sort((a, b) => a.order - b.order)
                       .map((item) => {
                         const currentRating = getCurrentRating(section.key, item.id);
+                        const currentValue = InspectionRecordManager.getItemValue(inspectionData, section.key, item.id);
                         
                         return (
                           <div key={item.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-2 sm:p-4 bg-gray-50/80 rounded-lg border border-gray-200/60 space-y-2 sm:space-y-0">
                             <div className="flex-1">
                               <h5 className="font-medium text-gray-900 text-sm leading-tight">{item.label}</h5>
+                              {reinspectItemKeys.includes(`${section.key}:${item.id}`) && (
+                                <span className="inline-flex items-center gap-1 mt-1 px-1.5 py-0.5 bg-orange-100 text-orange-800 border border-orange-200 rounded text-[10px] font-semibold">
+                                  <Wrench className="w-3 h-3" />
+                                  Repaired - re-inspect
+                                </span>
+                              )}
                               {item.description && (
                                 <p className="text-xs text-gray-600 mt-1 hidden sm:block">{item.description}</p>
                               )}
@@ -746,46 +923,55 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
                                 })()}
                               </button>
 
-                              <div className="grid grid-cols-3 gap-1 sm:flex sm:items-center sm:gap-2">
-                                {/* Great Button */}
-                                <button
-                                  onClick={() => handleRatingChange(section.key, item.id, 'G', item.label)}
-                                  className={`px-2 py-2 sm:px-4 sm:py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 border-2 flex-1 sm:flex-none ${
-                                    currentRating === 'G'
-                                      ? 'bg-emerald-600 text-white border-emerald-500 shadow-lg'
-                                      : 'bg-gray-200 text-gray-700 border-gray-300 hover:bg-gray-300'
-                                  }`}
-                                >
-                                  <span className="hidden sm:inline">Great</span>
-                                  <span className="sm:hidden">G</span>
-                                </button>
-
-                                {/* Fair Button */}
-                                <button
-                                  onClick={() => handleRatingChange(section.key, item.id, 'F', item.label)}
-                                  className={`px-2 py-2 sm:px-4 sm:py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 border-2 flex-1 sm:flex-none ${
-                                    currentRating === 'F'
-                                      ? 'bg-yellow-600 text-white border-yellow-500 shadow-lg'
-                                      : 'bg-gray-200 text-gray-700 border-gray-300 hover:bg-gray-300'
-                                  }`}
-                                >
-                                  <span className="hidden sm:inline">Fair</span>
-                                  <span className="sm:hidden">F</span>
-                                </button>
-
-                                {/* Needs Attention Button */}
-                                <button
-                                  onClick={() => handleRatingChange(section.key, item.id, 'N', item.label)}
-                                  className={`px-2 py-2 sm:px-4 sm:py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 border-2 flex-1 sm:flex-none ${
-                                    currentRating === 'N'
-                                      ? 'bg-red-600 text-white border-red-500 shadow-lg'
-                                      : 'bg-gray-200 text-gray-700 border-gray-300 hover:bg-gray-300'
-                                  }`}
-                                >
-                                  <span className="hidden sm:inline">Needs Attention</span>
-                                  <span className="sm:hidden">N</span>
-                                </button>
-                              </div>
+                              {InspectionItemTypeManager.isTyped(item) ? (
+                                <InspectionItemInput
+                                  item={item}
+                                  value={currentValue}
+                                  rating={currentRating}
+                                  onChange={(value) => handleValueChange(section.key, item, value)}
+                                />
+                              ) : (
+                                <div className="grid grid-cols-3 gap-1 sm:flex sm:items-center sm:gap-2">
+                                  {/* Great Button */}
+                                  <button
+                                    onClick={() => handleRatingChange(section.key, item.id, 'G', item.label)}
+                                    className={`px-2 py-2 sm:px-4 sm:py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 border-2 flex-1 sm:flex-none ${
+                                      currentRating === 'G'
+                                        ? 'bg-emerald-600 text-white border-emerald-500 shadow-lg'
+                                        : 'bg-gray-200 text-gray-700 border-gray-300 hover:bg-gray-300'
+                                    }`}
+                                  >
+                                    <span className="hidden sm:inline">Great</span>
+                                    <span className="sm:hidden">G</span>
+                                  </button>
+
+                                  {/* Fair Button */}
+                                  <button
+                                    onClick={() => handleRatingChange(section.key, item.id, 'F', item.label)}
+                                    className={`px-2 py-2 sm:px-4 sm:py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 border-2 flex-1 sm:flex-none ${
+                                      currentRating === 'F'
+                                        ? 'bg-yellow-600 text-white border-yellow-500 shadow-lg'
+                                        : 'bg-gray-200 text-gray-700 border-gray-300 hover:bg-gray-300'
+                                    }`}
+                                  >
+                                    <span className="hidden sm:inline">Fair</span>
+                                    <span className="sm:hidden">F</span>
+                                  </button>
+
+                                  {/* Needs Attention Button */}
+                                  <button
+                                    onClick={() => handleRatingChange(section.key, item.id, 'N', item.label)}
+                                    className={`px-2 py-2 sm:px-4 sm:py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 border-2 flex-1 sm:flex-none ${
+                                      currentRating === 'N'
+                                        ? 'bg-red-600 text-white border-red-500 shadow-lg'
+                                        : 'bg-gray-200 text-gray-700 border-gray-300 hover:bg-gray-300'
+                                    }`}
+                                  >
+                                    <span className="hidden sm:inline">Needs Attention</span>
+                                    <span className="sm:hidden">N</span>
+                                  </button>
+                                </div>
+                              )}
                             </div>
                           </div>
                         );
@@ -797,6 +983,25 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
                     <p>No inspection items configured for this section</p>
                   </div>
                 )}
+
+                {DamageDiagramManager.isEnabled(section) && (
+                  <DamageDiagram
+                    vehicleId={vehicleId}
+                    pins={InspectionRecordManager.getDamagePins(inspectionData)}
+                    onSavePin={handleDamagePinSave}
+                    onRemovePin={handleDamagePinRemove}
+                  />
+                )}
+
+                {/* Section Notes - saved on blur */}
+                <textarea
+                  key={`${section.key}-${InspectionRecordManager.getSectionNote(inspectionData, section.key)}`}
+                  defaultValue={InspectionRecordManager.getSectionNote(inspectionData, section.key)}
+                  onBlur={(e) => handleNoteChange(section.key, e.target.value.trim())}
+                  rows={2}
+                  placeholder="Section notes..."
+                  className="w-full mt-4 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
               </div>
             </div>
           );
@@ -909,7 +1114,7 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
                     <div key={index} className="relative group cursor-pointer">
                       {/* Photo Image */}
                       <img
-                        src={photo.url}
+                        src={photo.thumbnailUrl || photo.url}
                         alt={`Photo ${index + 1}`}
                         className="w-full h-32 object-cover rounded-lg border border-gray-200 transition-all duration-200"
                         onClick={() => openPhotoViewer(photo.url)}
@@ -928,6 +1133,12 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
                       >
                         <X className="w-3 h-3" />
                       </button>
+
+                      {photo.pending && (
+                        <span className="absolute bottom-2 left-2 px-2 py-0.5 bg-orange-500 text-white text-xs rounded-full font-medium shadow z-10 pointer-events-none">
+                          Waiting to upload
+                        </span>
+                      )}
                       
                       {/* Hover Overlay with View Text */}
                       <div 
@@ -953,43 +1164,15 @@ const InspectionChecklist: React.FC<InspectionChecklistProps> = ({
 
             {/* Modal Footer */}
             <div className="flex items-center justify-between gap-3 p-6 border-t border-gray-200 bg-gray-50">
-              <div className="flex items-center gap-2">
-                {hasUnsavedChanges && (
-                  <span className="text-sm text-orange-600 flex items-center gap-1">
-                    <AlertTriangle className="w-4 h-4" />
-                    Unsaved changes
-                  </span>
-                )}
-              </div>
-              <div className="flex items-center gap-3">
-                <button
-                  onClick={closePhotoModal}
-                  className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={savePhotos}
-                  disabled={isUploading || !hasUnsavedChanges}
-                  className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
-                    isUploading || !hasUnsavedChanges
-                      ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                      : 'bg-blue-600 text-white hover:bg-blue-700'
-                  }`}
-                >
-                  {isUploading ? (
-                    <>
-                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                      Saving...
-                    </>
-                  ) : (
-                    <>
-                      <Save className="w-4 h-4" />
-                      Save Photos
-                    </>
-                  )}
-                </button>
-              </div>
+              <span className="text-sm text-gray-500">
+                Photos are saved as they upload. Captions, tags and order are managed in the vehicle's photo gallery.
+              </span>
+              <button
+                onClick={closePhotoModal}
+                className="px-4 py-2 rounded-lg font-medium transition-colors bg-blue-600 text-white hover:bg-blue-700"
+              >
+                Done
+              </button>
             </div>
           </div>
         </div>
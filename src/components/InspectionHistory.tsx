@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Vehicle } from '../types/vehicle';
+import { InspectionSection } from '../types/inspectionSettings';
+import { InspectionRating, InspectionRecord } from '../types/inspectionRecord';
+import {
+  InspectionItemChange,
+  InspectionSnapshot,
+  InspectionSnapshotKind,
+  InspectionState,
+  INSPECTION_SNAPSHOT_KIND_CONFIGS
+} from '../types/inspectionSnapshot';
+import { InspectionSnapshotManager } from '../utils/inspectionSnapshotManager';
+import { History, Camera, ArrowRight, X } from 'lucide-react';
+
+interface InspectionHistoryProps {
+  vehicle: Vehicle;
+  dealershipId: string;
+  sections: InspectionSection[]; // The vehicle's current checklist
+  inspectionData: InspectionRecord | null;
+}
+
+const CURRENT = 'current';
+
+const RATING_BADGES: Record<InspectionRating, { label: string; className: string }> = {
+  G: { label: 'Great', className: 'bg-emerald-100 text-emerald-800 border-emerald-200' },
+  F: { label: 'Fair', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  N: { label: 'Needs Attention', className: 'bg-red-100 text-red-800 border-red-200' },
+  'not-checked': { label: 'Not Checked', className: 'bg-gray-100 text-gray-600 border-gray-200' }
+};
+
+const DIRECTION_STYLES: Record<InspectionItemChange['direction'], string> = {
+  improved: 'border-l-emerald-500 bg-emerald-50/60',
+  worse: 'border-l-red-500 bg-red-50/60',
+  changed: 'border-l-gray-300 bg-gray-50/80'
+};
+
+const getSnapshotName = (snapshot: InspectionSnapshot) =>
+  snapshot.label || INSPECTION_SNAPSHOT_KIND_CONFIGS[snapshot.kind].label;
+
+// Frozen inspections for the vehicle and a compare view showing what changed between any two of them
+const InspectionHistory: React.FC<InspectionHistoryProps> = ({ vehicle, dealershipId, sections, inspectionData }) => {
+  const { user } = useAuth();
+  const [snapshots, setSnapshots] = useState<InspectionSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showCapture, setShowCapture] = useState(false);
+  const [captureKind, setCaptureKind] = useState<InspectionSnapshotKind>('intake');
+  const [captureLabel, setCaptureLabel] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>(CURRENT);
+
+  useEffect(() => {
+    setIsLoading(true);
+    InspectionSnapshotManager.getSnapshots(dealershipId, vehicle.id)
+      .then(loaded => {
+        setSnapshots(loaded);
+        // Compare the latest snapshot with where the inspection stands now
+        setFromId(loaded.length > 0 ? loaded[loaded.length - 1].id : '');
+        setToId(CURRENT);
+      })
+      .finally(() => setIsLoading(false));
+  }, [dealershipId, vehicle.id]);
+
+  const getState = (id: string): InspectionState | null => {
+    if (id === CURRENT) return { record: inspectionData, sections };
+    const snapshot = snapshots.find(entry => entry.id === id);
+    return snapshot ? { record: snapshot.record, sections: snapshot.sections } : null;
+  };
+
+  const handleCapture = async () => {
+    if (!user || !inspectionData) return;
+
+    setIsSaving(true);
+    try {
+      const snapshot = await InspectionSnapshotManager.createSnapshot(dealershipId, {
+        vehicleId: vehicle.id,
+        kind: captureKind,
+        label: captureLabel.trim() || undefined,
+        record: inspectionData,
+        sections,
+        createdBy: user.initials
+      });
+      if (!snapshot) {
+        alert('Failed to save the inspection snapshot. Please try again.');
+        return;
+      }
+      setSnapshots(prev => [...prev, snapshot]);
+      setFromId(snapshot.id);
+      setToId(CURRENT);
+      setShowCapture(false);
+      setCaptureLabel('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fromState = fromId ? getState(fromId) : null;
+  const toState = getState(toId);
+  const changes = fromState && toState && fromId !== toId
+    ? InspectionSnapshotManager.compare(fromState, toState)
+    : [];
+
+  const options = [
+    ...snapshots.map(snapshot => ({
+      id: snapshot.id,
+      label: `${getSnapshotName(snapshot)} · ${new Date(snapshot.createdAt).toLocaleDateString()}`
+    })),
+    { id: CURRENT, label: 'Current inspection' }
+  ];
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Inspection History
+        </h2>
+        {!showCapture && (
+          <button
+            onClick={() => setShowCapture(true)}
+            disabled={!inspectionData}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            <Camera className="w-4 h-4" />
+            Take Snapshot
+          </button>
+        )}
+      </div>
+
+      {showCapture && (
+        <div className="p-4 bg-gray-50/80 rounded-lg border border-gray-200/60 mb-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-900">Freeze the inspection as it stands now</p>
+            <button onClick={() => setShowCapture(false)} className="p-1 text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <select
+              value={captureKind}
+              onChange={(e) => setCaptureKind(e.target.value as InspectionSnapshotKind)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {(Object.keys(INSPECTION_SNAPSHOT_KIND_CONFIGS) as InspectionSnapshotKind[]).map(kind => (
+                <option key={kind} value={kind}>
+                  {INSPECTION_SNAPSHOT_KIND_CONFIGS[kind].icon} {INSPECTION_SNAPSHOT_KIND_CONFIGS[kind].label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={captureLabel}
+              onChange={(e) => setCaptureLabel(e.target.value)}
+              placeholder="Name (optional)"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <p className="text-xs text-gray-500">Snapshots can't be edited or deleted once saved.</p>
+          <button
+            onClick={handleCapture}
+            disabled={isSaving}
+            className="w-full py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Snapshot'}
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading inspection history...</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No snapshots yet. Take one at intake, after repairs and before delivery to compare them later.
+        </p>
+      ) : (
+        <>
+          {/* Snapshot list, oldest first */}
+          <div className="flex flex-wrap gap-2 mb-4">
+            {snapshots.map(snapshot => {
+              const config = INSPECTION_SNAPSHOT_KIND_CONFIGS[snapshot.kind];
+              return (
+                <span key={snapshot.id} className={`inline-flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium border ${config.color}`}>
+                  {config.icon} {getSnapshotName(snapshot)}
+                  <span className="opacity-75">
+                    · {new Date(snapshot.createdAt).toLocaleDateString()} · {snapshot.createdBy}
+                  </span>
+                </span>
+              );
+            })}
+          </div>
+
+          {/* Compare */}
+          <div className="flex items-center gap-2 mb-4">
+            <select
+              value={fromId}
+              onChange={(e) => setFromId(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {options.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <select
+              value={toId}
+              onChange={(e) => setToId(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {options.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {fromId === toId ? (
+            <p className="text-sm text-gray-500">Pick two different inspections to compare.</p>
+          ) : changes.length === 0 ? (
+            <p className="text-sm text-gray-500">No items changed between these inspections.</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                {changes.length} {changes.length === 1 ? 'item' : 'items'} changed
+              </p>
+              {changes.map(change => (
+                <div
+                  key={`${change.sectionKey}-${change.itemId}`}
+                  className={`p-3 rounded-lg border border-gray-200/60 border-l-4 ${DIRECTION_STYLES[change.direction]}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{change.itemLabel}</p>
+                      <p className="text-xs text-gray-500">{change.sectionLabel}</p>
+                    </div>
+                    {change.changedBy && (
+                      <span className="text-xs text-gray-500 flex-shrink-0">
+                        {change.changedBy}
+                        {change.changedAt && ` · ${new Date(change.changedAt).toLocaleDateString()}`}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 mt-2 flex-wrap">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${RATING_BADGES[change.fromRating].className}`}>
+                      {RATING_BADGES[change.fromRating].label}
+                    </span>
+                    {change.fromValue && <span className="text-xs text-gray-600">{change.fromValue}</span>}
+                    <ArrowRight className="w-3 h-3 text-gray-400" />
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${RATING_BADGES[change.toRating].className}`}>
+                      {RATING_BADGES[change.toRating].label}
+                    </span>
+                    {change.toValue && <span className="text-xs text-gray-600">{change.toValue}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InspectionHistory;
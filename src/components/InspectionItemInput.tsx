@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { Check, X } from 'lucide-react';
+import { InspectionItem } from '../types/inspectionSettings';
+import { InspectionItemValue, InspectionRating } from '../types/inspectionRecord';
+import { InspectionItemTypeManager } from '../utils/inspectionItemTypeManager';
+
+interface InspectionItemInputProps {
+  item: InspectionItem;
+  value: InspectionItemValue | undefined;
+  rating: InspectionRating;
+  onChange: (value: InspectionItemValue | undefined) => void;
+}
+
+const RATING_BADGES: Record<InspectionRating, { label: string; className: string }> = {
+  G: { label: 'Great', className: 'bg-emerald-600 text-white' },
+  F: { label: 'Fair', className: 'bg-yellow-600 text-white' },
+  N: { label: 'Needs Attention', className: 'bg-red-600 text-white' },
+  'not-checked': { label: 'Not checked', className: 'bg-gray-200 text-gray-600' }
+};
+
+const READING_BORDERS: Record<InspectionRating, string> = {
+  G: 'border-emerald-500',
+  F: 'border-yellow-500',
+  N: 'border-red-500',
+  'not-checked': 'border-gray-300'
+};
+
+const CHOICE_SELECTED: Record<InspectionRating, string> = {
+  G: 'bg-emerald-600 text-white border-emerald-500 shadow-lg',
+  F: 'bg-yellow-600 text-white border-yellow-500 shadow-lg',
+  N: 'bg-red-600 text-white border-red-500 shadow-lg',
+  'not-checked': 'bg-gray-600 text-white border-gray-500 shadow-lg'
+};
+
+const UNSELECTED = 'bg-gray-200 text-gray-700 border-gray-300 hover:bg-gray-300';
+
+// Checklist controls for measurement, multiple choice, text and pass/fail items. Typed values are saved on blur
+const InspectionItemInput: React.FC<InspectionItemInputProps> = ({ item, value, rating, onChange }) => {
+  const type = InspectionItemTypeManager.getType(item);
+  const readingLabels = InspectionItemTypeManager.getReadingLabels(item);
+  const [readingDrafts, setReadingDrafts] = useState<string[]>([]);
+  const [textDraft, setTextDraft] = useState('');
+
+  useEffect(() => {
+    setReadingDrafts(InspectionItemTypeManager.getReadings(item, value).map(reading => (reading === null ? '' : String(reading))));
+    setTextDraft(typeof value === 'string' ? value : '');
+  }, [item, value]);
+
+  const commitReadings = () => {
+    const readings = readingLabels.map((_, index) => {
+      const parsed = parseFloat(readingDrafts[index] ?? '');
+      return isNaN(parsed) ? null : parsed;
+    });
+    const current = InspectionItemTypeManager.getReadings(item, value);
+    if (readings.every((reading, index) => reading === current[index])) return;
+    onChange(readings.every(reading => reading === null) ? undefined : readings);
+  };
+
+  const commitText = () => {
+    const text = textDraft.trim();
+    if (text === (typeof value === 'string' ? value : '')) return;
+    onChange(text ? text : undefined);
+  };
+
+  const badge = RATING_BADGES[rating];
+
+  return (
+    <div className="flex flex-col gap-2 w-full sm:w-auto sm:items-end">
+      {type === 'numeric' && (
+        <div className="flex flex-wrap items-center gap-2">
+          {readingLabels.map((label, index) => {
+            const reading = parseFloat(readingDrafts[index] ?? '');
+            const readingRating: InspectionRating = item.measurement && !isNaN(reading)
+              ? InspectionItemTypeManager.rateReading(item.measurement, reading)
+              : 'not-checked';
+            return (
+              <label key={`${label}-${index}`} className="flex items-center gap-1 text-xs text-gray-600">
+                {label && <span className="font-medium">{label}</span>}
+                <input
+                  type="number"
+                  step="any"
+                  inputMode="decimal"
+                  value={readingDrafts[index] ?? ''}
+                  onChange={(e) => {
+                    const next = [...readingDrafts];
+                    next[index] = e.target.value;
+                    setReadingDrafts(next);
+                  }}
+                  onBlur={commitReadings}
+                  className={`w-16 px-2 py-1.5 border-2 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${READING_BORDERS[readingRating]}`}
+                />
+                {item.measurement?.unit && <span>{item.measurement.unit}</span>}
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {type === 'multiple-choice' && (
+        <div className="flex flex-wrap gap-1 sm:gap-2">
+          {(item.choices || []).map(choice => (
+            <button
+              key={choice.label}
+              onClick={() => onChange(value === choice.label ? undefined : choice.label)}
+              className={`px-2 py-2 sm:px-4 sm:py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 border-2 ${
+                value === choice.label ? CHOICE_SELECTED[choice.rating] : UNSELECTED
+              }`}
+            >
+              {choice.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {type === 'text' && (
+        <textarea
+          value={textDraft}
+          onChange={(e) => setTextDraft(e.target.value)}
+          onBlur={commitText}
+          rows={2}
+          placeholder="Enter details..."
+          className="w-full sm:w-72 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+        />
+      )}
+
+      {type === 'pass-fail' && (
+        <div className="grid grid-cols-2 gap-1 sm:flex sm:items-center sm:gap-2">
+          <button
+            onClick={() => onChange(value === true ? undefined : true)}
+            className={`px-2 py-2 sm:px-4 sm:py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 border-2 flex items-center justify-center gap-1 ${
+              value === true ? CHOICE_SELECTED.G : UNSELECTED
+            }`}
+          >
+            <Check className="w-4 h-4" />
+            Pass
+          </button>
+          <button
+            onClick={() => onChange(value === false ? undefined : false)}
+            className={`px-2 py-2 sm:px-4 sm:py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 border-2 flex items-center justify-center gap-1 ${
+              value === false ? CHOICE_SELECTED.N : UNSELECTED
+            }`}
+          >
+            <X className="w-4 h-4" />
+            Fail
+          </button>
+        </div>
+      )}
+
+      {type !== 'pass-fail' && (
+        <span className={`self-start sm:self-end px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+          {badge.label}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default InspectionItemInput;
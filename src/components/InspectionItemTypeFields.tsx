@@ -0,0 +1,210 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  InspectionChoice,
+  InspectionItemType,
+  INSPECTION_ITEM_TYPE_LABELS,
+  MEASUREMENT_PRESETS
+} from '../types/inspectionSettings';
+
+// Item type settings as edited in the item modal; numbers stay strings until saved
+export interface ItemTypeForm {
+  type: InspectionItemType;
+  unit: string;
+  readingLabels: string; // Comma separated
+  higherIsBetter: boolean;
+  greatAt: string;
+  fairAt: string;
+  choices: InspectionChoice[];
+}
+
+interface InspectionItemTypeFieldsProps {
+  form: ItemTypeForm;
+  onChange: (updates: Partial<ItemTypeForm>) => void;
+  errors: Record<string, string>;
+}
+
+const CHOICE_RATINGS: { value: InspectionChoice['rating']; label: string }[] = [
+  { value: 'G', label: 'Great' },
+  { value: 'F', label: 'Fair' },
+  { value: 'N', label: 'Needs Attention' }
+];
+
+const TYPE_HINTS: Partial<Record<InspectionItemType, string>> = {
+  text: 'Counts as rated once something is entered. Never flags the vehicle.',
+  'pass-fail': 'Pass rates Great and Fail rates Needs Attention.'
+};
+
+const InspectionItemTypeFields: React.FC<InspectionItemTypeFieldsProps> = ({ form, onChange, errors }) => {
+  const applyPreset = (key: string) => {
+    const preset = MEASUREMENT_PRESETS.find(entry => entry.key === key);
+    if (!preset) return;
+    onChange({
+      unit: preset.measurement.unit,
+      readingLabels: (preset.measurement.readingLabels || []).join(', '),
+      higherIsBetter: preset.measurement.higherIsBetter,
+      greatAt: String(preset.measurement.greatAt),
+      fairAt: String(preset.measurement.fairAt)
+    });
+  };
+
+  const updateChoice = (index: number, updates: Partial<InspectionChoice>) => {
+    onChange({ choices: form.choices.map((choice, i) => (i === index ? { ...choice, ...updates } : choice)) });
+  };
+
+  const comparison = form.higherIsBetter ? 'or more' : 'or less';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Answer Type
+        </label>
+        <select
+          value={form.type}
+          onChange={(e) => onChange({ type: e.target.value as InspectionItemType })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {(Object.keys(INSPECTION_ITEM_TYPE_LABELS) as InspectionItemType[]).map(type => (
+            <option key={type} value={type}>{INSPECTION_ITEM_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        {TYPE_HINTS[form.type] && <p className="text-xs text-gray-500 mt-1">{TYPE_HINTS[form.type]}</p>}
+      </div>
+
+      {form.type === 'numeric' && (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <h4 className="text-sm font-medium text-gray-700">Measurement</h4>
+            <select
+              value=""
+              onChange={(e) => applyPreset(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Start from a preset...</option>
+              {MEASUREMENT_PRESETS.map(preset => (
+                <option key={preset.key} value={preset.key}>{preset.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Unit</label>
+              <input
+                type="text"
+                value={form.unit}
+                onChange={(e) => onChange({ unit: e.target.value })}
+                placeholder='e.g., mm or /32"'
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Better Readings Are</label>
+              <select
+                value={form.higherIsBetter ? 'higher' : 'lower'}
+                onChange={(e) => onChange({ higherIsBetter: e.target.value === 'higher' })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="higher">Higher</option>
+                <option value="lower">Lower</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Readings</label>
+            <input
+              type="text"
+              value={form.readingLabels}
+              onChange={(e) => onChange({ readingLabels: e.target.value })}
+              placeholder="e.g., LF, RF, LR, RR - leave blank for a single reading"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Great At</label>
+              <input
+                type="number"
+                step="any"
+                value={form.greatAt}
+                onChange={(e) => onChange({ greatAt: e.target.value })}
+                className={`w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.greatAt ? 'border-red-300' : 'border-gray-300'
+                }`}
+              />
+              {errors.greatAt && <p className="text-red-600 text-xs mt-1">{errors.greatAt}</p>}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Fair At</label>
+              <input
+                type="number"
+                step="any"
+                value={form.fairAt}
+                onChange={(e) => onChange({ fairAt: e.target.value })}
+                className={`w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.fairAt ? 'border-red-300' : 'border-gray-300'
+                }`}
+              />
+              {errors.fairAt && <p className="text-red-600 text-xs mt-1">{errors.fairAt}</p>}
+            </div>
+          </div>
+
+          {form.greatAt && form.fairAt && !errors.greatAt && !errors.fairAt && (
+            <p className="text-xs text-gray-500">
+              Great at {form.greatAt}{form.unit ? ` ${form.unit}` : ''} {comparison}, Fair at {form.fairAt}{form.unit ? ` ${form.unit}` : ''} {comparison}, otherwise Needs Attention.
+              {form.readingLabels.trim() && ' The worst reading sets the rating.'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {form.type === 'multiple-choice' && (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+          <h4 className="text-sm font-medium text-gray-700">Choices</h4>
+          {form.choices.map((choice, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={choice.label}
+                onChange={(e) => updateChoice(index, { label: e.target.value })}
+                placeholder="Choice"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <select
+                value={choice.rating}
+                onChange={(e) => updateChoice(index, { rating: e.target.value as InspectionChoice['rating'] })}
+                className="px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {CHOICE_RATINGS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange({ choices: form.choices.filter((_, i) => i !== index) })}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Remove choice"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({ choices: [...form.choices, { label: '', rating: 'G' }] })}
+            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            Add Choice
+          </button>
+          {errors.choices && <p className="text-red-600 text-xs">{errors.choices}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InspectionItemTypeFields;
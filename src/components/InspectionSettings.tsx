@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { InspectionSettingsManager } from '../utils/inspectionSettingsManager';
-import { InspectionSettings as InspectionSettingsType, InspectionSection, InspectionItem, RatingLabel } from '../types/inspectionSettings';
+import { InspectionSettings as InspectionSettingsType, InspectionSection, InspectionItem, RatingLabel, INSPECTION_ITEM_TYPE_LABELS } from '../types/inspectionSettings';
+import { InspectionItemTypeManager } from '../utils/inspectionItemTypeManager';
+import { DamageDiagramManager } from '../utils/damageDiagramManager';
+import InspectionTemplateSettings from './InspectionTemplateSettings';
+import InspectionItemTypeFields, { ItemTypeForm } from './InspectionItemTypeFields';
 import { 
   Settings, 
   Plus, 
@@ -27,7 +31,8 @@ import {
   Circle,
   Copy,
   Move,
-  FileText
+  FileText,
+  Layers
 } from 'lucide-react';
 
 interface SectionModalProps {
@@ -47,6 +52,7 @@ const SectionModal: React.FC<SectionModalProps> = ({ section, isOpen, onClose, o
     color: 'bg-blue-100 text-blue-800 border-blue-200',
     isActive: true,
     isCustomerVisible: true,
+    hasDamageDiagram: false,
     order: 1
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -61,6 +67,7 @@ const SectionModal: React.FC<SectionModalProps> = ({ section, isOpen, onClose, o
         color: section.color,
         isActive: section.isActive,
         isCustomerVisible: section.isCustomerVisible !== undefined ? section.isCustomerVisible : true,
+        hasDamageDiagram: DamageDiagramManager.isEnabled(section),
         order: section.order
       });
     } else {
@@ -73,6 +80,7 @@ const SectionModal: React.FC<SectionModalProps> = ({ section, isOpen, onClose, o
         color: 'bg-blue-100 text-blue-800 border-blue-200',
         isActive: true,
         isCustomerVisible: true,
+        hasDamageDiagram: false,
         order: maxOrder + 1
       });
     }
@@ -107,6 +115,7 @@ const SectionModal: React.FC<SectionModalProps> = ({ section, isOpen, onClose, o
       color: formData.color,
       isActive: formData.isActive,
       isCustomerVisible: formData.isCustomerVisible,
+      hasDamageDiagram: formData.hasDamageDiagram,
       order: formData.order,
       items: section?.items || []
     });
@@ -286,6 +295,16 @@ const SectionModal: React.FC<SectionModalProps> = ({ section, isOpen, onClose, o
                 />
                 <span className="text-sm font-medium text-gray-700">Show in customer PDF</span>
               </label>
+
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={formData.hasDamageDiagram}
+                  onChange={(e) => setFormData(prev => ({ ...prev, hasDamageDiagram: e.target.checked }))}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-700">Show damage diagram</span>
+              </label>
             </div>
           </div>
 
@@ -319,6 +338,60 @@ const SectionModal: React.FC<SectionModalProps> = ({ section, isOpen, onClose, o
   );
 };
 
+const toItemTypeForm = (item?: InspectionItem): ItemTypeForm => ({
+  type: item ? InspectionItemTypeManager.getType(item) : 'rating',
+  unit: item?.measurement?.unit || '',
+  readingLabels: (item?.measurement?.readingLabels || []).join(', '),
+  higherIsBetter: item?.measurement?.higherIsBetter ?? true,
+  greatAt: item?.measurement ? String(item.measurement.greatAt) : '',
+  fairAt: item?.measurement ? String(item.measurement.fairAt) : '',
+  choices: item?.choices ? item.choices.map(choice => ({ ...choice })) : []
+});
+
+// Only the settings for the chosen type are kept, so switching types doesn't leave old thresholds behind
+const fromItemTypeForm = (form: ItemTypeForm): Pick<InspectionItem, 'type' | 'measurement' | 'choices'> => ({
+  type: form.type,
+  measurement: form.type === 'numeric'
+    ? {
+        unit: form.unit.trim(),
+        readingLabels: form.readingLabels.split(',').map(label => label.trim()).filter(Boolean),
+        higherIsBetter: form.higherIsBetter,
+        greatAt: parseFloat(form.greatAt),
+        fairAt: parseFloat(form.fairAt)
+      }
+    : undefined,
+  choices: form.type === 'multiple-choice'
+    ? form.choices.map(choice => ({ ...choice, label: choice.label.trim() }))
+    : undefined
+});
+
+const validateItemTypeForm = (form: ItemTypeForm): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (form.type === 'numeric') {
+    const greatAt = parseFloat(form.greatAt);
+    const fairAt = parseFloat(form.fairAt);
+    if (isNaN(greatAt)) errors.greatAt = 'Enter a number';
+    if (isNaN(fairAt)) errors.fairAt = 'Enter a number';
+    if (!isNaN(greatAt) && !isNaN(fairAt) && (form.higherIsBetter ? fairAt > greatAt : fairAt < greatAt)) {
+      errors.fairAt = `Fair has to be ${form.higherIsBetter ? 'at or below' : 'at or above'} Great`;
+    }
+  }
+
+  if (form.type === 'multiple-choice') {
+    const labels = form.choices.map(choice => choice.label.trim().toLowerCase());
+    if (labels.length < 2) {
+      errors.choices = 'Add at least two choices';
+    } else if (labels.some(label => !label)) {
+      errors.choices = 'Every choice needs a name';
+    } else if (new Set(labels).size !== labels.length) {
+      errors.choices = 'Choice names must be unique';
+    }
+  }
+
+  return errors;
+};
+
 interface ItemModalProps {
   item?: InspectionItem;
   isOpen: boolean;
@@ -335,9 +408,11 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, isOpen, onClose, onSave, ex
     isActive: true,
     order: 1
   });
+  const [typeForm, setTypeForm] = useState<ItemTypeForm>(toItemTypeForm());
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
+    setTypeForm(toItemTypeForm(item));
     if (item) {
       setFormData({
         label: item.label,
@@ -363,6 +438,7 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, isOpen, onClose, onSave, ex
     const newErrors: Record<string, string> = {};
 
     if (!formData.label.trim()) newErrors.label = 'Item name is required';
+    Object.assign(newErrors, validateItemTypeForm(typeForm));
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -377,7 +453,8 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, isOpen, onClose, onSave, ex
       description: formData.description.trim() || undefined,
       isRequired: formData.isRequired,
       isActive: formData.isActive,
-      order: formData.order
+      order: formData.order,
+      ...fromItemTypeForm(typeForm)
     });
     onClose();
   };
@@ -386,7 +463,7 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, isOpen, onClose, onSave, ex
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-      <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl max-w-lg w-full border border-white/20">
+      <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto border border-white/20">
         <div className="p-6">
           <div className="flex items-center justify-between mb-6">
             <h3 className="text-lg font-bold text-gray-900">
@@ -430,6 +507,12 @@ const ItemModal: React.FC<ItemModalProps> = ({ item, isOpen, onClose, onSave, ex
               />
             </div>
 
+            <InspectionItemTypeFields
+              form={typeForm}
+              onChange={(updates) => setTypeForm(prev => ({ ...prev, ...updates }))}
+              errors={errors}
+            />
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Display Order
@@ -491,7 +574,7 @@ const InspectionSettings: React.FC = () => {
   const { dealership, user } = useAuth();
   const [settings, setSettings] = useState<InspectionSettingsType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'sections' | 'ratings' | 'global' | 'pdf'>('sections');
+  const [activeTab, setActiveTab] = useState<'sections' | 'templates' | 'ratings' | 'global' | 'pdf'>('sections');
   const [showSectionModal, setShowSectionModal] = useState(false);
   const [showItemModal, setShowItemModal] = useState(false);
   const [editingSection, setEditingSection] = useState<InspectionSection | null>(null);
@@ -961,6 +1044,17 @@ const InspectionSettings: React.FC = () => {
             <List className="w-5 h-5" />
             Sections & Items
           </button>
+          <button
+            onClick={() => setActiveTab('templates')}
+            className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-semibold transition-all duration-200 ${
+              activeTab === 'templates'
+                ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-md border border-blue-100 dark:border-blue-800'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 hover:bg-white/50 dark:hover:bg-gray-700/50'
+            }`}
+          >
+            <Layers className="w-5 h-5" />
+            Templates
+          </button>
           <button
             onClick={() => setActiveTab('ratings')}
             className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-semibold transition-all duration-200 ${
@@ -1126,6 +1220,12 @@ const InspectionSettings: React.FC = () => {
                                 <div className="flex items-center gap-3">
                                   <div className="flex items-center gap-2">
                                     <span className="text-sm font-medium text-gray-900 dark:text-white">{item.label}</span>
+                                    {InspectionItemTypeManager.isTyped(item) && (
+                                      <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 dark:bg-blue-900/60 text-blue-700 dark:text-blue-300 rounded-full text-xs font-medium">
+                                        {INSPECTION_ITEM_TYPE_LABELS[InspectionItemTypeManager.getType(item)]}
+                                        {item.measurement?.unit && ` (${item.measurement.unit})`}
+                                      </span>
+                                    )}
                                     {item.isRequired && (
                                       <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-100 dark:bg-orange-900/60 text-orange-700 dark:text-orange-300 rounded-full text-xs font-medium">
                                         Required
@@ -1365,6 +1465,14 @@ const InspectionSettings: React.FC = () => {
         </div>
       )}
 
+      {activeTab === 'templates' && dealership && (
+        <InspectionTemplateSettings
+          settings={settings}
+          dealershipId={dealership.id}
+          onSettingsChanged={loadSettings}
+        />
+      )}
+
       {activeTab === 'pdf' && (
         <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-xl shadow-lg border border-white/20 dark:border-gray-700/20 p-6">
           <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Customer PDF Settings</h3>
@@ -0,0 +1,75 @@
+import React from 'react';
+import { ClipboardList, Lock } from 'lucide-react';
+import { Vehicle } from '../types/vehicle';
+import { InspectionSettings, InspectionTemplateSnapshot } from '../types/inspectionSettings';
+import { InspectionTemplateManager } from '../utils/inspectionTemplateManager';
+
+interface InspectionTemplatePickerProps {
+  vehicle: Vehicle;
+  settings: InspectionSettings | null; // The dealership's settings, not the vehicle's copy
+  canChange: boolean;
+  onChange: (templateId: string | null) => void;
+}
+
+const SELECTED_BY_LABELS: Record<InspectionTemplateSnapshot['selectedBy'], string> = {
+  rule: 'Matched by template rules',
+  default: 'Dealership default',
+  manual: 'Picked by hand'
+};
+
+// Which checklist the vehicle is inspected against, and whether it's been locked in yet
+const InspectionTemplatePicker: React.FC<InspectionTemplatePickerProps> = ({ vehicle, settings, canChange, onChange }) => {
+  const templates = InspectionTemplateManager.getActiveTemplates(settings);
+  const snapshot = vehicle.inspectionTemplate;
+  const selection = InspectionTemplateManager.selectTemplate(settings, vehicle);
+  const selectedBy = snapshot?.selectedBy || selection.selectedBy;
+  const currentId = snapshot ? snapshot.templateId : selection.template?.id || null;
+
+  // Nothing to choose between until the dealership sets up a template
+  if (templates.length === 0 && !snapshot?.templateId) return null;
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h2 className="text-sm font-medium text-gray-600 flex items-center gap-2">
+            <ClipboardList className="w-4 h-4" />
+            Inspection Template
+          </h2>
+          <p className="text-lg font-bold text-gray-900 truncate">
+            {InspectionTemplateManager.getVehicleTemplateName(settings, vehicle)}
+          </p>
+          <p className="text-xs text-gray-500 flex items-center gap-1">
+            {SELECTED_BY_LABELS[selectedBy]}
+            {snapshot ? (
+              <>
+                {' · '}
+                <Lock className="w-3 h-3" />
+                Locked in {new Date(snapshot.snapshotAt).toLocaleDateString()}
+                {snapshot.snapshotBy && ` by ${snapshot.snapshotBy}`}
+              </>
+            ) : (
+              ' · Locked in on the first inspection save'
+            )}
+          </p>
+        </div>
+
+        {canChange && (
+          <select
+            value={currentId || ''}
+            onChange={(e) => onChange(e.target.value || null)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm max-w-[50%]"
+            title="Change the checklist this vehicle is inspected against"
+          >
+            <option value="">Full checklist</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InspectionTemplatePicker;
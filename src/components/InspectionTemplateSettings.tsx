@@ -0,0 +1,547 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Edit3, Trash2, X, Save, Eye, EyeOff, ChevronDown, ChevronUp, Layers, Star } from 'lucide-react';
+import {
+  InspectionSettings,
+  InspectionSection,
+  InspectionTemplate,
+  InspectionTemplateRule
+} from '../types/inspectionSettings';
+import { InspectionSettingsManager } from '../utils/inspectionSettingsManager';
+import { InspectionTemplateManager } from '../utils/inspectionTemplateManager';
+import { ProgressCalculator } from '../utils/progressCalculator';
+
+type TemplateData = Omit<InspectionTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Rule inputs are kept as strings so fields can be left blank
+type RuleForm = Record<Exclude<keyof InspectionTemplateRule, 'makes'>, string> & { makes: string };
+
+const RULE_NUMBER_FIELDS: { key: Exclude<keyof InspectionTemplateRule, 'makes'>; label: string }[] = [
+  { key: 'minYear', label: 'Year From' },
+  { key: 'maxYear', label: 'Year To' },
+  { key: 'minMileage', label: 'Mileage From' },
+  { key: 'maxMileage', label: 'Mileage To' },
+  { key: 'minPrice', label: 'Price From' },
+  { key: 'maxPrice', label: 'Price To' }
+];
+
+const toRuleForm = (rule: InspectionTemplateRule = {}): RuleForm => ({
+  makes: (rule.makes || []).join(', '),
+  minYear: rule.minYear?.toString() ?? '',
+  maxYear: rule.maxYear?.toString() ?? '',
+  minMileage: rule.minMileage?.toString() ?? '',
+  maxMileage: rule.maxMileage?.toString() ?? '',
+  minPrice: rule.minPrice?.toString() ?? '',
+  maxPrice: rule.maxPrice?.toString() ?? ''
+});
+
+const fromRuleForm = (form: RuleForm): InspectionTemplateRule => {
+  const rule: InspectionTemplateRule = {};
+  const makes = form.makes.split(',').map(make => make.trim()).filter(Boolean);
+  if (makes.length > 0) rule.makes = makes;
+  RULE_NUMBER_FIELDS.forEach(({ key }) => {
+    const value = parseFloat(form[key]);
+    if (form[key].trim() && !isNaN(value)) rule[key] = value;
+  });
+  return rule;
+};
+
+interface TemplateModalProps {
+  template?: InspectionTemplate;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (templateData: TemplateData) => void;
+  sections: InspectionSection[];
+  existingTemplates: InspectionTemplate[];
+}
+
+const TemplateModal: React.FC<TemplateModalProps> = ({ template, isOpen, onClose, onSave, sections, existingTemplates }) => {
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    isActive: true,
+    isDefault: false,
+    order: 1
+  });
+  const [ruleForm, setRuleForm] = useState<RuleForm>(toRuleForm());
+  const [sectionKeys, setSectionKeys] = useState<string[]>([]);
+  const [itemIds, setItemIds] = useState<Record<string, string[]>>({});
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const activeSections = useMemo(() => ProgressCalculator.getActiveSections(sections), [sections]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (template) {
+      setFormData({
+        name: template.name,
+        description: template.description || '',
+        isActive: template.isActive,
+        isDefault: template.isDefault,
+        order: template.order
+      });
+      setRuleForm(toRuleForm(template.rules));
+      setSectionKeys(template.sectionKeys);
+      setItemIds(template.itemIds || {});
+    } else {
+      const maxOrder = Math.max(...existingTemplates.map(t => t.order), 0);
+      setFormData({ name: '', description: '', isActive: true, isDefault: false, order: maxOrder + 1 });
+      setRuleForm(toRuleForm());
+      setSectionKeys(activeSections.map(section => section.key));
+      setItemIds({});
+    }
+    setExpandedSections(new Set());
+    setErrors({});
+  }, [template, isOpen, activeSections, existingTemplates]);
+
+  const toggleSection = (sectionKey: string) => {
+    setSectionKeys(prev => prev.includes(sectionKey) ? prev.filter(key => key !== sectionKey) : [...prev, sectionKey]);
+  };
+
+  const toggleExpanded = (sectionKey: string) => {
+    setExpandedSections(prev => {
+      const next = new Set(prev);
+      if (next.has(sectionKey)) {
+        next.delete(sectionKey);
+      } else {
+        next.add(sectionKey);
+      }
+      return next;
+    });
+  };
+
+  const isItemIncluded = (sectionKey: string, itemId: string) =>
+    !itemIds[sectionKey] || itemIds[sectionKey].includes(itemId);
+
+  // A section with every item ticked has no entry, so items added to it later are picked up automatically
+  const toggleItem = (section: InspectionSection, itemId: string) => {
+    const allIds = ProgressCalculator.getActiveItems(section).map(item => item.id);
+    const current = itemIds[section.key] || allIds;
+    const updated = current.includes(itemId) ? current.filter(id => id !== itemId) : [...current, itemId];
+    setItemIds(prev => {
+      const next = { ...prev };
+      if (allIds.every(id => updated.includes(id))) {
+        delete next[section.key];
+      } else {
+        next[section.key] = updated;
+      }
+      return next;
+    });
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name.trim()) newErrors.name = 'Template name is required';
+    const duplicateName = existingTemplates.find(t =>
+      t.name.trim().toLowerCase() === formData.name.trim().toLowerCase() && t.id !== template?.id
+    );
+    if (duplicateName) newErrors.name = 'Template name must be unique';
+    if (sectionKeys.length === 0) newErrors.sections = 'Pick at least one section';
+
+    RULE_NUMBER_FIELDS.forEach(({ key, label }) => {
+      if (ruleForm[key].trim() && isNaN(parseFloat(ruleForm[key]))) newErrors[key] = `${label} must be a number`;
+    });
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    // Keep item subsets only for sections that are still included
+    const includedItemIds = Object.fromEntries(
+      Object.entries(itemIds).filter(([sectionKey]) => sectionKeys.includes(sectionKey))
+    );
+
+    onSave({
+      name: formData.name.trim(),
+      description: formData.description.trim() || undefined,
+      sectionKeys: activeSections.map(section => section.key).filter(key => sectionKeys.includes(key)),
+      itemIds: Object.keys(includedItemIds).length > 0 ? includedItemIds : undefined,
+      rules: fromRuleForm(ruleForm),
+      isDefault: formData.isDefault,
+      isActive: formData.isActive,
+      order: formData.order
+    });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-white/20">
+        <div className="sticky top-0 bg-white/95 backdrop-blur-sm border-b border-gray-200/60 px-6 py-4 rounded-t-2xl">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center shadow-lg">
+                <Layers className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  {template ? 'Edit Template' : 'Add New Template'}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  Pick the sections and items, and which vehicles get this checklist
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Template Name *
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.name ? 'border-red-300' : 'border-gray-300'
+                }`}
+                placeholder="e.g., Wholesale quick check"
+              />
+              {errors.name && <p className="text-red-600 text-sm mt-1">{errors.name}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Rule Order
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={formData.order}
+                onChange={(e) => setFormData(prev => ({ ...prev, order: parseInt(e.target.value) || 1 }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Rules are checked in this order; the first match wins</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Description
+            </label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="When this checklist should be used..."
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            />
+          </div>
+
+          {/* Selection rules */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-1">Applies To</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Vehicles matching every filled-in field get this template. Leave them all blank to only use it when picked by hand.
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Makes
+                </label>
+                <input
+                  type="text"
+                  value={ruleForm.makes}
+                  onChange={(e) => setRuleForm(prev => ({ ...prev, makes: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="e.g., Toyota, Lexus"
+                />
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {RULE_NUMBER_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={ruleForm[key]}
+                      onChange={(e) => setRuleForm(prev => ({ ...prev, [key]: e.target.value }))}
+                      className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                        errors[key] ? 'border-red-300' : 'border-gray-300'
+                      }`}
+                    />
+                    {errors[key] && <p className="text-red-600 text-sm mt-1">{errors[key]}</p>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Sections and items */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">Sections & Items</h3>
+            <div className="space-y-2">
+              {activeSections.map(section => {
+                const included = sectionKeys.includes(section.key);
+                const items = ProgressCalculator.getActiveItems(section);
+                const includedCount = items.filter(item => isItemIncluded(section.key, item.id)).length;
+                return (
+                  <div key={section.key} className="border border-gray-200 rounded-lg">
+                    <div className="flex items-center justify-between p-3">
+                      <label className="flex items-center gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={included}
+                          onChange={() => toggleSection(section.key)}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium border ${section.color}`}>
+                          <span>{section.icon}</span>
+                          <span>{section.label}</span>
+                        </span>
+                      </label>
+                      {included && items.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => toggleExpanded(section.key)}
+                          className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+                        >
+                          {includedCount} of {items.length} items
+                          {expandedSections.has(section.key) ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                        </button>
+                      )}
+                    </div>
+                    {included && expandedSections.has(section.key) && (
+                      <div className="px-3 pb-3 pl-10 space-y-1">
+                        {items.map(item => (
+                          <label key={item.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={isItemIncluded(section.key, item.id)}
+                              onChange={() => toggleItem(section, item.id)}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            {item.label}
+                            {item.isRequired && <span className="text-xs text-red-600">Required</span>}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {errors.sections && <p className="text-red-600 text-sm mt-1">{errors.sections}</p>}
+          </div>
+
+          <div className="space-y-3">
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={formData.isDefault}
+                onChange={(e) => setFormData(prev => ({ ...prev, isDefault: e.target.checked }))}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm font-medium text-gray-700">Default template</span>
+              <span className="text-xs text-gray-500">Used when no other template's rules match</span>
+            </label>
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm font-medium text-gray-700">Active</span>
+            </label>
+          </div>
+
+          <div className="flex gap-3 pt-4 border-t border-gray-200">
+            <button
+              type="submit"
+              className="flex-1 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center justify-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              {template ? 'Update Template' : 'Add Template'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+interface InspectionTemplateSettingsProps {
+  settings: InspectionSettings;
+  dealershipId: string;
+  onSettingsChanged: () => Promise<void>;
+}
+
+// Templates tab of the inspection settings page
+const InspectionTemplateSettings: React.FC<InspectionTemplateSettingsProps> = ({ settings, dealershipId, onSettingsChanged }) => {
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<InspectionTemplate | null>(null);
+
+  // Memoized so the open modal doesn't reset its form whenever this re-renders
+  const templates = useMemo(() => [...(settings.templates || [])].sort((a, b) => a.order - b.order), [settings.templates]);
+  const sectionLabels = settings.sections.reduce<Record<string, string>>((acc, section) => {
+    acc[section.key] = section.label;
+    return acc;
+  }, {});
+
+  const handleSaveTemplate = async (templateData: TemplateData) => {
+    try {
+      if (editingTemplate) {
+        await InspectionSettingsManager.updateTemplate(dealershipId, editingTemplate.id, templateData);
+      } else {
+        await InspectionSettingsManager.addTemplate(dealershipId, templateData);
+      }
+      await onSettingsChanged();
+    } catch (error) {
+      console.error('Error saving template:', error);
+    } finally {
+      setEditingTemplate(null);
+    }
+  };
+
+  const handleToggleActive = async (template: InspectionTemplate) => {
+    try {
+      await InspectionSettingsManager.updateTemplate(dealershipId, template.id, { isActive: !template.isActive });
+      await onSettingsChanged();
+    } catch (error) {
+      console.error('Error updating template:', error);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: InspectionTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Vehicles already inspected against it keep their checklist.`)) return;
+
+    try {
+      await InspectionSettingsManager.deleteTemplate(dealershipId, template.id);
+      await onSettingsChanged();
+    } catch (error) {
+      console.error('Error deleting template:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-xl shadow-lg border border-white/20 dark:border-gray-700/20 p-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Templates are built from the sections and items above. Each vehicle gets the first active template whose rules match it,
+          then the default template, then the full checklist. The checklist is locked in on the vehicle the first time its inspection is saved.
+        </p>
+        <button
+          onClick={() => setShowTemplateModal(true)}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+        >
+          <Plus className="w-5 h-5" />
+          Add New Template
+        </button>
+      </div>
+
+      {templates.length === 0 ? (
+        <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-xl shadow-lg border border-white/20 dark:border-gray-700/20 p-8 text-center">
+          <Layers className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+          <p className="text-gray-600 dark:text-gray-400">No templates yet - every vehicle uses the full checklist.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {templates.map(template => {
+            const itemCount = InspectionTemplateManager.resolveSections(settings.sections, template)
+              .reduce((count, section) => count + section.items.length, 0);
+            return (
+              <div key={template.id} className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-xl shadow-lg border border-white/20 dark:border-gray-700/20 p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <h3 className="font-semibold text-gray-900 dark:text-white">{template.name}</h3>
+                      <span className="text-sm text-gray-600 dark:text-gray-400">{itemCount} items</span>
+                      {template.isDefault && (
+                        <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 dark:bg-blue-900/60 text-blue-700 dark:text-blue-300 rounded-full text-xs font-medium">
+                          <Star className="w-3 h-3" />
+                          Default
+                        </span>
+                      )}
+                      {!template.isActive && (
+                        <span className="inline-flex items-center gap-1 px-2 py-1 bg-red-100 dark:bg-red-900/60 text-red-700 dark:text-red-300 rounded-full text-xs font-medium">
+                          <EyeOff className="w-3 h-3" />
+                          Inactive
+                        </span>
+                      )}
+                    </div>
+                    {template.description && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{template.description}</p>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                      <span className="font-medium">Applies to:</span> {InspectionTemplateManager.describeRule(template.rules)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      <span className="font-medium">Sections:</span> {template.sectionKeys.map(key => sectionLabels[key] || key).join(', ') || 'None'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleToggleActive(template)}
+                      className={`p-2 rounded-lg transition-colors ${
+                        template.isActive
+                          ? 'text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20'
+                          : 'text-gray-400 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
+                      title={template.isActive ? 'Deactivate template' : 'Activate template'}
+                    >
+                      {template.isActive ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => setEditingTemplate(template)}
+                      className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                      title="Edit template"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteTemplate(template)}
+                      className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                      title="Delete template"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <TemplateModal
+        template={editingTemplate || undefined}
+        isOpen={showTemplateModal || !!editingTemplate}
+        onClose={() => {
+          setShowTemplateModal(false);
+          setEditingTemplate(null);
+        }}
+        onSave={handleSaveTemplate}
+        sections={settings.sections}
+        existingTemplates={templates}
+      />
+    </div>
+  );
+};
+
+export default InspectionTemplateSettings;
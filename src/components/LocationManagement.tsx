@@ -2,8 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { LocationManager } from '../utils/locationManager';
 import { VehicleManager } from '../utils/vehicleManager';
-import { Location, LocationType, LOCATION_TYPE_CONFIGS } from '../types/location';
-import { Vehicle } from '../types/vehicle';
+import { Location, LocationType, LocationDwellStats, LOCATION_TYPE_CONFIGS } from '../types/location';
+import { Vehicle, getStockNumber } from '../types/vehicle';
 import { supabase } from '../utils/supabaseClient';
 import { 
   MapPin, 
@@ -27,17 +27,39 @@ import {
   Hash,
   ArrowRight,
   Palette,
-  Save
+  Save,
+  History,
+  AlertTriangle
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import LotMap from './LotMap';
 
 interface LocationDetailModalProps {
   location: Location;
   vehicles: Vehicle[];
+  dwellStats?: LocationDwellStats;
+  historyVehicles: Vehicle[]; // Every vehicle incl. sold/pending, to name the ones that passed through
+  activeVehicles: Vehicle[]; // Candidates for parking on the lot map
+  highlightVehicleId?: string;
+  onAssignSpot: (vehicle: Vehicle, spot: string | null) => Promise<void>;
   onClose: () => void;
 }
 
-const LocationDetailModal: React.FC<LocationDetailModalProps> = ({ location, vehicles, onClose }) => {
+const formatDwellDays = (days: number) => {
+  const rounded = Math.round(days * 10) / 10;
+  return `${rounded} day${rounded !== 1 ? 's' : ''}`;
+};
+
+const LocationDetailModal: React.FC<LocationDetailModalProps> = ({
+  location,
+  vehicles,
+  dwellStats,
+  historyVehicles,
+  activeVehicles,
+  highlightVehicleId,
+  onAssignSpot,
+  onClose
+}) => {
   const typeConfig = LOCATION_TYPE_CONFIGS[location.type];
   
   const formatPrice = (price: number) => {
@@ -56,10 +78,6 @@ const LocationDetailModal: React.FC<LocationDetailModalProps> = ({ location, veh
     });
   };
 
-  const getStockNumber = (vin: string): string => {
-    return vin.slice(-6);
-  };
-
   const getOverallProgress = (vehicle: Vehicle) => {
     // Since we changed vehicle.status to a string, we'll return a simple progress based on the status
     switch (vehicle.status) {
@@ -77,6 +95,11 @@ const LocationDetailModal: React.FC<LocationDetailModalProps> = ({ location, veh
   };
 
   const totalValue = vehicles.reduce((sum, vehicle) => sum + vehicle.price, 0);
+  const completedStays = (dwellStats?.stays || []).filter(stay => stay.leftAt);
+  const vehiclesById = historyVehicles.reduce((acc, vehicle) => {
+    acc[vehicle.id] = vehicle;
+    return acc;
+  }, {} as Record<string, Vehicle>);
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -114,7 +137,7 @@ const LocationDetailModal: React.FC<LocationDetailModalProps> = ({ location, veh
 
         {/* Summary Stats */}
         <div className="px-6 py-4 bg-gray-50/80 dark:bg-gray-800/80 border-b border-gray-200/60 dark:border-gray-700/60">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">{vehicles.length}</div>
               <div className="text-sm text-gray-600">Total Vehicles</div>
@@ -135,11 +158,28 @@ const LocationDetailModal: React.FC<LocationDetailModalProps> = ({ location, veh
               </div>
               <div className="text-sm text-gray-600">Avg Progress</div>
             </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-indigo-600">
+                {dwellStats?.averageDwellDays !== undefined ? formatDwellDays(dwellStats.averageDwellDays) : '—'}
+              </div>
+              <div className="text-sm text-gray-600">Avg Dwell Time</div>
+            </div>
           </div>
         </div>
 
         {/* Vehicle List */}
         <div className="flex-1 overflow-y-auto p-6">
+          {location.layout && (
+            <div className="mb-6">
+              <LotMap
+                location={location}
+                vehicles={activeVehicles}
+                highlightVehicleId={highlightVehicleId}
+                onAssignSpot={onAssignSpot}
+              />
+            </div>
+          )}
+
           {vehicles.length === 0 ? (
             <div className="text-center py-12">
               <Car className="w-16 h-16 text-gray-400 mx-auto mb-4" />
@@ -168,6 +208,11 @@ const LocationDetailModal: React.FC<LocationDetailModalProps> = ({ location, veh
                           {vehicle.trim && (
                             <span className="text-gray-600 dark:text-gray-300 font-medium">{vehicle.trim}</span>
                           )}
+                          {vehicle.parkingSpot && (
+                            <span className="inline-flex items-center px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200 rounded-full text-xs font-semibold border border-blue-200 dark:border-blue-800">
+                              Spot {vehicle.parkingSpot}
+                            </span>
+                          )}
                           {isReadyForSale && (
                             <span className="inline-flex items-center gap-1 px-2 py-1 bg-emerald-100 dark:bg-emerald-900 text-emerald-700 dark:text-emerald-200 rounded-full text-xs font-semibold border border-emerald-200 dark:border-emerald-800">
                               <span className="w-2 h-2 bg-emerald-500 rounded-full"></span>
@@ -310,6 +355,42 @@ const LocationDetailModal: React.FC<LocationDetailModalProps> = ({ location, veh
               })}
             </div>
           )}
+
+          {/* Vehicles that have moved on from this location */}
+          {completedStays.length > 0 && (
+            <div className="mt-8">
+              <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 flex items-center gap-2 mb-3">
+                <History className="w-5 h-5" />
+                Passed Through ({completedStays.length})
+              </h3>
+              <div className="divide-y divide-gray-200/60 dark:divide-gray-700/60 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700">
+                {completedStays.map(stay => {
+                  const stayVehicle = vehiclesById[stay.vehicleId];
+                  return (
+                    <Link
+                      key={`${stay.vehicleId}-${stay.enteredAt}`}
+                      to={`/vehicle/${stay.vehicleId}`}
+                      className="flex items-center justify-between gap-4 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                          {stayVehicle ? `${stayVehicle.year} ${stayVehicle.make} ${stayVehicle.model}` : 'Removed vehicle'}
+                          {stayVehicle && <span className="text-gray-500 font-normal"> · #{getStockNumber(stayVehicle.vin)}</span>}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatDate(stay.enteredAt)} – {stay.leftAt && formatDate(stay.leftAt)}
+                          {stay.reason && ` · ${stay.reason}`}
+                        </p>
+                      </div>
+                      <span className="text-sm font-semibold text-gray-700 dark:text-gray-200 flex-shrink-0">
+                        {formatDwellDays(stay.dwellDays)}
+                      </span>
+                    </Link>
+                  );
+                })}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -542,18 +623,24 @@ const LocationManagement: React.FC = () => {
   const [filteredLocations, setFilteredLocations] = useState<Location[]>([]);
   const [vehicleLocationCounts, setVehicleLocationCounts] = useState<Record<string, number>>({});
   const [allVehicles, setAllVehicles] = useState<Vehicle[]>([]);
+  const [historyVehicles, setHistoryVehicles] = useState<Vehicle[]>([]);
+  const [dwellStats, setDwellStats] = useState<Record<string, LocationDwellStats>>({});
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState<LocationType | 'all'>('all');
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingLocation, setEditingLocation] = useState<Location | null>(null);
   const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
+  const [highlightVehicleId, setHighlightVehicleId] = useState<string | undefined>(undefined);
+  const [stockSearch, setStockSearch] = useState('');
   const [showColorSettings, setShowColorSettings] = useState(false);
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     type: 'on-site' as LocationType,
     description: '',
-    capacity: ''
+    capacity: '',
+    layoutRows: '',
+    layoutSpotsPerRow: ''
   });
 
   useEffect(() => {
@@ -614,6 +701,10 @@ const LocationManagement: React.FC = () => {
       // Filter out sold and pending vehicles
       const activeVehicles = vehicles.filter((v: Vehicle) => v.status !== 'sold' && v.status !== 'pending');
       setAllVehicles(activeVehicles);
+
+      // Dwell time looks at every vehicle, sold ones included, that has been through a location
+      setHistoryVehicles(vehicles);
+      setDwellStats(LocationManager.getDwellStatsByLocation(vehicles));
       
       // Calculate location counts using the location field (which maps to location_name in DB)
       const counts: Record<string, number> = {};
@@ -651,6 +742,48 @@ const LocationManagement: React.FC = () => {
     setSelectedLocation(location);
   };
 
+  // Opens the vehicle's location with its spot highlighted on the lot map
+  const handleFindVehicle = (vehicle: Vehicle) => {
+    const location = locations.find(loc => loc.name === vehicle.location);
+    if (!location) return;
+    setHighlightVehicleId(vehicle.id);
+    setSelectedLocation(location);
+  };
+
+  const handleAssignSpot = async (vehicle: Vehicle, spot: string | null) => {
+    if (!dealership || !selectedLocation) return;
+
+    if (spot && vehicle.location !== selectedLocation.name) {
+      const capacityCheck = await LocationManager.checkLocationCapacity(dealership.id, selectedLocation.name);
+      if (!capacityCheck.allowed) {
+        alert(`${capacityCheck.message} Move a vehicle out before adding another.`);
+        return;
+      }
+      if (capacityCheck.isOverCapacity && !window.confirm(`${capacityCheck.message} Move this vehicle there anyway?`)) {
+        return;
+      }
+    }
+
+    const updatedVehicle = await VehicleManager.assignParkingSpot(
+      dealership.id,
+      vehicle.id,
+      selectedLocation.name,
+      spot,
+      user?.initials
+    );
+    if (!updatedVehicle) {
+      alert(`Could not park the vehicle in spot ${spot}. It may have just been taken - refresh and try again.`);
+    }
+    await loadVehicles();
+  };
+
+  // Empty row/spot inputs mean the location has no lot map
+  const getLayoutFromForm = () => {
+    const rows = parseInt(formData.layoutRows);
+    const spotsPerRow = parseInt(formData.layoutSpotsPerRow);
+    return rows > 0 && spotsPerRow > 0 ? { rows, spotsPerRow } : undefined;
+  };
+
   const handleAddLocation = async () => {
     if (!dealership || !formData.name.trim()) return;
 
@@ -660,6 +793,7 @@ const LocationManagement: React.FC = () => {
         type: formData.type,
         description: formData.description.trim() || undefined,
         capacity: formData.capacity ? parseInt(formData.capacity) : undefined,
+        layout: getLayoutFromForm(),
         isActive: true
       };
 
@@ -680,7 +814,8 @@ const LocationManagement: React.FC = () => {
         name: formData.name.trim(),
         type: formData.type,
         description: formData.description.trim() || undefined,
-        capacity: formData.capacity ? parseInt(formData.capacity) : undefined
+        capacity: formData.capacity ? parseInt(formData.capacity) : undefined,
+        layout: getLayoutFromForm()
       };
 
       await LocationManager.updateLocation(dealership.id, editingLocation.id, updates);
@@ -729,7 +864,9 @@ const LocationManagement: React.FC = () => {
       name: '',
       type: 'on-site',
       description: '',
-      capacity: ''
+      capacity: '',
+      layoutRows: '',
+      layoutSpotsPerRow: ''
     });
   };
 
@@ -739,7 +876,9 @@ const LocationManagement: React.FC = () => {
       name: location.name,
       type: location.type,
       description: location.description || '',
-      capacity: location.capacity?.toString() || ''
+      capacity: location.capacity?.toString() || '',
+      layoutRows: location.layout?.rows.toString() || '',
+      layoutSpotsPerRow: location.layout?.spotsPerRow.toString() || ''
     });
   };
 
@@ -777,6 +916,18 @@ const LocationManagement: React.FC = () => {
   const stats = getLocationStats();
   const isAdmin = user?.role === 'admin';
 
+  // Most utilized first, so the locations that need attention are at the top
+  const capacityLocations = locations
+    .filter(loc => loc.isActive && loc.capacity)
+    .map(loc => ({
+      location: loc,
+      count: vehicleLocationCounts[loc.name] || 0,
+      percentage: ((vehicleLocationCounts[loc.name] || 0) / (loc.capacity || 1)) * 100
+    }))
+    .sort((a, b) => b.percentage - a.percentage);
+  const overCapacityLocations = LocationManager.getOverCapacityLocations(locations, vehicleLocationCounts);
+  const stockResults = LocationManager.findVehiclesByStockNumber(allVehicles, stockSearch).slice(0, 5);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -817,6 +968,123 @@ const LocationManagement: React.FC = () => {
         <LocationColorSettings />
       )}
 
+      {/* Find a Vehicle */}
+      <div className="bg-white/70 dark:bg-gray-900/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 dark:border-gray-700/20 p-6">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 flex items-center gap-2 mb-4">
+          <Hash className="w-5 h-5" />
+          Find a Vehicle
+        </h3>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Stock # or VIN..."
+            value={stockSearch}
+            onChange={(e) => setStockSearch(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+          />
+        </div>
+        {stockSearch.trim() && (
+          <div className="mt-3 space-y-2">
+            {stockResults.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No active vehicle matches "{stockSearch.trim()}".</p>
+            ) : (
+              stockResults.map(vehicle => (
+                <button
+                  key={vehicle.id}
+                  onClick={() => handleFindVehicle(vehicle)}
+                  className="w-full flex items-center justify-between gap-3 p-3 bg-gray-50/80 dark:bg-gray-800/80 rounded-lg border border-gray-200/60 dark:border-gray-700/60 hover:border-blue-300 transition-colors text-left"
+                >
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900 dark:text-gray-100">#{getStockNumber(vehicle.vin)}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-300 truncate">
+                      {vehicle.year} {vehicle.make} {vehicle.model} · {vehicle.color}
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 flex items-center gap-1 justify-end">
+                      <MapPin className="w-3 h-3" />
+                      {vehicle.location || 'No location'}
+                    </p>
+                    <p className={`text-xs ${vehicle.parkingSpot ? 'text-blue-700 dark:text-blue-300 font-semibold' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {vehicle.parkingSpot ? `Spot ${vehicle.parkingSpot}` : 'No spot assigned'}
+                    </p>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Capacity Utilization */}
+      {capacityLocations.length > 0 && (
+        <div className="bg-white/70 dark:bg-gray-900/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 dark:border-gray-700/20 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+              <BarChart3 className="w-5 h-5" />
+              Capacity Utilization
+            </h3>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {capacityLocations.length} location{capacityLocations.length !== 1 ? 's' : ''} with a capacity limit
+            </span>
+          </div>
+
+          {overCapacityLocations.length > 0 && (
+            <div className="mb-4 p-4 bg-red-50/80 dark:bg-red-900/30 rounded-lg border border-red-200/60 dark:border-red-800/60">
+              <p className="text-sm font-semibold text-red-800 dark:text-red-200 flex items-center gap-2 mb-2">
+                <AlertTriangle className="w-4 h-4" />
+                {overCapacityLocations.length} location{overCapacityLocations.length !== 1 ? 's are' : ' is'} over capacity
+              </p>
+              <ul className="space-y-1">
+                {overCapacityLocations.map(location => {
+                  const vehicleCount = vehicleLocationCounts[location.name] || 0;
+                  return (
+                    <li key={location.id}>
+                      <button
+                        onClick={() => handleLocationClick(location)}
+                        className="w-full flex items-center justify-between text-sm text-red-700 dark:text-red-300 hover:underline"
+                      >
+                        <span>{location.name}</span>
+                        <span className="font-medium">
+                          {vehicleCount}/{location.capacity} (+{vehicleCount - (location.capacity || 0)})
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {capacityLocations.map(({ location, count, percentage }) => {
+              const capacityStatus = getCapacityStatus(location);
+              return (
+                <div key={location.id}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="text-gray-700 dark:text-gray-300 truncate">{location.name}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                      {count}/{location.capacity} · {Math.round(percentage)}%
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full transition-all duration-300 ${
+                        capacityStatus === 'full' ? 'bg-red-500' :
+                        capacityStatus === 'warning' ? 'bg-amber-500' :
+                        'bg-green-500'
+                      }`}
+                      style={{ width: `${Math.min(percentage, 100)}%` }}
+                    ></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="bg-white/70 dark:bg-gray-900/70 backdrop-blur-sm rounded-xl shadow-lg border border-white/20 dark:border-gray-700/20 p-6">
         <div className="flex flex-col lg:flex-row gap-4">
@@ -878,6 +1146,7 @@ const LocationManagement: React.FC = () => {
             const typeConfig = LOCATION_TYPE_CONFIGS[location.type];
             const vehicleCount = vehicleLocationCounts[location.name] || 0;
             const capacityStatus = getCapacityStatus(location);
+            const locationDwell = dwellStats[location.name];
             
             return (
               <div 
@@ -958,6 +1227,17 @@ const LocationManagement: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Dwell Time */}
+                  {locationDwell?.averageDwellDays !== undefined && (
+                    <div className="flex items-center justify-between text-sm mb-3">
+                      <span className="text-gray-600 dark:text-gray-300">Avg dwell</span>
+                      <span className="font-semibold text-gray-900 dark:text-gray-100">
+                        {formatDwellDays(locationDwell.averageDwellDays)}
+                        <span className="text-xs text-gray-500 dark:text-gray-400 font-normal"> · {locationDwell.vehicleCount} vehicles</span>
+                      </span>
+                    </div>
+                  )}
+
                   {/* Capacity Information */}
                   {location.capacity && (
                     <div className="space-y-2">
@@ -1052,7 +1332,15 @@ const LocationManagement: React.FC = () => {
         <LocationDetailModal
           location={selectedLocation}
           vehicles={allVehicles.filter(vehicle => vehicle.location === selectedLocation.name)}
-          onClose={() => setSelectedLocation(null)}
+          dwellStats={dwellStats[selectedLocation.name]}
+          historyVehicles={historyVehicles}
+          activeVehicles={allVehicles}
+          highlightVehicleId={highlightVehicleId}
+          onAssignSpot={handleAssignSpot}
+          onClose={() => {
+            setSelectedLocation(null);
+            setHighlightVehicleId(undefined);
+          }}
         />
       )}
 
@@ -1135,6 +1423,35 @@ const LocationManagement: React.FC = () => {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Lot Map (Optional)
+                  </label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <input
+                      type="number"
+                      value={formData.layoutRows}
+                      onChange={(e) => setFormData({ ...formData, layoutRows: e.target.value })}
+                      placeholder="Rows"
+                      min="1"
+                      max="52"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="number"
+                      value={formData.layoutSpotsPerRow}
+                      onChange={(e) => setFormData({ ...formData, layoutSpotsPerRow: e.target.value })}
+                      placeholder="Spots per row"
+                      min="1"
+                      max="100"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Spots are labelled by row letter and number, e.g. A1, B7
+                  </p>
+                </div>
               </div>
 
               <div className="flex gap-3 mt-6">
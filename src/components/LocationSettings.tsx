@@ -1,19 +1,13 @@
 import React, { useState, useEffect, useContext } from 'react';
 import { LocationManager } from '../utils/locationManager';
-import { LocationSettings as LocationSettingsType, LocationType, LOCATION_TYPE_CONFIGS } from '../types/location';
+import { LocationSettings as LocationSettingsType, LocationType, CapacityEnforcement, LOCATION_TYPE_CONFIGS, DEFAULT_LOCATION_SETTINGS } from '../types/location';
 import { Settings, Save, RotateCcw } from 'lucide-react';
 import { AuthContext } from '../contexts/AuthContext';
 
 const LocationSettings: React.FC = () => {
   const authContext = useContext(AuthContext);
   const dealership = authContext?.dealership;
-  const [settings, setSettings] = useState<LocationSettingsType>({
-    defaultLocationType: 'on-site',
-    allowCustomLocations: true,
-    requireLocationForVehicles: true,
-    autoAssignLocation: false,
-    locationCapacityTracking: true
-  });
+  const [settings, setSettings] = useState<LocationSettingsType>(DEFAULT_LOCATION_SETTINGS);
   const [hasChanges, setHasChanges] = useState(false);
   const [loading, setLoading] = useState(true);
 
@@ -159,6 +153,23 @@ const LocationSettings: React.FC = () => {
               <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
             </label>
           </div>
+
+          {settings.locationCapacityTracking && (
+            <div className="p-4 bg-gray-50/80 dark:bg-gray-800/80 rounded-lg border border-gray-200/60 dark:border-gray-700/60">
+              <label className="block font-medium text-gray-900 dark:text-white mb-1">
+                When a Location Is Full
+              </label>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">Applies when a vehicle is added or moved to a location that has reached its capacity</p>
+              <select
+                value={settings.capacityEnforcement}
+                onChange={(e) => handleSettingChange('capacityEnforcement', e.target.value as CapacityEnforcement)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="warn">Warn and ask to confirm</option>
+                <option value="block">Block the move</option>
+              </select>
+            </div>
+          )}
         </div>
 
         {/* Action Buttons */}
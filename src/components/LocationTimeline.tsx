@@ -0,0 +1,82 @@
+import React from 'react';
+import { Vehicle } from '../types/vehicle';
+import { LocationManager } from '../utils/locationManager';
+import { MapPin, ArrowRight } from 'lucide-react';
+
+interface LocationTimelineProps {
+  vehicle: Vehicle;
+}
+
+const formatDwell = (days: number) => {
+  if (days < 1) {
+    const hours = Math.round(days * 24);
+    return `${hours} hr${hours !== 1 ? 's' : ''}`;
+  }
+  const rounded = Math.round(days * 10) / 10;
+  return `${rounded} day${rounded !== 1 ? 's' : ''}`;
+};
+
+const LocationTimeline: React.FC<LocationTimelineProps> = ({ vehicle }) => {
+  // Newest first so the current location is at the top
+  const stays = LocationManager.getLocationStays(vehicle).reverse();
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <MapPin className="w-5 h-5" />
+          Location History
+        </h2>
+        <span className="text-xs text-gray-500">
+          {Math.max(0, stays.length - 1)} move{stays.length - 1 !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      {stays.length === 0 ? (
+        <p className="text-sm text-gray-500">No location recorded yet.</p>
+      ) : (
+        <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+          {stays.map((stay, index) => {
+            const previous = stays[index + 1];
+            const isCurrent = !stay.leftAt;
+            return (
+              <li key={`${stay.location}-${stay.enteredAt}`} className="ml-4">
+                <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full border-2 ${
+                  isCurrent ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-400'
+                }`}></span>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 flex items-center gap-1 flex-wrap">
+                      {previous && (
+                        <>
+                          <span className="text-gray-500 font-normal">{previous.location}</span>
+                          <ArrowRight className="w-3 h-3 text-gray-400" />
+                        </>
+                      )}
+                      <span>{stay.location}</span>
+                      {isCurrent && (
+                        <span className="px-1.5 py-0.5 bg-blue-100 text-blue-700 rounded text-[10px] font-semibold uppercase">Current</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(stay.enteredAt).toLocaleString()}
+                      {stay.movedInBy ? ` · ${stay.movedInBy}` : !previous ? ' · Acquired' : ''}
+                    </p>
+                    {stay.reason && (
+                      <p className="text-xs text-gray-600 italic mt-0.5">"{stay.reason}"</p>
+                    )}
+                  </div>
+                  <span className="text-xs font-semibold text-gray-700 flex-shrink-0">
+                    {formatDwell(stay.dwellDays)}
+                  </span>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default LocationTimeline;
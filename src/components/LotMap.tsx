@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Location } from '../types/location';
+import { Vehicle, getStockNumber } from '../types/vehicle';
+import { LocationManager } from '../utils/locationManager';
+import { Grid3X3, Car, X, ArrowRight } from 'lucide-react';
+
+interface LotMapProps {
+  location: Location;
+  vehicles: Vehicle[]; // Active vehicles at every location, so a car can be parked here from elsewhere
+  highlightVehicleId?: string;
+  onAssignSpot: (vehicle: Vehicle, spot: string | null) => Promise<void>;
+}
+
+const LotMap: React.FC<LotMapProps> = ({ location, vehicles, highlightVehicleId, onAssignSpot }) => {
+  const [selectedSpot, setSelectedSpot] = useState<string | null>(null);
+  const [selectedVehicleId, setSelectedVehicleId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const highlightedVehicle = vehicles.find(vehicle => vehicle.id === highlightVehicleId);
+
+  // Jump straight to the spot of a vehicle found by stock number
+  useEffect(() => {
+    if (highlightedVehicle?.location === location.name && highlightedVehicle.parkingSpot) {
+      setSelectedSpot(highlightedVehicle.parkingSpot);
+    }
+  }, [highlightedVehicle, location.name]);
+
+  if (!location.layout) return null;
+
+  const spots = LocationManager.getLayoutSpots(location.layout);
+  const assignments = LocationManager.getSpotAssignments(location, vehicles);
+  const totalSpots = location.layout.rows * location.layout.spotsPerRow;
+  const parkedIds = new Set(Object.values(assignments).map(vehicle => vehicle.id));
+  const unplacedHere = vehicles.filter(vehicle => vehicle.location === location.name && !parkedIds.has(vehicle.id));
+  const elsewhere = vehicles.filter(vehicle => vehicle.location !== location.name);
+  const selectedOccupant = selectedSpot ? assignments[selectedSpot] : undefined;
+
+  const handleSpotClick = (spot: string) => {
+    setSelectedSpot(prev => (prev === spot ? null : spot));
+    setSelectedVehicleId('');
+  };
+
+  const handleAssign = async (vehicle: Vehicle, spot: string | null) => {
+    setSaving(true);
+    try {
+      await onAssignSpot(vehicle, spot);
+      setSelectedVehicleId('');
+      if (!spot) setSelectedSpot(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const vehicleLabel = (vehicle: Vehicle) =>
+    `#${getStockNumber(vehicle.vin)} · ${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+          <Grid3X3 className="w-5 h-5" />
+          Lot Map
+        </h3>
+        <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-300">
+          <span>{parkedIds.size}/{totalSpots} spots filled</span>
+          {unplacedHere.length > 0 && (
+            <span className="px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full text-xs font-medium border border-amber-200">
+              {unplacedHere.length} without a spot
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Spot grid */}
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-block space-y-1.5">
+          {spots.map((row, rowIndex) => (
+            <div key={rowIndex} className="flex items-center gap-1.5">
+              <span className="w-6 text-xs font-bold text-gray-500 text-center flex-shrink-0">
+                {LocationManager.getRowLabel(rowIndex)}
+              </span>
+              {row.map(spot => {
+                const occupant = assignments[spot];
+                const isHighlighted = !!occupant && occupant.id === highlightVehicleId;
+                const isSelected = selectedSpot === spot;
+                return (
+                  <button
+                    key={spot}
+                    onClick={() => handleSpotClick(spot)}
+                    title={occupant ? `${spot}: ${vehicleLabel(occupant)}` : `${spot}: empty`}
+                    className={`w-14 h-10 rounded-md border text-[10px] leading-tight font-medium flex flex-col items-center justify-center transition-colors flex-shrink-0 ${
+                      isHighlighted
+                        ? 'bg-amber-300 border-amber-500 text-amber-900 animate-pulse'
+                        : occupant
+                          ? 'bg-blue-100 border-blue-300 text-blue-800 hover:bg-blue-200'
+                          : 'bg-gray-50 dark:bg-gray-800 border-dashed border-gray-300 dark:border-gray-600 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    } ${isSelected ? 'ring-2 ring-blue-500 ring-offset-1' : ''}`}
+                  >
+                    <span className="opacity-70">{spot}</span>
+                    {occupant && <span className="font-bold">{getStockNumber(occupant.vin)}</span>}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Selected spot */}
+      {selectedSpot && (
+        <div className="mt-4 p-4 bg-gray-50/80 dark:bg-gray-800/80 rounded-lg border border-gray-200/60 dark:border-gray-700/60">
+          <div className="flex items-center justify-between mb-3">
+            <p className="font-semibold text-gray-900 dark:text-gray-100">Spot {selectedSpot}</p>
+            <button
+              onClick={() => setSelectedSpot(null)}
+              className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {selectedOccupant ? (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <Car className="w-4 h-4 flex-shrink-0" />
+                <span>{vehicleLabel(selectedOccupant)}</span>
+                <span className="text-gray-500">· {selectedOccupant.color}</span>
+              </div>
+              <div className="flex gap-2">
+                <Link
+                  to={`/vehicle/${selectedOccupant.id}`}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+                >
+                  Open
+                  <ArrowRight className="w-3 h-3" />
+                </Link>
+                <button
+                  onClick={() => handleAssign(selectedOccupant, null)}
+                  disabled={saving}
+                  className="px-3 py-1.5 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors text-sm font-medium disabled:opacity-50"
+                >
+                  Clear Spot
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={selectedVehicleId}
+                onChange={(e) => setSelectedVehicleId(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+              >
+                <option value="">Choose a vehicle to park here...</option>
+                {unplacedHere.length > 0 && (
+                  <optgroup label={`At ${location.name}`}>
+                    {unplacedHere.map(vehicle => (
+                      <option key={vehicle.id} value={vehicle.id}>{vehicleLabel(vehicle)}</option>
+                    ))}
+                  </optgroup>
+                )}
+                {elsewhere.length > 0 && (
+                  <optgroup label="Move from another location">
+                    {elsewhere.map(vehicle => (
+                      <option key={vehicle.id} value={vehicle.id}>
+                        {vehicleLabel(vehicle)} ({vehicle.location || 'No location'})
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+              <button
+                onClick={() => {
+                  const vehicle = vehicles.find(v => v.id === selectedVehicleId);
+                  if (vehicle) handleAssign(vehicle, selectedSpot);
+                }}
+                disabled={!selectedVehicleId || saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                Park Here
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LotMap;
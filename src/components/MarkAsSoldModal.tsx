@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { X, Archive, Save } from 'lucide-react';
+import { Vehicle, VehicleSaleDetails } from '../types/vehicle';
+
+interface MarkAsSoldModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (sale: VehicleSaleDetails) => void;
+  vehicle: Vehicle;
+}
+
+const MarkAsSoldModal: React.FC<MarkAsSoldModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  vehicle
+}) => {
+  const [formData, setFormData] = useState({
+    soldPrice: '',
+    soldTo: '',
+    soldDate: '',
+    soldNotes: ''
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Start from the list price and today's date each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({
+        soldPrice: vehicle.price ? String(vehicle.price) : '',
+        soldTo: '',
+        soldDate: new Date().toISOString().split('T')[0],
+        soldNotes: ''
+      });
+      setErrors({});
+    }
+  }, [isOpen, vehicle.price]);
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+    const price = parseFloat(formData.soldPrice);
+
+    if (!formData.soldPrice.trim() || isNaN(price) || price < 0) newErrors.soldPrice = 'Enter a valid sale price';
+    if (!formData.soldTo.trim()) newErrors.soldTo = 'Buyer is required';
+    if (!formData.soldDate) {
+      newErrors.soldDate = 'Sale date is required';
+    } else if (formData.soldDate > new Date().toISOString().split('T')[0]) {
+      newErrors.soldDate = 'Sale date cannot be in the future';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    onConfirm({
+      soldPrice: parseFloat(formData.soldPrice),
+      soldTo: formData.soldTo.trim(),
+      soldDate: formData.soldDate,
+      soldNotes: formData.soldNotes.trim() || undefined
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl max-w-lg w-full border border-white/20">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-red-500 to-rose-600 rounded-xl flex items-center justify-center shadow-lg">
+                <Archive className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h3 className="text-lg font-bold text-gray-900">Mark as Sold</h3>
+                <p className="text-sm text-gray-600">{vehicle.year} {vehicle.make} {vehicle.model}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Sale Price *
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.soldPrice}
+                  onChange={(e) => setFormData(prev => ({ ...prev, soldPrice: e.target.value }))}
+                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                    errors.soldPrice ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                {errors.soldPrice && <p className="text-red-600 text-sm mt-1">{errors.soldPrice}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Sale Date *
+                </label>
+                <input
+                  type="date"
+                  value={formData.soldDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, soldDate: e.target.value }))}
+                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                    errors.soldDate ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                {errors.soldDate && <p className="text-red-600 text-sm mt-1">{errors.soldDate}</p>}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Buyer *
+              </label>
+              <input
+                type="text"
+                value={formData.soldTo}
+                onChange={(e) => setFormData(prev => ({ ...prev, soldTo: e.target.value }))}
+                placeholder="Customer or wholesale buyer"
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.soldTo ? 'border-red-300' : 'border-gray-300'
+                }`}
+              />
+              {errors.soldTo && <p className="text-red-600 text-sm mt-1">{errors.soldTo}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Notes (Optional)
+              </label>
+              <textarea
+                value={formData.soldNotes}
+                onChange={(e) => setFormData(prev => ({ ...prev, soldNotes: e.target.value }))}
+                placeholder="Trade-in, financing, delivery details..."
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+            </div>
+
+            <div className="flex gap-3 pt-4 border-t border-gray-200">
+              <button
+                type="submit"
+                className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium flex items-center justify-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                Mark as Sold
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MarkAsSoldModal;
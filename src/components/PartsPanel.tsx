@@ -0,0 +1,372 @@
+import React, { useState, useEffect } from 'react';
+import { Vehicle } from '../types/vehicle';
+import { Contact } from '../types/contact';
+import { InspectionSection } from '../types/inspectionSettings';
+import { PartOrder, PART_ORDER_STATUS_CONFIGS } from '../types/partOrder';
+import { PartOrderManager } from '../utils/partOrderManager';
+import { ReconCostManager } from '../utils/reconCostManager';
+import { ContactManager } from '../utils/contactManager';
+import { Package, Plus, Check, Trash2, Truck, Link as LinkIcon } from 'lucide-react';
+
+interface PartsPanelProps {
+  vehicle: Vehicle;
+  dealershipId: string;
+  userInitials: string;
+  sections: InspectionSection[];
+  onCostsChanged: () => void;
+}
+
+interface PartFormState {
+  partNumber: string;
+  description: string;
+  supplierId: string;
+  cost: string;
+  orderedDate: string;
+  etaDate: string;
+  inspectionItemKey: string; // "sectionKey::itemId"
+  notes: string;
+}
+
+const getToday = () => new Date().toISOString().split('T')[0];
+
+const getEmptyForm = (): PartFormState => ({
+  partNumber: '',
+  description: '',
+  supplierId: '',
+  cost: '',
+  orderedDate: getToday(),
+  etaDate: '',
+  inspectionItemKey: '',
+  notes: ''
+});
+
+const formatDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString();
+
+// Parts ordered for this vehicle, each tracked by a 'parts-order' todo until it arrives
+const PartsPanel: React.FC<PartsPanelProps> = ({
+  vehicle,
+  dealershipId,
+  userInitials,
+  sections,
+  onCostsChanged
+}) => {
+  const [parts, setParts] = useState<PartOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Contact[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<PartFormState>(getEmptyForm());
+  const [formError, setFormError] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const [partOrders, contacts] = await Promise.all([
+        PartOrderManager.getParts(dealershipId, vehicle.id),
+        ContactManager.getContacts(dealershipId)
+      ]);
+      setParts(partOrders);
+      // Parts suppliers first, then anyone else who might sell a part
+      setSuppliers(contacts
+        .filter(contact => contact.isActive)
+        .sort((a, b) => Number(b.category === 'parts-supplier') - Number(a.category === 'parts-supplier')));
+      setIsLoading(false);
+    };
+    load();
+  }, [dealershipId, vehicle.id]);
+
+  const outstanding = parts.filter(part => !part.receivedDate).length;
+
+  const openForm = () => {
+    setForm(getEmptyForm());
+    setFormError('');
+    setShowForm(true);
+  };
+
+  const replacePart = (saved: PartOrder) => {
+    setParts(prev => prev.map(part => (part.id === saved.id ? saved : part)));
+  };
+
+  const handleAddPart = async () => {
+    const cost = form.cost.trim() === '' ? undefined : parseFloat(form.cost);
+    if (!form.description.trim()) {
+      setFormError('Description is required');
+      return;
+    }
+    if (cost !== undefined && (isNaN(cost) || cost < 0)) {
+      setFormError('Please enter a valid cost');
+      return;
+    }
+    if (form.orderedDate && form.etaDate && form.etaDate < form.orderedDate) {
+      setFormError('ETA cannot be before the order date');
+      return;
+    }
+
+    const supplier = suppliers.find(contact => contact.id === form.supplierId);
+    const [sectionKey, itemId] = form.inspectionItemKey ? form.inspectionItemKey.split('::') : ['', ''];
+    const inspectionItem = sections.find(section => section.key === sectionKey)?.items.find(item => item.id === itemId);
+
+    setSavingId('new');
+    try {
+      const saved = await PartOrderManager.addPart(dealershipId, {
+        vehicleId: vehicle.id,
+        vehicleName: `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
+        partNumber: form.partNumber.trim(),
+        description: form.description.trim(),
+        supplierId: supplier?.id || '',
+        supplierName: supplier ? (supplier.company || supplier.name) : '',
+        cost,
+        orderedDate: form.orderedDate,
+        etaDate: form.etaDate,
+        inspectionSectionKey: inspectionItem ? sectionKey : '',
+        inspectionItemId: inspectionItem ? itemId : '',
+        inspectionItemLabel: inspectionItem?.label || '',
+        notes: form.notes.trim(),
+        createdBy: userInitials
+      }, userInitials);
+      if (!saved) {
+        alert('Failed to add the part. Please try again.');
+        return;
+      }
+      setParts(prev => [saved, ...prev]);
+      setShowForm(false);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleMarkOrdered = async (part: PartOrder) => {
+    setSavingId(part.id);
+    try {
+      const saved = await PartOrderManager.updatePart(dealershipId, part.id, { orderedDate: getToday() });
+      if (saved) {
+        replacePart(saved);
+      } else {
+        alert('Failed to update the part. Please try again.');
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleReceive = async (part: PartOrder) => {
+    setSavingId(part.id);
+    try {
+      const saved = await PartOrderManager.receivePart(dealershipId, part, getToday(), userInitials);
+      if (!saved) {
+        alert('Failed to receive the part. Please try again.');
+        return;
+      }
+      replacePart(saved);
+      if (saved.reconCostId && !part.reconCostId) onCostsChanged();
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDelete = async (part: PartOrder) => {
+    if (!window.confirm(`Delete "${part.description}"?`)) return;
+    if (await PartOrderManager.deletePart(dealershipId, part)) {
+      setParts(prev => prev.filter(entry => entry.id !== part.id));
+    } else {
+      alert('Failed to delete the part. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Package className="w-5 h-5" />
+          Parts
+          {outstanding > 0 && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+              {outstanding} waiting
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={openForm}
+          className="inline-flex items-center gap-1 px-3 py-1.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 text-xs font-semibold shadow"
+        >
+          <Plus className="w-3 h-3" />
+          Add Part
+        </button>
+      </div>
+
+      {/* Add Form */}
+      {showForm && (
+        <div className="mb-4 p-3 bg-blue-50/60 border border-blue-200/60 rounded-lg space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={form.partNumber}
+              onChange={(e) => setForm(prev => ({ ...prev, partNumber: e.target.value }))}
+              placeholder="Part #"
+              className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+            />
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="Description (e.g., Driver mirror glass)"
+              className="col-span-2 px-2 py-1.5 border border-gray-300 rounded text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={form.supplierId}
+              onChange={(e) => setForm(prev => ({ ...prev, supplierId: e.target.value }))}
+              className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+            >
+              <option value="">No supplier</option>
+              {suppliers.map(contact => (
+                <option key={contact.id} value={contact.id}>
+                  {contact.company || contact.name}{contact.company ? ` (${contact.name})` : ''}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.cost}
+              onChange={(e) => setForm(prev => ({ ...prev, cost: e.target.value }))}
+              placeholder="Cost"
+              className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              Ordered (blank if not yet)
+              <input
+                type="date"
+                value={form.orderedDate}
+                onChange={(e) => setForm(prev => ({ ...prev, orderedDate: e.target.value }))}
+                className="mt-0.5 w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              ETA
+              <input
+                type="date"
+                value={form.etaDate}
+                min={form.orderedDate || undefined}
+                onChange={(e) => setForm(prev => ({ ...prev, etaDate: e.target.value }))}
+                className="mt-0.5 w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+              />
+            </label>
+          </div>
+          <select
+            value={form.inspectionItemKey}
+            onChange={(e) => setForm(prev => ({ ...prev, inspectionItemKey: e.target.value }))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          >
+            <option value="">Not linked to an inspection item</option>
+            {sections.map(section => (
+              <optgroup key={section.key} label={section.label}>
+                {section.items.map(item => (
+                  <option key={item.id} value={`${section.key}::${item.id}`}>{item.label}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={form.notes}
+            onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder="Notes (optional)"
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          />
+          <p className="text-xs text-gray-500">A parts-order todo is added for you and closed when the part is received.</p>
+          {formError && <p className="text-red-600 text-xs">{formError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAddPart}
+              disabled={savingId === 'new'}
+              className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Add Part
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Parts */}
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading parts...</p>
+      ) : parts.length === 0 ? (
+        <p className="text-sm text-gray-500">No parts ordered for this vehicle.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {parts.map(part => {
+            const status = PartOrderManager.getStatus(part);
+            return (
+              <li key={part.id} className="py-2 flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold border ${PART_ORDER_STATUS_CONFIGS[status].color}`}>
+                      {PART_ORDER_STATUS_CONFIGS[status].label}
+                    </span>
+                    <p className="text-sm font-medium text-gray-900 truncate">{part.description}</p>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {part.partNumber && `#${part.partNumber} • `}
+                    {part.supplierName || 'No supplier'}
+                    {part.orderedDate && ` • ordered ${formatDate(part.orderedDate)}`}
+                    {part.receivedDate
+                      ? ` • received ${formatDate(part.receivedDate)}`
+                      : part.etaDate && ` • ETA ${formatDate(part.etaDate)}`}
+                  </p>
+                  {part.inspectionItemLabel && (
+                    <p className="text-xs text-blue-700 mt-0.5 flex items-center gap-1">
+                      <LinkIcon className="w-3 h-3" />
+                      {part.inspectionItemLabel}
+                    </p>
+                  )}
+                  {part.notes && <p className="text-xs text-gray-600 mt-0.5 italic">{part.notes}</p>}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {part.cost !== undefined && (
+                    <span className="text-sm font-semibold text-gray-900">{ReconCostManager.formatCurrency(part.cost)}</span>
+                  )}
+                  {status === 'needed' && (
+                    <button
+                      onClick={() => handleMarkOrdered(part)}
+                      disabled={savingId === part.id}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <Truck className="w-3 h-3" />
+                      Ordered
+                    </button>
+                  )}
+                  {!part.receivedDate && (
+                    <button
+                      onClick={() => handleReceive(part)}
+                      disabled={savingId === part.id}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                    >
+                      <Check className="w-3 h-3" />
+                      Received
+                    </button>
+                  )}
+                  <button onClick={() => handleDelete(part)} className="p-1 text-gray-400 hover:text-red-600 rounded">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PartsPanel;
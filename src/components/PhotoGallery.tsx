@@ -0,0 +1,289 @@
+import React, { useState, useEffect } from 'react';
+import { Vehicle, getStockNumber } from '../types/vehicle';
+import { InspectionSection } from '../types/inspectionSettings';
+import { PhotoTag, VehiclePhoto, PHOTO_TAG_CONFIGS } from '../types/vehiclePhoto';
+import { PhotoManager } from '../utils/photoManager';
+import { Images, Download, Star, ChevronLeft, ChevronRight, X } from 'lucide-react';
+
+interface PhotoGalleryProps {
+  vehicle: Vehicle;
+  dealershipId: string;
+  sections: InspectionSection[]; // The vehicle's checklist, for naming where each photo came from
+  onHeroChange: (heroPhotoPath: string | null) => void;
+}
+
+const ALL_TAGS = Object.keys(PHOTO_TAG_CONFIGS) as PhotoTag[];
+
+// Every photo taken for the vehicle in one place: captions, tags, order, the card photo and a zip download
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ vehicle, dealershipId, sections, onHeroChange }) => {
+  const [photos, setPhotos] = useState<VehiclePhoto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tagFilter, setTagFilter] = useState<PhotoTag | 'all'>('all');
+  const [editing, setEditing] = useState<VehiclePhoto | null>(null);
+  const [caption, setCaption] = useState('');
+  const [tags, setTags] = useState<PhotoTag[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    PhotoManager.getVehiclePhotos(dealershipId, vehicle.id)
+      .then(setPhotos)
+      .finally(() => setIsLoading(false));
+  }, [dealershipId, vehicle.id]);
+
+  const getSourceLabel = (photo: VehiclePhoto) => {
+    if (photo.sectionKey === 'damage') return 'Damage Diagram';
+    const section = sections.find(entry => entry.key === photo.sectionKey);
+    const item = section?.items.find(entry => entry.id === photo.itemId);
+    return [section?.label || photo.sectionKey, item?.label || photo.itemId].join(' · ');
+  };
+
+  const visiblePhotos = tagFilter === 'all' ? photos : photos.filter(photo => photo.tags.includes(tagFilter));
+
+  const openEditor = (photo: VehiclePhoto) => {
+    setEditing(photo);
+    setCaption(photo.caption || '');
+    setTags(photo.tags);
+  };
+
+  const toggleTag = (tag: PhotoTag) => {
+    setTags(prev => (prev.includes(tag) ? prev.filter(entry => entry !== tag) : [...prev, tag]));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    try {
+      const saved = await PhotoManager.savePhoto(dealershipId, { ...editing, caption: caption.trim() || undefined, tags });
+      if (!saved) {
+        alert('Failed to save the photo details. Please try again.');
+        return;
+      }
+      setPhotos(prev => prev.map(photo => (photo.path === saved.path ? saved : photo)));
+      setEditing(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Moves a photo one place earlier or later in the full gallery order
+  const handleMove = async (photo: VehiclePhoto, direction: -1 | 1) => {
+    const index = photos.findIndex(entry => entry.path === photo.path);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= photos.length) return;
+
+    const reordered = [...photos];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setPhotos(reordered);
+    const saved = await PhotoManager.reorderPhotos(dealershipId, reordered);
+    if (!saved) {
+      alert('Failed to save the photo order. Please try again.');
+      setPhotos(photos);
+      return;
+    }
+    setPhotos(saved);
+  };
+
+  const handleSetHero = async (photo: VehiclePhoto | null) => {
+    const heroPath = photo ? PhotoManager.getHeroPath(photo) : null;
+    if (!(await PhotoManager.setHeroPhoto(dealershipId, vehicle.id, heroPath))) {
+      alert('Failed to update the card photo. Please try again.');
+      return;
+    }
+    onHeroChange(heroPath);
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const folderName = `${getStockNumber(vehicle.vin)}-${vehicle.year}-${vehicle.make}-${vehicle.model}-photos`.replace(/\s+/g, '-');
+      const skipped = await PhotoManager.downloadZip(visiblePhotos, folderName);
+      if (skipped > 0) {
+        alert(`${skipped} ${skipped === 1 ? 'photo' : 'photos'} could not be downloaded and ${skipped === 1 ? 'was' : 'were'} left out of the zip.`);
+      }
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const isEditingHero = editing ? PhotoManager.isHeroPhoto(editing, vehicle.heroPhotoPath) : false;
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Images className="w-5 h-5" />
+          Photos
+          {photos.length > 0 && <span className="text-sm font-medium text-gray-500">({photos.length})</span>}
+        </h2>
+        {visiblePhotos.length > 0 && (
+          <button
+            onClick={handleDownload}
+            disabled={isDownloading}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {isDownloading ? 'Preparing zip...' : `Download ${visiblePhotos.length}`}
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading photos...</p>
+      ) : photos.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No photos yet. Photos added to checklist items and damage pins show up here.
+        </p>
+      ) : (
+        <>
+          {/* Tag filter */}
+          <div className="flex flex-wrap gap-2 mb-4">
+            <button
+              onClick={() => setTagFilter('all')}
+              className={`px-2 py-1 rounded-lg text-xs font-medium border transition-colors ${
+                tagFilter === 'all' ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              All
+            </button>
+            {ALL_TAGS.map(tag => {
+              const count = photos.filter(photo => photo.tags.includes(tag)).length;
+              if (count === 0) return null;
+              return (
+                <button
+                  key={tag}
+                  onClick={() => setTagFilter(tag)}
+                  className={`px-2 py-1 rounded-lg text-xs font-medium border transition-colors ${
+                    tagFilter === tag ? 'bg-gray-900 text-white border-gray-900' : PHOTO_TAG_CONFIGS[tag].color
+                  }`}
+                >
+                  {PHOTO_TAG_CONFIGS[tag].label} ({count})
+                </button>
+              );
+            })}
+          </div>
+
+          {visiblePhotos.length === 0 ? (
+            <p className="text-sm text-gray-500">No photos with this tag.</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {visiblePhotos.map(photo => {
+                const isHero = PhotoManager.isHeroPhoto(photo, vehicle.heroPhotoPath);
+                const index = photos.indexOf(photo);
+                return (
+                  <div key={photo.path} className="relative group">
+                    <button onClick={() => openEditor(photo)} className="block w-full text-left">
+                      <img
+                        src={photo.thumbnailUrl}
+                        alt={photo.caption || getSourceLabel(photo)}
+                        loading="lazy"
+                        className="w-full h-28 object-cover rounded-lg border border-gray-200"
+                      />
+                      <p className="text-xs text-gray-700 mt-1 truncate">{photo.caption || getSourceLabel(photo)}</p>
+                    </button>
+                    {isHero && (
+                      <span className="absolute top-1.5 left-1.5 inline-flex items-center gap-1 px-1.5 py-0.5 bg-yellow-400 text-yellow-900 rounded-full text-xs font-semibold shadow">
+                        <Star className="w-3 h-3" />
+                        Card
+                      </span>
+                    )}
+                    {/* Order can only be changed while every photo is shown */}
+                    {tagFilter === 'all' && (
+                      <div className="absolute top-1.5 right-1.5 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => handleMove(photo, -1)}
+                          disabled={index === 0}
+                          className="p-1 bg-white/90 rounded-full shadow text-gray-700 hover:bg-white disabled:opacity-40"
+                          title="Move earlier"
+                        >
+                          <ChevronLeft className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => handleMove(photo, 1)}
+                          disabled={index === photos.length - 1}
+                          className="p-1 bg-white/90 rounded-full shadow text-gray-700 hover:bg-white disabled:opacity-40"
+                          title="Move later"
+                        >
+                          <ChevronRight className="w-3 h-3" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Photo details */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <div className="min-w-0">
+                <h3 className="text-lg font-bold text-gray-900">Photo Details</h3>
+                <p className="text-sm text-gray-600 truncate">{getSourceLabel(editing)}</p>
+              </div>
+              <button onClick={() => setEditing(null)} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              <img src={editing.url} alt={editing.caption || getSourceLabel(editing)} className="w-full max-h-[50vh] object-contain rounded-lg bg-gray-100" />
+
+              <p className="text-xs text-gray-500">
+                {editing.takenAt ? `Taken ${new Date(editing.takenAt).toLocaleString()}` : 'Capture time unknown'}
+                {editing.uploadedBy && ` · Uploaded by ${editing.uploadedBy}`}
+                {editing.width && editing.height && ` · ${editing.width}×${editing.height}`}
+              </p>
+
+              <input
+                type="text"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                placeholder="Caption (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+
+              <div className="flex flex-wrap gap-2">
+                {ALL_TAGS.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    className={`px-2 py-1 rounded-lg text-xs font-medium border transition-colors ${
+                      tags.includes(tag) ? PHOTO_TAG_CONFIGS[tag].color : 'bg-white text-gray-400 border-gray-200 hover:text-gray-600'
+                    }`}
+                  >
+                    {PHOTO_TAG_CONFIGS[tag].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-3 p-4 border-t border-gray-200 bg-gray-50">
+              <button
+                onClick={() => handleSetHero(isEditingHero ? null : editing)}
+                className="inline-flex items-center gap-1 px-3 py-2 text-sm font-medium text-yellow-800 bg-yellow-100 border border-yellow-200 rounded-lg hover:bg-yellow-200 transition-colors"
+              >
+                <Star className="w-4 h-4" />
+                {isEditingHero ? 'Remove as Card Photo' : 'Use as Card Photo'}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoGallery;
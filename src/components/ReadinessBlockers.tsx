@@ -0,0 +1,103 @@
+import React from 'react';
+import { ShieldAlert, ShieldCheck, Circle, AlertTriangle } from 'lucide-react';
+import { Vehicle } from '../types/vehicle';
+import { ReadinessBlocker } from '../types/inspectionRecord';
+import { ProgressCalculator } from '../utils/progressCalculator';
+
+interface ReadinessBlockersProps {
+  vehicle: Vehicle;
+  blockers: ReadinessBlocker[];
+  canOverride: boolean;
+  onOverride: () => void;
+}
+
+// What's standing between the vehicle and the front line, grouped by section
+const ReadinessBlockers: React.FC<ReadinessBlockersProps> = ({ vehicle, blockers, canOverride, onOverride }) => {
+  if (blockers.length === 0 || vehicle.status === 'sold' || vehicle.status === 'pending') return null;
+
+  const isOverridden = ProgressCalculator.isOverrideActive(vehicle, blockers);
+
+  const sections = blockers.reduce<{ key: string; label: string; blockers: ReadinessBlocker[] }[]>((acc, blocker) => {
+    const section = acc.find(entry => entry.key === blocker.sectionKey);
+    if (section) {
+      section.blockers.push(blocker);
+    } else {
+      acc.push({ key: blocker.sectionKey, label: blocker.sectionLabel, blockers: [blocker] });
+    }
+    return acc;
+  }, []);
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-amber-600" />
+          Blocking Readiness
+        </h2>
+        <span className="px-2 py-1 rounded-lg text-xs font-semibold border bg-amber-50 text-amber-700 border-amber-200">
+          {blockers.length} item{blockers.length !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      {vehicle.readinessOverrideDate && !isOverridden && (
+        <div className="mb-4 p-3 bg-amber-50 rounded-lg border border-amber-200 text-xs text-amber-800">
+          The override from {new Date(vehicle.readinessOverrideDate).toLocaleDateString()} no longer applies: items have started blocking since.
+        </div>
+      )}
+
+      {isOverridden && vehicle.readinessOverrideDate && (
+        <div className="mb-4 p-3 bg-emerald-50 rounded-lg border border-emerald-200 text-xs text-emerald-800">
+          <div className="flex items-center gap-1 font-semibold">
+            <ShieldCheck className="w-3 h-3" />
+            Frontlined by override on {new Date(vehicle.readinessOverrideDate).toLocaleDateString()}
+            {vehicle.readinessOverrideBy && ` by ${vehicle.readinessOverrideBy}`}
+          </div>
+          {vehicle.readinessOverrideReason && <p className="mt-1 leading-relaxed">{vehicle.readinessOverrideReason}</p>}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {sections.map(section => (
+          <div key={section.key}>
+            <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">{section.label}</h3>
+            <ul className="space-y-1">
+              {section.blockers.map(blocker => (
+                <li key={blocker.itemId} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-gray-900">{blocker.itemLabel}</span>
+                  {blocker.reason === 'needs-attention' ? (
+                    <span className="flex items-center gap-1 text-xs font-medium text-red-600 flex-shrink-0">
+                      <AlertTriangle className="w-3 h-3" />
+                      Needs attention
+                    </span>
+                  ) : blocker.reason === 'fair' ? (
+                    <span className="flex items-center gap-1 text-xs font-medium text-yellow-600 flex-shrink-0">
+                      <Circle className="w-3 h-3 fill-current" />
+                      Rated fair
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-xs font-medium text-gray-500 flex-shrink-0">
+                      <Circle className="w-3 h-3" />
+                      Not rated
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {canOverride && !isOverridden && (
+        <button
+          onClick={onOverride}
+          className="mt-4 w-full py-2 text-sm font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-lg hover:bg-amber-100 transition-colors flex items-center justify-center gap-2"
+        >
+          <ShieldCheck className="w-4 h-4" />
+          Override and Mark Ready
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReadinessBlockers;
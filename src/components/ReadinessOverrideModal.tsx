@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { Vehicle } from '../types/vehicle';
+import { ReadinessBlocker } from '../types/inspectionRecord';
+import { ProgressCalculator } from '../utils/progressCalculator';
+
+interface ReadinessOverrideModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (reason: string) => void;
+  vehicle: Vehicle;
+  blockers: ReadinessBlocker[];
+}
+
+const ReadinessOverrideModal: React.FC<ReadinessOverrideModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  vehicle,
+  blockers
+}) => {
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      setError('A reason is required to override readiness');
+      return;
+    }
+    onConfirm(reason.trim());
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl max-w-lg w-full border border-white/20">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-amber-500 to-orange-600 rounded-xl flex items-center justify-center shadow-lg">
+                <ShieldCheck className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h3 className="text-lg font-bold text-gray-900">Override Readiness</h3>
+                <p className="text-sm text-gray-600">{vehicle.year} {vehicle.make} {vehicle.model}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="p-3 bg-amber-50 rounded-lg border border-amber-200 text-sm text-amber-800">
+              <p className="font-medium mb-1">
+                {blockers.length} item{blockers.length !== 1 ? 's are' : ' is'} still blocking readiness:
+              </p>
+              <ul className="list-disc list-inside space-y-0.5 max-h-40 overflow-y-auto">
+                {blockers.map(blocker => (
+                  <li key={`${blocker.sectionKey}-${blocker.itemId}`}>{ProgressCalculator.describeBlocker(blocker)}</li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reason *
+              </label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why is this vehicle being frontlined anyway?"
+                rows={3}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none ${
+                  error ? 'border-red-300' : 'border-gray-300'
+                }`}
+              />
+              {error && <p className="text-red-600 text-sm mt-1">{error}</p>}
+              <p className="text-xs text-gray-500 mt-1">Recorded as a certified team note.</p>
+            </div>
+
+            <div className="flex gap-3 pt-4 border-t border-gray-200">
+              <button
+                type="submit"
+                className="flex-1 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors font-medium flex items-center justify-center gap-2"
+              >
+                <ShieldCheck className="w-4 h-4" />
+                Override
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReadinessOverrideModal;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { DatabaseService } from '../utils/database';
+import { ReconApprovalSettings as ReconApprovalSettingsType, DEFAULT_RECON_APPROVAL_SETTINGS } from '../types/reconApproval';
+import { ShieldCheck, Save, RotateCcw } from 'lucide-react';
+import { AuthContext } from '../contexts/AuthContext';
+
+const ReconApprovalSettings: React.FC = () => {
+  const authContext = useContext(AuthContext);
+  const dealership = authContext?.dealership;
+  const [settings, setSettings] = useState<ReconApprovalSettingsType>(DEFAULT_RECON_APPROVAL_SETTINGS);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  // Load settings on mount and when dealership changes
+  useEffect(() => {
+    const loadSettings = async () => {
+      if (dealership) {
+        setSettings(await DatabaseService.getReconApprovalSettings(dealership.id));
+        setHasChanges(false);
+        setLoading(false);
+      }
+    };
+    loadSettings();
+  }, [dealership]);
+
+  const handleSettingChange = <K extends keyof ReconApprovalSettingsType>(key: K, value: ReconApprovalSettingsType[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    setHasChanges(true);
+  };
+
+  const handleSave = async () => {
+    if (dealership) {
+      if (!(await DatabaseService.saveReconApprovalSettings(dealership.id, settings))) {
+        alert('Failed to save recon approval settings. Please try again.');
+        return;
+      }
+      setHasChanges(false);
+      alert('Recon approval settings saved successfully!');
+    }
+  };
+
+  const handleReset = async () => {
+    if (dealership) {
+      setSettings(await DatabaseService.getReconApprovalSettings(dealership.id));
+      setHasChanges(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-gray-900 dark:text-white">Loading recon approval settings...</div>;
+  }
+
+  return (
+    <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 dark:border-gray-700/20 p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 bg-gradient-to-br from-emerald-500 to-teal-600 rounded-xl flex items-center justify-center">
+          <ShieldCheck className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white">Recon Spend Approval</h3>
+          <p className="text-gray-600 dark:text-gray-400">Decide which work order estimates need a manager before work starts</p>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <div className="flex items-center justify-between p-4 bg-gray-50/80 dark:bg-gray-800/80 rounded-lg border border-gray-200/60 dark:border-gray-700/60">
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white">Approve Automatically Within Limits</h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              When off, every estimate waits in Repair Approvals. When on, only estimates that take a vehicle's recon over a limit do.
+            </p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => handleSettingChange('enabled', e.target.checked)}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Dollar Limit ($)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="50"
+              value={settings.amountLimit}
+              disabled={!settings.enabled}
+              onChange={(e) => handleSettingChange('amountLimit', Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Recon on one vehicle, logged costs and approved repairs included. Set to 0 to turn off.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Share of Price (%)
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="1"
+              value={settings.pricePercentLimit}
+              disabled={!settings.enabled}
+              onChange={(e) => handleSettingChange('pricePercentLimit', Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Recon as a percentage of the vehicle's list price. Set to 0 to turn off.</p>
+          </div>
+        </div>
+
+        {/* Action Buttons */}
+        {hasChanges && (
+          <div className="flex gap-3 pt-4 border-t border-gray-200/60 dark:border-gray-700/60">
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              <Save className="w-4 h-4" />
+              Save Changes
+            </button>
+            <button
+              onClick={handleReset}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors font-medium"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReconApprovalSettings;
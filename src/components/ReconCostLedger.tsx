@@ -0,0 +1,420 @@
+import React, { useState, useEffect } from 'react';
+import { Vehicle } from '../types/vehicle';
+import { Contact } from '../types/contact';
+import { InspectionSection } from '../types/inspectionSettings';
+import { ReconCostItem, ReconCostCategory, RECON_COST_CATEGORY_CONFIGS } from '../types/reconCost';
+import { ReconCostManager } from '../utils/reconCostManager';
+import { ContactManager } from '../utils/contactManager';
+import { DollarSign, Plus, Edit3, Save, X, Trash2, Link as LinkIcon } from 'lucide-react';
+
+interface ReconCostLedgerProps {
+  vehicle: Vehicle;
+  dealershipId: string;
+  userInitials: string;
+  sections: InspectionSection[];
+  onBudgetUpdated: (budget: number | undefined) => void;
+}
+
+interface CostFormState {
+  category: ReconCostCategory;
+  description: string;
+  quantity: string;
+  unitCost: string;
+  vendorId: string;
+  inspectionItemKey: string; // "sectionKey::itemId"
+  incurredDate: string;
+}
+
+const getEmptyForm = (): CostFormState => ({
+  category: 'parts',
+  description: '',
+  quantity: '1',
+  unitCost: '',
+  vendorId: '',
+  inspectionItemKey: '',
+  incurredDate: new Date().toISOString().split('T')[0]
+});
+
+const ReconCostLedger: React.FC<ReconCostLedgerProps> = ({
+  vehicle,
+  dealershipId,
+  userInitials,
+  sections,
+  onBudgetUpdated
+}) => {
+  const [items, setItems] = useState<ReconCostItem[]>([]);
+  const [vendors, setVendors] = useState<Contact[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [form, setForm] = useState<CostFormState>(getEmptyForm());
+  const [formError, setFormError] = useState('');
+  const [isEditingBudget, setIsEditingBudget] = useState(false);
+  const [budgetInput, setBudgetInput] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const [costItems, contacts] = await Promise.all([
+        ReconCostManager.getCostItems(dealershipId, vehicle.id),
+        ContactManager.getContacts(dealershipId)
+      ]);
+      setItems(costItems);
+      setVendors(contacts.filter(contact => contact.isActive));
+      setIsLoading(false);
+    };
+    load();
+  }, [dealershipId, vehicle.id]);
+
+  const summary = ReconCostManager.getSummary(items, vehicle.reconBudget);
+  const salePrice = vehicle.isSold && vehicle.soldPrice ? vehicle.soldPrice : vehicle.price;
+  const grossAfterRecon = salePrice > 0 ? salePrice - summary.total : undefined;
+
+  const handleSaveBudget = async () => {
+    const parsed = budgetInput.trim() === '' ? null : parseFloat(budgetInput);
+    if (parsed !== null && (isNaN(parsed) || parsed < 0)) {
+      alert('Please enter a valid budget amount.');
+      return;
+    }
+
+    const success = await ReconCostManager.updateBudget(dealershipId, vehicle.id, parsed);
+    if (success) {
+      onBudgetUpdated(parsed === null ? undefined : parsed);
+      setIsEditingBudget(false);
+    } else {
+      alert('Failed to save budget. Please try again.');
+    }
+  };
+
+  const openAddForm = () => {
+    setEditingItemId(null);
+    setForm(getEmptyForm());
+    setFormError('');
+    setShowForm(true);
+  };
+
+  const openEditForm = (item: ReconCostItem) => {
+    setEditingItemId(item.id);
+    setForm({
+      category: item.category,
+      description: item.description,
+      quantity: item.quantity.toString(),
+      unitCost: item.unitCost.toString(),
+      vendorId: item.vendorId || '',
+      inspectionItemKey: item.inspectionSectionKey && item.inspectionItemId
+        ? `${item.inspectionSectionKey}::${item.inspectionItemId}`
+        : '',
+      incurredDate: item.incurredDate
+    });
+    setFormError('');
+    setShowForm(true);
+  };
+
+  const handleSubmitForm = async () => {
+    const quantity = parseFloat(form.quantity);
+    const unitCost = parseFloat(form.unitCost);
+
+    if (!form.description.trim()) {
+      setFormError('Description is required');
+      return;
+    }
+    if (isNaN(quantity) || quantity <= 0) {
+      setFormError('Quantity must be greater than zero');
+      return;
+    }
+    if (isNaN(unitCost) || unitCost < 0) {
+      setFormError('Please enter a valid cost');
+      return;
+    }
+
+    const vendor = vendors.find(contact => contact.id === form.vendorId);
+    const [sectionKey, itemId] = form.inspectionItemKey ? form.inspectionItemKey.split('::') : ['', ''];
+    const inspectionItem = sections.find(section => section.key === sectionKey)?.items.find(item => item.id === itemId);
+
+    const itemData = {
+      category: form.category,
+      description: form.description.trim(),
+      quantity,
+      unitCost,
+      vendorId: vendor?.id || '',
+      vendorName: vendor ? (vendor.company || vendor.name) : '',
+      inspectionSectionKey: sectionKey,
+      inspectionItemId: itemId,
+      inspectionItemLabel: inspectionItem?.label || '',
+      incurredDate: form.incurredDate
+    };
+
+    if (editingItemId) {
+      const updated = await ReconCostManager.updateCostItem(dealershipId, editingItemId, itemData);
+      if (!updated) {
+        setFormError('Failed to save cost. Please try again.');
+        return;
+      }
+      setItems(prev => prev.map(item => (item.id === editingItemId ? updated : item)));
+    } else {
+      const created = await ReconCostManager.addCostItem(dealershipId, {
+        ...itemData,
+        vehicleId: vehicle.id,
+        createdBy: userInitials
+      });
+      if (!created) {
+        setFormError('Failed to save cost. Please try again.');
+        return;
+      }
+      setItems(prev => [created, ...prev]);
+    }
+
+    setShowForm(false);
+    setEditingItemId(null);
+  };
+
+  const handleDeleteItem = async (item: ReconCostItem) => {
+    if (!confirm(`Delete "${item.description}" (${ReconCostManager.formatCurrency(item.amount)})?`)) return;
+    const success = await ReconCostManager.deleteCostItem(dealershipId, item.id);
+    if (success) {
+      setItems(prev => prev.filter(existing => existing.id !== item.id));
+    } else {
+      alert('Failed to delete cost. Please try again.');
+    }
+  };
+
+  const progressColor = summary.isOverBudget
+    ? 'bg-gradient-to-r from-red-500 to-red-600'
+    : (summary.percentUsed || 0) >= 80
+      ? 'bg-gradient-to-r from-yellow-500 to-amber-500'
+      : 'bg-gradient-to-r from-emerald-500 to-green-600';
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <DollarSign className="w-5 h-5" />
+          Recon Costs
+        </h2>
+        <button
+          onClick={openAddForm}
+          className="inline-flex items-center gap-1 px-3 py-1.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 text-xs font-semibold shadow"
+        >
+          <Plus className="w-3 h-3" />
+          Add Cost
+        </button>
+      </div>
+
+      {/* Spend vs. Budget */}
+      <div className="mb-4">
+        <div className="flex items-end justify-between mb-2">
+          <div>
+            <p className="text-2xl font-bold text-gray-900">{ReconCostManager.formatCurrency(summary.total)}</p>
+            <p className="text-xs text-gray-500">spent on reconditioning</p>
+          </div>
+          <div className="text-right">
+            {isEditingBudget ? (
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min="0"
+                  step="50"
+                  value={budgetInput}
+                  onChange={(e) => setBudgetInput(e.target.value)}
+                  placeholder="No budget"
+                  className="w-24 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  autoFocus
+                />
+                <button onClick={handleSaveBudget} className="p-1 text-green-600 hover:bg-green-50 rounded">
+                  <Save className="w-4 h-4" />
+                </button>
+                <button onClick={() => setIsEditingBudget(false)} className="p-1 text-gray-500 hover:bg-gray-100 rounded">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => {
+                  setBudgetInput(vehicle.reconBudget ? vehicle.reconBudget.toString() : '');
+                  setIsEditingBudget(true);
+                }}
+                className="inline-flex items-center gap-1 text-sm text-gray-700 hover:text-blue-600"
+              >
+                {summary.budget !== undefined ? `Budget ${ReconCostManager.formatCurrency(summary.budget)}` : 'Set budget'}
+                <Edit3 className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {summary.budget !== undefined && (
+          <>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full transition-all duration-500 ${progressColor}`}
+                style={{ width: `${Math.min(summary.percentUsed || 0, 100)}%` }}
+              />
+            </div>
+            <p className={`text-xs mt-1 font-medium ${summary.isOverBudget ? 'text-red-600' : 'text-gray-600'}`}>
+              {summary.isOverBudget
+                ? `${ReconCostManager.formatCurrency(Math.abs(summary.remaining || 0))} over budget`
+                : `${ReconCostManager.formatCurrency(summary.remaining || 0)} remaining (${summary.percentUsed}% used)`}
+            </p>
+          </>
+        )}
+
+        {grossAfterRecon !== undefined && (
+          <p className="text-xs text-gray-600 mt-2">
+            {vehicle.isSold && vehicle.soldPrice ? 'Sold price' : 'List price'} less recon:{' '}
+            <span className={`font-semibold ${grossAfterRecon < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {ReconCostManager.formatCurrency(grossAfterRecon)}
+            </span>
+          </p>
+        )}
+      </div>
+
+      {/* Category Breakdown */}
+      {summary.total > 0 && (
+        <div className="flex flex-wrap gap-1 mb-4">
+          {(Object.keys(RECON_COST_CATEGORY_CONFIGS) as ReconCostCategory[])
+            .filter(category => summary.byCategory[category] > 0)
+            .map(category => (
+              <span key={category} className={`px-2 py-0.5 rounded-full text-xs font-medium border ${RECON_COST_CATEGORY_CONFIGS[category].color}`}>
+                {RECON_COST_CATEGORY_CONFIGS[category].icon} {RECON_COST_CATEGORY_CONFIGS[category].label} {ReconCostManager.formatCurrency(summary.byCategory[category])}
+              </span>
+            ))}
+        </div>
+      )}
+
+      {/* Add / Edit Form */}
+      {showForm && (
+        <div className="mb-4 p-3 bg-blue-50/60 border border-blue-200/60 rounded-lg space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={form.category}
+              onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value as ReconCostCategory }))}
+              className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+            >
+              {(Object.keys(RECON_COST_CATEGORY_CONFIGS) as ReconCostCategory[]).map(category => (
+                <option key={category} value={category}>{RECON_COST_CATEGORY_CONFIGS[category].label}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={form.incurredDate}
+              onChange={(e) => setForm(prev => ({ ...prev, incurredDate: e.target.value }))}
+              className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+            />
+          </div>
+          <input
+            type="text"
+            value={form.description}
+            onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+            placeholder="Description (e.g., Front brake pads)"
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              min="0"
+              step="0.25"
+              value={form.quantity}
+              onChange={(e) => setForm(prev => ({ ...prev, quantity: e.target.value }))}
+              placeholder={form.category === 'labor' ? 'Hours' : 'Qty'}
+              className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.unitCost}
+              onChange={(e) => setForm(prev => ({ ...prev, unitCost: e.target.value }))}
+              placeholder={form.category === 'labor' ? 'Rate / hr' : 'Unit cost'}
+              className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+            />
+          </div>
+          <select
+            value={form.vendorId}
+            onChange={(e) => setForm(prev => ({ ...prev, vendorId: e.target.value }))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          >
+            <option value="">No vendor (in-house)</option>
+            {vendors.map(contact => (
+              <option key={contact.id} value={contact.id}>
+                {contact.company || contact.name}{contact.company ? ` (${contact.name})` : ''}
+              </option>
+            ))}
+          </select>
+          <select
+            value={form.inspectionItemKey}
+            onChange={(e) => setForm(prev => ({ ...prev, inspectionItemKey: e.target.value }))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          >
+            <option value="">Not linked to an inspection item</option>
+            {sections.map(section => (
+              <optgroup key={section.key} label={section.label}>
+                {section.items.map(item => (
+                  <option key={item.id} value={`${section.key}::${item.id}`}>{item.label}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          {formError && <p className="text-red-600 text-xs">{formError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmitForm}
+              className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+            >
+              {editingItemId ? 'Save Changes' : 'Add Cost'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Line Items */}
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading costs...</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-500">No recon costs recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {items.map(item => (
+            <li key={item.id} className="py-2 flex items-start justify-between gap-2 group">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold border ${RECON_COST_CATEGORY_CONFIGS[item.category].color}`}>
+                    {RECON_COST_CATEGORY_CONFIGS[item.category].label}
+                  </span>
+                  <p className="text-sm font-medium text-gray-900 truncate">{item.description}</p>
+                </div>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {new Date(item.incurredDate + 'T00:00:00').toLocaleDateString()} • {item.createdBy}
+                  {item.vendorName && ` • ${item.vendorName}`}
+                  {item.quantity !== 1 && ` • ${item.quantity} × ${ReconCostManager.formatCurrency(item.unitCost)}`}
+                </p>
+                {item.inspectionItemLabel && (
+                  <p className="text-xs text-blue-700 mt-0.5 flex items-center gap-1">
+                    <LinkIcon className="w-3 h-3" />
+                    {item.inspectionItemLabel}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <span className="text-sm font-semibold text-gray-900">{ReconCostManager.formatCurrency(item.amount)}</span>
+                <button onClick={() => openEditForm(item)} className="p-1 text-gray-400 hover:text-blue-600 rounded">
+                  <Edit3 className="w-3 h-3" />
+                </button>
+                <button onClick={() => handleDeleteItem(item)} className="p-1 text-gray-400 hover:text-red-600 rounded">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ReconCostLedger;
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { Vehicle } from '../types/vehicle';
+import { InspectionSection } from '../types/inspectionSettings';
+import { InspectionRecord, ProgressOptions } from '../types/inspectionRecord';
+import { SlaSettings, RECON_STAGE_CONFIGS, SLA_STATUS_CONFIGS } from '../types/reconStage';
+import { ReconStageManager } from '../utils/reconStageManager';
+import { Timer } from 'lucide-react';
+
+interface ReconTimelineProps {
+  vehicle: Vehicle;
+  dealershipId: string;
+  sections: InspectionSection[];
+  inspectionData?: InspectionRecord | null;
+  progressOptions?: ProgressOptions;
+}
+
+const ReconTimeline: React.FC<ReconTimelineProps> = ({ vehicle, dealershipId, sections, inspectionData, progressOptions }) => {
+  const [slaSettings, setSlaSettings] = useState<SlaSettings | null>(null);
+
+  useEffect(() => {
+    ReconStageManager.getSlaSettings(dealershipId).then(setSlaSettings);
+  }, [dealershipId]);
+
+  const history = ReconStageManager.getStageHistory(vehicle);
+  const slaResults = slaSettings
+    ? ReconStageManager.evaluateSla(vehicle, slaSettings, sections, inspectionData, progressOptions)
+    : [];
+  const frontline = slaResults.find(result => result.stage === 'ready');
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Timer className="w-5 h-5" />
+          Recon Timeline
+        </h2>
+        {frontline && (
+          <span className={`px-2 py-1 rounded-lg text-xs font-semibold border ${SLA_STATUS_CONFIGS[frontline.status].color}`}>
+            {ReconStageManager.formatDays(frontline.elapsedDays)} to frontline
+          </span>
+        )}
+      </div>
+
+      {/* Stage history, oldest first */}
+      <ol className="relative border-l-2 border-gray-200 ml-2 space-y-3 mb-4">
+        {history.map(transition => {
+          const config = RECON_STAGE_CONFIGS[transition.stage];
+          return (
+            <li key={transition.id} className="ml-4">
+              <span className="absolute -left-[7px] mt-1.5 w-3 h-3 bg-white border-2 border-blue-500 rounded-full"></span>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-gray-900">
+                  {config.icon} {transition.stage === 'section-complete' && transition.sectionLabel
+                    ? `${transition.sectionLabel} Complete`
+                    : config.label}
+                </span>
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {new Date(transition.enteredAt).toLocaleDateString()}
+                  {transition.recordedBy !== 'system' && ` · ${transition.recordedBy}`}
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* SLA targets */}
+      {slaResults.length > 0 && (
+        <div className="space-y-2 pt-4 border-t border-gray-200/60">
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">SLA Targets</p>
+          {slaResults.map(result => (
+            <div key={`${result.stage}-${result.sectionKey || ''}`} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-gray-700 truncate">{result.label}</span>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className="text-xs text-gray-500">
+                  {ReconStageManager.formatDays(result.elapsedDays)} / {ReconStageManager.formatDays(result.targetDays)}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${SLA_STATUS_CONFIGS[result.status].color}`}>
+                  {SLA_STATUS_CONFIGS[result.status].label}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReconTimeline;
@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, ScanLine, Search, CameraOff } from 'lucide-react';
+import { KeyTagGenerator, ScanResult } from '../utils/keyTagGenerator';
+
+interface ScanVehicleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Resolves the scan; return a message to show in the dialog when it can't be opened
+  onScan: (result: ScanResult) => Promise<string | void>;
+}
+
+// The Shape Detection API isn't in the TypeScript DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorLike;
+
+const BARCODE_FORMATS = ['qr_code', 'code_39', 'code_128', 'data_matrix', 'pdf417'];
+const SCAN_INTERVAL_MS = 400;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const createDetector = (Detector: BarcodeDetectorConstructor): BarcodeDetectorLike => {
+  try {
+    return new Detector({ formats: BARCODE_FORMATS });
+  } catch {
+    // Some implementations reject formats they don't support
+    return new Detector();
+  }
+};
+
+const ScanVehicleModal: React.FC<ScanVehicleModalProps> = ({ isOpen, onClose, onScan }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const busyRef = useRef(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
+
+  const handleResult = async (result: ScanResult) => {
+    busyRef.current = true;
+    setLookingUp(true);
+    setMessage(null);
+    try {
+      const error = await onScan(result);
+      if (error) setMessage(error);
+    } finally {
+      setLookingUp(false);
+      // Give the user a moment to move the camera off a code that didn't resolve
+      setTimeout(() => {
+        busyRef.current = false;
+      }, 1500);
+    }
+  };
+
+  // Latest handler for the camera loop, which is only set up once per open
+  const handleResultRef = useRef(handleResult);
+  handleResultRef.current = handleResult;
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setCameraError(null);
+    setMessage(null);
+    setManualCode('');
+    busyRef.current = false;
+
+    const Detector = getBarcodeDetector();
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setCameraError('Camera scanning isn\'t supported in this browser. Type the VIN or stock number instead.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let interval: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+    const detector = createDetector(Detector);
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = mediaStream;
+        video.play().catch(() => undefined);
+
+        interval = setInterval(async () => {
+          if (busyRef.current || video.readyState < 2) return;
+          try {
+            const barcodes = await detector.detect(video);
+            const result = barcodes
+              .map(barcode => KeyTagGenerator.parseScan(barcode.rawValue))
+              .find((parsed): parsed is ScanResult => parsed !== null);
+            if (result && !busyRef.current) handleResultRef.current(result);
+          } catch (error) {
+            console.error('Error detecting barcode:', error);
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(error => {
+        console.error('Error starting camera:', error);
+        setCameraError('Couldn\'t open the camera. Check camera permissions, or type the VIN or stock number instead.');
+      });
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isOpen]);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = KeyTagGenerator.parseScan(manualCode, 'manual');
+    if (!result) {
+      setMessage('Enter a 17-character VIN or a 6-character stock number.');
+      return;
+    }
+    handleResult(result);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl max-w-md w-full border border-white/20">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center shadow-lg">
+                <ScanLine className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h3 className="text-lg font-bold text-gray-900">Scan Vehicle</h3>
+                <p className="text-sm text-gray-600">Key tag QR code or VIN barcode</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {cameraError ? (
+            <div className="flex items-start gap-3 p-4 mb-4 bg-amber-50 rounded-lg border border-amber-200 text-sm text-amber-800">
+              <CameraOff className="w-5 h-5 flex-shrink-0" />
+              <p>{cameraError}</p>
+            </div>
+          ) : (
+            <div className="relative mb-4 rounded-xl overflow-hidden bg-black aspect-[4/3]">
+              <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+              <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-1/2 border-2 border-white/80 rounded-lg pointer-events-none"></div>
+              {lookingUp && (
+                <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-white text-sm font-medium">
+                  Looking up vehicle...
+                </div>
+              )}
+            </div>
+          )}
+
+          {message && (
+            <p className="mb-4 p-3 bg-red-50 rounded-lg border border-red-200 text-sm text-red-700">{message}</p>
+          )}
+
+          <form onSubmit={handleManualSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value.toUpperCase())}
+              placeholder="VIN or stock #"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!manualCode.trim() || lookingUp}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              <Search className="w-4 h-4" />
+              Look Up
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScanVehicleModal;
@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { ReconStageManager } from '../utils/reconStageManager';
+import { InspectionDataManager } from '../utils/inspectionDataManager';
+import { SlaSettings as SlaSettingsType, DEFAULT_SLA_SETTINGS } from '../types/reconStage';
+import { InspectionSection } from '../types/inspectionSettings';
+import { Timer, Save, RotateCcw } from 'lucide-react';
+import { AuthContext } from '../contexts/AuthContext';
+
+type SlaDayField = 'inspectionStartDays' | 'sectionCompleteDays' | 'frontlineDays' | 'pendingToSoldDays';
+
+const SLA_DAY_FIELDS: Array<{ key: SlaDayField; label: string; description: string }> = [
+  { key: 'inspectionStartDays', label: 'Inspection Started', description: 'Days from acquisition to the first rated item' },
+  { key: 'sectionCompleteDays', label: 'Section Complete', description: 'Default days from acquisition to each section being fully rated' },
+  { key: 'frontlineDays', label: 'Days to Frontline', description: 'Days from acquisition to ready for sale' },
+  { key: 'pendingToSoldDays', label: 'Pending to Sold', description: 'Days a deal can sit pending before it is flagged' }
+];
+
+const SlaSettings: React.FC = () => {
+  const authContext = useContext(AuthContext);
+  const dealership = authContext?.dealership;
+  const [settings, setSettings] = useState<SlaSettingsType>(DEFAULT_SLA_SETTINGS);
+  const [sections, setSections] = useState<InspectionSection[]>([]);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  // Load settings on mount and when dealership changes
+  useEffect(() => {
+    const loadSettings = async () => {
+      if (dealership) {
+        const [currentSettings, inspectionSettings] = await Promise.all([
+          ReconStageManager.getSlaSettings(dealership.id),
+          InspectionDataManager.getSettings(dealership.id)
+        ]);
+        setSettings(currentSettings);
+        setSections((inspectionSettings?.sections || [])
+          .filter(section => section.isActive)
+          .sort((a, b) => a.order - b.order));
+        setHasChanges(false);
+        setLoading(false);
+      }
+    };
+    loadSettings();
+  }, [dealership]);
+
+  const handleSettingChange = <K extends keyof SlaSettingsType>(key: K, value: SlaSettingsType[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    setHasChanges(true);
+  };
+
+  const handleSectionTargetChange = (sectionKey: string, value: string) => {
+    setSettings(prev => {
+      const sectionTargets = { ...prev.sectionTargets };
+      const days = parseFloat(value);
+      if (value === '' || isNaN(days) || days <= 0) {
+        delete sectionTargets[sectionKey];
+      } else {
+        sectionTargets[sectionKey] = days;
+      }
+      return { ...prev, sectionTargets };
+    });
+    setHasChanges(true);
+  };
+
+  const handleSave = async () => {
+    if (dealership) {
+      await ReconStageManager.saveSlaSettings(dealership.id, settings);
+      const updatedSettings = await ReconStageManager.getSlaSettings(dealership.id);
+      setSettings(updatedSettings);
+      setHasChanges(false);
+      alert('SLA settings saved successfully!');
+    }
+  };
+
+  const handleReset = async () => {
+    if (dealership) {
+      const currentSettings = await ReconStageManager.getSlaSettings(dealership.id);
+      setSettings(currentSettings);
+      setHasChanges(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-gray-900 dark:text-white">Loading SLA settings...</div>;
+  }
+
+  return (
+    <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 dark:border-gray-700/20 p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 bg-gradient-to-br from-orange-500 to-red-600 rounded-xl flex items-center justify-center">
+          <Timer className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white">Recon SLA Targets</h3>
+          <p className="text-gray-600 dark:text-gray-400">Set how long each recon stage should take before a vehicle is flagged</p>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <div className="flex items-center justify-between p-4 bg-gray-50/80 dark:bg-gray-800/80 rounded-lg border border-gray-200/60 dark:border-gray-700/60">
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white">SLA Alerts</h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Show SLA badges on vehicle cards and enable the SLA breach filter</p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => handleSettingChange('enabled', e.target.checked)}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {SLA_DAY_FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {field.label} (days)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={settings[field.key]}
+                onChange={(e) => handleSettingChange(field.key, Math.max(0, parseFloat(e.target.value) || 0))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{field.description}. Set to 0 to turn off.</p>
+            </div>
+          ))}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              At Risk Threshold (%)
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="100"
+              value={settings.atRiskPercent}
+              onChange={(e) => handleSettingChange('atRiskPercent', Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Share of a target used up before a vehicle shows as at risk</p>
+          </div>
+        </div>
+
+        {sections.length > 0 && (
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white mb-1">Per-Section Targets</h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+              Leave blank to use the {settings.sectionCompleteDays} day default
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {sections.map(section => (
+                <div key={section.key} className="flex items-center justify-between gap-3 p-3 bg-gray-50/80 dark:bg-gray-800/80 rounded-lg border border-gray-200/60 dark:border-gray-700/60">
+                  <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
+                    {section.icon} {section.label}
+                  </span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    placeholder={String(settings.sectionCompleteDays)}
+                    value={settings.sectionTargets[section.key] ?? ''}
+                    onChange={(e) => handleSectionTargetChange(section.key, e.target.value)}
+                    className="w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Action Buttons */}
+        {hasChanges && (
+          <div className="flex gap-3 pt-4 border-t border-gray-200/60 dark:border-gray-700/60">
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              <Save className="w-4 h-4" />
+              Save Changes
+            </button>
+            <button
+              onClick={handleReset}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors font-medium"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SlaSettings;
@@ -0,0 +1,461 @@
+import React, { useState, useEffect } from 'react';
+import { Vehicle } from '../types/vehicle';
+import { Contact } from '../types/contact';
+import { Location } from '../types/location';
+import { SubletJob, SUBLET_JOB_STATUS_CONFIGS } from '../types/subletJob';
+import { SubletJobManager } from '../utils/subletJobManager';
+import { ReconCostManager } from '../utils/reconCostManager';
+import { ContactManager } from '../utils/contactManager';
+import { LocationManager } from '../utils/locationManager';
+import { Truck, Send, Check, Trash2, DollarSign, RotateCcw } from 'lucide-react';
+
+interface SubletJobsPanelProps {
+  vehicle: Vehicle;
+  dealershipId: string;
+  userInitials: string;
+  onVehicleUpdated: (vehicle: Vehicle) => void;
+  onCostsChanged: () => void;
+}
+
+interface SendOutFormState {
+  contactId: string;
+  description: string;
+  sentDate: string;
+  expectedReturnDate: string;
+  notes: string;
+}
+
+interface ReturnFormState {
+  returnedDate: string;
+  returnLocation: string;
+  invoiceAmount: string;
+  invoiceNumber: string;
+}
+
+const getToday = () => new Date().toISOString().split('T')[0];
+
+const getEmptySendOutForm = (): SendOutFormState => ({
+  contactId: '',
+  description: '',
+  sentDate: getToday(),
+  expectedReturnDate: '',
+  notes: ''
+});
+
+const formatDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString();
+
+// Work sent out to vendors (body shop, glass, PDR...) and where the vehicle is while it's gone
+const SubletJobsPanel: React.FC<SubletJobsPanelProps> = ({
+  vehicle,
+  dealershipId,
+  userInitials,
+  onVehicleUpdated,
+  onCostsChanged
+}) => {
+  const [jobs, setJobs] = useState<SubletJob[]>([]);
+  const [vendors, setVendors] = useState<Contact[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showSendOutForm, setShowSendOutForm] = useState(false);
+  const [sendOutForm, setSendOutForm] = useState<SendOutFormState>(getEmptySendOutForm());
+  const [returnJobId, setReturnJobId] = useState<string | null>(null);
+  const [invoiceOnly, setInvoiceOnly] = useState(false);
+  const [returnForm, setReturnForm] = useState<ReturnFormState>({ returnedDate: '', returnLocation: '', invoiceAmount: '', invoiceNumber: '' });
+  const [formError, setFormError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const [subletJobs, contacts, activeLocations] = await Promise.all([
+        SubletJobManager.getJobs(dealershipId, vehicle.id),
+        ContactManager.getContacts(dealershipId),
+        LocationManager.getActiveLocations(dealershipId)
+      ]);
+      setJobs(subletJobs);
+      setVendors(contacts.filter(contact => contact.isActive));
+      setLocations(activeLocations);
+      setIsLoading(false);
+    };
+    load();
+  }, [dealershipId, vehicle.id]);
+
+  const isOut = jobs.some(job => !job.returnedDate);
+
+  const openSendOutForm = () => {
+    setSendOutForm(getEmptySendOutForm());
+    setFormError('');
+    setReturnJobId(null);
+    setShowSendOutForm(true);
+  };
+
+  const openReturnForm = (job: SubletJob, onlyInvoice: boolean) => {
+    setReturnForm({
+      returnedDate: job.returnedDate || getToday(),
+      returnLocation: job.fromLocation || '',
+      invoiceAmount: job.invoiceAmount !== undefined ? job.invoiceAmount.toString() : '',
+      invoiceNumber: job.invoiceNumber || ''
+    });
+    setInvoiceOnly(onlyInvoice);
+    setFormError('');
+    setShowSendOutForm(false);
+    setReturnJobId(job.id);
+  };
+
+  const replaceJob = (saved: SubletJob) => {
+    setJobs(prev => prev.map(job => (job.id === saved.id ? saved : job)));
+  };
+
+  const handleSendOut = async () => {
+    const vendor = vendors.find(contact => contact.id === sendOutForm.contactId);
+    if (!vendor) {
+      setFormError('Choose the vendor the vehicle is going to');
+      return;
+    }
+    if (!sendOutForm.description.trim()) {
+      setFormError('Describe the work being done');
+      return;
+    }
+    if (sendOutForm.expectedReturnDate && sendOutForm.expectedReturnDate < sendOutForm.sentDate) {
+      setFormError('Expected return cannot be before the sent date');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await SubletJobManager.sendOut(dealershipId, vehicle, vendor, {
+        description: sendOutForm.description.trim(),
+        sentDate: sendOutForm.sentDate,
+        expectedReturnDate: sendOutForm.expectedReturnDate,
+        notes: sendOutForm.notes.trim()
+      }, userInitials);
+      if (!result) {
+        alert('Failed to send the vehicle out. Please try again.');
+        return;
+      }
+      setJobs(prev => [result.job, ...prev]);
+      if (result.vehicle) {
+        onVehicleUpdated(result.vehicle);
+      } else {
+        alert(`The job was saved, but the vehicle's location could not be changed to ${result.job.vendorName}.`);
+      }
+      setShowSendOutForm(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReturn = async (job: SubletJob) => {
+    const invoiceAmount = returnForm.invoiceAmount.trim() === '' ? undefined : parseFloat(returnForm.invoiceAmount);
+    if (invoiceAmount !== undefined && (isNaN(invoiceAmount) || invoiceAmount < 0)) {
+      setFormError('Please enter a valid invoice amount');
+      return;
+    }
+    if (invoiceOnly && invoiceAmount === undefined) {
+      setFormError('Enter the invoice amount');
+      return;
+    }
+    if (!invoiceOnly && returnForm.returnedDate < job.sentDate) {
+      setFormError('Returned date cannot be before the sent date');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      let saved = job;
+      if (!invoiceOnly) {
+        const result = await SubletJobManager.markReturned(
+          dealershipId,
+          job,
+          returnForm.returnedDate,
+          userInitials,
+          returnForm.returnLocation
+        );
+        if (!result) {
+          alert('Failed to mark the job returned. Please try again.');
+          return;
+        }
+        saved = result.job;
+        replaceJob(saved);
+        if (result.vehicle) onVehicleUpdated(result.vehicle);
+      }
+
+      if (invoiceAmount !== undefined) {
+        const invoiced = await SubletJobManager.setInvoice(
+          dealershipId,
+          saved,
+          invoiceAmount,
+          returnForm.invoiceNumber.trim(),
+          userInitials
+        );
+        if (!invoiced) {
+          alert('Failed to save the invoice. Please try again.');
+          return;
+        }
+        replaceJob(invoiced);
+        onCostsChanged();
+      }
+      setReturnJobId(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // A comeback counts against the vendor's scorecard
+  const handleToggleComeback = async (job: SubletJob) => {
+    const saved = await SubletJobManager.updateJob(dealershipId, job.id, { isComeback: !job.isComeback });
+    if (saved) {
+      replaceJob(saved);
+    } else {
+      alert('Failed to update the job. Please try again.');
+    }
+  };
+
+  const handleDelete = async (job: SubletJob) => {
+    if (!window.confirm(`Delete the ${job.vendorName} job? Any posted invoice stays in recon costs.`)) return;
+    if (await SubletJobManager.deleteJob(dealershipId, job.id)) {
+      setJobs(prev => prev.filter(entry => entry.id !== job.id));
+    } else {
+      alert('Failed to delete the job. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Truck className="w-5 h-5" />
+          Sublet Jobs
+        </h2>
+        {!isOut && (
+          <button
+            onClick={openSendOutForm}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 text-xs font-semibold shadow"
+          >
+            <Send className="w-3 h-3" />
+            Send Out
+          </button>
+        )}
+      </div>
+
+      {/* Send Out Form */}
+      {showSendOutForm && (
+        <div className="mb-4 p-3 bg-blue-50/60 border border-blue-200/60 rounded-lg space-y-2">
+          <select
+            value={sendOutForm.contactId}
+            onChange={(e) => setSendOutForm(prev => ({ ...prev, contactId: e.target.value }))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          >
+            <option value="">Choose a vendor</option>
+            {vendors.map(contact => (
+              <option key={contact.id} value={contact.id}>
+                {contact.company || contact.name}{contact.company ? ` (${contact.name})` : ''}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={sendOutForm.description}
+            onChange={(e) => setSendOutForm(prev => ({ ...prev, description: e.target.value }))}
+            placeholder="Work to be done (e.g., Repaint rear bumper)"
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              Sent
+              <input
+                type="date"
+                value={sendOutForm.sentDate}
+                onChange={(e) => setSendOutForm(prev => ({ ...prev, sentDate: e.target.value }))}
+                className="mt-0.5 w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Expected back
+              <input
+                type="date"
+                value={sendOutForm.expectedReturnDate}
+                min={sendOutForm.sentDate}
+                onChange={(e) => setSendOutForm(prev => ({ ...prev, expectedReturnDate: e.target.value }))}
+                className="mt-0.5 w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+              />
+            </label>
+          </div>
+          <input
+            type="text"
+            value={sendOutForm.notes}
+            onChange={(e) => setSendOutForm(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder="Notes (optional)"
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          />
+          <p className="text-xs text-gray-500">The vehicle's location will change to the vendor.</p>
+          {formError && <p className="text-red-600 text-xs">{formError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowSendOutForm(false)}
+              className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSendOut}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Send Out
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Jobs */}
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading sublet jobs...</p>
+      ) : jobs.length === 0 ? (
+        <p className="text-sm text-gray-500">This vehicle hasn't been sent out.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {jobs.map(job => {
+            const status = SubletJobManager.getStatus(job);
+            const days = SubletJobManager.getTurnaroundDays(job);
+            return (
+              <li key={job.id} className="py-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold border ${SUBLET_JOB_STATUS_CONFIGS[status].color}`}>
+                        {SUBLET_JOB_STATUS_CONFIGS[status].label}
+                      </span>
+                      <p className="text-sm font-medium text-gray-900 truncate">{job.vendorName}</p>
+                      {job.isComeback && (
+                        <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold border bg-orange-100 text-orange-800 border-orange-200">
+                          Comeback
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-700 mt-0.5">{job.description}</p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      Sent {formatDate(job.sentDate)} by {job.sentBy}
+                      {job.returnedDate
+                        ? ` • back ${formatDate(job.returnedDate)} (${days} ${days === 1 ? 'day' : 'days'})`
+                        : ` • out ${days} ${days === 1 ? 'day' : 'days'}`}
+                      {!job.returnedDate && job.expectedReturnDate && ` • due ${formatDate(job.expectedReturnDate)}`}
+                    </p>
+                    {job.notes && <p className="text-xs text-gray-600 mt-0.5 italic">{job.notes}</p>}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {job.invoiceAmount !== undefined && (
+                      <span className="text-sm font-semibold text-gray-900">{ReconCostManager.formatCurrency(job.invoiceAmount)}</span>
+                    )}
+                    {!job.returnedDate ? (
+                      <button
+                        onClick={() => openReturnForm(job, false)}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-white bg-emerald-600 rounded-lg hover:bg-emerald-700"
+                      >
+                        <Check className="w-3 h-3" />
+                        Mark Returned
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => openReturnForm(job, true)}
+                        className="p-1 text-gray-400 hover:text-blue-600 rounded"
+                        title={job.invoiceAmount !== undefined ? 'Edit invoice' : 'Add invoice'}
+                      >
+                        <DollarSign className="w-3 h-3" />
+                      </button>
+                    )}
+                    {job.returnedDate && (
+                      <button
+                        onClick={() => handleToggleComeback(job)}
+                        className={`p-1 rounded ${job.isComeback ? 'text-orange-600 hover:text-orange-700' : 'text-gray-400 hover:text-orange-600'}`}
+                        title={job.isComeback ? 'Clear comeback' : 'Flag as comeback (work had to be redone)'}
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                    )}
+                    <button onClick={() => handleDelete(job)} className="p-1 text-gray-400 hover:text-red-600 rounded">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Return / Invoice Form */}
+                {returnJobId === job.id && (
+                  <div className="mt-2 p-3 bg-blue-50/60 border border-blue-200/60 rounded-lg space-y-2">
+                    {!invoiceOnly && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <label className="text-xs text-gray-600">
+                          Returned
+                          <input
+                            type="date"
+                            value={returnForm.returnedDate}
+                            min={job.sentDate}
+                            onChange={(e) => setReturnForm(prev => ({ ...prev, returnedDate: e.target.value }))}
+                            className="mt-0.5 w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-600">
+                          Back to
+                          <select
+                            value={returnForm.returnLocation}
+                            onChange={(e) => setReturnForm(prev => ({ ...prev, returnLocation: e.target.value }))}
+                            className="mt-0.5 w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                          >
+                            {job.fromLocation && !locations.some(location => location.name === job.fromLocation) && (
+                              <option value={job.fromLocation}>{job.fromLocation}</option>
+                            )}
+                            {!job.fromLocation && <option value="">Leave location unchanged</option>}
+                            {locations.map(location => (
+                              <option key={location.id} value={location.name}>{location.name}</option>
+                            ))}
+                          </select>
+                        </label>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={returnForm.invoiceAmount}
+                        onChange={(e) => setReturnForm(prev => ({ ...prev, invoiceAmount: e.target.value }))}
+                        placeholder={invoiceOnly ? 'Invoice amount' : 'Invoice amount (optional)'}
+                        className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+                      />
+                      <input
+                        type="text"
+                        value={returnForm.invoiceNumber}
+                        onChange={(e) => setReturnForm(prev => ({ ...prev, invoiceNumber: e.target.value }))}
+                        placeholder="Invoice # (optional)"
+                        className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500">The invoice is added to this vehicle's recon costs as sublet.</p>
+                    {formError && <p className="text-red-600 text-xs">{formError}</p>}
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setReturnJobId(null)}
+                        className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleReturn(job)}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {invoiceOnly ? 'Save Invoice' : 'Mark Returned'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SubletJobsPanel;
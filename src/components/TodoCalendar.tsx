@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { TodoManager } from '../utils/todoManager';
 import { Todo, TodoCategory, TODO_CATEGORY_CONFIGS, PRIORITY_CONFIGS } from '../types/todo';
+import { RealtimeChange } from '../types/realtime';
 import { supabase } from '../utils/supabaseClient';
 import { 
   Calendar,
@@ -443,6 +444,39 @@ const TodoCalendar: React.FC = () => {
     }
   }, [dealership]);
 
+  // Todos added, completed or reassigned by others show up without a refresh
+  useEffect(() => {
+    if (!dealership) return;
+    const handleTodoChange = (change: RealtimeChange<Todo>) => {
+      const todoId = change.type === 'delete' ? change.id : change.record.id;
+      // Same rule as TodoManager.getTodos: technicians and sales only see their own and unassigned todos
+      const isAdmin = user?.role === 'admin' || user?.role === 'manager';
+      const isVisible = change.type === 'upsert' && (
+        isAdmin ||
+        change.record.assignedTo === 'ALL' ||
+        change.record.assignedTo === user?.initials ||
+        change.record.assignedBy === user?.initials
+      );
+
+      setTodos(prev => {
+        const exists = prev.some(todo => todo.id === todoId);
+        if (change.type === 'delete' || !isVisible) {
+          return exists ? prev.filter(todo => todo.id !== todoId) : prev;
+        }
+        return exists
+          ? prev.map(todo => (todo.id === todoId ? change.record : todo))
+          : [change.record, ...prev];
+      });
+    };
+
+    return TodoManager.subscribeToTodos(dealership.id, handleTodoChange);
+  }, [dealership, user?.initials, user?.role]);
+
+  // Stats follow the loaded list, so they stay right as realtime changes come in
+  useEffect(() => {
+    setStats(TodoManager.calculateStats(todos));
+  }, [todos]);
+
   useEffect(() => {
     filterTodos();
   }, [todos, searchTerm, statusFilter, priorityFilter, categoryFilter, assigneeFilter]);
@@ -457,10 +491,6 @@ const TodoCalendar: React.FC = () => {
         // Check if todos are filtered by role (non-admin users will see fewer todos)
         const isAdmin = user?.role === 'admin' || user?.role === 'manager';
         setIsFilteredByRole(!isAdmin);
-        
-        // Load stats
-        const todoStats = await TodoManager.getTodoStats(dealership.id);
-        setStats(todoStats);
       } catch (error) {
         console.error('Error loading todos:', error);
       } finally {
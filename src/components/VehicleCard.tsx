@@ -1,12 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Vehicle, getStockNumber, InspectionStatus } from '../types/vehicle';
+import { Vehicle, getStockNumber } from '../types/vehicle';
 import StatusBadge from './StatusBadge';
-import { MapPin, Gauge, Clock, FileText, AlertTriangle } from 'lucide-react';
+import { MapPin, Gauge, Clock, FileText, AlertTriangle, Timer } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { InspectionDataManager } from '../utils/inspectionDataManager';
+import { InspectionRecordManager } from '../utils/inspectionRecordManager';
 import { ProgressCalculator } from '../utils/progressCalculator';
-import { InspectionSection } from '../types/inspectionSettings';
+import { InspectionSettings } from '../types/inspectionSettings';
+import { InspectionTemplateManager } from '../utils/inspectionTemplateManager';
+import { InspectionRecord, ProgressOptions } from '../types/inspectionRecord';
+import { ReconStageManager } from '../utils/reconStageManager';
+import { PhotoManager } from '../utils/photoManager';
+import { SlaSettings } from '../types/reconStage';
 
 interface VehicleCardProps {
   vehicle: Vehicle;
@@ -14,39 +20,46 @@ interface VehicleCardProps {
 
 const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle }) => {
   const { dealership, user } = useAuth();
-  const [allSections, setAllSections] = useState<InspectionSection[]>([]);
+  const [inspectionSettings, setInspectionSettings] = useState<InspectionSettings | null>(null);
+  const [progressOptions, setProgressOptions] = useState<ProgressOptions>({});
   const [isLoadingSettings, setIsLoadingSettings] = useState(true);
-  const [inspectionData, setInspectionData] = useState<any>(null);
+  const [slaSettings, setSlaSettings] = useState<SlaSettings | null>(null);
+  const [inspectionData, setInspectionData] = useState<InspectionRecord | null>(null);
   const [inspectionLoaded, setInspectionLoaded] = useState(false);
   
-  // Load all sections asynchronously
+  // Load inspection settings asynchronously
   useEffect(() => {
-    const loadAllSections = async () => {
+    const loadSettings = async () => {
       if (!dealership) {
-        setAllSections([]);
+        setInspectionSettings(null);
         setIsLoadingSettings(false);
         return;
       }
 
       try {
         const settings = await InspectionDataManager.getSettings(dealership.id);
-        if (settings) {
-          const sections = settings.sections
-            .filter(section => section.isActive)
-            .sort((a, b) => a.order - b.order);
-          setAllSections(sections);
-        } else {
-          setAllSections([]);
-        }
+        setInspectionSettings(settings);
+        setProgressOptions(ProgressCalculator.getOptions(settings));
       } catch (error) {
         console.error('Error loading sections:', error);
-        setAllSections([]);
+        setInspectionSettings(null);
       } finally {
         setIsLoadingSettings(false);
       }
     };
 
-    loadAllSections();
+    loadSettings();
+  }, [dealership]);
+
+  // The vehicle's own checklist - its template snapshot, or what the template rules pick
+  const allSections = ProgressCalculator.getActiveSections(
+    InspectionTemplateManager.getVehicleSections(inspectionSettings, vehicle)
+  );
+
+  // Load SLA targets for the stage badge
+  useEffect(() => {
+    if (!dealership) return;
+    ReconStageManager.getSlaSettings(dealership.id).then(setSlaSettings);
   }, [dealership]);
 
   // Load inspection data for this vehicle
@@ -57,65 +70,24 @@ const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle }) => {
     InspectionDataManager.loadInspectionData(vehicle.id, user.id)
       .then(data => {
         if (!cancelled) {
-          setInspectionData(data || {});
+          setInspectionData(data);
           setInspectionLoaded(true);
         }
       })
       .catch(() => {
         if (!cancelled) {
-          setInspectionData({});
+          setInspectionData(InspectionRecordManager.createEmpty());
           setInspectionLoaded(true);
         }
       });
     return () => { cancelled = true; };
   }, [vehicle?.id, user?.id]);
 
-  // Section status and progress logic - now dynamic based on inspection settings
-  const getSectionStatus = (sectionKey: string, inspectionData: any): InspectionStatus => {
-    const items = inspectionData?.[sectionKey] || [];
-    if (!Array.isArray(items) || items.length === 0) return 'not-started';
-    
-    // Get all items for this section from inspection settings
-    const sectionSettings = allSections.find(s => s.key === sectionKey);
-    if (!sectionSettings) return 'not-started';
-    
-    const allSectionItems = sectionSettings.items || [];
-    
-    // Check if ALL items have been inspected (no missing items and no 'not-checked' ratings)
-    const inspectedItems = items.filter((item: any) => item.rating && item.rating !== 'not-checked');
-    
-    // If not all items have been inspected, stay gray
-    if (inspectedItems.length < allSectionItems.length) return 'not-started';
-    
-    // If any inspected item is 'not-checked', return 'not-started' (grey)
-    if (items.some((item: any) => item.rating === 'not-checked' || !item.rating)) return 'not-started';
-    
-    // Now check the actual ratings since all items are inspected
-    if (items.some((item: any) => item.rating === 'N')) return 'needs-attention';
-    if (items.some((item: any) => item.rating === 'F')) return 'pending';
-    if (items.every((item: any) => item.rating === 'G')) return 'completed';
-    return 'not-started';
-  };
-
-  // Use dynamic sections for status calculation (only when sections are loaded)
-  const sectionKeys = allSections.map(section => section.key);
-  const sectionStatuses: Record<string, InspectionStatus> = sectionKeys.reduce((acc: Record<string, InspectionStatus>, key: string) => {
-    acc[key] = getSectionStatus(key, inspectionData);
-    return acc;
-  }, {} as Record<string, InspectionStatus>);
-  
-  // Count sections that are 'completed', 'pending', or 'needs-attention' as completed for progress
-  const completedSections = sectionKeys.filter(key => {
-    const status = sectionStatuses[key];
-    return status === 'completed' || status === 'pending' || status === 'needs-attention';
-  }).length;
+  // Section status and progress come from the shared engine so the card matches the dashboard and PDF
+  const vehicleProgress = ProgressCalculator.getVehicleProgress(inspectionData, allSections, progressOptions);
   
   // Only show progress when both inspection data and sections are loaded
-  const overallProgress = Math.round(
-    (inspectionLoaded && !isLoadingSettings && sectionKeys.length > 0) 
-      ? (completedSections / sectionKeys.length) * 100 
-      : 0
-  );
+  const overallProgress = inspectionLoaded && !isLoadingSettings ? vehicleProgress.percent : 0;
 
   const getDaysInInventory = () => {
     const acquiredDate = new Date(vehicle.dateAcquired);
@@ -179,111 +151,19 @@ const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle }) => {
     return text.substring(0, maxLength).trim() + '...';
   };
 
-  // Helper function to categorize a vehicle based on inspection status
-  const categorizeVehicle = (vehicle: Vehicle) => {
-    // First check vehicle.status - if sold or pending, don't categorize by inspection
-    if (vehicle.status === 'sold' || vehicle.status === 'pending') {
-      console.log(`Vehicle ${vehicle.id} skipped categorization - status is ${vehicle.status}`);
-      return null; // Don't count in Ready/Working/Issues
-    }
-
-    // Check if any section is incomplete (has gray status) - if so, mark as working
-    if (sectionKeys.some(sectionKey => getSectionStatus(sectionKey, inspectionData) === 'not-started')) return 'pending';
-    
-    // Use the same dynamic sectionKeys as the rest of the component
-    const allRatings: string[] = [];
-    
-    for (const sectionKey of sectionKeys) {
-      const items = inspectionData[sectionKey] || [];
-      if (Array.isArray(items)) {
-        items.forEach((item: any) => {
-          if (item.rating) {
-            allRatings.push(item.rating);
-          }
-        });
-      }
-    }
-     
-    console.log(`Vehicle ${vehicle.id} (${vehicle.year} ${vehicle.make} ${vehicle.model}):`, {
-      allRatings,
-      inspectionData,
-      vehicleStatus: vehicle.status
-    });
-
-    // If no ratings at all, it's pending/working (not started)
-    if (allRatings.length === 0) {
-      console.log(`Vehicle ${vehicle.id} categorized as: pending (no ratings)`);
-      return 'pending';
-    }
-    
-    // If ANY rating is 'not-checked', it's pending/working (not fully inspected)
-    if (allRatings.some(rating => rating === 'not-checked')) {
-      console.log(`Vehicle ${vehicle.id} categorized as: pending (has not-checked items)`);
-      return 'pending';
-    }
-    
-    // Priority logic:
-    // 1. If ANY rating is 'N' (needs attention), it's needs-attention
-    if (allRatings.some(rating => rating === 'N')) {
-      console.log(`Vehicle ${vehicle.id} categorized as: needs-attention`);
-      return 'needs-attention';
-    }
-     
-    // 2. If ALL ratings are 'G' (great), it's completed
-    if (allRatings.every(rating => rating === 'G')) {
-      console.log(`Vehicle ${vehicle.id} categorized as: completed`);
-      return 'completed';
-    }
-     
-    // 3. If has 'F' ratings, it's pending/working
-    if (allRatings.some(rating => rating === 'F')) {
-      console.log(`Vehicle ${vehicle.id} categorized as: pending (has F or not-checked)`);
-      return 'pending';
-    }
-     
-    // 4. Default to active
-    console.log(`Vehicle ${vehicle.id} categorized as: active (default)`);
-    return 'active';
-  };
-
   const stockNumber = getStockNumber(vehicle.vin);
   const daysInInventory = getDaysInInventory();
   
-  // Check if vehicle is ready for sale based on inspection data (all ratings are 'G')
-  const isReadyForSale = inspectionLoaded && inspectionData && allSections.length > 0 && (() => {
-    const sectionKeys = allSections.map(section => section.key);
-    
-    // Check each section to ensure it's fully inspected and all items are 'G'
-    for (const sectionKey of sectionKeys) {
-      const section = allSections.find(s => s.key === sectionKey);
-      if (!section || !section.items || section.items.length === 0) {
-        continue; // Skip sections with no items
-      }
-      
-      const inspectedItems = inspectionData[sectionKey] || [];
-      const sectionItems = section.items.filter(item => item.isActive);
-      
-      // If this section doesn't have data for all its items, not ready
-      if (inspectedItems.length < sectionItems.length) {
-        return false;
-      }
-      
-      // Check if ALL items in this section are rated 'G'
-      for (const inspectedItem of inspectedItems) {
-        if (!inspectedItem.rating || inspectedItem.rating !== 'G') {
-          return false;
-          }
-      }
-    }
-    
-    // Only ready for sale if we actually have sections with items to inspect
-    const totalActiveItems = allSections.reduce((count, section) => {
-      return count + (section.items?.filter(item => item.isActive)?.length || 0);
-    }, 0);
-    
-    return totalActiveItems > 0; // Only ready if there are items to inspect and all are 'G'
-  })();
+  const isReadyForSale = inspectionLoaded && !isLoadingSettings && ProgressCalculator.isFrontlineReady(vehicle, vehicleProgress);
   
+  // SLA clocks only make sense once sections and inspection data are both known
+  const slaResults = slaSettings && inspectionLoaded && !isLoadingSettings
+    ? ReconStageManager.evaluateSla(vehicle, slaSettings, allSections, inspectionData, progressOptions)
+    : [];
+  const slaStatus = ReconStageManager.getVehicleSlaStatus(slaResults);
+  const worstBreach = ReconStageManager.getSlaBreaches(slaResults)[0];
+  const atRiskStages = slaResults.filter(result => result.status === 'at-risk');
+
   const locationStyle = getLocationStyle(vehicle.location);
   const truncatedNotes = getTruncatedNotes(vehicle.notes || '');
 
@@ -292,6 +172,15 @@ const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle }) => {
       to={`/vehicle/${vehicle.id}`}
       className="block bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 dark:border-gray-700/50 hover:shadow-xl hover:bg-white/90 dark:hover:bg-gray-900 transition-all duration-300 hover:scale-[1.02] group"
     >
+      {/* Hero photo, picked in the vehicle's photo gallery */}
+      {vehicle.heroPhotoPath && (
+        <img
+          src={PhotoManager.getPublicUrl(vehicle.heroPhotoPath)}
+          alt={`${vehicle.year} ${vehicle.make} ${vehicle.model}`}
+          loading="lazy"
+          className="w-full h-40 object-cover rounded-t-2xl"
+        />
+      )}
       <div className="p-6">
         {/* Header Section - Vehicle Title */}
         <div className="mb-5">
@@ -341,13 +230,35 @@ const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle }) => {
               <div className="flex items-center gap-1 px-3 py-1 bg-emerald-100 dark:bg-emerald-900 text-emerald-700 dark:text-emerald-200 rounded-full text-sm font-semibold border border-emerald-200 dark:border-emerald-800 flex-shrink-0">
                 <span className="w-2 h-2 bg-emerald-500 dark:bg-emerald-400 rounded-full"></span>
                 Ready for Sale
+                {vehicleProgress.readiness !== 'ready' && (
+                  <span className="text-xs font-medium" title={vehicle.readinessOverrideReason}>(override)</span>
+                )}
+              </div>
+            ) : null}
+
+            {/* SLA Badge - only when a stage clock is at risk or past its target */}
+            {slaStatus === 'breached' && worstBreach ? (
+              <div
+                className="flex items-center gap-1 px-3 py-1 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 rounded-full text-sm font-semibold border border-red-200 dark:border-red-800 flex-shrink-0"
+                title={`${worstBreach.label}: ${ReconStageManager.formatDays(worstBreach.elapsedDays)} against a ${ReconStageManager.formatDays(worstBreach.targetDays)} target`}
+              >
+                <Timer className="w-3.5 h-3.5" />
+                SLA +{ReconStageManager.formatDays(worstBreach.elapsedDays - worstBreach.targetDays)}
+              </div>
+            ) : slaStatus === 'at-risk' ? (
+              <div
+                className="flex items-center gap-1 px-3 py-1 bg-amber-100 dark:bg-amber-900 text-amber-700 dark:text-amber-200 rounded-full text-sm font-semibold border border-amber-200 dark:border-amber-800 flex-shrink-0"
+                title={atRiskStages.map(result => `${result.label}: ${ReconStageManager.formatDays(result.elapsedDays)} of ${ReconStageManager.formatDays(result.targetDays)}`).join('\n')}
+              >
+                <Timer className="w-3.5 h-3.5" />
+                SLA At Risk
               </div>
             ) : null}
             
             {/* Location Box - RIGHT */}
             <div className={`inline-flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium border ${locationStyle.bgColor} ${locationStyle.textColor} ${locationStyle.borderColor} dark:bg-gray-800/60 dark:text-gray-200 dark:border-gray-700`}> 
               <MapPin className="w-4 h-4" />
-              <span>{vehicle.location}</span>
+              <span>{vehicle.location}{vehicle.parkingSpot && ` · ${vehicle.parkingSpot}`}</span>
             </div>
           </div>
         </div>
@@ -396,14 +307,13 @@ const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle }) => {
           <div className="space-y-2">
             <div className="flex flex-wrap gap-2">
               {/* Show only sections from inspection settings - no hardcoding */}
-              {!isLoadingSettings && allSections.map(section => {
-                const sectionStatus = getSectionStatus(section.key, inspectionData);
+              {!isLoadingSettings && vehicleProgress.sections.map(section => {
                 return (
                   <StatusBadge 
-                    key={section.key} 
-                    status={sectionStatus} 
+                    key={section.sectionKey} 
+                    status={section.status} 
                     label={section.label} 
-                    section={section.key as any} 
+                    section={section.sectionKey as any} 
                     size="sm" 
                   />
                 );
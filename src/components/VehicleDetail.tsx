@@ -1,17 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { mockVehicles } from '../data/mockVehicles';
-import { Vehicle, TeamNote, InspectionStatus } from '../types/vehicle';
+import { Vehicle, TeamNote, InspectionStatus, VehicleSaleDetails } from '../types/vehicle';
+import { InspectionRecord } from '../types/inspectionRecord';
+import { InspectionSettings } from '../types/inspectionSettings';
+import { RealtimeChange, VehiclePresence as VehiclePresenceEntry } from '../types/realtime';
+import { WorkOrderLine } from '../types/workOrder';
 import { AnalyticsManager } from '../utils/analytics';
 import StatusBadge from './StatusBadge';
 import InspectionChecklist from './InspectionChecklist';
 import TeamNotes from './TeamNotes';
 import CustomerInspectionPDF from './CustomerInspectionPDF';
+import VinDecodeWarnings from './VinDecodeWarnings';
+import ReconCostLedger from './ReconCostLedger';
+import ReconTimeline from './ReconTimeline';
+import InspectionHistory from './InspectionHistory';
+import PhotoGallery from './PhotoGallery';
+import WorkOrderPanel from './WorkOrderPanel';
+import SubletJobsPanel from './SubletJobsPanel';
+import PartsPanel from './PartsPanel';
+import MarkAsSoldModal from './MarkAsSoldModal';
+import ReadinessBlockers from './ReadinessBlockers';
+import ReadinessOverrideModal from './ReadinessOverrideModal';
+import InspectionTemplatePicker from './InspectionTemplatePicker';
+import VehicleSaleSummary from './VehicleSaleSummary';
+import LocationTimeline from './LocationTimeline';
+import VehiclePresence from './VehiclePresence';
 import { ProgressCalculator } from '../utils/progressCalculator';
 import { supabase } from '../utils/supabaseClient';
 import { VehicleManager } from '../utils/vehicleManager';
 import { InspectionDataManager } from '../utils/inspectionDataManager';
+import { LocationManager } from '../utils/locationManager';
+import { KeyTagGenerator } from '../utils/keyTagGenerator';
+import { InspectionTemplateManager } from '../utils/inspectionTemplateManager';
+import { InspectionRecordManager } from '../utils/inspectionRecordManager';
+import { RealtimeManager, PresenceSession } from '../utils/realtimeManager';
+import { WorkOrderManager } from '../utils/workOrderManager';
 import { 
   ArrowLeft, 
   Car, 
@@ -35,7 +60,8 @@ import {
   Download,
   Printer,
   Archive,
-  Trash2
+  Trash2,
+  Tag
 } from 'lucide-react';
 
 const VehicleDetail: React.FC = () => {
@@ -50,10 +76,14 @@ const VehicleDetail: React.FC = () => {
   const [rightPanelView, setRightPanelView] = useState<'inspection' | 'team-notes'>('inspection');
   const [showPdfModal, setShowPdfModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showSoldModal, setShowSoldModal] = useState(false);
+  const [showOverrideModal, setShowOverrideModal] = useState(false);
+  const [sellAfterOverride, setSellAfterOverride] = useState(false); // Override was prompted by Mark as Sold
   
   // NEW: Location editing state
   const [isEditingLocation, setIsEditingLocation] = useState(false);
   const [editedLocation, setEditedLocation] = useState('');
+  const [editedLocationReason, setEditedLocationReason] = useState('');
 
   // Vehicle Information editing state
   const [isEditingVehicleInfo, setIsEditingVehicleInfo] = useState(false);
@@ -69,11 +99,23 @@ const VehicleDetail: React.FC = () => {
     dateAcquired: ''
   });
 
-  const [inspectionData, setInspectionData] = useState<any>(null);
+  const [inspectionData, setInspectionData] = useState<InspectionRecord | null>(null);
   const [inspectionLoading, setInspectionLoading] = useState(true);
-  const [inspectionSettings, setInspectionSettings] = useState<any>(null);
+  const [inspectionSettings, setInspectionSettings] = useState<InspectionSettings | null>(null);
   const [settingsLoaded, setSettingsLoaded] = useState(false);
-  const [customSections, setCustomSections] = useState<any[]>([]);
+
+  // Other people with this vehicle open
+  const [otherViewers, setOtherViewers] = useState<VehiclePresenceEntry[]>([]);
+  const [isEditingInspection, setIsEditingInspection] = useState(false);
+  const [workOrderLines, setWorkOrderLines] = useState<WorkOrderLine[]>([]);
+  const [reconCostsVersion, setReconCostsVersion] = useState(0); // Bumped to reload the ledger when costs are posted elsewhere
+  const presenceRef = useRef<PresenceSession | null>(null);
+  const inspectionEditTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Settings narrowed to this vehicle's inspection template
+  const vehicleSettings = inspectionSettings && vehicle
+    ? InspectionTemplateManager.applyToSettings(inspectionSettings, vehicle)
+    : null;
 
   // console.log('[VehicleDetail] Render', { vehicle });
 
@@ -87,12 +129,12 @@ const VehicleDetail: React.FC = () => {
     if (!vehicle || !user) return;
     setInspectionLoading(true);
     InspectionDataManager.loadInspectionData(vehicle.id, user.id)
-      .then(data => setInspectionData(data || {}))
+      .then(data => setInspectionData(data))
       .finally(() => setInspectionLoading(false));
   }, [vehicle?.id, user?.id]);
 
   // Listen for inspection data changes to update status badges in real-time
-  const handleInspectionDataChange = (newData: any) => {
+  const handleInspectionDataChange = (newData: InspectionRecord) => {
     setInspectionData(newData);
   };
   // Load inspection settings
@@ -111,29 +153,68 @@ const VehicleDetail: React.FC = () => {
       });
   }, [user?.dealershipId]);
 
-  // Load custom sections from inspection settings
+  // Changes made on other devices (a detailer finishing cleaning on their phone) show up without a refresh
   useEffect(() => {
-    const loadCustomSections = async () => {
-      if (!user?.dealershipId) return;
-      
-      try {
-        const settings = await InspectionDataManager.getSettings(user.dealershipId);
-        if (settings) {
-          const customSectionsList = settings.sections
-            .filter((section: any) => section.isActive)
-            .sort((a: any, b: any) => a.order - b.order);
-          setCustomSections(customSectionsList);
-        }
-      } catch (error) {
-        console.error('Error loading custom sections:', error);
-        setCustomSections([]);
-      } finally {
-        setSettingsLoaded(true);
+    if (!vehicle?.id) return;
+    const vehicleId = vehicle.id;
+    return VehicleManager.subscribeToVehicles({ vehicleId }, change => {
+      // Realtime can't filter deletes, so those still arrive for every vehicle
+      if (change.type === 'delete') {
+        if (change.id === vehicleId) setVehicle(null);
+        return;
+      }
+      setVehicle(change.record);
+      const inspection = change.record.inspection;
+      if (inspection && InspectionRecordManager.getSectionKeys(inspection).length > 0) {
+        setInspectionData(inspection);
       }
+    });
+  }, [vehicle?.id]);
+
+  // Work order lines are raised by inspection saves on any device, so the list stays live
+  useEffect(() => {
+    if (!vehicle?.id || !user?.dealershipId) return;
+    const vehicleId = vehicle.id;
+    WorkOrderManager.getLines(user.dealershipId, vehicleId).then(setWorkOrderLines);
+    const unsubscribe = WorkOrderManager.subscribeToLines({ vehicleId }, change => {
+      setWorkOrderLines(prev => WorkOrderManager.applyChange(prev, change));
+    });
+    return () => {
+      unsubscribe();
+      setWorkOrderLines([]);
     };
+  }, [vehicle?.id, user?.dealershipId]);
 
-    loadCustomSections();
-  }, [user?.dealershipId]);
+  useEffect(() => {
+    if (!vehicle?.id || !user) return;
+    const session = RealtimeManager.joinVehicle(
+      vehicle.id,
+      { userId: user.id, initials: user.initials, name: `${user.firstName} ${user.lastName}`, activity: 'viewing' },
+      setOtherViewers
+    );
+    presenceRef.current = session;
+    return () => {
+      session.leave();
+      presenceRef.current = null;
+      setOtherViewers([]);
+    };
+  }, [vehicle?.id, user]);
+
+  // Editing while a form is open or for a minute after the last checklist change
+  const isEditing = isEditingNotes || isEditingLocation || isEditingVehicleInfo || isEditingInspection;
+  useEffect(() => {
+    presenceRef.current?.setActivity(isEditing ? 'editing' : 'viewing');
+  }, [isEditing]);
+
+  useEffect(() => () => {
+    if (inspectionEditTimer.current) clearTimeout(inspectionEditTimer.current);
+  }, []);
+
+  const handleInspectionEdit = () => {
+    setIsEditingInspection(true);
+    if (inspectionEditTimer.current) clearTimeout(inspectionEditTimer.current);
+    inspectionEditTimer.current = setTimeout(() => setIsEditingInspection(false), 60000);
+  };
 
   const loadVehicle = async (vehicleId: string, dealershipId: string) => {
     setIsLoading(true);
@@ -276,16 +357,18 @@ const VehicleDetail: React.FC = () => {
     if (!vehicle || !user) return;
     const oldLocation = vehicle.location;
     const newLocation = editedLocation.trim();
+    const reason = editedLocationReason.trim();
     
     if (oldLocation === newLocation) {
       setIsEditingLocation(false);
+      setEditedLocationReason('');
       return;
     }
 
     // Add team note about location change
     const locationNote: TeamNote = {
       id: Date.now().toString(),
-      text: `Vehicle location changed from "${oldLocation}" to "${newLocation}".`,
+      text: `Vehicle location changed from "${oldLocation}" to "${newLocation}".${reason ? ` Reason: ${reason}` : ''}`,
       userInitials: user.initials,
       timestamp: new Date().toISOString(),
       category: 'general'
@@ -293,6 +376,16 @@ const VehicleDetail: React.FC = () => {
 
     // Update location and team notes in database using specialized method
     if (!user.dealershipId) return;
+
+    const capacityCheck = await LocationManager.checkLocationCapacity(user.dealershipId, newLocation);
+    if (!capacityCheck.allowed) {
+      alert(`${capacityCheck.message} Move a vehicle out before adding another.`);
+      return;
+    }
+    if (capacityCheck.isOverCapacity && !window.confirm(`${capacityCheck.message} Move this vehicle there anyway?`)) {
+      return;
+    }
+
     setIsLoading(true);
     
     try {
@@ -300,7 +393,9 @@ const VehicleDetail: React.FC = () => {
         user.dealershipId,
         vehicle.id,
         newLocation,
-        [locationNote, ...(vehicle.teamNotes || [])]
+        [locationNote, ...(vehicle.teamNotes || [])],
+        user.initials,
+        reason
       );
       
       if (updatedVehicle) {
@@ -315,11 +410,13 @@ const VehicleDetail: React.FC = () => {
     } finally {
       setIsLoading(false);
       setIsEditingLocation(false);
+      setEditedLocationReason('');
     }
   };
 
   const handleCancelEditLocation = () => {
     setEditedLocation(vehicle?.location || '');
+    setEditedLocationReason('');
     setIsEditingLocation(false);
   };
 
@@ -340,7 +437,7 @@ const VehicleDetail: React.FC = () => {
     setIsEditingVehicleInfo(true);
   };
 
-  const handleSaveVehicleInfo = () => {
+  const handleSaveVehicleInfo = async () => {
     console.log('[VehicleDetail] handleSaveVehicleInfo');
     if (!vehicle || !user) return;
 
@@ -355,6 +452,20 @@ const VehicleDetail: React.FC = () => {
 
     // Use specialized update function that only updates vehicle info and team notes
     if (!user.dealershipId) return;
+
+    // A move from this form faces the same capacity limits as the location editor
+    const newLocation = editedVehicleInfo.location.trim();
+    if (newLocation !== (vehicle.location || '')) {
+      const capacityCheck = await LocationManager.checkLocationCapacity(user.dealershipId, newLocation);
+      if (!capacityCheck.allowed) {
+        alert(`${capacityCheck.message} Move a vehicle out before adding another.`);
+        return;
+      }
+      if (capacityCheck.isOverCapacity && !window.confirm(`${capacityCheck.message} Move this vehicle there anyway?`)) {
+        return;
+      }
+    }
+
     setIsLoading(true);
     
     VehicleManager.updateVehicleInfoAndTeamNotes(
@@ -368,10 +479,11 @@ const VehicleDetail: React.FC = () => {
         mileage: editedVehicleInfo.mileage,
         color: editedVehicleInfo.color.trim(),
         price: editedVehicleInfo.price,
-        location: editedVehicleInfo.location.trim(),
+        location: newLocation,
         dateAcquired: editedVehicleInfo.dateAcquired
       },
-      [infoNote, ...(vehicle.teamNotes || [])]
+      [infoNote, ...(vehicle.teamNotes || [])],
+      user.initials
     ).then(updatedVehicle => {
       if (updatedVehicle) {
         setVehicle(updatedVehicle);
@@ -403,6 +515,14 @@ const VehicleDetail: React.FC = () => {
     setIsEditingVehicleInfo(false);
   };
 
+  // Section status, progress and readiness from the shared engine (custom sections included)
+  const getReadinessProgress = () =>
+    ProgressCalculator.getVehicleProgress(
+      inspectionData,
+      vehicleSettings?.sections || [],
+      ProgressCalculator.getOptions(inspectionSettings)
+    );
+
   const handleMarkAsSold = async () => {
     if (!vehicle || !user) return;
     
@@ -429,7 +549,9 @@ const VehicleDetail: React.FC = () => {
           user.dealershipId,
           vehicle.id,
           null, // Clear the status
-          [statusNote, ...(vehicle.teamNotes || [])]
+          [statusNote, ...(vehicle.teamNotes || [])],
+          user.initials,
+          { reactivatedBy: `${user.firstName} ${user.lastName}` }
         );
         
         if (updatedVehicle) {
@@ -444,42 +566,135 @@ const VehicleDetail: React.FC = () => {
         setIsLoading(false);
       }
     } else {
-      // Mark as sold
-      const confirmation = confirm('Are you sure you want to mark this vehicle as sold?');
-      if (!confirmation) return;
+      // Vehicles can't be sold short of ready unless a manager overrides the gate
+      const { blockers } = getReadinessProgress();
+      if (blockers.length > 0 && !ProgressCalculator.isOverrideActive(vehicle, blockers)) {
+        if (!isManager) {
+          alert(`This vehicle isn't ready to sell. Still blocking:\n\n${blockers.map(blocker => ProgressCalculator.describeBlocker(blocker)).join('\n')}\n\nAsk a manager to override.`);
+          return;
+        }
+        setSellAfterOverride(true);
+        setShowOverrideModal(true);
+        return;
+      }
 
-      // Add team note about status change
-      const statusNote: TeamNote = {
-        id: Date.now().toString(),
-        text: `Vehicle marked as sold by ${user.firstName} ${user.lastName}.`,
-        userInitials: user.initials,
-        timestamp: new Date().toISOString(),
-        category: 'general'
-      };
+      // Mark as sold - sale price, buyer and notes are captured in the dialog
+      setShowSoldModal(true);
+    }
+  };
 
-      // Use specialized update function
-      if (!user.dealershipId) return;
-      setIsLoading(true);
-      
-      try {
-        const updatedVehicle = await VehicleManager.updateVehicleStatusAndTeamNotes(
-          user.dealershipId,
-          vehicle.id,
-          'sold',
-          [statusNote, ...(vehicle.teamNotes || [])]
-        );
-        
-        if (updatedVehicle) {
-          setVehicle(updatedVehicle);
-          console.log('Successfully updated vehicle status and added team note');
-        } else {
-          console.error('Error updating vehicle status');
+  const handleConfirmReadinessOverride = async (reason: string) => {
+    if (!vehicle || !user || !user.dealershipId) return;
+
+    const { blockers } = getReadinessProgress();
+    const overrideNote: TeamNote = {
+      id: Date.now().toString(),
+      text: `Readiness overridden by ${user.firstName} ${user.lastName}: ${reason}. Still blocking: ${blockers.map(blocker => ProgressCalculator.describeBlocker(blocker)).join('; ')}.`,
+      userInitials: user.initials,
+      timestamp: new Date().toISOString(),
+      category: 'general',
+      isCertified: true
+    };
+
+    setShowOverrideModal(false);
+    setIsLoading(true);
+
+    try {
+      const updatedVehicle = await VehicleManager.updateVehicleStatusAndTeamNotes(
+        user.dealershipId,
+        vehicle.id,
+        'ready',
+        [overrideNote, ...(vehicle.teamNotes || [])],
+        user.initials,
+        {
+          readinessOverrideBy: `${user.firstName} ${user.lastName}`,
+          readinessOverrideReason: reason,
+          readinessOverrideBlockers: blockers.map(blocker => ProgressCalculator.getBlockerKey(blocker))
         }
-      } catch (error) {
-        console.error('Error updating vehicle status:', error);
-      } finally {
-        setIsLoading(false);
+      );
+
+      if (updatedVehicle) {
+        setVehicle(updatedVehicle);
+        if (sellAfterOverride) setShowSoldModal(true);
+      } else {
+        console.error('Error overriding vehicle readiness');
       }
+    } catch (error) {
+      console.error('Error overriding vehicle readiness:', error);
+    } finally {
+      setSellAfterOverride(false);
+      setIsLoading(false);
+    }
+  };
+
+  const handleChangeTemplate = async (templateId: string | null) => {
+    if (!vehicle || !user || !user.dealershipId || !inspectionSettings) return;
+
+    const hasRatings = getReadinessProgress().sections.some(section => section.ratedItems > 0);
+    if (hasRatings && !confirm('Ratings already recorded are kept, but only items on the new template will count toward progress and readiness. Change the template?')) {
+      return;
+    }
+
+    const snapshot = InspectionTemplateManager.createSnapshot(inspectionSettings, vehicle, user.initials, templateId);
+    const templateNote: TeamNote = {
+      id: Date.now().toString(),
+      text: `Inspection template changed to "${snapshot.templateName}" by ${user.firstName} ${user.lastName}.`,
+      userInitials: user.initials,
+      timestamp: new Date().toISOString(),
+      category: 'general'
+    };
+
+    const updatedVehicle = await VehicleManager.updateVehicle(user.dealershipId, vehicle.id, {
+      inspectionTemplate: snapshot,
+      teamNotes: [templateNote, ...(vehicle.teamNotes || [])]
+    });
+    if (updatedVehicle) {
+      setVehicle(updatedVehicle);
+    } else {
+      console.error('Error changing inspection template');
+    }
+  };
+
+  const handleCloseOverrideModal = () => {
+    setShowOverrideModal(false);
+    setSellAfterOverride(false);
+  };
+
+  const handleConfirmSold = async (sale: VehicleSaleDetails) => {
+    if (!vehicle || !user || !user.dealershipId) return;
+
+    // Add team note about status change
+    const statusNote: TeamNote = {
+      id: Date.now().toString(),
+      text: `Vehicle marked as sold by ${user.firstName} ${user.lastName} to ${sale.soldTo} for $${sale.soldPrice.toLocaleString()}.`,
+      userInitials: user.initials,
+      timestamp: new Date().toISOString(),
+      category: 'general'
+    };
+
+    setShowSoldModal(false);
+    setIsLoading(true);
+    
+    try {
+      const updatedVehicle = await VehicleManager.updateVehicleStatusAndTeamNotes(
+        user.dealershipId,
+        vehicle.id,
+        'sold',
+        [statusNote, ...(vehicle.teamNotes || [])],
+        user.initials,
+        { ...sale, soldBy: `${user.firstName} ${user.lastName}` }
+      );
+      
+      if (updatedVehicle) {
+        setVehicle(updatedVehicle);
+        console.log('Successfully updated vehicle status and added team note');
+      } else {
+        console.error('Error updating vehicle status');
+      }
+    } catch (error) {
+      console.error('Error updating vehicle status:', error);
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -509,7 +724,9 @@ const VehicleDetail: React.FC = () => {
           user.dealershipId,
           vehicle.id,
           null, // Clear the status
-          [statusNote, ...(vehicle.teamNotes || [])]
+          [statusNote, ...(vehicle.teamNotes || [])],
+          user.initials,
+          { reactivatedBy: `${user.firstName} ${user.lastName}` }
         );
         
         if (updatedVehicle) {
@@ -546,7 +763,9 @@ const VehicleDetail: React.FC = () => {
           user.dealershipId,
           vehicle.id,
           'pending',
-          [statusNote, ...(vehicle.teamNotes || [])]
+          [statusNote, ...(vehicle.teamNotes || [])],
+          user.initials,
+          { pendingBy: `${user.firstName} ${user.lastName}`, pendingDate: new Date().toISOString() }
         );
         
         if (updatedVehicle) {
@@ -569,7 +788,7 @@ const VehicleDetail: React.FC = () => {
     setIsLoading(true);
     const dealershipId = user.dealershipId;
     const vehicleId = updatedVehicle.id;
-    const result = await VehicleManager.updateVehicle(dealershipId, vehicleId, updatedVehicle);
+    const result = await VehicleManager.updateVehicle(dealershipId, vehicleId, updatedVehicle, user.initials);
     if (result) {
       setVehicle(result);
     } else {
@@ -578,6 +797,27 @@ const VehicleDetail: React.FC = () => {
     setIsLoading(false);
   };
 
+  const handleReconBudgetUpdated = (budget: number | undefined) => {
+    setVehicle(prev => (prev ? { ...prev, reconBudget: budget } : prev));
+  };
+
+  const handleWorkOrderLineChange = (change: RealtimeChange<WorkOrderLine>) => {
+    setWorkOrderLines(prev => WorkOrderManager.applyChange(prev, change));
+  };
+
+  // Opens the repaired item's section on the checklist so it can be re-rated
+  const handleReinspect = (line: WorkOrderLine) => {
+    setActiveFilter(line.sectionKey);
+    setRightPanelView('inspection');
+    setTimeout(() => {
+      document.getElementById('mobile-inspection-content')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, 100);
+  };
+
+  const handleHeroPhotoChange = (heroPhotoPath: string | null) => {
+    setVehicle(prev => (prev ? { ...prev, heroPhotoPath: heroPhotoPath || undefined } : prev));
+  };
+
   const handleDeleteVehicle = async () => {
     if (!vehicle || !user || !user.dealershipId) return;
     
@@ -628,13 +868,6 @@ const VehicleDetail: React.FC = () => {
     }, 100); // Small delay to ensure state updates are processed
   };
 
-  const getOverallProgress = () => {
-    if (!vehicle) return 0;
-    
-    // Use the new detailed progress calculator with dynamic sections
-    return ProgressCalculator.calculateDetailedProgress(vehicle.id, vehicle, allSections);
-  };
-
   const getStockNumber = (vin: string): string => {
     return vin.slice(-6);
   };
@@ -705,36 +938,12 @@ const VehicleDetail: React.FC = () => {
     };
   };
 
-  // Helper for section status using only allowed InspectionStatus values
-  const getSectionStatus = (sectionKey: string, inspectionData: any): InspectionStatus => {
-    const items = inspectionData?.[sectionKey] || [];
-    if (!Array.isArray(items) || items.length === 0) return 'not-started';
-    
-    // Get all items for this section from inspection settings
-    const sectionSettings = allSections.find((s: any) => s.key === sectionKey);
-    if (!sectionSettings) return 'not-started';
-    
-    const allSectionItems = sectionSettings.items || [];
-    
-    // Check if ALL items have been inspected (no missing items and no 'not-checked' ratings)
-    const inspectedItems = items.filter((item: any) => item.rating && item.rating !== 'not-checked');
-    
-    // If not all items have been inspected, stay gray
-    if (inspectedItems.length < allSectionItems.length) return 'not-started';
-    
-    // If any inspected item is 'not-checked', return 'not-started' (grey)
-    if (items.some((item: any) => item.rating === 'not-checked' || !item.rating)) return 'not-started';
-    // Priority logic for fully inspected sections:
-    
-    // Now check the actual ratings since all items are inspected
-    if (items.some((item: any) => item.rating === 'N')) return 'needs-attention';
-    if (items.some((item: any) => item.rating === 'F')) return 'pending';
-    if (items.every((item: any) => item.rating === 'G')) return 'completed';
-    return 'not-started';
-  };
-
   // Add a helper to check if user can delete
   const canDeleteVehicle = user && ['manager', 'admin', 'super-admin'].includes(user.role);
+  const isManager = !!user && ['manager', 'admin', 'super-admin'].includes(user.role);
+  const reinspectItemKeys = workOrderLines
+    .filter(line => WorkOrderManager.getStage(line) === 'awaiting-reinspection')
+    .map(line => `${line.sectionKey}:${line.itemId}`);
 
   if (isLoading) {
     return (
@@ -773,67 +982,19 @@ const VehicleDetail: React.FC = () => {
   const summaryNotes = getSummaryNotes();
   
   // Get all sections from inspection settings first
-  const allSections = inspectionSettings?.sections
-    ?.filter((section: any) => section.isActive)
-    ?.sort((a: any, b: any) => a.order - b.order) || [];
+  const allSections = ProgressCalculator.getActiveSections(vehicleSettings?.sections || []);
   
-  // Check if vehicle is ready for sale based on inspection data (all ratings are 'G')
-  const isReadyForSale = inspectionData && allSections.length > 0 && (() => {
-    const sectionKeys = allSections.map((section: any) => section.key);
-    
-    // Check each section to ensure it's fully inspected and all items are 'G'
-    for (const sectionKey of sectionKeys) {
-      const section = allSections.find((s: any) => s.key === sectionKey);
-      if (!section || !section.items || section.items.length === 0) {
-        continue; // Skip sections with no items
-      }
-      
-      const inspectedItems = inspectionData[sectionKey] || [];
-      const sectionItems = section.items.filter((item: any) => item.isActive);
-      
-      // If this section doesn't have data for all its items, not ready
-      if (inspectedItems.length < sectionItems.length) {
-        return false;
-      }
-      
-      // Check if ALL items in this section are rated 'G'
-      for (const inspectedItem of inspectedItems) {
-        if (!inspectedItem.rating || inspectedItem.rating !== 'G') {
-          return false;
-          }
-      }
-    }
-    
-    // Only ready for sale if we actually have sections with items to inspect
-    const totalActiveItems = allSections.reduce((count: number, section: any) => {
-      return count + (section.items?.filter((item: any) => item.isActive)?.length || 0);
-    }, 0);
-    
-    return totalActiveItems > 0; // Only ready if there are items to inspect and all are 'G'
-  })();
+  const vehicleProgress = getReadinessProgress();
+  const isReadyForSale = !!inspectionData && ProgressCalculator.isFrontlineReady(vehicle, vehicleProgress);
   
   const locationStyle = getLocationStyle(vehicle.location);
 
-  // Section status and progress logic
-  const sectionKeys = allSections.map((section: any) => section.key);
-  const allSectionKeys = [...sectionKeys, ...customSections.map(s => s.key)];
-  const sectionStatuses = sectionKeys.reduce((acc: Record<string, InspectionStatus>, key: string) => {
-    acc[key] = getSectionStatus(key, inspectionData);
+  // Sections without active items have nothing to inspect and stay grey
+  const sectionStatuses = allSections.reduce((acc: Record<string, InspectionStatus>, section) => {
+    acc[section.key] = vehicleProgress.statuses[section.key] || 'not-started';
     return acc;
   }, {} as Record<string, InspectionStatus>);
-
-  // Add custom section statuses
-  const allSectionStatuses = { ...sectionStatuses };
-  customSections.forEach(section => {
-    allSectionStatuses[section.key] = getSectionStatus(section.key, inspectionData);
-  });
-
-  // Count sections that are 'completed', 'pending', or 'needs-attention' as completed for progress
-  const completedSections = allSectionKeys.filter(key => {
-    const status = allSectionStatuses[key];
-    return status === 'completed' || status === 'pending' || status === 'needs-attention';
-  }).length;
-  const overallProgress = Math.round((completedSections / allSectionKeys.length) * 100);
+  const overallProgress = vehicleProgress.percent;
 
   // Guard: show loading state until inspectionData is loaded
   if (inspectionLoading || !settingsLoaded) {
@@ -859,9 +1020,17 @@ const VehicleDetail: React.FC = () => {
                   {vehicle.trim && <span className="text-gray-600 font-normal"> {vehicle.trim}</span>}
                 </h1>
                 <p className="text-sm text-gray-600">Stock #{getStockNumber(vehicle.vin)}</p>
+                <VehiclePresence others={otherViewers} />
                 
                 {/* Mobile Status Badges - Below Stock Number */}
                 <div className="flex flex-wrap items-center gap-2 mt-1 lg:hidden">
+                  <button
+                    onClick={() => KeyTagGenerator.printKeyTags([vehicle])}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-lg text-xs font-medium text-gray-700 bg-white border border-gray-300"
+                  >
+                    <Tag className="w-3 h-3" />
+                    Key Tag
+                  </button>
                   {isEditingLocation ? (
                     <div className="flex items-center gap-2">
                       <input
@@ -879,6 +1048,18 @@ const VehicleDetail: React.FC = () => {
                           }
                         }}
                       />
+                      <input
+                        type="text"
+                        value={editedLocationReason}
+                        onChange={(e) => setEditedLocationReason(e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-xs min-w-[100px]"
+                        placeholder="Reason (optional)"
+                        onKeyPress={(e) => {
+                          if (e.key === 'Enter') {
+                            handleSaveLocation();
+                          }
+                        }}
+                      />
                       <button
                         onClick={handleSaveLocation}
                         className="p-1 text-green-600 hover:bg-green-50 rounded transition-colors"
@@ -901,7 +1082,7 @@ const VehicleDetail: React.FC = () => {
                       title="Click to edit location"
                     >
                       <MapPin className="w-3 h-3" />
-                      <span>{vehicle.location || 'N/A'}</span>
+                      <span>{vehicle.location || 'N/A'}{vehicle.parkingSpot && ` · ${vehicle.parkingSpot}`}</span>
                       <Edit3 className="w-2 h-2 opacity-60" />
                     </button>
                   )}
@@ -930,6 +1111,14 @@ const VehicleDetail: React.FC = () => {
             
             {/* Desktop Status Badges - Right Side */}
             <div className="hidden lg:flex items-center gap-4">
+              <button
+                onClick={() => KeyTagGenerator.printKeyTags([vehicle])}
+                className="flex items-center gap-2 px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                title="Print a QR key tag for this vehicle"
+              >
+                <Tag className="w-4 h-4" />
+                Key Tag
+              </button>
               {/* Editable Location Status */}
               <div className="flex items-center gap-2">
                 {isEditingLocation ? (
@@ -949,6 +1138,18 @@ const VehicleDetail: React.FC = () => {
                         }
                       }}
                     />
+                    <input
+                      type="text"
+                      value={editedLocationReason}
+                      onChange={(e) => setEditedLocationReason(e.target.value)}
+                      className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm min-w-[140px]"
+                      placeholder="Reason (optional)"
+                      onKeyPress={(e) => {
+                        if (e.key === 'Enter') {
+                          handleSaveLocation();
+                        }
+                      }}
+                    />
                     <button
                       onClick={handleSaveLocation}
                       className="p-1 text-green-600 hover:bg-green-50 rounded transition-colors"
@@ -971,7 +1172,7 @@ const VehicleDetail: React.FC = () => {
                     title="Click to edit location"
                   >
                     <MapPin className="w-4 h-4" />
-                    <span>{vehicle.location || 'N/A'}</span>
+                    <span>{vehicle.location || 'N/A'}{vehicle.parkingSpot && ` · ${vehicle.parkingSpot}`}</span>
                     <Edit3 className="w-3 h-3 opacity-60" />
                   </button>
                 )}
@@ -1075,6 +1276,7 @@ const VehicleDetail: React.FC = () => {
                   </div>
                 </button>
               </div>
+              <VehicleSaleSummary vehicle={vehicle} />
             </div>
 
             {/* Vehicle Notes Section - SMALLER HEADER */}
@@ -1194,6 +1396,8 @@ const VehicleDetail: React.FC = () => {
                   activeFilter={activeFilter}
                   onGeneratePdf={() => setShowPdfModal(true)}
                   onInspectionDataChange={setInspectionData}
+                  onEdit={handleInspectionEdit}
+                  reinspectItemKeys={reinspectItemKeys}
                   onTeamNoteAdded={(note: TeamNote) => {
                     if (!vehicle) return;
                     setVehicle(prev => prev ? { ...prev, teamNotes: [note, ...(prev.teamNotes || [])] } : prev);
@@ -1212,6 +1416,107 @@ const VehicleDetail: React.FC = () => {
             )}
           </div>
 
+          {/* Mobile Inspection Template */}
+          <InspectionTemplatePicker
+            vehicle={vehicle}
+            settings={inspectionSettings}
+            canChange={isManager}
+            onChange={handleChangeTemplate}
+          />
+
+          {/* Mobile Readiness Blockers */}
+          <ReadinessBlockers
+            vehicle={vehicle}
+            blockers={vehicleProgress.blockers}
+            canOverride={isManager}
+            onOverride={() => setShowOverrideModal(true)}
+          />
+
+          {/* Mobile Work Order */}
+          {user?.dealershipId && (
+            <WorkOrderPanel
+              vehicle={vehicle}
+              dealershipId={user.dealershipId}
+              userInitials={user.initials}
+              userName={`${user.firstName} ${user.lastName}`}
+              isManager={isManager}
+              lines={workOrderLines}
+              inspectionData={inspectionData}
+              sections={vehicleSettings?.sections || []}
+              onLineChange={handleWorkOrderLineChange}
+              onReinspect={handleReinspect}
+              onCostsChanged={() => setReconCostsVersion(prev => prev + 1)}
+            />
+          )}
+
+          {/* Mobile Parts */}
+          {user?.dealershipId && (
+            <PartsPanel
+              vehicle={vehicle}
+              dealershipId={user.dealershipId}
+              userInitials={user.initials}
+              sections={vehicleSettings?.sections || []}
+              onCostsChanged={() => setReconCostsVersion(prev => prev + 1)}
+            />
+          )}
+
+          {/* Mobile Sublet Jobs */}
+          {user?.dealershipId && (
+            <SubletJobsPanel
+              vehicle={vehicle}
+              dealershipId={user.dealershipId}
+              userInitials={user.initials}
+              onVehicleUpdated={setVehicle}
+              onCostsChanged={() => setReconCostsVersion(prev => prev + 1)}
+            />
+          )}
+
+          {/* Mobile Recon Costs */}
+          {user?.dealershipId && (
+            <ReconCostLedger
+              key={reconCostsVersion}
+              vehicle={vehicle}
+              dealershipId={user.dealershipId}
+              userInitials={user.initials}
+              sections={vehicleSettings?.sections || []}
+              onBudgetUpdated={handleReconBudgetUpdated}
+            />
+          )}
+
+          {/* Mobile Recon Timeline */}
+          {user?.dealershipId && (
+            <ReconTimeline
+              vehicle={vehicle}
+              dealershipId={user.dealershipId}
+              sections={vehicleSettings?.sections || []}
+              inspectionData={inspectionData}
+              progressOptions={ProgressCalculator.getOptions(inspectionSettings)}
+            />
+          )}
+
+          {/* Mobile Inspection History */}
+          {user?.dealershipId && (
+            <InspectionHistory
+              vehicle={vehicle}
+              dealershipId={user.dealershipId}
+              sections={vehicleSettings?.sections || []}
+              inspectionData={inspectionData}
+            />
+          )}
+
+          {/* Mobile Photo Gallery */}
+          {user?.dealershipId && (
+            <PhotoGallery
+              vehicle={vehicle}
+              dealershipId={user.dealershipId}
+              sections={vehicleSettings?.sections || []}
+              onHeroChange={handleHeroPhotoChange}
+            />
+          )}
+
+          {/* Mobile Location History */}
+          <LocationTimeline vehicle={vehicle} />
+
           {/* Mobile Vehicle Information - At Bottom */}
           <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 relative">
             <div className="flex items-center justify-between mb-6">
@@ -1252,6 +1557,7 @@ const VehicleDetail: React.FC = () => {
               <div className="col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">VIN</label>
                 <p className="text-sm font-mono bg-gray-50 p-2 rounded border">{vehicle.vin}</p>
+                <VinDecodeWarnings vehicle={vehicle} />
               </div>
               
               <div>
@@ -1517,6 +1823,7 @@ const VehicleDetail: React.FC = () => {
                     </div>
                   </button>
                 </div>
+                <VehicleSaleSummary vehicle={vehicle} />
               </div>
 
               {/* Vehicle Notes Section - SMALLER HEADER */}
@@ -1594,6 +1901,107 @@ const VehicleDetail: React.FC = () => {
               </div>
             </div>
 
+            {/* Desktop Inspection Template */}
+            <InspectionTemplatePicker
+              vehicle={vehicle}
+              settings={inspectionSettings}
+              canChange={isManager}
+              onChange={handleChangeTemplate}
+            />
+
+            {/* Desktop Readiness Blockers */}
+            <ReadinessBlockers
+              vehicle={vehicle}
+              blockers={vehicleProgress.blockers}
+              canOverride={isManager}
+              onOverride={() => setShowOverrideModal(true)}
+            />
+
+            {/* Desktop Work Order */}
+            {user?.dealershipId && (
+              <WorkOrderPanel
+                vehicle={vehicle}
+                dealershipId={user.dealershipId}
+                userInitials={user.initials}
+                userName={`${user.firstName} ${user.lastName}`}
+                isManager={isManager}
+                lines={workOrderLines}
+                inspectionData={inspectionData}
+                sections={vehicleSettings?.sections || []}
+                onLineChange={handleWorkOrderLineChange}
+                onReinspect={handleReinspect}
+                onCostsChanged={() => setReconCostsVersion(prev => prev + 1)}
+              />
+            )}
+
+            {/* Desktop Parts */}
+            {user?.dealershipId && (
+              <PartsPanel
+                vehicle={vehicle}
+                dealershipId={user.dealershipId}
+                userInitials={user.initials}
+                sections={vehicleSettings?.sections || []}
+                onCostsChanged={() => setReconCostsVersion(prev => prev + 1)}
+              />
+            )}
+
+            {/* Desktop Sublet Jobs */}
+            {user?.dealershipId && (
+              <SubletJobsPanel
+                vehicle={vehicle}
+                dealershipId={user.dealershipId}
+                userInitials={user.initials}
+                onVehicleUpdated={setVehicle}
+                onCostsChanged={() => setReconCostsVersion(prev => prev + 1)}
+              />
+            )}
+
+            {/* Desktop Recon Costs */}
+            {user?.dealershipId && (
+              <ReconCostLedger
+                key={reconCostsVersion}
+                vehicle={vehicle}
+                dealershipId={user.dealershipId}
+                userInitials={user.initials}
+                sections={vehicleSettings?.sections || []}
+                onBudgetUpdated={handleReconBudgetUpdated}
+              />
+            )}
+
+            {/* Desktop Recon Timeline */}
+            {user?.dealershipId && (
+              <ReconTimeline
+                vehicle={vehicle}
+                dealershipId={user.dealershipId}
+                sections={vehicleSettings?.sections || []}
+                inspectionData={inspectionData}
+                progressOptions={ProgressCalculator.getOptions(inspectionSettings)}
+              />
+            )}
+
+            {/* Desktop Inspection History */}
+            {user?.dealershipId && (
+              <InspectionHistory
+                vehicle={vehicle}
+                dealershipId={user.dealershipId}
+                sections={vehicleSettings?.sections || []}
+                inspectionData={inspectionData}
+              />
+            )}
+
+            {/* Desktop Photo Gallery */}
+            {user?.dealershipId && (
+              <PhotoGallery
+                vehicle={vehicle}
+                dealershipId={user.dealershipId}
+                sections={vehicleSettings?.sections || []}
+                onHeroChange={handleHeroPhotoChange}
+              />
+            )}
+
+            {/* Desktop Location History */}
+            <LocationTimeline vehicle={vehicle} />
+
             {/* Desktop Vehicle Information */}
             <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6 relative">
               <div className="flex items-center justify-between mb-6">
@@ -1634,6 +2042,7 @@ const VehicleDetail: React.FC = () => {
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">VIN</label>
                   <p className="text-sm font-mono bg-gray-50 p-2 rounded border">{vehicle.vin}</p>
+                  <VinDecodeWarnings vehicle={vehicle} />
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4">
@@ -1866,6 +2275,8 @@ const VehicleDetail: React.FC = () => {
                   activeFilter={activeFilter}
                   onGeneratePdf={() => setShowPdfModal(true)}
                   onInspectionDataChange={setInspectionData}
+                  onEdit={handleInspectionEdit}
+                  reinspectItemKeys={reinspectItemKeys}
                   onTeamNoteAdded={(note: TeamNote) => {
                     if (!vehicle) return;
                     setVehicle(prev => prev ? { ...prev, teamNotes: [note, ...(prev.teamNotes || [])] } : prev);
@@ -1893,6 +2304,23 @@ const VehicleDetail: React.FC = () => {
         onClose={() => setShowPdfModal(false)}
       />
 
+      {/* Mark as Sold Modal */}
+      <MarkAsSoldModal
+        isOpen={showSoldModal}
+        onClose={() => setShowSoldModal(false)}
+        onConfirm={handleConfirmSold}
+        vehicle={vehicle}
+      />
+
+      {/* Readiness Override Modal */}
+      <ReadinessOverrideModal
+        isOpen={showOverrideModal}
+        onClose={handleCloseOverrideModal}
+        onConfirm={handleConfirmReadinessOverride}
+        vehicle={vehicle}
+        blockers={vehicleProgress.blockers}
+      />
+
       {/* Delete Confirmation Modal */}
       {showDeleteModal && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -0,0 +1,457 @@
+import React, { useState } from 'react';
+import {
+  ImportField,
+  ImportColumnMapping,
+  ImportOptions,
+  ImportPreviewRow,
+  ImportRowAction,
+  ImportSummary,
+  ParsedCsv,
+  IMPORT_FIELD_CONFIGS
+} from '../types/vehicleImport';
+import { VehicleImportManager } from '../utils/vehicleImportManager';
+import { X, Upload, FileText, ArrowLeft, ArrowRight, CheckCircle2, AlertTriangle, Download, Loader2 } from 'lucide-react';
+
+interface VehicleImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dealershipId: string;
+  locationNames: string[];
+  importedBy: { name: string; initials: string };
+  onImportComplete: () => void;
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'importing' | 'results';
+
+const ACTION_CONFIGS: Record<ImportRowAction, { label: string; color: string }> = {
+  create: { label: 'New', color: 'bg-emerald-100 text-emerald-800' },
+  update: { label: 'Update', color: 'bg-blue-100 text-blue-800' },
+  skip: { label: 'Skip', color: 'bg-gray-100 text-gray-700' },
+  error: { label: 'Error', color: 'bg-red-100 text-red-800' }
+};
+
+const getDefaultOptions = (): ImportOptions => ({
+  duplicateMode: 'skip',
+  defaultLocation: '',
+  defaultDateAcquired: new Date().toISOString().split('T')[0],
+  fillFromVin: true
+});
+
+const VehicleImportWizard: React.FC<VehicleImportWizardProps> = ({
+  isOpen,
+  onClose,
+  dealershipId,
+  locationNames,
+  importedBy,
+  onImportComplete
+}) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [options, setOptions] = useState<ImportOptions>(getDefaultOptions());
+  const [previewRows, setPreviewRows] = useState<ImportPreviewRow[]>([]);
+  const [progress, setProgress] = useState({ processed: 0, total: 0 });
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [fileError, setFileError] = useState('');
+  const [isBuildingPreview, setIsBuildingPreview] = useState(false);
+
+  const handleClose = () => {
+    if (step === 'importing') return;
+    if (summary && (summary.created > 0 || summary.updated > 0)) onImportComplete();
+    setStep('upload');
+    setFileName('');
+    setParsed(null);
+    setMapping({});
+    setOptions(getDefaultOptions());
+    setPreviewRows([]);
+    setProgress({ processed: 0, total: 0 });
+    setSummary(null);
+    setFileError('');
+    onClose();
+  };
+
+  const handleFileSelected = async (file: File) => {
+    setFileError('');
+    try {
+      const text = await file.text();
+      const result = VehicleImportManager.parseCsv(text);
+      if (result.headers.length === 0 || result.rows.length === 0) {
+        setFileError('No rows found. Make sure the file has a header row followed by vehicle rows.');
+        return;
+      }
+      setFileName(file.name);
+      setParsed(result);
+      setMapping(VehicleImportManager.autoMapColumns(result.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setFileError('Could not read this file. Please upload a CSV export.');
+    }
+  };
+
+  const handleBuildPreview = async () => {
+    if (!parsed) return;
+    setIsBuildingPreview(true);
+    try {
+      const rows = await VehicleImportManager.buildPreview(dealershipId, parsed, mapping, options);
+      setPreviewRows(rows);
+      setStep('preview');
+    } catch (error) {
+      console.error('Error building import preview:', error);
+      alert('Error building import preview. Please try again.');
+    } finally {
+      setIsBuildingPreview(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    setStep('importing');
+    const total = previewRows.filter(row => row.action === 'create' || row.action === 'update').length;
+    setProgress({ processed: 0, total });
+
+    try {
+      const result = await VehicleImportManager.commitImport(
+        dealershipId,
+        previewRows,
+        importedBy,
+        fileName,
+        (processed, totalRows) => setProgress({ processed, total: totalRows })
+      );
+      setSummary(result);
+    } catch (error) {
+      console.error('Error importing vehicles:', error);
+      alert('Import stopped because of an unexpected error. Rows already written were kept.');
+    }
+    setStep('results');
+  };
+
+  const handleDownloadReport = () => {
+    if (!summary) return;
+    const blob = new Blob([VehicleImportManager.buildErrorReportCsv(summary)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `import-report-${fileName.replace(/\.[^.]+$/, '')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!isOpen) return null;
+
+  const missingFields = VehicleImportManager.getMissingRequiredFields(mapping, options);
+  const actionCounts = previewRows.reduce((counts, row) => {
+    counts[row.action] = (counts[row.action] || 0) + 1;
+    return counts;
+  }, {} as Record<ImportRowAction, number>);
+  const writableCount = (actionCounts.create || 0) + (actionCounts.update || 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white/95 backdrop-blur-sm rounded-xl sm:rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto border border-white/20">
+        <div className="sticky top-0 bg-white/95 backdrop-blur-sm border-b border-gray-200/60 px-4 sm:px-6 py-4 rounded-t-xl sm:rounded-t-2xl z-10">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-lg flex items-center justify-center shadow-lg">
+                <Upload className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg sm:text-xl font-bold text-gray-900">Import Vehicles</h2>
+                <p className="text-sm text-gray-600">
+                  {step === 'upload' && 'Upload a CSV inventory export from your DMS or auction'}
+                  {step === 'map' && `Map the columns in ${fileName} to vehicle fields`}
+                  {step === 'preview' && 'Review the changes before anything is saved'}
+                  {step === 'importing' && 'Importing vehicles...'}
+                  {step === 'results' && 'Import complete'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={handleClose}
+              disabled={step === 'importing'}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <X className="w-4 h-4 sm:w-5 sm:h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6">
+          {/* Step 1: Upload */}
+          {step === 'upload' && (
+            <div>
+              <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-gray-300 rounded-xl p-10 cursor-pointer hover:border-blue-400 hover:bg-blue-50/40 transition-colors">
+                <FileText className="w-10 h-10 text-gray-400" />
+                <span className="text-sm font-medium text-gray-700">Choose a CSV file</span>
+                <span className="text-xs text-gray-500">Comma, tab or semicolon separated, with a header row</span>
+                <input
+                  type="file"
+                  accept=".csv,.txt,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFileSelected(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {fileError && <p className="text-red-600 text-sm mt-3">{fileError}</p>}
+            </div>
+          )}
+
+          {/* Step 2: Column mapping */}
+          {step === 'map' && parsed && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {parsed.headers.map((header, index) => (
+                  <div key={index} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg border border-gray-200">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{header || `Column ${index + 1}`}</p>
+                      <p className="text-xs text-gray-500 truncate">e.g. {parsed.rows[0]?.[index] || '—'}</p>
+                    </div>
+                    <select
+                      value={mapping[index] || ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [index]: (e.target.value || null) as ImportField | null }))}
+                      className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Ignore</option>
+                      {(Object.keys(IMPORT_FIELD_CONFIGS) as ImportField[]).map(field => (
+                        <option
+                          key={field}
+                          value={field}
+                          disabled={Object.entries(mapping).some(([i, mapped]) => mapped === field && Number(i) !== index)}
+                        >
+                          {IMPORT_FIELD_CONFIGS[field].label}{IMPORT_FIELD_CONFIGS[field].required ? ' *' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-blue-50/60 rounded-lg border border-blue-200/60">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Default Location</label>
+                  <input
+                    type="text"
+                    value={options.defaultLocation}
+                    onChange={(e) => setOptions(prev => ({ ...prev, defaultLocation: e.target.value }))}
+                    placeholder="Used when a row has no location"
+                    list="import-locations"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  />
+                  <datalist id="import-locations">
+                    {locationNames.map(name => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Default Date Acquired</label>
+                  <input
+                    type="date"
+                    value={options.defaultDateAcquired}
+                    onChange={(e) => setOptions(prev => ({ ...prev, defaultDateAcquired: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">VINs Already in Inventory</label>
+                  <select
+                    value={options.duplicateMode}
+                    onChange={(e) => setOptions(prev => ({ ...prev, duplicateMode: e.target.value as ImportOptions['duplicateMode'] }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  >
+                    <option value="skip">Skip them</option>
+                    <option value="update">Update mileage, price, location and other details</option>
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-7">
+                  <input
+                    type="checkbox"
+                    checked={options.fillFromVin}
+                    onChange={(e) => setOptions(prev => ({ ...prev, fillFromVin: e.target.checked }))}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Fill missing year, make, model and trim from the VIN
+                </label>
+              </div>
+
+              {missingFields.length > 0 && (
+                <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    Required fields not mapped: {missingFields.map(field => IMPORT_FIELD_CONFIGS[field].label).join(', ')}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Step 3: Preview */}
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {(Object.keys(ACTION_CONFIGS) as ImportRowAction[]).map(action => (
+                  <div key={action} className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-center">
+                    <p className="text-2xl font-bold text-gray-900">{actionCounts[action] || 0}</p>
+                    <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_CONFIGS[action].color}`}>
+                      {ACTION_CONFIGS[action].label}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wide">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">VIN</th>
+                      <th className="px-3 py-2">Vehicle</th>
+                      <th className="px-3 py-2">Action</th>
+                      <th className="px-3 py-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {previewRows.map(row => (
+                      <tr key={row.rowNumber} className={row.action === 'error' ? 'bg-red-50/40' : ''}>
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2 font-mono text-xs">{row.vin || '—'}</td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {[row.vehicle.year, row.vehicle.make, row.vehicle.model, row.vehicle.trim].filter(Boolean).join(' ') || '—'}
+                        </td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_CONFIGS[row.action].color}`}>
+                            {ACTION_CONFIGS[row.action].label}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-xs">
+                          {row.errors.map((error, i) => (
+                            <p key={`e-${i}`} className="text-red-700">{error}</p>
+                          ))}
+                          {row.changes?.map(change => (
+                            <p key={change.field} className="text-blue-700">
+                              {IMPORT_FIELD_CONFIGS[change.field].label}: {change.from || '(blank)'} → {change.to}
+                            </p>
+                          ))}
+                          {row.warnings.map((warning, i) => (
+                            <p key={`w-${i}`} className="text-amber-700">{warning}</p>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Step 4: Importing */}
+          {step === 'importing' && (
+            <div className="py-10 text-center">
+              <Loader2 className="w-10 h-10 text-blue-600 animate-spin mx-auto mb-4" />
+              <p className="text-sm text-gray-700 mb-3">
+                Saved {progress.processed} of {progress.total} vehicles
+              </p>
+              <div className="w-full max-w-md mx-auto bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-gradient-to-r from-blue-600 to-indigo-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${progress.total > 0 ? (progress.processed / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Step 5: Results */}
+          {step === 'results' && summary && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-3 p-4 bg-emerald-50 border border-emerald-200 rounded-lg">
+                <CheckCircle2 className="w-6 h-6 text-emerald-600" />
+                <p className="text-sm text-emerald-900">
+                  {summary.created} created, {summary.updated} updated, {summary.skipped} skipped, {summary.failed} failed
+                </p>
+              </div>
+
+              {summary.failed > 0 && (
+                <div className="border border-red-200 rounded-lg overflow-hidden">
+                  <div className="px-3 py-2 bg-red-50 text-sm font-medium text-red-800">Rows that were not imported</div>
+                  <ul className="divide-y divide-red-100 max-h-64 overflow-y-auto">
+                    {summary.results.filter(result => !result.success).map(result => (
+                      <li key={result.rowNumber} className="px-3 py-2 text-xs">
+                        <span className="font-medium text-gray-900">Row {result.rowNumber}</span>
+                        {result.vin && <span className="font-mono text-gray-500 ml-2">{result.vin}</span>}
+                        <p className="text-red-700">{result.message}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <button
+                onClick={handleDownloadReport}
+                className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+              >
+                <Download className="w-4 h-4" />
+                Download Row Report
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {step !== 'upload' && step !== 'importing' && (
+          <div className="sticky bottom-0 bg-white/95 backdrop-blur-sm border-t border-gray-200/60 px-4 sm:px-6 py-4 flex justify-between gap-3">
+            {step === 'map' && (
+              <>
+                <button
+                  onClick={() => setStep('upload')}
+                  className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  Back
+                </button>
+                <button
+                  onClick={handleBuildPreview}
+                  disabled={missingFields.length > 0 || isBuildingPreview}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 font-semibold shadow-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isBuildingPreview ? 'Checking...' : 'Preview'}
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            {step === 'preview' && (
+              <>
+                <button
+                  onClick={() => setStep('map')}
+                  className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  Back
+                </button>
+                <button
+                  onClick={handleCommit}
+                  disabled={writableCount === 0}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 font-semibold shadow-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Import {writableCount} Vehicle{writableCount === 1 ? '' : 's'}
+                </button>
+              </>
+            )}
+            {step === 'results' && (
+              <button
+                onClick={handleClose}
+                className="ml-auto px-4 py-2 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 font-semibold shadow-lg text-sm"
+              >
+                Done
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VehicleImportWizard;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Eye, Pencil } from 'lucide-react';
+import { VehiclePresence as VehiclePresenceEntry } from '../types/realtime';
+
+interface VehiclePresenceProps {
+  others: VehiclePresenceEntry[];
+}
+
+// Who else has this vehicle open, with anyone editing called out
+const VehiclePresence: React.FC<VehiclePresenceProps> = ({ others }) => {
+  if (others.length === 0) return null;
+
+  const editors = others.filter(entry => entry.activity === 'editing');
+
+  return (
+    <div className="flex items-center gap-2 mt-1">
+      <div className="flex -space-x-2">
+        {others.map(entry => (
+          <span
+            key={entry.userId}
+            title={`${entry.name} is ${entry.activity} · since ${new Date(entry.since).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`}
+            className={`w-7 h-7 rounded-full border-2 border-white flex items-center justify-center text-xs font-bold text-white ${
+              entry.activity === 'editing' ? 'bg-orange-500' : 'bg-blue-500'
+            }`}
+          >
+            {entry.initials}
+          </span>
+        ))}
+      </div>
+      <span className="flex items-center gap-1 text-xs text-gray-600">
+        {editors.length > 0 ? (
+          <>
+            <Pencil className="w-3 h-3 text-orange-500" />
+            {editors.map(entry => entry.initials).join(', ')} editing
+          </>
+        ) : (
+          <>
+            <Eye className="w-3 h-3" />
+            {others.length === 1 ? `${others[0].initials} is viewing` : `${others.length} others viewing`}
+          </>
+        )}
+      </span>
+    </div>
+  );
+};
+
+export default VehiclePresence;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Vehicle } from '../types/vehicle';
+
+interface VehicleSaleSummaryProps {
+  vehicle: Vehicle;
+}
+
+// Who sold / pended the vehicle, when, and for how much - shown under the Sold/Pending buttons
+const VehicleSaleSummary: React.FC<VehicleSaleSummaryProps> = ({ vehicle }) => {
+  if (vehicle.status === 'sold') {
+    return (
+      <div className="mt-3 p-3 bg-red-50/80 rounded-lg border border-red-200/60 text-xs text-red-800 space-y-1">
+        {vehicle.soldPrice !== undefined && (
+          <div className="flex justify-between gap-2">
+            <span className="font-medium">Sale Price</span>
+            <span className="font-bold">
+              {vehicle.soldPrice.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}
+            </span>
+          </div>
+        )}
+        {vehicle.soldTo && (
+          <div className="flex justify-between gap-2">
+            <span className="font-medium">Buyer</span>
+            <span>{vehicle.soldTo}</span>
+          </div>
+        )}
+        {(vehicle.soldBy || vehicle.soldDate) && (
+          <div className="flex justify-between gap-2">
+            <span className="font-medium">Sold</span>
+            <span>
+              {vehicle.soldDate && new Date(vehicle.soldDate + 'T00:00:00').toLocaleDateString()}
+              {vehicle.soldBy && ` by ${vehicle.soldBy}`}
+            </span>
+          </div>
+        )}
+        {vehicle.soldNotes && <p className="pt-1 border-t border-red-200/60 leading-relaxed">{vehicle.soldNotes}</p>}
+      </div>
+    );
+  }
+
+  if (vehicle.status === 'pending' && (vehicle.pendingBy || vehicle.pendingDate)) {
+    return (
+      <div className="mt-3 p-3 bg-purple-50/80 rounded-lg border border-purple-200/60 text-xs text-purple-800">
+        Pending since {vehicle.pendingDate ? new Date(vehicle.pendingDate).toLocaleDateString() : 'unknown date'}
+        {vehicle.pendingBy && ` (${vehicle.pendingBy})`}
+        {vehicle.pendingNotes && <p className="mt-1 leading-relaxed">{vehicle.pendingNotes}</p>}
+      </div>
+    );
+  }
+
+  if (!vehicle.status && vehicle.reactivatedFrom && vehicle.reactivatedDate) {
+    return (
+      <p className="mt-3 text-xs text-gray-500">
+        Returned to inventory from {vehicle.reactivatedFrom} on {new Date(vehicle.reactivatedDate).toLocaleDateString()}
+        {vehicle.reactivatedBy && ` by ${vehicle.reactivatedBy}`}
+      </p>
+    );
+  }
+
+  return null;
+};
+
+export default VehicleSaleSummary;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { Contact, ContactCategory, CONTACT_CATEGORY_CONFIGS } from '../types/contact';
+import { SubletJob, VendorRankMetric, VENDOR_RANK_METRIC_LABELS } from '../types/subletJob';
+import { SubletJobManager } from '../utils/subletJobManager';
+import { ReconCostManager } from '../utils/reconCostManager';
+import { Trophy, Star } from 'lucide-react';
+
+interface VendorScorecardsProps {
+  dealershipId: string;
+  contacts: Contact[];
+  onViewHistory: (contact: Contact) => void;
+}
+
+// Vendors in one category ranked on their sublet job history, to pick where to send the next job
+const VendorScorecards: React.FC<VendorScorecardsProps> = ({ dealershipId, contacts, onViewHistory }) => {
+  const [jobs, setJobs] = useState<SubletJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [category, setCategory] = useState<ContactCategory>('body-shop');
+  const [metric, setMetric] = useState<VendorRankMetric>('on-time');
+
+  useEffect(() => {
+    setIsLoading(true);
+    SubletJobManager.getAllJobs(dealershipId)
+      .then(setJobs)
+      .finally(() => setIsLoading(false));
+  }, [dealershipId]);
+
+  const vendors = contacts.filter(contact => contact.isActive && contact.category === category);
+  const ranked = SubletJobManager.rankScorecards(SubletJobManager.getVendorScorecards(vendors, jobs), metric);
+
+  const formatPercent = (value?: number) => (value !== undefined ? `${value}%` : '—');
+
+  return (
+    <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-xl shadow-lg border border-white/20 dark:border-gray-700/20 p-3 sm:p-6 transition-colors duration-300">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Trophy className="w-5 h-5" />
+          Vendor Scorecards
+        </h3>
+        <div className="flex gap-2">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as ContactCategory)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {(Object.keys(CONTACT_CATEGORY_CONFIGS) as ContactCategory[]).map(key => (
+              <option key={key} value={key}>{CONTACT_CATEGORY_CONFIGS[key].label}</option>
+            ))}
+          </select>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as VendorRankMetric)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {(Object.keys(VENDOR_RANK_METRIC_LABELS) as VendorRankMetric[]).map(key => (
+              <option key={key} value={key}>{VENDOR_RANK_METRIC_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading job history...</p>
+      ) : ranked.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No active {CONTACT_CATEGORY_CONFIGS[category].label.toLowerCase()} contacts.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wide border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-2">#</th>
+                <th className="py-2 pr-4">Vendor</th>
+                <th className="py-2 pr-4 text-right">Jobs</th>
+                <th className="py-2 pr-4 text-right">Per Month</th>
+                <th className="py-2 pr-4 text-right">Avg Turnaround</th>
+                <th className="py-2 pr-4 text-right">On Time</th>
+                <th className="py-2 pr-4 text-right">Comebacks</th>
+                <th className="py-2 text-right">Avg Invoice</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {ranked.map((scorecard, index) => {
+                const { summary } = scorecard;
+                const contact = vendors.find(vendor => vendor.id === scorecard.contactId);
+                return (
+                  <tr key={scorecard.contactId} className="text-gray-900 dark:text-white">
+                    <td className="py-2 pr-2 text-gray-500 dark:text-gray-400">{summary.jobCount > 0 ? index + 1 : '—'}</td>
+                    <td className="py-2 pr-4">
+                      <button
+                        onClick={() => contact && onViewHistory(contact)}
+                        className="inline-flex items-center gap-1 font-medium hover:text-blue-600 dark:hover:text-blue-400"
+                      >
+                        {scorecard.isFavorite && <Star className="w-3 h-3 text-yellow-500 fill-current" />}
+                        {scorecard.vendorName}
+                      </button>
+                    </td>
+                    <td className="py-2 pr-4 text-right">{summary.jobCount}</td>
+                    <td className="py-2 pr-4 text-right">{summary.jobCount > 0 ? summary.jobsPerMonth : '—'}</td>
+                    <td className="py-2 pr-4 text-right">
+                      {summary.averageTurnaroundDays !== undefined ? `${summary.averageTurnaroundDays} days` : '—'}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{formatPercent(summary.onTimeRate)}</td>
+                    <td className={`py-2 pr-4 text-right ${(summary.comebackRate || 0) > 0 ? 'text-orange-600 font-medium' : ''}`}>
+                      {formatPercent(summary.comebackRate)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {summary.averageInvoice !== undefined ? ReconCostManager.formatCurrency(summary.averageInvoice) : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VendorScorecards;
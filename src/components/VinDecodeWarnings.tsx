@@ -0,0 +1,36 @@
+import React, { useMemo } from 'react';
+import { Vehicle } from '../types/vehicle';
+import { VinDecoder } from '../utils/vinDecoder';
+import { AlertTriangle } from 'lucide-react';
+
+interface VinDecodeWarningsProps {
+  vehicle: Pick<Vehicle, 'vin' | 'year' | 'make' | 'model' | 'trim'>;
+}
+
+const VinDecodeWarnings: React.FC<VinDecodeWarningsProps> = ({ vehicle }) => {
+  const { vin, year, make, model, trim } = vehicle;
+  const warnings = useMemo(
+    () => VinDecoder.getMismatchWarnings({ vin, year, make, model, trim }),
+    [vin, year, make, model, trim]
+  );
+
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+      <div className="flex items-center gap-2 text-amber-800 text-sm font-medium mb-1">
+        <AlertTriangle className="w-4 h-4" />
+        VIN Decode Warnings
+      </div>
+      <ul className="space-y-1">
+        {warnings.map((warning, index) => (
+          <li key={`${warning.field}-${index}`} className="text-xs text-amber-700">
+            {warning.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default VinDecodeWarnings;
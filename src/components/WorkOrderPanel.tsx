@@ -0,0 +1,427 @@
+import React, { useState, useEffect } from 'react';
+import { Vehicle } from '../types/vehicle';
+import { Contact } from '../types/contact';
+import { InspectionRating, InspectionRecord } from '../types/inspectionRecord';
+import { InspectionSection } from '../types/inspectionSettings';
+import { RealtimeChange } from '../types/realtime';
+import { WorkOrderLine, WORK_ORDER_STAGE_CONFIGS } from '../types/workOrder';
+import { WorkOrderManager } from '../utils/workOrderManager';
+import { ReconApprovalManager } from '../utils/reconApprovalManager';
+import { ReconCostManager } from '../utils/reconCostManager';
+import { ContactManager } from '../utils/contactManager';
+import { Wrench, Plus, Edit3, Trash2, Check, X, ClipboardCheck, User, MessageSquare } from 'lucide-react';
+
+interface WorkOrderPanelProps {
+  vehicle: Vehicle;
+  dealershipId: string;
+  userInitials: string;
+  userName: string;
+  isManager: boolean;
+  lines: WorkOrderLine[];
+  inspectionData: InspectionRecord | null;
+  sections: InspectionSection[];
+  onLineChange: (change: RealtimeChange<WorkOrderLine>) => void;
+  onReinspect: (line: WorkOrderLine) => void; // Takes the user to the item on the checklist
+  onCostsChanged: () => void;
+}
+
+interface LineFormState {
+  description: string;
+  estimate: string;
+  assigneeContactId: string;
+}
+
+type LineAction = { lineId: string; kind: 'edit' | 'decline' | 'complete' | 'comment' };
+
+const RATING_NAMES: Record<InspectionRating, string> = {
+  G: 'Great',
+  F: 'Fair',
+  N: 'Needs Attention',
+  'not-checked': 'Not Checked'
+};
+
+const WorkOrderPanel: React.FC<WorkOrderPanelProps> = ({
+  vehicle,
+  dealershipId,
+  userInitials,
+  userName,
+  isManager,
+  lines,
+  inspectionData,
+  sections,
+  onLineChange,
+  onReinspect,
+  onCostsChanged
+}) => {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [action, setAction] = useState<LineAction | null>(null);
+  const [form, setForm] = useState<LineFormState>({ description: '', estimate: '', assigneeContactId: '' });
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    ContactManager.getContacts(dealershipId).then(all => setContacts(all.filter(contact => contact.isActive)));
+  }, [dealershipId]);
+
+  const summary = WorkOrderManager.getSummary(lines);
+  const uncoveredItems = WorkOrderManager.getUncoveredItems(inspectionData, lines);
+
+  const getSectionLabel = (sectionKey: string) =>
+    sections.find(section => section.key === sectionKey)?.label || sectionKey;
+
+  const saveLine = async (request: Promise<WorkOrderLine | null>, failure: string): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      const saved = await request;
+      if (!saved) {
+        alert(failure);
+        return false;
+      }
+      onLineChange({ type: 'upsert', record: saved });
+      setAction(null);
+      return true;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddFlaggedItems = async () => {
+    setIsSaving(true);
+    try {
+      const created = await WorkOrderManager.createLines(dealershipId, uncoveredItems.map(({ sectionKey, item }) => ({
+        vehicleId: vehicle.id,
+        sectionKey,
+        itemId: item.id,
+        itemLabel: item.label,
+        createdBy: userInitials
+      })));
+      if (created.length === 0) {
+        alert('Failed to add the flagged items. Please try again.');
+        return;
+      }
+      created.forEach(line => onLineChange({ type: 'upsert', record: line }));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openAction = (line: WorkOrderLine, kind: LineAction['kind']) => {
+    setAction({ lineId: line.id, kind });
+    setNotes('');
+    setForm({
+      description: line.description || '',
+      estimate: line.estimate !== undefined ? line.estimate.toString() : '',
+      assigneeContactId: line.assigneeContactId || ''
+    });
+  };
+
+  const handleSaveEdit = async (line: WorkOrderLine) => {
+    const estimate = form.estimate.trim() === '' ? undefined : parseFloat(form.estimate);
+    if (estimate !== undefined && (isNaN(estimate) || estimate < 0)) {
+      alert('Please enter a valid estimate.');
+      return;
+    }
+
+    const assignee = contacts.find(contact => contact.id === form.assigneeContactId);
+    await saveLine(
+      ReconApprovalManager.submitEstimate(dealershipId, vehicle, lines, line, {
+        description: form.description.trim(),
+        estimate,
+        assigneeContactId: assignee?.id || '',
+        assigneeName: assignee ? (assignee.company || assignee.name) : ''
+      }, userInitials),
+      'Failed to save the work order line. Please try again.'
+    );
+  };
+
+  const handleApprove = (line: WorkOrderLine) =>
+    saveLine(
+      ReconApprovalManager.decide(dealershipId, { line, vehicle }, 'approved', { initials: userInitials, name: userName }),
+      'Failed to approve the estimate. Please try again.'
+    );
+
+  const handleDecline = (line: WorkOrderLine) =>
+    saveLine(
+      ReconApprovalManager.decide(dealershipId, { line, vehicle }, 'declined', { initials: userInitials, name: userName }, notes.trim()),
+      'Failed to decline the estimate. Please try again.'
+    );
+
+  const handleComment = (line: WorkOrderLine) => {
+    if (!notes.trim()) return;
+    saveLine(
+      ReconApprovalManager.comment(dealershipId, { line, vehicle }, notes.trim(), { initials: userInitials, name: userName }),
+      'Failed to add the comment. Please try again.'
+    );
+  };
+
+  const handleComplete = async (line: WorkOrderLine) => {
+    const saved = await saveLine(
+      WorkOrderManager.completeLine(dealershipId, line, userInitials, notes.trim()),
+      'Failed to sign off the repair. Please try again.'
+    );
+    // Sign-off posts an approved estimate to the recon cost ledger
+    if (saved && line.approvalStatus === 'approved' && line.estimate !== undefined && !line.reconCostId) onCostsChanged();
+    if (saved && confirm(`"${line.itemLabel}" is signed off. Re-inspect it on the checklist now?`)) {
+      onReinspect(line);
+    }
+  };
+
+  const handleDelete = async (line: WorkOrderLine) => {
+    if (!confirm(`Remove "${line.itemLabel}" from the work order?`)) return;
+    if (await WorkOrderManager.deleteLine(dealershipId, line.id)) {
+      onLineChange({ type: 'delete', id: line.id });
+    } else {
+      alert('Failed to remove the work order line. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Wrench className="w-5 h-5" />
+          Work Order
+          {summary.openLines > 0 && <span className="text-sm font-medium text-gray-500">({summary.openLines} open)</span>}
+        </h2>
+        {uncoveredItems.length > 0 && (
+          <button
+            onClick={handleAddFlaggedItems}
+            disabled={isSaving}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 text-xs font-semibold shadow disabled:opacity-50"
+          >
+            <Plus className="w-3 h-3" />
+            Add {uncoveredItems.length} flagged {uncoveredItems.length === 1 ? 'item' : 'items'}
+          </button>
+        )}
+      </div>
+
+      {/* Totals */}
+      {lines.length > 0 && (
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          <div className="p-2 bg-yellow-50/80 border border-yellow-200/60 rounded-lg">
+            <p className="text-xs text-yellow-800">Awaiting approval ({summary.awaitingApproval})</p>
+            <p className="text-sm font-bold text-gray-900">{ReconCostManager.formatCurrency(summary.requestedTotal)}</p>
+          </div>
+          <div className="p-2 bg-emerald-50/80 border border-emerald-200/60 rounded-lg">
+            <p className="text-xs text-emerald-800">Approved</p>
+            <p className="text-sm font-bold text-gray-900">{ReconCostManager.formatCurrency(summary.approvedTotal)}</p>
+          </div>
+        </div>
+      )}
+
+      {lines.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No repairs yet. Items rated Needs Attention on the checklist are added here automatically.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {lines.map(line => {
+            const stage = WorkOrderManager.getStage(line);
+            const isActive = action?.lineId === line.id;
+            return (
+              <li key={line.id} className="py-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold border ${WORK_ORDER_STAGE_CONFIGS[stage].color}`}>
+                        {WORK_ORDER_STAGE_CONFIGS[stage].label}
+                      </span>
+                      <p className="text-sm font-medium text-gray-900 truncate">{line.itemLabel}</p>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {getSectionLabel(line.sectionKey)} • {new Date(line.createdAt).toLocaleDateString()} • {line.createdBy}
+                    </p>
+                    {line.description && <p className="text-xs text-gray-700 mt-1">{line.description}</p>}
+                    {line.assigneeName && (
+                      <p className="text-xs text-blue-700 mt-0.5 flex items-center gap-1">
+                        <User className="w-3 h-3" />
+                        {line.assigneeName}
+                      </p>
+                    )}
+                    {stage === 'awaiting-approval' && line.approvalReason && (
+                      <p className="text-xs text-yellow-800 mt-0.5">{line.approvalReason}</p>
+                    )}
+                    {line.approvalDate && (
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        {line.approvalBy
+                          ? `${line.approvalStatus === 'approved' ? 'Approved' : 'Declined'} by ${line.approvalBy}`
+                          : 'Approved automatically within the spend limits'} on {new Date(line.approvalDate).toLocaleDateString()}
+                        {line.approvalNotes && ` - ${line.approvalNotes}`}
+                      </p>
+                    )}
+                    {line.completedBy && line.completedDate && (
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        Signed off by {line.completedBy} on {new Date(line.completedDate).toLocaleDateString()}
+                        {line.completionNotes && ` - ${line.completionNotes}`}
+                      </p>
+                    )}
+                    {line.reinspectionRating && line.reinspectedAt && (
+                      <p className={`text-xs mt-0.5 font-medium ${line.reinspectionRating === 'N' ? 'text-red-600' : 'text-emerald-700'}`}>
+                        Re-inspected {RATING_NAMES[line.reinspectionRating]} by {line.reinspectedBy} on {new Date(line.reinspectedAt).toLocaleDateString()}
+                      </p>
+                    )}
+                    {(line.comments || []).map(comment => (
+                      <p key={comment.id} className="text-xs text-gray-700 mt-1 pl-2 border-l-2 border-gray-200">
+                        <span className="font-medium">{comment.userName}:</span> {comment.text}
+                      </p>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <span className="text-sm font-semibold text-gray-900">
+                      {line.estimate !== undefined ? ReconCostManager.formatCurrency(line.estimate) : '—'}
+                    </span>
+                    {!line.completedDate && (
+                      <button onClick={() => openAction(line, 'edit')} className="p-1 text-gray-400 hover:text-blue-600 rounded" title="Edit">
+                        <Edit3 className="w-3 h-3" />
+                      </button>
+                    )}
+                    {(stage === 'awaiting-approval' || stage === 'declined') && (
+                      <button onClick={() => handleDelete(line)} className="p-1 text-gray-400 hover:text-red-600 rounded" title="Remove">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Next step for the line */}
+                {!isActive && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {stage === 'awaiting-approval' && isManager && (
+                      <>
+                        <button
+                          onClick={() => handleApprove(line)}
+                          disabled={isSaving}
+                          className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                        >
+                          <Check className="w-3 h-3" />
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => openAction(line, 'decline')}
+                          className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                        >
+                          <X className="w-3 h-3" />
+                          Decline
+                        </button>
+                      </>
+                    )}
+                    {stage === 'awaiting-approval' && (
+                      <button
+                        onClick={() => openAction(line, 'comment')}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                      >
+                        <MessageSquare className="w-3 h-3" />
+                        Comment
+                      </button>
+                    )}
+                    {stage === 'in-repair' && (
+                      <button
+                        onClick={() => openAction(line, 'complete')}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+                      >
+                        <Check className="w-3 h-3" />
+                        Sign Off Repair
+                      </button>
+                    )}
+                    {stage === 'awaiting-reinspection' && (
+                      <button
+                        onClick={() => onReinspect(line)}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-orange-800 bg-orange-100 border border-orange-200 rounded-lg hover:bg-orange-200"
+                      >
+                        <ClipboardCheck className="w-3 h-3" />
+                        Re-inspect
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {isActive && action.kind === 'edit' && (
+                  <div className="mt-2 p-3 bg-blue-50/60 border border-blue-200/60 rounded-lg space-y-2">
+                    <input
+                      type="text"
+                      value={form.description}
+                      onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                      placeholder="What needs doing (e.g., Replace front pads and rotors)"
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={form.estimate}
+                        onChange={(e) => setForm(prev => ({ ...prev, estimate: e.target.value }))}
+                        placeholder="Estimate"
+                        className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+                      />
+                      <select
+                        value={form.assigneeContactId}
+                        onChange={(e) => setForm(prev => ({ ...prev, assigneeContactId: e.target.value }))}
+                        className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+                      >
+                        <option value="">Unassigned</option>
+                        {contacts.map(contact => (
+                          <option key={contact.id} value={contact.id}>
+                            {contact.company || contact.name}{contact.company ? ` (${contact.name})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {line.approvalStatus !== 'requested' && (
+                      <p className="text-xs text-gray-600">A new estimate is checked against the recon approval limits again.</p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setAction(null)}
+                        className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleSaveEdit(line)}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {isActive && action.kind !== 'edit' && (
+                  <div className="mt-2 p-3 bg-gray-50/80 border border-gray-200/60 rounded-lg space-y-2">
+                    <input
+                      type="text"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder={action.kind === 'decline' ? 'Reason (optional)' : action.kind === 'comment' ? 'Comment' : 'Work done (optional)'}
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setAction(null)}
+                        className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => (action.kind === 'decline' ? handleDecline(line) : action.kind === 'comment' ? handleComment(line) : handleComplete(line))}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {action.kind === 'decline' ? 'Decline Estimate' : action.kind === 'comment' ? 'Add Comment' : 'Sign Off'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WorkOrderPanel;
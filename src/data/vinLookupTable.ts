@@ -0,0 +1,267 @@
+import { VinLookupTable } from '../types/vinDecoder';
+
+// Bundled offline VIN lookup table. Bump the version when adding entries so
+// dealership overrides saved in localStorage can be compared against it.
+export const VIN_LOOKUP_TABLE: VinLookupTable = {
+  version: '2026.10.1',
+  updatedAt: '2026-10-19',
+  wmi: {
+    // Honda / Acura
+    '1HG': { manufacturer: 'American Honda Motor Co.', make: 'Honda', country: 'United States' },
+    '19X': { manufacturer: 'American Honda Motor Co.', make: 'Honda', country: 'United States' },
+    '5FN': { manufacturer: 'American Honda Motor Co.', make: 'Honda', country: 'United States' },
+    '5J6': { manufacturer: 'American Honda Motor Co.', make: 'Honda', country: 'United States' },
+    '2HG': { manufacturer: 'Honda of Canada Mfg.', make: 'Honda', country: 'Canada' },
+    '2HK': { manufacturer: 'Honda of Canada Mfg.', make: 'Honda', country: 'Canada' },
+    'JHM': { manufacturer: 'Honda Motor Co.', make: 'Honda', country: 'Japan' },
+    '19U': { manufacturer: 'American Honda Motor Co.', make: 'Acura', country: 'United States' },
+    '5J8': { manufacturer: 'American Honda Motor Co.', make: 'Acura', country: 'United States' },
+    'JH4': { manufacturer: 'Honda Motor Co.', make: 'Acura', country: 'Japan' },
+
+    // Toyota / Lexus
+    '4T1': { manufacturer: 'Toyota Motor Manufacturing', make: 'Toyota', country: 'United States' },
+    '4T3': { manufacturer: 'Toyota Motor Manufacturing', make: 'Toyota', country: 'United States' },
+    '5TD': { manufacturer: 'Toyota Motor Manufacturing', make: 'Toyota', country: 'United States' },
+    '5TF': { manufacturer: 'Toyota Motor Manufacturing', make: 'Toyota', country: 'United States' },
+    '5YF': { manufacturer: 'Toyota Motor Manufacturing', make: 'Toyota', country: 'United States' },
+    '2T1': { manufacturer: 'Toyota Motor Manufacturing Canada', make: 'Toyota', country: 'Canada' },
+    '2T3': { manufacturer: 'Toyota Motor Manufacturing Canada', make: 'Toyota', country: 'Canada' },
+    '3TM': { manufacturer: 'Toyota Motor Manufacturing de Baja California', make: 'Toyota', country: 'Mexico' },
+    'JTD': { manufacturer: 'Toyota Motor Corporation', make: 'Toyota', country: 'Japan' },
+    'JTE': { manufacturer: 'Toyota Motor Corporation', make: 'Toyota', country: 'Japan' },
+    'JTM': { manufacturer: 'Toyota Motor Corporation', make: 'Toyota', country: 'Japan' },
+    'JTN': { manufacturer: 'Toyota Motor Corporation', make: 'Toyota', country: 'Japan' },
+    'JTH': { manufacturer: 'Toyota Motor Corporation', make: 'Lexus', country: 'Japan' },
+    'JTJ': { manufacturer: 'Toyota Motor Corporation', make: 'Lexus', country: 'Japan' },
+    '2T2': { manufacturer: 'Toyota Motor Manufacturing Canada', make: 'Lexus', country: 'Canada' },
+    '58A': { manufacturer: 'Toyota Motor Manufacturing', make: 'Lexus', country: 'United States' },
+
+    // Ford / Lincoln
+    '1FA': { manufacturer: 'Ford Motor Company', make: 'Ford', country: 'United States' },
+    '1FM': { manufacturer: 'Ford Motor Company', make: 'Ford', country: 'United States' },
+    '1FT': { manufacturer: 'Ford Motor Company', make: 'Ford', country: 'United States' },
+    '1FD': { manufacturer: 'Ford Motor Company', make: 'Ford', country: 'United States' },
+    '2FM': { manufacturer: 'Ford Motor Company of Canada', make: 'Ford', country: 'Canada' },
+    '3FA': { manufacturer: 'Ford Motor Company de Mexico', make: 'Ford', country: 'Mexico' },
+    '3FM': { manufacturer: 'Ford Motor Company de Mexico', make: 'Ford', country: 'Mexico' },
+    '1LN': { manufacturer: 'Ford Motor Company', make: 'Lincoln', country: 'United States' },
+    '5LM': { manufacturer: 'Ford Motor Company', make: 'Lincoln', country: 'United States' },
+
+    // General Motors
+    '1G1': { manufacturer: 'General Motors', make: 'Chevrolet', country: 'United States' },
+    '1GC': { manufacturer: 'General Motors', make: 'Chevrolet', country: 'United States' },
+    '1GN': { manufacturer: 'General Motors', make: 'Chevrolet', country: 'United States' },
+    '2G1': { manufacturer: 'General Motors of Canada', make: 'Chevrolet', country: 'Canada' },
+    '2GN': { manufacturer: 'General Motors of Canada', make: 'Chevrolet', country: 'Canada' },
+    '3GC': { manufacturer: 'General Motors de Mexico', make: 'Chevrolet', country: 'Mexico' },
+    '3GN': { manufacturer: 'General Motors de Mexico', make: 'Chevrolet', country: 'Mexico' },
+    'KL7': { manufacturer: 'GM Korea', make: 'Chevrolet', country: 'South Korea' },
+    '1GT': { manufacturer: 'General Motors', make: 'GMC', country: 'United States' },
+    '1GK': { manufacturer: 'General Motors', make: 'GMC', country: 'United States' },
+    '2GK': { manufacturer: 'General Motors of Canada', make: 'GMC', country: 'Canada' },
+    '3GT': { manufacturer: 'General Motors de Mexico', make: 'GMC', country: 'Mexico' },
+    '3GK': { manufacturer: 'General Motors de Mexico', make: 'GMC', country: 'Mexico' },
+    '1G4': { manufacturer: 'General Motors', make: 'Buick', country: 'United States' },
+    '5GA': { manufacturer: 'General Motors', make: 'Buick', country: 'United States' },
+    'KL4': { manufacturer: 'GM Korea', make: 'Buick', country: 'South Korea' },
+    '1G6': { manufacturer: 'General Motors', make: 'Cadillac', country: 'United States' },
+    '1GY': { manufacturer: 'General Motors', make: 'Cadillac', country: 'United States' },
+
+    // Stellantis (FCA US) - shared WMIs resolve the make from the model table
+    '1C3': { manufacturer: 'FCA US LLC', country: 'United States' },
+    '1C4': { manufacturer: 'FCA US LLC', country: 'United States' },
+    '1C6': { manufacturer: 'FCA US LLC', make: 'Ram', country: 'United States' },
+    '2C3': { manufacturer: 'FCA Canada', country: 'Canada' },
+    '2C4': { manufacturer: 'FCA Canada', country: 'Canada' },
+    '3C4': { manufacturer: 'FCA Mexico', country: 'Mexico' },
+    '3C6': { manufacturer: 'FCA Mexico', make: 'Ram', country: 'Mexico' },
+    '1J4': { manufacturer: 'Chrysler Corporation', make: 'Jeep', country: 'United States' },
+    '1J8': { manufacturer: 'Chrysler Corporation', make: 'Jeep', country: 'United States' },
+
+    // Nissan / Infiniti
+    '1N4': { manufacturer: 'Nissan North America', make: 'Nissan', country: 'United States' },
+    '1N6': { manufacturer: 'Nissan North America', make: 'Nissan', country: 'United States' },
+    '5N1': { manufacturer: 'Nissan North America', make: 'Nissan', country: 'United States' },
+    '3N1': { manufacturer: 'Nissan Mexicana', make: 'Nissan', country: 'Mexico' },
+    '3N8': { manufacturer: 'Nissan Mexicana', make: 'Nissan', country: 'Mexico' },
+    'JN1': { manufacturer: 'Nissan Motor Co.', make: 'Nissan', country: 'Japan' },
+    'JN8': { manufacturer: 'Nissan Motor Co.', make: 'Nissan', country: 'Japan' },
+    'JNK': { manufacturer: 'Nissan Motor Co.', make: 'Infiniti', country: 'Japan' },
+    '5N3': { manufacturer: 'Nissan North America', make: 'Infiniti', country: 'United States' },
+
+    // Hyundai / Kia / Genesis
+    'KMH': { manufacturer: 'Hyundai Motor Company', make: 'Hyundai', country: 'South Korea' },
+    'KM8': { manufacturer: 'Hyundai Motor Company', make: 'Hyundai', country: 'South Korea' },
+    '5NP': { manufacturer: 'Hyundai Motor Manufacturing Alabama', make: 'Hyundai', country: 'United States' },
+    '5NM': { manufacturer: 'Hyundai Motor Manufacturing Alabama', make: 'Hyundai', country: 'United States' },
+    'KNA': { manufacturer: 'Kia Corporation', make: 'Kia', country: 'South Korea' },
+    'KND': { manufacturer: 'Kia Corporation', make: 'Kia', country: 'South Korea' },
+    '5XX': { manufacturer: 'Kia Georgia', make: 'Kia', country: 'United States' },
+    '5XY': { manufacturer: 'Kia Georgia', make: 'Kia', country: 'United States' },
+    'KMT': { manufacturer: 'Hyundai Motor Company', make: 'Genesis', country: 'South Korea' },
+
+    // Subaru / Mazda / Mitsubishi
+    'JF1': { manufacturer: 'Subaru Corporation', make: 'Subaru', country: 'Japan' },
+    'JF2': { manufacturer: 'Subaru Corporation', make: 'Subaru', country: 'Japan' },
+    '4S3': { manufacturer: 'Subaru of Indiana Automotive', make: 'Subaru', country: 'United States' },
+    '4S4': { manufacturer: 'Subaru of Indiana Automotive', make: 'Subaru', country: 'United States' },
+    'JM1': { manufacturer: 'Mazda Motor Corporation', make: 'Mazda', country: 'Japan' },
+    'JM3': { manufacturer: 'Mazda Motor Corporation', make: 'Mazda', country: 'Japan' },
+    '3MZ': { manufacturer: 'Mazda de Mexico', make: 'Mazda', country: 'Mexico' },
+    'JA3': { manufacturer: 'Mitsubishi Motors', make: 'Mitsubishi', country: 'Japan' },
+    'JA4': { manufacturer: 'Mitsubishi Motors', make: 'Mitsubishi', country: 'Japan' },
+
+    // European
+    'WVW': { manufacturer: 'Volkswagen AG', make: 'Volkswagen', country: 'Germany' },
+    'WVG': { manufacturer: 'Volkswagen AG', make: 'Volkswagen', country: 'Germany' },
+    '1VW': { manufacturer: 'Volkswagen of America', make: 'Volkswagen', country: 'United States' },
+    '3VW': { manufacturer: 'Volkswagen de Mexico', make: 'Volkswagen', country: 'Mexico' },
+    'WAU': { manufacturer: 'Audi AG', make: 'Audi', country: 'Germany' },
+    'WA1': { manufacturer: 'Audi AG', make: 'Audi', country: 'Germany' },
+    'WBA': { manufacturer: 'BMW AG', make: 'BMW', country: 'Germany' },
+    'WBS': { manufacturer: 'BMW M GmbH', make: 'BMW', country: 'Germany' },
+    '5UX': { manufacturer: 'BMW Manufacturing Co.', make: 'BMW', country: 'United States' },
+    'WMW': { manufacturer: 'BMW AG', make: 'MINI', country: 'United Kingdom' },
+    'WDD': { manufacturer: 'Mercedes-Benz AG', make: 'Mercedes-Benz', country: 'Germany' },
+    'WDC': { manufacturer: 'Mercedes-Benz AG', make: 'Mercedes-Benz', country: 'Germany' },
+    'W1K': { manufacturer: 'Mercedes-Benz AG', make: 'Mercedes-Benz', country: 'Germany' },
+    'W1N': { manufacturer: 'Mercedes-Benz AG', make: 'Mercedes-Benz', country: 'Germany' },
+    '4JG': { manufacturer: 'Mercedes-Benz U.S. International', make: 'Mercedes-Benz', country: 'United States' },
+    '55S': { manufacturer: 'Mercedes-Benz U.S. International', make: 'Mercedes-Benz', country: 'United States' },
+    'WP0': { manufacturer: 'Porsche AG', make: 'Porsche', country: 'Germany' },
+    'WP1': { manufacturer: 'Porsche AG', make: 'Porsche', country: 'Germany' },
+    'YV1': { manufacturer: 'Volvo Car Corporation', make: 'Volvo', country: 'Sweden' },
+    'YV4': { manufacturer: 'Volvo Car Corporation', make: 'Volvo', country: 'Sweden' },
+    'SAL': { manufacturer: 'Jaguar Land Rover', make: 'Land Rover', country: 'United Kingdom' },
+    'SAJ': { manufacturer: 'Jaguar Land Rover', make: 'Jaguar', country: 'United Kingdom' },
+
+    // EV manufacturers
+    '5YJ': { manufacturer: 'Tesla, Inc.', make: 'Tesla', country: 'United States' },
+    '7SA': { manufacturer: 'Tesla, Inc.', make: 'Tesla', country: 'United States' },
+    '7FC': { manufacturer: 'Rivian Automotive', make: 'Rivian', country: 'United States' }
+  },
+  plants: {
+    Honda: {
+      A: 'Marysville, OH',
+      B: 'Lincoln, AL',
+      E: 'Greensburg, IN',
+      H: 'Alliston, ON',
+      L: 'East Liberty, OH',
+      S: 'Suzuka, Japan'
+    },
+    Acura: {
+      A: 'Marysville, OH',
+      B: 'Lincoln, AL',
+      L: 'East Liberty, OH'
+    },
+    Toyota: {
+      C: 'Cambridge, ON',
+      S: 'Princeton, IN',
+      U: 'Georgetown, KY',
+      X: 'Tijuana, Mexico',
+      Z: 'Long Beach, CA'
+    },
+    Ford: {
+      F: 'Dearborn, MI',
+      K: 'Kansas City, MO',
+      L: 'Wayne, MI',
+      R: 'Hermosillo, Mexico',
+      U: 'Louisville, KY'
+    },
+    Chevrolet: {
+      F: 'Flint, MI',
+      G: 'Silao, Mexico',
+      Z: 'Fort Wayne, IN'
+    },
+    GMC: {
+      F: 'Flint, MI',
+      G: 'Silao, Mexico',
+      Z: 'Fort Wayne, IN'
+    },
+    Tesla: {
+      A: 'Austin, TX',
+      F: 'Fremont, CA'
+    }
+  },
+  models: [
+    // Honda
+    { make: 'Honda', vdsPattern: 'CV1F*', model: 'Accord', bodyStyle: 'Sedan', years: [2018, 2022] },
+    { make: 'Honda', vdsPattern: 'CV1F1', model: 'Accord', trim: 'LX', bodyStyle: 'Sedan', years: [2018, 2022] },
+    { make: 'Honda', vdsPattern: 'CV1F3', model: 'Accord', trim: 'Sport', bodyStyle: 'Sedan', years: [2018, 2022] },
+    { make: 'Honda', vdsPattern: 'FC2F*', model: 'Civic', bodyStyle: 'Sedan', years: [2016, 2021] },
+    { make: 'Honda', vdsPattern: 'FC1F*', model: 'Civic', bodyStyle: 'Sedan', years: [2016, 2021] },
+    { make: 'Honda', vdsPattern: 'FE2F*', model: 'Civic', bodyStyle: 'Sedan', years: [2022, 2026] },
+    { make: 'Honda', vdsPattern: 'RW1H*', model: 'CR-V', bodyStyle: 'SUV', years: [2017, 2022] },
+    { make: 'Honda', vdsPattern: 'RW2H*', model: 'CR-V', bodyStyle: 'SUV', years: [2017, 2022] },
+    { make: 'Honda', vdsPattern: 'YF6H*', model: 'Pilot', bodyStyle: 'SUV', years: [2016, 2022] },
+    { make: 'Honda', vdsPattern: 'RL6H*', model: 'Odyssey', bodyStyle: 'Minivan', years: [2018, 2024] },
+
+    // Toyota
+    { make: 'Toyota', vdsPattern: 'B11HK', model: 'Camry', trim: 'LE', bodyStyle: 'Sedan', years: [2018, 2024] },
+    { make: 'Toyota', vdsPattern: 'G11AK', model: 'Camry', trim: 'SE', bodyStyle: 'Sedan', years: [2018, 2024] },
+    { make: 'Toyota', vdsPattern: 'BURHE', model: 'Corolla', bodyStyle: 'Sedan', years: [2014, 2019] },
+    { make: 'Toyota', vdsPattern: 'EPRAE', model: 'Corolla', trim: 'LE', bodyStyle: 'Sedan', years: [2020, 2026] },
+    { make: 'Toyota', vdsPattern: '*FREV', model: 'RAV4', bodyStyle: 'SUV', years: [2013, 2018] },
+    { make: 'Toyota', vdsPattern: '**RFV', model: 'RAV4', bodyStyle: 'SUV', years: [2019, 2026] },
+    { make: 'Toyota', vdsPattern: 'CZ5AN', model: 'Tacoma', bodyStyle: 'Pickup', years: [2016, 2023] },
+
+    // Ford
+    { make: 'Ford', vdsPattern: 'EW1E*', model: 'F-150', bodyStyle: 'Pickup', years: [2009, 2014] },
+    { make: 'Ford', vdsPattern: 'FW1E*', model: 'F-150', bodyStyle: 'Pickup', years: [2015, 2026] },
+    { make: 'Ford', vdsPattern: 'EW1C*', model: 'F-150', bodyStyle: 'Pickup', years: [2009, 2026] },
+    { make: 'Ford', vdsPattern: 'CU0G*', model: 'Escape', bodyStyle: 'SUV', years: [2013, 2019] },
+    { make: 'Ford', vdsPattern: 'CU9G*', model: 'Escape', bodyStyle: 'SUV', years: [2013, 2019] },
+    { make: 'Ford', vdsPattern: '5K8D*', model: 'Explorer', trim: 'XLT', bodyStyle: 'SUV', years: [2016, 2019] },
+    { make: 'Ford', vdsPattern: '6P8TH', model: 'Mustang', trim: 'EcoBoost', bodyStyle: 'Coupe', years: [2015, 2023] },
+    { make: 'Ford', vdsPattern: '6P8CF', model: 'Mustang', trim: 'GT', bodyStyle: 'Coupe', years: [2015, 2023] },
+
+    // Chevrolet
+    { make: 'Chevrolet', vdsPattern: 'UY***', model: 'Silverado 1500', bodyStyle: 'Pickup', years: [2019, 2026] },
+    { make: 'Chevrolet', vdsPattern: 'UYDE*', model: 'Silverado 1500', trim: 'LT', bodyStyle: 'Pickup', years: [2019, 2026] },
+    { make: 'Chevrolet', vdsPattern: 'AX***', model: 'Equinox', bodyStyle: 'SUV', years: [2018, 2024] },
+    { make: 'Chevrolet', vdsPattern: 'ZD5ST', model: 'Malibu', trim: 'LT', bodyStyle: 'Sedan', years: [2016, 2024] },
+    { make: 'Chevrolet', vdsPattern: 'ZB5ST', model: 'Malibu', trim: 'LS', bodyStyle: 'Sedan', years: [2016, 2024] },
+
+    // Stellantis
+    { make: 'Jeep', wmi: ['1C4'], vdsPattern: 'HJX**', model: 'Wrangler Unlimited', bodyStyle: 'SUV', years: [2018, 2026] },
+    { make: 'Jeep', wmi: ['1C4'], vdsPattern: 'HJXDG', model: 'Wrangler Unlimited', trim: 'Sport', bodyStyle: 'SUV', years: [2018, 2026] },
+    { make: 'Jeep', wmi: ['1C4'], vdsPattern: 'GJX**', model: 'Wrangler', bodyStyle: 'SUV', years: [2018, 2026] },
+    { make: 'Jeep', wmi: ['1C4'], vdsPattern: 'RJF**', model: 'Grand Cherokee', bodyStyle: 'SUV', years: [2014, 2022] },
+    { make: 'Jeep', wmi: ['3C4'], vdsPattern: 'NJD**', model: 'Compass', bodyStyle: 'SUV', years: [2017, 2026] },
+    { make: 'Ram', wmi: ['1C6', '3C6'], vdsPattern: 'SRF**', model: '1500', bodyStyle: 'Pickup', years: [2019, 2026] },
+    { make: 'Dodge', wmi: ['2C3'], vdsPattern: 'CDX**', model: 'Charger', bodyStyle: 'Sedan', years: [2011, 2023] },
+    { make: 'Dodge', wmi: ['2C3'], vdsPattern: 'CDZ**', model: 'Challenger', bodyStyle: 'Coupe', years: [2011, 2023] },
+    { make: 'Chrysler', wmi: ['2C4'], vdsPattern: 'RC1**', model: 'Pacifica', bodyStyle: 'Minivan', years: [2017, 2026] },
+
+    // Nissan
+    { make: 'Nissan', vdsPattern: 'BL4**', model: 'Altima', bodyStyle: 'Sedan', years: [2019, 2026] },
+    { make: 'Nissan', vdsPattern: 'BL4BV', model: 'Altima', trim: '2.5 S', bodyStyle: 'Sedan', years: [2019, 2026] },
+    { make: 'Nissan', vdsPattern: 'BL4CV', model: 'Altima', trim: '2.5 SV', bodyStyle: 'Sedan', years: [2019, 2026] },
+    { make: 'Nissan', vdsPattern: 'AT2MV', model: 'Rogue', bodyStyle: 'SUV', years: [2014, 2020] },
+
+    // Hyundai / Subaru / Volkswagen
+    { make: 'Hyundai', vdsPattern: 'D8***', model: 'Elantra', bodyStyle: 'Sedan', years: [2017, 2020] },
+    { make: 'Hyundai', vdsPattern: 'J3CA*', model: 'Tucson', bodyStyle: 'SUV', years: [2016, 2021] },
+    { make: 'Subaru', vdsPattern: 'BS***', model: 'Outback', bodyStyle: 'Wagon', years: [2015, 2019] },
+    { make: 'Subaru', vdsPattern: 'BT***', model: 'Outback', bodyStyle: 'Wagon', years: [2020, 2026] },
+    { make: 'Subaru', vdsPattern: 'SK***', model: 'Forester', bodyStyle: 'SUV', years: [2019, 2024] },
+    { make: 'Volkswagen', wmi: ['3VW'], vdsPattern: '***BU', model: 'Jetta', bodyStyle: 'Sedan', years: [2019, 2026] },
+
+    // Tesla - position 4 is the model line
+    { make: 'Tesla', vdsPattern: '3****', model: 'Model 3', bodyStyle: 'Sedan' },
+    { make: 'Tesla', vdsPattern: 'S****', model: 'Model S', bodyStyle: 'Sedan' },
+    { make: 'Tesla', vdsPattern: 'X****', model: 'Model X', bodyStyle: 'SUV' },
+    { make: 'Tesla', vdsPattern: 'Y****', model: 'Model Y', bodyStyle: 'SUV' }
+  ],
+  makeAliases: {
+    'chevy': 'Chevrolet',
+    'vw': 'Volkswagen',
+    'mercedes': 'Mercedes-Benz',
+    'mercedes benz': 'Mercedes-Benz',
+    'benz': 'Mercedes-Benz',
+    'land-rover': 'Land Rover',
+    'landrover': 'Land Rover',
+    'mini': 'MINI',
+    'dodge ram': 'Ram'
+  }
+};
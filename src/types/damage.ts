@@ -0,0 +1,43 @@
+export type DamageType = 'dent' | 'scratch' | 'chip' | 'crack';
+
+export type DamageSeverity = 'minor' | 'moderate' | 'severe';
+
+// Which silhouette a pin was dropped on. Left is the driver's side
+export type DamageDiagramView = 'top' | 'left' | 'right';
+
+// One marked spot on the damage diagram, stored with the vehicle's inspection
+export interface DamagePin {
+  id: string;
+  view: DamageDiagramView;
+  x: number; // Percent of the silhouette's width, 0-100
+  y: number; // Percent of the silhouette's height, 0-100
+  type: DamageType;
+  severity: DamageSeverity;
+  estimatedCost?: number; // Estimated repair cost in dollars
+  notes?: string;
+  photoPaths: string[]; // Paths in the reconpro-vehicles storage bucket
+  createdBy: string; // user initials
+  createdAt: string;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export const DAMAGE_TYPE_CONFIGS: Record<DamageType, { label: string; icon: string }> = {
+  dent: { label: 'Dent', icon: '🔨' },
+  scratch: { label: 'Scratch', icon: '〰️' },
+  chip: { label: 'Chip', icon: '🔹' },
+  crack: { label: 'Crack', icon: '⚡' }
+} as const;
+
+// hex is used on the diagram, where Tailwind classes don't reach the SVG or the PDF
+export const DAMAGE_SEVERITY_CONFIGS: Record<DamageSeverity, { label: string; color: string; hex: string }> = {
+  minor: { label: 'Minor', color: 'bg-yellow-100 text-yellow-800 border-yellow-200', hex: '#eab308' },
+  moderate: { label: 'Moderate', color: 'bg-orange-100 text-orange-800 border-orange-200', hex: '#f97316' },
+  severe: { label: 'Severe', color: 'bg-red-100 text-red-800 border-red-200', hex: '#dc2626' }
+} as const;
+
+export const DAMAGE_DIAGRAM_VIEW_LABELS: Record<DamageDiagramView, string> = {
+  top: 'Top',
+  left: 'Driver Side',
+  right: 'Passenger Side'
+} as const;
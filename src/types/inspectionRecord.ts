@@ -0,0 +1,76 @@
+import { InspectionStatus } from './vehicle';
+import { DamagePin } from './damage';
+
+// G = Great, F = Fair, N = Needs Attention (matching the rating buttons on the checklist)
+export type InspectionRating = 'G' | 'F' | 'N' | 'not-checked';
+
+export const INSPECTION_RATINGS: InspectionRating[] = ['G', 'F', 'N', 'not-checked'];
+
+/**
+ * Version 1 was the original unversioned blob: section arrays stored at the top level
+ * next to customSections / sectionNotes. Version 2 nests them under `sections`.
+ */
+export const INSPECTION_RECORD_VERSION = 2;
+
+/**
+ * What was entered for a typed item: one number per reading (null until taken) for
+ * measurements, the choice label or free text, or true/false for pass/fail.
+ */
+export type InspectionItemValue = (number | null)[] | string | boolean;
+
+// One rated checklist item. id and label come from the InspectionItem in the dealership's settings
+export interface InspectionItemRecord {
+  id: string;
+  label: string;
+  rating: InspectionRating; // Derived from value for typed items
+  value?: InspectionItemValue;
+  updatedBy?: string; // user initials
+  updatedAt?: string;
+}
+
+// A vehicle's inspection as stored in vehicles.inspection_data and inspection_checklists.checklist_data
+export interface InspectionRecord {
+  schemaVersion: number;
+  sections: Record<string, InspectionItemRecord[]>; // Keyed by InspectionSection.key, including custom sections
+  sectionNotes: Record<string, string>;
+  damage?: DamagePin[]; // Pins on the damage diagram, oldest first
+  updatedAt?: string;
+}
+
+// One section of a vehicle's inspection measured against the live InspectionSettings
+export interface SectionProgress {
+  sectionKey: string;
+  label: string;
+  status: InspectionStatus;
+  totalItems: number; // Active items in the section
+  ratedItems: number;
+  requiredItems: number;
+  ratedRequiredItems: number;
+  ratingCounts: Record<Exclude<InspectionRating, 'not-checked'>, number>;
+}
+
+// ready = every section green and nothing blocking, issues = any section needs attention, working = everything else
+export type VehicleReadiness = 'ready' | 'working' | 'issues';
+
+// An item that has to be dealt with before the vehicle can be frontlined
+export interface ReadinessBlocker {
+  sectionKey: string;
+  sectionLabel: string;
+  itemId: string;
+  itemLabel: string;
+  reason: 'not-rated' | 'fair' | 'needs-attention';
+}
+
+export interface ProgressOptions {
+  allowSkipItems?: boolean; // globalSettings.allowSkipItems - when false every active item must be rated, not just required ones
+}
+
+export interface VehicleProgress {
+  sections: SectionProgress[]; // Active sections that have at least one active item, in display order
+  statuses: Record<string, InspectionStatus>; // Keyed by section key
+  inspectedSections: number; // Sections past 'not-started'
+  totalSections: number;
+  percent: number;
+  readiness: VehicleReadiness;
+  blockers: ReadinessBlocker[];
+}
@@ -1,3 +1,33 @@
+import { InspectionRating } from './inspectionRecord';
+
+// How an item is answered on the checklist. Items saved before types were added are 'rating'
+export type InspectionItemType = 'rating' | 'numeric' | 'multiple-choice' | 'text' | 'pass-fail';
+
+export const INSPECTION_ITEM_TYPE_LABELS: Record<InspectionItemType, string> = {
+  rating: 'Great / Fair / Needs Attention',
+  numeric: 'Measurement',
+  'multiple-choice': 'Multiple choice',
+  text: 'Text',
+  'pass-fail': 'Pass / Fail'
+};
+
+/**
+ * A numeric reading rated against two thresholds. Items with several readings
+ * (one per tire, one per panel) are rated on the worst of them.
+ */
+export interface InspectionMeasurement {
+  unit: string; // e.g. '/32"', 'mm', 'CCA', 'mils'
+  readingLabels?: string[]; // e.g. ['LF', 'RF', 'LR', 'RR']; a single reading when empty
+  higherIsBetter: boolean;
+  greatAt: number; // Great at this value or better
+  fairAt: number; // Fair at this value or better, Needs Attention past it
+}
+
+export interface InspectionChoice {
+  label: string;
+  rating: Exclude<InspectionRating, 'not-checked'>;
+}
+
 export interface InspectionItem {
   id: string;
   label: string;
@@ -5,10 +35,37 @@ export interface InspectionItem {
   isRequired: boolean;
   order: number;
   isActive: boolean;
+  type?: InspectionItemType;
+  measurement?: InspectionMeasurement; // numeric items
+  choices?: InspectionChoice[]; // multiple-choice items
   createdAt: string;
   updatedAt: string;
 }
 
+// Starting points for the measurement editor in settings
+export const MEASUREMENT_PRESETS: { key: string; label: string; measurement: InspectionMeasurement }[] = [
+  {
+    key: 'tire-tread',
+    label: 'Tire tread depth',
+    measurement: { unit: '/32"', readingLabels: ['LF', 'RF', 'LR', 'RR'], higherIsBetter: true, greatAt: 6, fairAt: 4 }
+  },
+  {
+    key: 'brake-pads',
+    label: 'Brake pad thickness',
+    measurement: { unit: 'mm', readingLabels: ['LF', 'RF', 'LR', 'RR'], higherIsBetter: true, greatAt: 6, fairAt: 3 }
+  },
+  {
+    key: 'battery-cca',
+    label: 'Battery cold cranking amps',
+    measurement: { unit: 'CCA', higherIsBetter: true, greatAt: 500, fairAt: 400 }
+  },
+  {
+    key: 'paint-meter',
+    label: 'Paint meter',
+    measurement: { unit: 'mils', readingLabels: ['Hood', 'Roof', 'Trunk', 'Left Side', 'Right Side'], higherIsBetter: false, greatAt: 7, fairAt: 10 }
+  }
+];
+
 export interface InspectionSection {
   id: string;
   key: string; // emissions, cosmetic, mechanical, cleaning, photos
@@ -18,6 +75,7 @@ export interface InspectionSection {
   color: string; // CSS classes for styling
   isActive: boolean;
   isCustomerVisible: boolean; // NEW: Controls if section appears in customer PDF
+  hasDamageDiagram?: boolean; // Show the damage diagram under the items. Unset means only cosmetic shows it
   order: number;
   items: InspectionItem[];
   createdAt: string;
@@ -32,10 +90,47 @@ export interface RatingLabel {
   icon?: string;
 }
 
+// Every criterion that is set has to match. A rule with nothing set never auto-selects its template
+export interface InspectionTemplateRule {
+  makes?: string[]; // Case-insensitive
+  minYear?: number;
+  maxYear?: number;
+  minMileage?: number;
+  maxMileage?: number;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+// A named checklist built from the dealership's sections, e.g. "Wholesale quick check"
+export interface InspectionTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  sectionKeys: string[]; // Sections from InspectionSettings.sections included in this template
+  itemIds?: Record<string, string[]>; // Per-section subset of items; a section without an entry gets all its active items
+  rules: InspectionTemplateRule;
+  isDefault: boolean; // Used when no template's rules match the vehicle
+  isActive: boolean;
+  order: number; // Rules are checked in this order and the first match wins
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The checklist a vehicle is inspected against, copied onto the vehicle so later settings edits don't change it
+export interface InspectionTemplateSnapshot {
+  templateId: string | null; // null = the dealership's full checklist
+  templateName: string;
+  selectedBy: 'rule' | 'default' | 'manual';
+  sections: InspectionSection[];
+  snapshotAt: string;
+  snapshotBy?: string; // user initials
+}
+
 export interface InspectionSettings {
   id: string;
   dealershipId: string;
   sections: InspectionSection[];
+  templates?: InspectionTemplate[];
   ratingLabels: RatingLabel[];
   globalSettings: {
     requireUserInitials: boolean;
@@ -112,6 +207,7 @@ export const DEFAULT_INSPECTION_SETTINGS: Omit<InspectionSettings, 'id' | 'deale
       color: 'bg-purple-100 text-purple-800 border-purple-200',
       isActive: true,
       isCustomerVisible: true,
+      hasDamageDiagram: true,
       order: 2,
       items: [
         {
@@ -364,6 +460,7 @@ export const DEFAULT_INSPECTION_SETTINGS: Omit<InspectionSettings, 'id' | 'deale
       updatedAt: new Date().toISOString()
     }
   ],
+  templates: [],
   ratingLabels: [
     {
       key: 'great',
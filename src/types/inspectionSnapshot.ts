@@ -0,0 +1,60 @@
+import { InspectionSection } from './inspectionSettings';
+import { InspectionRating, InspectionRecord } from './inspectionRecord';
+
+export type InspectionSnapshotKind = 'intake' | 'post-repair' | 'pre-delivery' | 'other';
+
+// A frozen copy of a vehicle's inspection. Rows are insert-only so a snapshot always shows what was recorded at the time
+export interface InspectionSnapshot {
+  id: string;
+  vehicleId: string;
+  kind: InspectionSnapshotKind;
+  label?: string; // Optional name, mainly for 'other'
+  record: InspectionRecord;
+  sections: InspectionSection[]; // The checklist the vehicle was inspected against, so items keep their labels and thresholds
+  createdBy: string; // user initials
+  createdAt: string;
+}
+
+// One side of a comparison: a saved snapshot or the vehicle's live inspection
+export interface InspectionState {
+  record: InspectionRecord | null | undefined;
+  sections: InspectionSection[];
+}
+
+// One item whose rating or recorded value differs between two inspections
+export interface InspectionItemChange {
+  sectionKey: string;
+  sectionLabel: string;
+  itemId: string;
+  itemLabel: string;
+  fromRating: InspectionRating;
+  toRating: InspectionRating;
+  fromValue?: string; // Formatted measured value, for typed items
+  toValue?: string;
+  direction: 'improved' | 'worse' | 'changed';
+  changedBy?: string; // Who last set the item on the newer side
+  changedAt?: string;
+}
+
+export const INSPECTION_SNAPSHOT_KIND_CONFIGS = {
+  intake: {
+    label: 'Initial Intake',
+    color: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-700',
+    icon: '📥'
+  },
+  'post-repair': {
+    label: 'Post-Repair',
+    color: 'bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-900/30 dark:text-purple-300 dark:border-purple-700',
+    icon: '🔧'
+  },
+  'pre-delivery': {
+    label: 'Pre-Delivery',
+    color: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-700',
+    icon: '🚗'
+  },
+  other: {
+    label: 'Other',
+    color: 'bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-900/30 dark:text-gray-300 dark:border-gray-700',
+    icon: '📋'
+  }
+} as const;
@@ -5,10 +5,17 @@ export interface Location {
   description?: string;
   isActive: boolean;
   capacity?: number;
+  layout?: LotLayout;
   createdAt: string;
   updatedAt: string;
 }
 
+// Grid of parking spots for a location. Spots are labelled by row letter and number, e.g. "B7"
+export interface LotLayout {
+  rows: number;
+  spotsPerRow: number;
+}
+
 export type LocationType = 
   | 'on-site'
   | 'off-site'
@@ -28,6 +35,47 @@ export interface LocationSettings {
   requireLocationForVehicles: boolean;
   autoAssignLocation: boolean;
   locationCapacityTracking: boolean;
+  capacityEnforcement: CapacityEnforcement; // Only applies while capacity tracking is on
+}
+
+// What happens when a vehicle is moved into a location that is already full
+export type CapacityEnforcement = 'warn' | 'block';
+
+export const DEFAULT_LOCATION_SETTINGS: LocationSettings = {
+  defaultLocationType: 'on-site',
+  allowCustomLocations: true,
+  requireLocationForVehicles: true,
+  autoAssignLocation: false,
+  locationCapacityTracking: true,
+  capacityEnforcement: 'warn'
+};
+
+export interface LocationCapacityCheck {
+  location: string;
+  capacity?: number;
+  currentCount: number; // Active vehicles there before the move
+  isOverCapacity: boolean; // The move would take the location past its capacity
+  allowed: boolean; // False only when enforcement is 'block'
+  message?: string;
+}
+
+// One continuous period a vehicle spent at a location, derived from its location history
+export interface LocationStay {
+  vehicleId: string;
+  location: string;
+  enteredAt: string;
+  leftAt?: string; // Unset while the vehicle is still there
+  dwellDays: number;
+  movedInBy?: string;
+  reason?: string;
+}
+
+export interface LocationDwellStats {
+  location: string;
+  stays: LocationStay[];
+  vehicleCount: number; // Distinct vehicles that have been here, including current ones
+  currentCount: number;
+  averageDwellDays?: number; // Completed stays only, unset until a vehicle has moved on
 }
 
 export interface LocationColorSettings {
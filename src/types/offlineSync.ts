@@ -0,0 +1,52 @@
+import { InspectionItemRecord, InspectionRecord } from './inspectionRecord';
+import { DamagePin } from './damage';
+import { VehiclePhotoDetails } from './vehiclePhoto';
+
+/**
+ * A checklist edit kept on the device until it reaches Supabase. There is one per item,
+ * section note or damage pin: editing the same thing again replaces the queued edit but keeps its base.
+ */
+export interface PendingInspectionChange {
+  id: string; // `${vehicleId}:${sectionKey}:${itemId}`, `${vehicleId}:${sectionKey}:notes` for the section note, `${vehicleId}:damage:${pinId}` for a pin
+  vehicleId: string;
+  sectionKey: string; // 'damage' for pins
+  kind: 'item' | 'note' | 'damage';
+  item?: InspectionItemRecord; // The item as edited on this device
+  note?: string;
+  pin?: DamagePin; // The pin as edited on this device
+  removed?: boolean; // The pin was deleted
+  baseUpdatedAt?: string; // updatedAt of the item or pin the edit was made on top of
+  baseNote?: string; // The section note the edit was made on top of
+  userInitials: string;
+  queuedAt: string;
+}
+
+// A photo taken while offline, uploaded to storage on the next sync
+export interface PendingPhotoUpload {
+  id: string;
+  vehicleId: string;
+  sectionKey: string;
+  itemId: string;
+  path: string; // Storage path it will be uploaded to
+  name: string;
+  file: Blob;
+  thumbnail?: Blob;
+  dealershipId?: string; // With details, recorded in vehicle_photos once uploaded
+  details?: VehiclePhotoDetails;
+  queuedAt: string;
+}
+
+// Someone else saved the same item, note or pin after this device's edit was made
+export interface InspectionSyncConflict {
+  id: string; // Same as the change's id
+  change: PendingInspectionChange;
+  serverItem?: InspectionItemRecord;
+  serverNote?: string;
+  serverPin?: DamagePin; // Missing when the pin was deleted on the server
+  detectedAt: string;
+}
+
+export interface InspectionSyncResult {
+  record: InspectionRecord | null; // The server's record with the synced edits applied, or null when nothing was queued
+  newConflicts: InspectionSyncConflict[];
+}
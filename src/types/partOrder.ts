@@ -0,0 +1,34 @@
+// Where a part is: still to be ordered, on order, past its ETA, or in hand
+export type PartOrderStatus = 'needed' | 'ordered' | 'late' | 'received';
+
+// A part ordered for a vehicle, usually for an item flagged on its inspection
+export interface PartOrder {
+  id: string;
+  vehicleId: string;
+  vehicleName: string; // e.g. "2021 Ford F-150", denormalised for the linked todo
+  partNumber?: string;
+  description: string;
+  supplierId?: string; // Contact id
+  supplierName?: string; // Denormalised so the order still reads correctly if the contact is deleted
+  cost?: number;
+  orderedDate?: string; // ISO date string (YYYY-MM-DD)
+  etaDate?: string; // ISO date string (YYYY-MM-DD)
+  receivedDate?: string; // ISO date string (YYYY-MM-DD)
+  inspectionSectionKey?: string;
+  inspectionItemId?: string;
+  inspectionItemLabel?: string;
+  todoId?: string; // The 'parts-order' todo that tracks getting the part, closed on receipt
+  reconCostId?: string; // The recon cost the part was posted as on receipt
+  notes?: string;
+  createdBy: string; // user initials
+  receivedBy?: string; // user initials
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const PART_ORDER_STATUS_CONFIGS: Record<PartOrderStatus, { label: string; color: string }> = {
+  needed: { label: 'To Order', color: 'bg-gray-100 text-gray-800 border-gray-200' },
+  ordered: { label: 'On Order', color: 'bg-blue-100 text-blue-800 border-blue-200' },
+  late: { label: 'Late', color: 'bg-red-100 text-red-800 border-red-200' },
+  received: { label: 'Received', color: 'bg-emerald-100 text-emerald-800 border-emerald-200' }
+} as const;
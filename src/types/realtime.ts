@@ -0,0 +1,15 @@
+// A row change pushed by Supabase realtime, already in frontend format
+export type RealtimeChange<T> =
+  | { type: 'upsert'; record: T }
+  | { type: 'delete'; id: string };
+
+export type PresenceActivity = 'viewing' | 'editing';
+
+// Someone with a vehicle open right now
+export interface VehiclePresence {
+  userId: string;
+  initials: string;
+  name: string;
+  activity: PresenceActivity;
+  since: string; // When they opened the vehicle
+}
@@ -0,0 +1,19 @@
+// When planned recon on a vehicle needs a manager's sign-off before work starts
+export interface ReconApprovalSettings {
+  enabled: boolean; // Off: every work order estimate waits for a manager
+  amountLimit: number; // Projected recon per vehicle in dollars. 0 turns the dollar limit off
+  pricePercentLimit: number; // Projected recon as a percentage of the list price. 0 turns it off
+}
+
+export const DEFAULT_RECON_APPROVAL_SETTINGS: ReconApprovalSettings = {
+  enabled: false,
+  amountLimit: 1000,
+  pricePercentLimit: 0
+};
+
+// The policy's verdict on one estimate
+export interface ReconApprovalCheck {
+  projectedSpend: number; // Recon logged so far, approved open repairs and this estimate
+  required: boolean;
+  reasons: string[]; // Limits the projected spend goes over, e.g. "Over the $1,000 limit"
+}
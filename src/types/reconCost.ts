@@ -0,0 +1,57 @@
+export type ReconCostCategory = 'parts' | 'labor' | 'sublet' | 'detail' | 'transport';
+
+export interface ReconCostItem {
+  id: string;
+  vehicleId: string;
+  category: ReconCostCategory;
+  description: string;
+  quantity: number;
+  unitCost: number;
+  amount: number; // quantity * unitCost, stored so totals don't depend on rounding in the UI
+  vendorId?: string; // Contact id
+  vendorName?: string; // Denormalised so the ledger still reads correctly if the contact is deleted
+  inspectionSectionKey?: string;
+  inspectionItemId?: string;
+  inspectionItemLabel?: string;
+  incurredDate: string;
+  createdBy: string; // user initials
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReconCostSummary {
+  total: number;
+  budget?: number;
+  remaining?: number;
+  isOverBudget: boolean;
+  percentUsed?: number;
+  byCategory: Record<ReconCostCategory, number>;
+}
+
+export const RECON_COST_CATEGORY_CONFIGS = {
+  parts: {
+    label: 'Parts',
+    color: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-700',
+    icon: '📦'
+  },
+  labor: {
+    label: 'Labor',
+    color: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-700',
+    icon: '🔧'
+  },
+  sublet: {
+    label: 'Sublet',
+    color: 'bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-900/30 dark:text-purple-300 dark:border-purple-700',
+    icon: '🏭'
+  },
+  detail: {
+    label: 'Detail',
+    color: 'bg-cyan-100 text-cyan-800 border-cyan-200 dark:bg-cyan-900/30 dark:text-cyan-300 dark:border-cyan-700',
+    icon: '✨'
+  },
+  transport: {
+    label: 'Transport',
+    color: 'bg-indigo-100 text-indigo-800 border-indigo-200 dark:bg-indigo-900/30 dark:text-indigo-300 dark:border-indigo-700',
+    icon: '🚛'
+  }
+} as const;
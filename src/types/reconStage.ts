@@ -0,0 +1,101 @@
+export type ReconStage = 'acquired' | 'inspection-started' | 'section-complete' | 'ready' | 'pending' | 'sold';
+
+export interface StageTransition {
+  id: string;
+  stage: ReconStage;
+  sectionKey?: string; // Only set for 'section-complete'
+  sectionLabel?: string;
+  enteredAt: string;
+  recordedBy: string; // user initials, or 'system' for derived entries
+}
+
+export interface SlaSettings {
+  enabled: boolean;
+  inspectionStartDays: number; // acquired → first item rated
+  sectionCompleteDays: number; // acquired → every item in a section rated
+  sectionTargets: Record<string, number>; // Per-section override of sectionCompleteDays, keyed by section key
+  frontlineDays: number; // acquired → ready for sale ("days to frontline")
+  pendingToSoldDays: number; // pending → sold
+  atRiskPercent: number; // Open clocks past this share of their target are flagged as at risk
+}
+
+// met / missed describe stages already reached; on-track / at-risk / breached describe open clocks
+export type SlaStageStatus = 'met' | 'missed' | 'on-track' | 'at-risk' | 'breached';
+
+export type SlaVehicleStatus = 'on-track' | 'at-risk' | 'breached';
+
+export interface SlaStageResult {
+  stage: ReconStage;
+  sectionKey?: string;
+  label: string;
+  targetDays: number;
+  elapsedDays: number;
+  status: SlaStageStatus;
+  enteredAt?: string;
+}
+
+export const DEFAULT_SLA_SETTINGS: SlaSettings = {
+  enabled: true,
+  inspectionStartDays: 1,
+  sectionCompleteDays: 4,
+  sectionTargets: {},
+  frontlineDays: 7,
+  pendingToSoldDays: 5,
+  atRiskPercent: 75
+};
+
+export const RECON_STAGE_CONFIGS = {
+  'acquired': {
+    label: 'Acquired',
+    color: 'bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-700',
+    icon: '🚗'
+  },
+  'inspection-started': {
+    label: 'Inspection Started',
+    color: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-700',
+    icon: '🔍'
+  },
+  'section-complete': {
+    label: 'Section Complete',
+    color: 'bg-indigo-100 text-indigo-800 border-indigo-200 dark:bg-indigo-900/30 dark:text-indigo-300 dark:border-indigo-700',
+    icon: '✅'
+  },
+  'ready': {
+    label: 'Ready for Sale',
+    color: 'bg-emerald-100 text-emerald-800 border-emerald-200 dark:bg-emerald-900/30 dark:text-emerald-300 dark:border-emerald-700',
+    icon: '🏁'
+  },
+  'pending': {
+    label: 'Pending',
+    color: 'bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-900/30 dark:text-purple-300 dark:border-purple-700',
+    icon: '⏳'
+  },
+  'sold': {
+    label: 'Sold',
+    color: 'bg-red-100 text-red-800 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-700',
+    icon: '💰'
+  }
+} as const;
+
+export const SLA_STATUS_CONFIGS = {
+  'met': {
+    label: 'Met',
+    color: 'bg-emerald-100 text-emerald-800 border-emerald-200 dark:bg-emerald-900/30 dark:text-emerald-300 dark:border-emerald-700'
+  },
+  'missed': {
+    label: 'Late',
+    color: 'bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900/30 dark:text-orange-300 dark:border-orange-700'
+  },
+  'on-track': {
+    label: 'On Track',
+    color: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-700'
+  },
+  'at-risk': {
+    label: 'At Risk',
+    color: 'bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-700'
+  },
+  'breached': {
+    label: 'SLA Breached',
+    color: 'bg-red-100 text-red-800 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-700'
+  }
+} as const;
@@ -0,0 +1,62 @@
+import { ContactCategory } from './contact';
+
+// Where a sublet job is: at the vendor, past its expected return, or back
+export type SubletJobStatus = 'out' | 'overdue' | 'returned';
+
+// A vehicle sent out to a vendor Contact (body shop, glass, PDR, upholstery...)
+export interface SubletJob {
+  id: string;
+  vehicleId: string;
+  vehicleName: string; // e.g. "2021 Ford F-150 #A12345", denormalised for the vendor's history
+  contactId?: string;
+  vendorName: string; // Denormalised so the job still reads correctly if the contact is deleted
+  description: string;
+  sentDate: string; // ISO date string (YYYY-MM-DD)
+  expectedReturnDate?: string; // ISO date string (YYYY-MM-DD)
+  returnedDate?: string; // ISO date string (YYYY-MM-DD)
+  fromLocation?: string; // Where the vehicle was when it went out, the default place to return it
+  invoiceAmount?: number;
+  invoiceNumber?: string;
+  reconCostId?: string; // The recon cost the invoice was posted as
+  isComeback?: boolean; // The work failed and had to be redone
+  notes?: string;
+  sentBy: string; // user initials
+  returnedBy?: string; // user initials
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VendorJobSummary {
+  jobCount: number;
+  openJobs: number;
+  averageTurnaroundDays?: number; // Returned jobs only
+  onTimeRate?: number; // % of returned jobs with an expected date that were back by it
+  comebackRate?: number; // % of returned jobs that had to be redone
+  averageInvoice?: number; // Invoiced jobs only
+  jobsPerMonth: number; // Since the vendor's first job
+  totalInvoiced: number;
+}
+
+export interface VendorScorecard {
+  contactId: string;
+  vendorName: string;
+  category: ContactCategory;
+  isFavorite: boolean;
+  summary: VendorJobSummary;
+}
+
+export type VendorRankMetric = 'on-time' | 'turnaround' | 'comebacks' | 'invoice' | 'volume';
+
+export const VENDOR_RANK_METRIC_LABELS: Record<VendorRankMetric, string> = {
+  'on-time': 'On-time %',
+  turnaround: 'Fastest turnaround',
+  comebacks: 'Fewest comebacks',
+  invoice: 'Lowest average invoice',
+  volume: 'Most jobs per month'
+} as const;
+
+export const SUBLET_JOB_STATUS_CONFIGS: Record<SubletJobStatus, { label: string; color: string }> = {
+  out: { label: 'At Vendor', color: 'bg-blue-100 text-blue-800 border-blue-200' },
+  overdue: { label: 'Overdue', color: 'bg-red-100 text-red-800 border-red-200' },
+  returned: { label: 'Returned', color: 'bg-emerald-100 text-emerald-800 border-emerald-200' }
+} as const;
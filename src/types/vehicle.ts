@@ -1,3 +1,7 @@
+import { StageTransition } from './reconStage';
+import { InspectionRecord } from './inspectionRecord';
+import { InspectionTemplateSnapshot } from './inspectionSettings';
+
 export interface Vehicle {
   id: string;
   vin: string;
@@ -10,12 +14,17 @@ export interface Vehicle {
   dateAcquired: string;
   targetSaleDate?: string;
   price: number;
+  reconBudget?: number; // Budget cap for reconditioning spend
   location: string;
+  parkingSpot?: string; // Spot on the location's lot map, e.g. "B7"
+  heroPhotoPath?: string; // Storage path of the photo shown on the vehicle card
   locationChangedBy?: string;
   locationChangedDate?: string;
   locationHistory?: LocationHistoryEntry[];
+  stageHistory?: StageTransition[]; // Recon stage transitions, oldest first
   status: 'working' | 'ready' | 'issues' | 'sold' | 'pending' | null;
-  inspection?: VehicleInspection;
+  inspection?: InspectionRecord;
+  inspectionTemplate?: InspectionTemplateSnapshot; // Set on the first inspection save or when a template is picked by hand
   notes?: string;
   teamNotes?: TeamNote[];
   // Sold vehicle properties
@@ -23,6 +32,7 @@ export interface Vehicle {
   soldBy?: string;
   soldDate?: string;
   soldPrice?: number;
+  soldTo?: string; // Buyer name
   soldNotes?: string;
   // Pending vehicle properties
   isPending?: boolean;
@@ -33,13 +43,31 @@ export interface Vehicle {
   reactivatedBy?: string;
   reactivatedDate?: string;
   reactivatedFrom?: 'sold' | 'pending';
+  // Set when a manager frontlines the vehicle with items still blocking readiness
+  readinessOverrideBy?: string;
+  readinessOverrideDate?: string;
+  readinessOverrideReason?: string;
+  readinessOverrideBlockers?: string[]; // Blocker keys the override was given over; any new blocker voids it
 }
 
+// Extra details recorded alongside a sold / pending / reactivated status change
+export type VehicleStatusDetails = Partial<Pick<Vehicle,
+  'soldBy' | 'soldDate' | 'soldPrice' | 'soldTo' | 'soldNotes' |
+  'pendingBy' | 'pendingDate' | 'pendingNotes' |
+  'reactivatedBy' |
+  'readinessOverrideBy' | 'readinessOverrideReason' | 'readinessOverrideBlockers'
+>>;
+
+// What the Mark as Sold dialog collects
+export type VehicleSaleDetails = Required<Pick<VehicleStatusDetails, 'soldDate' | 'soldPrice' | 'soldTo'>> & Pick<VehicleStatusDetails, 'soldNotes'>;
+
 export interface LocationHistoryEntry {
-  location: string;
+  location: string; // Location the vehicle moved to
+  fromLocation?: string;
   changedBy: string;
   changedDate: string;
   timestamp: string;
+  reason?: string;
 }
 
 export interface TeamNote {
@@ -53,83 +81,6 @@ export interface TeamNote {
 
 export type InspectionStatus = 'completed' | 'pending' | 'needs-attention' | 'not-started';
 
-export interface VehicleInspection {
-  id: string;
-  vehicleId: string;
-  inspectorName: string;
-  inspectionDate: string;
-  completedDate?: string;
-  emissions: EmissionsInspection;
-  cosmetic: CosmeticInspection;
-  mechanical: MechanicalInspection;
-  cleaning: CleaningInspection;
-  photos: PhotoInspection;
-  overallNotes?: string;
-}
-
-export interface EmissionsInspection {
-  smokeTest: boolean;
-  obd2Scan: boolean;
-  catalyticConverter: boolean;
-  exhaustSystem: boolean;
-  evapSystem: boolean;
-  notes?: string;
-  completedBy?: string;
-  completedDate?: string;
-}
-
-export interface CosmeticInspection {
-  exteriorPaint: boolean;
-  bumperCondition: boolean;
-  windowsGlass: boolean;
-  lightsFunction: boolean;
-  tiresCondition: boolean;
-  wheelsCondition: boolean;
-  interiorCleanliness: boolean;
-  seatCondition: boolean;
-  dashboardCondition: boolean;
-  notes?: string;
-  completedBy?: string;
-  completedDate?: string;
-}
-
-export interface MechanicalInspection {
-  engineOperation: boolean;
-  transmissionFunction: boolean;
-  brakesCondition: boolean;
-  suspensionCheck: boolean;
-  steeringAlignment: boolean;
-  fluidsLevels: boolean;
-  batteryCondition: boolean;
-  electricalSystems: boolean;
-  notes?: string;
-  completedBy?: string;
-  completedDate?: string;
-}
-
-export interface CleaningInspection {
-  exteriorWash: boolean;
-  interiorVacuum: boolean;
-  windowsCleaned: boolean;
-  detailComplete: boolean;
-  engineBayClean: boolean;
-  notes?: string;
-  completedBy?: string;
-  completedDate?: string;
-}
-
-export interface PhotoInspection {
-  exteriorPhotos: boolean;
-  interiorPhotos: boolean;
-  engineBayPhotos: boolean;
-  underCarriagePhotos: boolean;
-  damagePhotos: boolean;
-  featuresPhotos: boolean;
-  notes?: string;
-  completedBy?: string;
-  completedDate?: string;
-}
-
 // Utility function to get stock number from VIN
 export const getStockNumber = (vin: string): string => {
   return vin.slice(-6);
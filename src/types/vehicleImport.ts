@@ -0,0 +1,76 @@
+import { Vehicle } from './vehicle';
+
+export type ImportField =
+  | 'vin'
+  | 'year'
+  | 'make'
+  | 'model'
+  | 'trim'
+  | 'mileage'
+  | 'color'
+  | 'dateAcquired'
+  | 'targetSaleDate'
+  | 'price'
+  | 'location'
+  | 'notes';
+
+// CSV header index -> Vehicle field (null = ignore column)
+export type ImportColumnMapping = Record<number, ImportField | null>;
+
+export type ImportDuplicateMode = 'skip' | 'update';
+
+export type ImportRowAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportPreviewRow {
+  rowNumber: number; // 1-based line in the source file, excluding the header
+  vin: string;
+  action: ImportRowAction;
+  vehicle: Partial<Omit<Vehicle, 'id'>>;
+  existingVehicle?: Vehicle;
+  changes?: Array<{ field: ImportField; from: string; to: string }>;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportRowResult {
+  rowNumber: number;
+  vin: string;
+  action: ImportRowAction;
+  success: boolean;
+  message?: string;
+}
+
+export interface ImportSummary {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  results: ImportRowResult[];
+}
+
+export interface ImportOptions {
+  duplicateMode: ImportDuplicateMode;
+  defaultLocation: string;
+  defaultDateAcquired: string;
+  fillFromVin: boolean;
+}
+
+export const IMPORT_FIELD_CONFIGS = {
+  vin: { label: 'VIN', required: true, aliases: ['vin', 'vin number', 'vehicle identification number', 'serial'] },
+  year: { label: 'Year', required: true, aliases: ['year', 'model year', 'yr'] },
+  make: { label: 'Make', required: true, aliases: ['make', 'manufacturer', 'mfr'] },
+  model: { label: 'Model', required: true, aliases: ['model', 'model name'] },
+  trim: { label: 'Trim', required: false, aliases: ['trim', 'series', 'trim level', 'style'] },
+  mileage: { label: 'Mileage', required: false, aliases: ['mileage', 'miles', 'odometer', 'odo'] },
+  color: { label: 'Color', required: true, aliases: ['color', 'exterior color', 'ext color', 'colour'] },
+  dateAcquired: { label: 'Date Acquired', required: true, aliases: ['date acquired', 'acquired', 'in stock date', 'stock date', 'purchase date', 'date in stock', 'received'] },
+  targetSaleDate: { label: 'Target Sale Date', required: false, aliases: ['target sale date', 'target date'] },
+  price: { label: 'Price', required: false, aliases: ['price', 'list price', 'internet price', 'asking price', 'retail'] },
+  location: { label: 'Location', required: true, aliases: ['location', 'lot', 'lot location'] },
+  notes: { label: 'Notes', required: false, aliases: ['notes', 'comments', 'description'] }
+} as const;
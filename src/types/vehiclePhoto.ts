@@ -0,0 +1,42 @@
+export type PhotoTag = 'exterior' | 'interior' | 'damage' | 'mechanical' | 'document';
+
+// Everything about a photo besides the image itself, stored in vehicle_photos
+export interface VehiclePhotoDetails {
+  caption?: string;
+  tags: PhotoTag[];
+  takenAt?: string; // From the camera's EXIF data, when the file had it
+  width?: number;
+  height?: number;
+  uploadedBy: string; // user initials
+}
+
+export interface VehiclePhoto extends VehiclePhotoDetails {
+  id?: string; // Unset for photos uploaded before vehicle_photos existed
+  vehicleId: string;
+  sectionKey: string; // Checklist section, or 'damage' for damage diagram pins
+  itemId: string; // Checklist item id, or the damage pin id
+  path: string; // Path in the reconpro-vehicles storage bucket
+  thumbnailPath?: string;
+  sortOrder?: number; // Set once the gallery has been reordered; unordered photos follow, oldest first
+  url: string;
+  thumbnailUrl: string; // Falls back to the full photo when there's no thumbnail
+  createdAt?: string;
+}
+
+// A photo resized and compressed on the device, ready to upload or queue
+export interface PreparedPhoto {
+  file: Blob;
+  thumbnail?: Blob; // Unset when the browser couldn't decode the original
+  width?: number;
+  height?: number;
+  takenAt?: string;
+  extension: string; // For the storage path; 'jpg' once compressed
+}
+
+export const PHOTO_TAG_CONFIGS: Record<PhotoTag, { label: string; color: string }> = {
+  exterior: { label: 'Exterior', color: 'bg-blue-100 text-blue-800 border-blue-200' },
+  interior: { label: 'Interior', color: 'bg-purple-100 text-purple-800 border-purple-200' },
+  damage: { label: 'Damage', color: 'bg-red-100 text-red-800 border-red-200' },
+  mechanical: { label: 'Mechanical', color: 'bg-gray-100 text-gray-800 border-gray-200' },
+  document: { label: 'Document', color: 'bg-yellow-100 text-yellow-800 border-yellow-200' }
+} as const;
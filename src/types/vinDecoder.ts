@@ -0,0 +1,55 @@
+export interface DecodedVin {
+  vin: string;
+  isValidFormat: boolean;
+  isCheckDigitValid: boolean;
+  expectedCheckDigit?: string;
+  wmi: string;
+  vds: string;
+  vis: string;
+  manufacturer?: string;
+  make?: string;
+  country?: string;
+  region?: string;
+  modelYear?: number;
+  plantCode: string;
+  plant?: string;
+  model?: string;
+  trim?: string;
+  bodyStyle?: string;
+  serialNumber: string;
+  errors: string[];
+}
+
+export interface VinWmiEntry {
+  manufacturer: string;
+  make?: string; // Omitted when the WMI is shared by several makes (e.g. FCA's 1C4)
+  country?: string;
+}
+
+export interface VinModelEntry {
+  make: string;
+  wmi?: string[]; // Restrict pattern to specific WMIs (optional)
+  vdsPattern: string; // Positions 4-8, '*' matches any character
+  model: string;
+  trim?: string;
+  bodyStyle?: string;
+  years?: [number, number];
+}
+
+export interface VinLookupTable {
+  version: string;
+  updatedAt: string;
+  wmi: Record<string, VinWmiEntry>;
+  plants: Record<string, Record<string, string>>; // make -> plant code -> plant name
+  models: VinModelEntry[];
+  makeAliases: Record<string, string>; // lowercase alias -> canonical make
+}
+
+export type VinMismatchField = 'vin' | 'year' | 'make' | 'model' | 'trim';
+
+export interface VinMismatchWarning {
+  field: VinMismatchField;
+  message: string;
+  decodedValue?: string;
+  recordedValue?: string;
+}
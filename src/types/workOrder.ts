@@ -0,0 +1,72 @@
+import { InspectionRating } from './inspectionRecord';
+
+export type WorkOrderApprovalStatus = 'requested' | 'approved' | 'declined';
+
+// Where a line is in its life: estimate -> approval -> repair -> sign-off -> re-inspection
+export type WorkOrderLineStage = 'awaiting-approval' | 'declined' | 'in-repair' | 'awaiting-reinspection' | 'done';
+
+// A note left on a line while its estimate is being discussed
+export interface WorkOrderComment {
+  id: string;
+  text: string;
+  userInitials: string;
+  userName: string;
+  timestamp: string;
+}
+
+// One repair on a vehicle's work order, raised from an inspection item rated Needs Attention
+export interface WorkOrderLine {
+  id: string;
+  vehicleId: string;
+  sectionKey: string;
+  itemId: string;
+  itemLabel: string; // Denormalised so the line still reads correctly if the item is renamed
+  description?: string; // What needs doing
+  estimate?: number; // Estimated repair cost in dollars
+  approvalStatus: WorkOrderApprovalStatus;
+  requestedBy?: string; // Initials of whoever last set the estimate, told about every decision and comment
+  approvalReason?: string; // Why the recon approval policy sent the estimate to a manager
+  approvalBy?: string; // user initials, empty when the policy approved it automatically
+  approvalDate?: string;
+  approvalNotes?: string;
+  assigneeContactId?: string; // Contact id of the tech or vendor doing the repair
+  assigneeName?: string; // Denormalised so the line still reads correctly if the contact is deleted
+  completedBy?: string; // Sign-off, user initials
+  completedDate?: string;
+  completionNotes?: string;
+  reconCostId?: string; // The recon cost the approved estimate was posted as at sign-off
+  reinspectionRating?: InspectionRating; // The item's rating the first time it was re-rated after sign-off
+  reinspectedBy?: string;
+  reinspectedAt?: string;
+  comments?: WorkOrderComment[];
+  createdBy: string; // user initials
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A line awaiting approval, with enough of its vehicle to show it in the manager queue
+export interface WorkOrderApprovalRequest {
+  line: WorkOrderLine;
+  vehicle: {
+    id: string;
+    year: number;
+    make: string;
+    model: string;
+    vin: string;
+  };
+}
+
+export interface WorkOrderSummary {
+  openLines: number;
+  awaitingApproval: number;
+  requestedTotal: number; // Estimates still awaiting approval
+  approvedTotal: number; // Estimates approved, repaired or not
+}
+
+export const WORK_ORDER_STAGE_CONFIGS: Record<WorkOrderLineStage, { label: string; color: string }> = {
+  'awaiting-approval': { label: 'Awaiting Approval', color: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  declined: { label: 'Declined', color: 'bg-gray-100 text-gray-600 border-gray-200' },
+  'in-repair': { label: 'In Repair', color: 'bg-blue-100 text-blue-800 border-blue-200' },
+  'awaiting-reinspection': { label: 'Re-inspect', color: 'bg-orange-100 text-orange-800 border-orange-200' },
+  done: { label: 'Done', color: 'bg-emerald-100 text-emerald-800 border-emerald-200' }
+} as const;
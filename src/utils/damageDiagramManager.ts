@@ -0,0 +1,257 @@
+import { InspectionSection } from '../types/inspectionSettings';
+import {
+  DamageDiagramView,
+  DamagePin,
+  DAMAGE_DIAGRAM_VIEW_LABELS,
+  DAMAGE_SEVERITY_CONFIGS,
+  DAMAGE_TYPE_CONFIGS
+} from '../types/damage';
+import { OfflineSyncManager } from './offlineSyncManager';
+import { PhotoManager } from './photoManager';
+
+export interface DamageSilhouette {
+  width: number;
+  height: number;
+  body: string[]; // Filled outline paths
+  details: string[]; // Windows, wheels and panel lines drawn on top
+  mirrored?: boolean; // Drawn flipped so the front points right
+}
+
+// Pin photos live under {vehicleId}/damage/{pinId}/ in the photo bucket
+const DAMAGE_PHOTO_SECTION = 'damage';
+
+const SIDE_SILHOUETTE: Omit<DamageSilhouette, 'mirrored'> = {
+  width: 440,
+  height: 190,
+  body: [
+    'M20 128 Q20 104 46 99 L112 90 Q150 50 198 44 L298 44 Q336 48 366 88 L408 98 Q424 103 424 128 L424 146 L20 146 Z'
+  ],
+  details: [
+    'M128 90 Q156 60 198 55 L238 55 L238 90 Z',
+    'M248 55 L296 55 Q326 60 350 90 L248 90 Z',
+    'M242 92 L242 140',
+    'M73 146 a27 27 0 1 0 54 0 a27 27 0 1 0 -54 0',
+    'M318 146 a27 27 0 1 0 54 0 a27 27 0 1 0 -54 0'
+  ]
+};
+
+// Simple outlines, drawn in the same units the pins' percentages are measured against
+const SILHOUETTES: Record<DamageDiagramView, DamageSilhouette> = {
+  top: {
+    width: 240,
+    height: 440,
+    body: [
+      'M70 22 Q120 6 170 22 L188 80 Q198 220 188 380 Q182 420 120 430 Q58 420 52 380 Q42 220 52 80 Z'
+    ],
+    details: [
+      'M74 118 Q120 98 166 118 L158 164 Q120 154 82 164 Z',
+      'M82 170 Q120 162 158 170 L158 290 Q120 296 82 290 Z',
+      'M82 296 Q120 302 158 296 L166 336 Q120 350 74 336 Z',
+      'M38 92 h12 v52 h-12 Z',
+      'M190 92 h12 v52 h-12 Z',
+      'M38 312 h12 v52 h-12 Z',
+      'M190 312 h12 v52 h-12 Z',
+      'M52 128 l-14 6 v8 l14 -2 Z',
+      'M188 128 l14 6 v8 l-14 -2 Z'
+    ]
+  },
+  left: SIDE_SILHOUETTE,
+  right: { ...SIDE_SILHOUETTE, mirrored: true }
+};
+
+const VIEW_ORDER: DamageDiagramView[] = ['top', 'left', 'right'];
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export class DamageDiagramManager {
+  // Cosmetic shows the diagram unless the dealership turned it off; other sections opt in
+  static isEnabled(section: Pick<InspectionSection, 'key' | 'hasDamageDiagram'>): boolean {
+    return section.hasDamageDiagram ?? section.key === 'cosmetic';
+  }
+
+  static getSilhouette(view: DamageDiagramView): DamageSilhouette {
+    return SILHOUETTES[view];
+  }
+
+  static createPin(view: DamageDiagramView, x: number, y: number, userInitials: string): DamagePin {
+    const now = new Date().toISOString();
+    return {
+      id: `damage-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      view,
+      x: Math.round(x * 10) / 10,
+      y: Math.round(y * 10) / 10,
+      type: 'scratch',
+      severity: 'minor',
+      photoPaths: [],
+      createdBy: userInitials,
+      createdAt: now,
+      updatedBy: userInitials,
+      updatedAt: now
+    };
+  }
+
+  // Pins are numbered in the order they were added, the same on every view and in the report
+  static getPinNumbers(pins: DamagePin[]): Record<string, number> {
+    return pins.reduce<Record<string, number>>((numbers, pin, index) => {
+      numbers[pin.id] = index + 1;
+      return numbers;
+    }, {});
+  }
+
+  static getTotalEstimate(pins: DamagePin[]): number {
+    return pins.reduce((total, pin) => total + (pin.estimatedCost || 0), 0);
+  }
+
+  static formatCost(amount: number): string {
+    return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+  }
+
+  // "Dent · Moderate · $250"
+  static describePin(pin: DamagePin, showCost: boolean = true): string {
+    return [
+      DAMAGE_TYPE_CONFIGS[pin.type].label,
+      DAMAGE_SEVERITY_CONFIGS[pin.severity].label,
+      showCost && pin.estimatedCost !== undefined ? this.formatCost(pin.estimatedCost) : null
+    ].filter(Boolean).join(' · ');
+  }
+
+  static getPhotoUrl(path: string): string {
+    return PhotoManager.getPublicUrl(path);
+  }
+
+  /**
+   * Uploads a pin photo, or keeps it on the device for the next sync when there's no
+   * signal. Returns the storage path either way; null when the photo couldn't be stored.
+   */
+  static async uploadPhoto(
+    dealershipId: string,
+    vehicleId: string,
+    pinId: string,
+    file: File,
+    userInitials: string
+  ): Promise<{ path: string; pending: boolean } | null> {
+    const location = { vehicleId, sectionKey: DAMAGE_PHOTO_SECTION, itemId: pinId };
+    const prepared = await PhotoManager.preparePhoto(file);
+    const path = PhotoManager.buildPath(vehicleId, DAMAGE_PHOTO_SECTION, pinId, prepared.extension);
+    const details = PhotoManager.createDetails(location, prepared, userInitials);
+
+    if (!OfflineSyncManager.isOnline()) {
+      try {
+        await OfflineSyncManager.queuePhoto({
+          ...location,
+          path,
+          name: PhotoManager.getFileName(path),
+          file: prepared.file,
+          thumbnail: prepared.thumbnail,
+          dealershipId,
+          details
+        });
+        return { path, pending: true };
+      } catch (error) {
+        console.error('Error queueing damage photo:', error);
+        return null;
+      }
+    }
+
+    try {
+      await PhotoManager.uploadPhoto(dealershipId, { ...location, path }, prepared, details);
+      return { path, pending: false };
+    } catch {
+      return null;
+    }
+  }
+
+  static async removePhoto(dealershipId: string, path: string): Promise<void> {
+    await OfflineSyncManager.removePendingPhoto(path).catch(() => undefined);
+    await PhotoManager.deletePhoto(dealershipId, { path, thumbnailPath: PhotoManager.getThumbnailPath(path) });
+  }
+
+  // One view as standalone SVG markup, for reports rendered from HTML strings
+  static renderSvg(view: DamageDiagramView, pins: DamagePin[], numbers: Record<string, number>): string {
+    const silhouette = SILHOUETTES[view];
+    const flip = silhouette.mirrored ? ` transform="translate(${silhouette.width} 0) scale(-1 1)"` : '';
+    const viewPins = pins.filter(pin => pin.view === view);
+
+    return `
+      <svg viewBox="0 0 ${silhouette.width} ${silhouette.height}" xmlns="http://www.w3.org/2000/svg" style="width:100%;height:auto;">
+        <g${flip}>
+          ${silhouette.body.map(d => `<path d="${d}" fill="#f3f4f6" stroke="#6b7280" stroke-width="2" />`).join('')}
+          ${silhouette.details.map(d => `<path d="${d}" fill="#e5e7eb" stroke="#9ca3af" stroke-width="1.5" />`).join('')}
+        </g>
+        ${viewPins.map(pin => {
+          const cx = (pin.x / 100) * silhouette.width;
+          const cy = (pin.y / 100) * silhouette.height;
+          return `
+            <circle cx="${cx}" cy="${cy}" r="11" fill="${DAMAGE_SEVERITY_CONFIGS[pin.severity].hex}" stroke="#ffffff" stroke-width="2" />
+            <text x="${cx}" y="${cy + 4}" text-anchor="middle" font-size="11" font-weight="bold" fill="#ffffff" font-family="Arial, sans-serif">${numbers[pin.id]}</text>
+          `;
+        }).join('')}
+      </svg>
+    `;
+  }
+
+  /**
+   * The diagram with every view that has pins and a numbered list of the damage, styled
+   * inline so any HTML report can drop it in. Repair estimates are internal, so they're
+   * only listed when showCosts is set.
+   */
+  static renderReportHtml(pins: DamagePin[], options: { showCosts?: boolean } = {}): string {
+    if (pins.length === 0) return '';
+
+    const numbers = this.getPinNumbers(pins);
+    const views = VIEW_ORDER.filter(view => pins.some(pin => pin.view === view));
+    const total = this.getTotalEstimate(pins);
+
+    return `
+      <div class="damage-diagram" style="margin-top:16px;page-break-inside:avoid;">
+        <h4 style="margin:0 0 8px 0;color:#374151;">Damage Diagram</h4>
+        <div style="display:flex;gap:12px;align-items:flex-start;">
+          ${views.map(view => `
+            <div style="flex:${view === 'top' ? 1 : 2};text-align:center;">
+              ${this.renderSvg(view, pins, numbers)}
+              <div style="font-size:12px;color:#6b7280;">${DAMAGE_DIAGRAM_VIEW_LABELS[view]}</div>
+            </div>
+          `).join('')}
+        </div>
+        <table style="width:100%;border-collapse:collapse;margin-top:12px;font-size:13px;">
+          <thead>
+            <tr style="text-align:left;border-bottom:1px solid #e5e7eb;color:#6b7280;">
+              <th style="padding:4px;">#</th>
+              <th style="padding:4px;">Damage</th>
+              <th style="padding:4px;">Severity</th>
+              <th style="padding:4px;">Notes</th>
+              ${options.showCosts ? '<th style="padding:4px;text-align:right;">Est. Repair</th>' : ''}
+            </tr>
+          </thead>
+          <tbody>
+            ${pins.map(pin => `
+              <tr style="border-bottom:1px solid #f3f4f6;vertical-align:top;">
+                <td style="padding:4px;font-weight:bold;color:${DAMAGE_SEVERITY_CONFIGS[pin.severity].hex};">${numbers[pin.id]}</td>
+                <td style="padding:4px;">${DAMAGE_TYPE_CONFIGS[pin.type].label} <span style="color:#9ca3af;">(${DAMAGE_DIAGRAM_VIEW_LABELS[pin.view]})</span></td>
+                <td style="padding:4px;">${DAMAGE_SEVERITY_CONFIGS[pin.severity].label}</td>
+                <td style="padding:4px;">
+                  ${pin.notes ? escapeHtml(pin.notes) : ''}
+                  ${pin.photoPaths.length > 0 ? `
+                    <div style="display:flex;gap:4px;flex-wrap:wrap;margin-top:4px;">
+                      ${pin.photoPaths.map(path => `<img src="${this.getPhotoUrl(path)}" alt="Damage photo" style="width:64px;height:48px;object-fit:cover;border-radius:4px;border:1px solid #e5e7eb;" />`).join('')}
+                    </div>
+                  ` : ''}
+                </td>
+                ${options.showCosts ? `<td style="padding:4px;text-align:right;">${pin.estimatedCost !== undefined ? this.formatCost(pin.estimatedCost) : '—'}</td>` : ''}
+              </tr>
+            `).join('')}
+          </tbody>
+          ${options.showCosts ? `
+            <tfoot>
+              <tr>
+                <td colspan="4" style="padding:4px;text-align:right;font-weight:bold;">Total estimated repair</td>
+                <td style="padding:4px;text-align:right;font-weight:bold;">${this.formatCost(total)}</td>
+              </tr>
+            </tfoot>
+          ` : ''}
+        </table>
+      </div>
+    `;
+  }
+}
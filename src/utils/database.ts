@@ -4,6 +4,7 @@ import { Vehicle } from '../types/vehicle';
 import { Location } from '../types/location';
 import { Contact } from '../types/contact';
 import { Todo } from '../types/todo';
+import { ReconApprovalSettings, DEFAULT_RECON_APPROVAL_SETTINGS } from '../types/reconApproval';
 
 // Initialize Supabase client
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -790,6 +791,45 @@ export class DatabaseService {
     }
   }
 
+  static async getReconApprovalSettings(dealershipId: string): Promise<ReconApprovalSettings> {
+    try {
+      const { data, error } = await supabase
+        .from('recon_approval_settings')
+        .select('settings')
+        .eq('dealership_id', dealershipId)
+        .single();
+
+      if (error || !data) {
+        return { ...DEFAULT_RECON_APPROVAL_SETTINGS };
+      }
+
+      return { ...DEFAULT_RECON_APPROVAL_SETTINGS, ...data.settings };
+    } catch (error) {
+      console.error('Error getting recon approval settings:', error);
+      return { ...DEFAULT_RECON_APPROVAL_SETTINGS };
+    }
+  }
+
+  static async saveReconApprovalSettings(dealershipId: string, settings: ReconApprovalSettings): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('recon_approval_settings')
+        .upsert({
+          dealership_id: dealershipId,
+          settings,
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'dealership_id'
+        });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error saving recon approval settings:', error);
+      return false;
+    }
+  }
+
   // ========================================
   // ANALYTICS
   // ========================================
@@ -1,10 +1,13 @@
 import { InspectionSettings, InspectionSection, InspectionItem, RatingLabel, DEFAULT_INSPECTION_SETTINGS } from '../types/inspectionSettings';
 import { supabase } from './supabaseClient';
-
-export const DEFAULT_INSPECTION_DATA = {
-  customSections: {},
-  sectionNotes: {}
-};
+import { ReconStageManager } from './reconStageManager';
+import { ProgressCalculator } from './progressCalculator';
+import { InspectionRecordManager } from './inspectionRecordManager';
+import { InspectionTemplateManager } from './inspectionTemplateManager';
+import { RealtimeManager } from './realtimeManager';
+import { WorkOrderManager } from './workOrderManager';
+import { InspectionRecord } from '../types/inspectionRecord';
+import { TeamNote, Vehicle } from '../types/vehicle';
 
 export class InspectionDataManager {
   private static readonly STORAGE_KEY = 'dealership_inspection_settings';
@@ -90,6 +93,15 @@ export class InspectionDataManager {
     }
   }
 
+  // The dealership's settings with the sections this vehicle is inspected against (its template snapshot, or what the rules pick)
+  static async getVehicleSettings(
+    dealershipId: string,
+    vehicle: Pick<Vehicle, 'make' | 'year' | 'mileage' | 'price' | 'inspectionTemplate'>
+  ): Promise<InspectionSettings | null> {
+    const settings = await this.getSettings(dealershipId);
+    return settings ? InspectionTemplateManager.applyToSettings(settings, vehicle) : null;
+  }
+
   private static getFromLocalStorage(dealershipId: string): InspectionSettings | null {
     const key = `${this.STORAGE_KEY}_${dealershipId}`;
     const data = localStorage.getItem(key);
@@ -460,7 +472,7 @@ export class InspectionDataManager {
   }
 
   // Load inspection data for a specific vehicle
-  static async loadInspectionData(vehicleId: string, inspectorId: string): Promise<any> {
+  static async loadInspectionData(vehicleId: string, inspectorId: string): Promise<InspectionRecord> {
     // Validate parameters
     if (!vehicleId || vehicleId === 'undefined' || typeof vehicleId !== 'string') {
       throw new Error('Invalid vehicleId provided to loadInspectionData');
@@ -470,71 +482,77 @@ export class InspectionDataManager {
     }
 
     try {
-      // First try to get from vehicles table
-      const { data: vehicleData, error: vehicleError } = await supabase
-        .from('vehicles')
-        .select('inspection_data')
-        .eq('id', vehicleId)
-        .maybeSingle();
+      return await this.fetchInspectionData(vehicleId);
+    } catch (error) {
+      console.error('Error in loadInspectionData:', error);
+      return InspectionRecordManager.createEmpty();
+    }
+  }
 
-      if (vehicleError) {
-        console.error('Error loading vehicle inspection data:', vehicleError);
-      }
+  /**
+   * Same as loadInspectionData but throws when the record can't be read, so offline sync
+   * never mistakes an unreachable database for a vehicle with no inspection yet.
+   */
+  static async fetchInspectionData(vehicleId: string): Promise<InspectionRecord> {
+    // First try to get from vehicles table
+    const { data: vehicleData, error: vehicleError } = await supabase
+      .from('vehicles')
+      .select('inspection_data')
+      .eq('id', vehicleId)
+      .maybeSingle();
+
+    if (vehicleError) {
+      console.error('Error loading vehicle inspection data:', vehicleError);
+      throw vehicleError;
+    }
 
-      // If we have inspection data in the vehicle record, return it
-      if (vehicleData?.inspection_data) {
-        return vehicleData.inspection_data;
-      }
+    // If we have inspection data in the vehicle record, return it
+    if (vehicleData?.inspection_data) {
+      return InspectionRecordManager.migrate(vehicleData.inspection_data);
+    }
 
-      // Otherwise, try to get from inspection_checklists table
-      const { data: checklistData, error: checklistError } = await supabase
-        .from('inspection_checklists')
-        .select('checklist_data')
-        .eq('vehicle_id', vehicleId)
-        .maybeSingle();
+    // Otherwise, try to get from inspection_checklists table
+    const { data: checklistData, error: checklistError } = await supabase
+      .from('inspection_checklists')
+      .select('checklist_data')
+      .eq('vehicle_id', vehicleId)
+      .maybeSingle();
 
-      if (checklistError) {
-        console.error('Error loading checklist inspection data:', checklistError);
-        return DEFAULT_INSPECTION_DATA;
-      }
-
-      return checklistData?.checklist_data || DEFAULT_INSPECTION_DATA;
-    } catch (error) {
-      console.error('Error in loadInspectionData:', error);
-      return DEFAULT_INSPECTION_DATA;
+    if (checklistError) {
+      console.error('Error loading checklist inspection data:', checklistError);
+      throw checklistError;
     }
+
+    return InspectionRecordManager.migrate(checklistData?.checklist_data);
+  }
+
+  // Calls onChange with the saved record whenever anyone saves this vehicle's checklist. Returns an unsubscribe function
+  static subscribeToInspection(vehicleId: string, onChange: (record: InspectionRecord) => void): () => void {
+    return RealtimeManager.subscribeToTable('inspection_checklists', `vehicle_id=eq.${vehicleId}`, payload => {
+      if (payload.eventType !== 'DELETE') {
+        onChange(InspectionRecordManager.migrate(payload.new.checklist_data));
+      }
+    });
   }
 
   // Helper function to generate team notes for rating changes
   private static generateRatingChangeNotes(
-    oldData: any, 
-    newData: any, 
+    oldData: InspectionRecord, 
+    newData: InspectionRecord, 
     inspectorId: string
-  ): any[] {
-    const notes: any[] = [];
+  ): TeamNote[] {
+    const notes: TeamNote[] = [];
     const timestamp = new Date().toISOString();
 
     // Compare all sections for changes
     const allSectionKeys = new Set([
-      ...Object.keys(oldData || {}),
-      ...Object.keys(newData || {})
+      ...InspectionRecordManager.getSectionKeys(oldData),
+      ...InspectionRecordManager.getSectionKeys(newData)
     ]);
 
     for (const sectionKey of allSectionKeys) {
-      if (sectionKey === 'customSections' || sectionKey === 'sectionNotes') continue;
-      
-      const oldItems = oldData[sectionKey] || [];
-      const newItems = newData[sectionKey] || [];
-      
-      // Create lookup for old items
-      const oldItemsMap = new Map();
-      oldItems.forEach((item: any) => {
-        oldItemsMap.set(item.id, item);
-      });
-      
-      // Check each new item for changes
-      newItems.forEach((newItem: any) => {
-        const oldItem = oldItemsMap.get(newItem.id);
+      InspectionRecordManager.getSectionItems(newData, sectionKey).forEach(newItem => {
+        const oldItem = InspectionRecordManager.getItem(oldData, sectionKey, newItem.id);
         
         if (oldItem && oldItem.rating !== newItem.rating) {
           // Rating changed from existing item
@@ -548,7 +566,7 @@ export class InspectionDataManager {
             timestamp,
             category: sectionKey
           });
-        } else if (!oldItem && newItem.rating) {
+        } else if (!oldItem && InspectionRecordManager.isRated(newItem)) {
           // New item rated for the first time
           const newRatingLabel = this.getRatingLabel(newItem.rating);
           
@@ -580,7 +598,7 @@ export class InspectionDataManager {
   static async saveInspectionData(
     vehicleId: string, 
     inspectorId: string, // User ID for database fields
-    inspectionData: any,
+    inspectionData: InspectionRecord,
     userInitials?: string // User initials for team notes (falls back to inspectorId if not provided)
   ): Promise<boolean> {
     // Validate parameters
@@ -596,7 +614,7 @@ export class InspectionDataManager {
       // First, get current vehicle data to compare changes
       const { data: currentVehicle, error: fetchError } = await supabase
         .from('vehicles')
-        .select('inspection_data, team_notes')
+        .select('inspection_data, team_notes, stage_history, dealership_id, make, year, mileage, price, inspection_template')
         .eq('id', vehicleId)
         .maybeSingle();
 
@@ -604,15 +622,11 @@ export class InspectionDataManager {
         console.error('⚠️ Error fetching current vehicle data:', fetchError);
       }
 
-      const currentInspectionData = currentVehicle?.inspection_data || {};
+      const currentInspectionData = InspectionRecordManager.migrate(currentVehicle?.inspection_data);
       const currentTeamNotes = currentVehicle?.team_notes || [];
 
-      // Ensure customSections and sectionNotes are properly initialized
-      const dataToSave = {
-        ...inspectionData,
-        customSections: inspectionData.customSections || {},
-        sectionNotes: inspectionData.sectionNotes || {}
-      };
+      // Stamp the current schema version so older blobs are upgraded as they're saved
+      const dataToSave = InspectionRecordManager.serialize(inspectionData);
       
       console.log('📝 Data to save:', dataToSave);
 
@@ -625,13 +639,33 @@ export class InspectionDataManager {
 
       // Combine existing team notes with new ones (new notes first)
       const updatedTeamNotes = [...newTeamNotes, ...currentTeamNotes];
+
+      // The first save locks in the vehicle's template so later settings edits don't change its checklist
+      const settings = currentVehicle?.dealership_id ? await this.getSettings(currentVehicle.dealership_id) : null;
+      const templateSnapshot = currentVehicle?.inspection_template || (settings && currentVehicle
+        ? InspectionTemplateManager.createSnapshot(settings, currentVehicle, userInitials || inspectorId)
+        : null);
+
+      // Record any recon stages this save reaches (inspection started, section complete, ready)
+      const currentStageHistory = currentVehicle?.stage_history || [];
+      const updatedStageHistory = settings && templateSnapshot
+        ? ReconStageManager.deriveTransitions(
+            currentStageHistory,
+            dataToSave,
+            templateSnapshot.sections,
+            userInitials || inspectorId,
+            ProgressCalculator.getOptions(settings)
+          )
+        : currentStageHistory;
       
-      // Update the vehicles table with both inspection data and team notes
+      // Update the vehicles table with inspection data, team notes and stage history
       const { error: vehicleUpdateError } = await supabase
         .from('vehicles')
         .update({
           inspection_data: dataToSave,
           team_notes: updatedTeamNotes,
+          stage_history: updatedStageHistory,
+          inspection_template: templateSnapshot,
           updated_at: new Date().toISOString()
         })
         .eq('id', vehicleId);
@@ -649,6 +683,21 @@ export class InspectionDataManager {
         }
       }
 
+      // Raise work order lines for newly flagged items and record re-inspections of repaired ones
+      if (currentVehicle?.dealership_id) {
+        try {
+          await WorkOrderManager.syncWithInspection(
+            currentVehicle.dealership_id,
+            vehicleId,
+            currentInspectionData,
+            dataToSave,
+            userInitials || inspectorId
+          );
+        } catch (error) {
+          console.warn('⚠️ Work order sync failed, but vehicle data was saved:', error);
+        }
+      }
+
       // First, check if a checklist already exists for this vehicle
       // Use upsert to handle both insert and update cases automatically
       console.log('🔄 Upserting inspection checklist');
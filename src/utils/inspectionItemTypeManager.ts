@@ -0,0 +1,102 @@
+import { InspectionItem, InspectionItemType, InspectionMeasurement } from '../types/inspectionSettings';
+import { InspectionItemValue, InspectionRating } from '../types/inspectionRecord';
+
+// Worst first, so a measurement with several readings takes the lowest one
+const RATING_SEVERITY: InspectionRating[] = ['not-checked', 'N', 'F', 'G'];
+
+export class InspectionItemTypeManager {
+  static getType(item: Pick<InspectionItem, 'type'>): InspectionItemType {
+    return item.type || 'rating';
+  }
+
+  // Typed items are rated from what's entered instead of the G/F/N buttons
+  static isTyped(item: Pick<InspectionItem, 'type'>): boolean {
+    return this.getType(item) !== 'rating';
+  }
+
+  // One label per reading; a single unlabelled reading when none are set
+  static getReadingLabels(item: Pick<InspectionItem, 'measurement'>): string[] {
+    const labels = (item.measurement?.readingLabels || []).map(label => label.trim()).filter(Boolean);
+    return labels.length > 0 ? labels : [''];
+  }
+
+  static rateReading(measurement: InspectionMeasurement, reading: number): Exclude<InspectionRating, 'not-checked'> {
+    const atLeast = (threshold: number) =>
+      measurement.higherIsBetter ? reading >= threshold : reading <= threshold;
+    if (atLeast(measurement.greatAt)) return 'G';
+    if (atLeast(measurement.fairAt)) return 'F';
+    return 'N';
+  }
+
+  // Readings padded or trimmed to the item's current reading labels
+  static getReadings(item: Pick<InspectionItem, 'measurement'>, value: InspectionItemValue | undefined): (number | null)[] {
+    const readings = Array.isArray(value) ? value : [];
+    return this.getReadingLabels(item).map((_, index) => {
+      const reading = readings[index];
+      return typeof reading === 'number' && isFinite(reading) ? reading : null;
+    });
+  }
+
+  /**
+   * The rating a typed item gets for a value. Measurements stay not-checked until every
+   * reading is taken, free text counts as Great once filled in, and a choice carries its own rating.
+   */
+  static deriveRating(item: InspectionItem, value: InspectionItemValue | undefined): InspectionRating {
+    switch (this.getType(item)) {
+      case 'numeric': {
+        if (!item.measurement) return 'not-checked';
+        const readings = this.getReadings(item, value);
+        if (readings.some(reading => reading === null)) return 'not-checked';
+        const measurement = item.measurement;
+        return readings
+          .map(reading => this.rateReading(measurement, reading as number))
+          .reduce<InspectionRating>((worst, rating) =>
+            RATING_SEVERITY.indexOf(rating) < RATING_SEVERITY.indexOf(worst) ? rating : worst, 'G');
+      }
+      case 'multiple-choice':
+        return (item.choices || []).find(choice => choice.label === value)?.rating || 'not-checked';
+      case 'text':
+        return typeof value === 'string' && value.trim() ? 'G' : 'not-checked';
+      case 'pass-fail':
+        if (value === true) return 'G';
+        if (value === false) return 'N';
+        return 'not-checked';
+      default:
+        return 'not-checked';
+    }
+  }
+
+  static formatReading(measurement: InspectionMeasurement | undefined, reading: number): string {
+    const unit = measurement?.unit.trim() || '';
+    if (!unit) return String(reading);
+    // '/32"' reads as 7/32" rather than 7 /32"
+    return unit.startsWith('/') ? `${reading}${unit}` : `${reading} ${unit}`;
+  }
+
+  // "LF 7/32" · RF 6/32" · LR 4/32" · RR 4/32"" - for the checklist summary and the customer PDF
+  static formatValue(item: InspectionItem, value: InspectionItemValue | undefined): string | null {
+    if (value === undefined) return null;
+
+    switch (this.getType(item)) {
+      case 'numeric': {
+        const labels = this.getReadingLabels(item);
+        const parts = this.getReadings(item, value)
+          .map((reading, index) => {
+            if (reading === null) return null;
+            const formatted = this.formatReading(item.measurement, reading);
+            return labels[index] ? `${labels[index]} ${formatted}` : formatted;
+          })
+          .filter((part): part is string => part !== null);
+        return parts.length > 0 ? parts.join(' · ') : null;
+      }
+      case 'multiple-choice':
+      case 'text':
+        return typeof value === 'string' && value.trim() ? value.trim() : null;
+      case 'pass-fail':
+        if (typeof value !== 'boolean') return null;
+        return value ? 'Pass' : 'Fail';
+      default:
+        return null;
+    }
+  }
+}
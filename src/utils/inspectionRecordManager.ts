@@ -0,0 +1,363 @@
+import { InspectionItem } from '../types/inspectionSettings';
+import {
+  InspectionRating,
+  InspectionItemRecord,
+  InspectionItemValue,
+  InspectionRecord,
+  INSPECTION_RATINGS,
+  INSPECTION_RECORD_VERSION
+} from '../types/inspectionRecord';
+import {
+  DamageDiagramView,
+  DamagePin,
+  DamageSeverity,
+  DamageType,
+  DAMAGE_DIAGRAM_VIEW_LABELS,
+  DAMAGE_SEVERITY_CONFIGS,
+  DAMAGE_TYPE_CONFIGS
+} from '../types/damage';
+import { InspectionItemTypeManager } from './inspectionItemTypeManager';
+
+type JsonObject = Record<string, unknown>;
+
+// Top-level keys of the old blobs that are not sections
+const LEGACY_METADATA_KEYS = [
+  'schemaVersion', 'customSections', 'sectionNotes', 'damage', 'updatedAt',
+  // Fields of the original boolean VehicleInspection
+  'id', 'vehicleId', 'inspectorName', 'inspectionDate', 'completedDate', 'overallNotes'
+];
+
+// Ratings written by older builds, and the RatingLabel keys used in settings
+const RATING_ALIASES: Record<string, InspectionRating> = {
+  great: 'G',
+  fair: 'F',
+  'needs-attention': 'N',
+  'not-checked': 'not-checked'
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const asItemValue = (value: unknown): InspectionItemValue | undefined => {
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  if (Array.isArray(value)) return value.map(reading => (typeof reading === 'number' && isFinite(reading) ? reading : null));
+  return undefined;
+};
+
+// A key of the given config, or the fallback when the stored value isn't one
+const asOption = <T extends string>(value: unknown, options: Record<T, unknown>, fallback: T): T =>
+  typeof value === 'string' && value in options ? value as T : fallback;
+
+const asPercent = (value: unknown): number | undefined =>
+  typeof value === 'number' && isFinite(value) ? Math.min(100, Math.max(0, value)) : undefined;
+
+// "catalyticConverter" -> "Catalytic Converter"
+const humanizeKey = (key: string): string =>
+  key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[-_]+/g, ' ')
+    .replace(/\b\w/g, letter => letter.toUpperCase())
+    .trim();
+
+export class InspectionRecordManager {
+  static createEmpty(): InspectionRecord {
+    return {
+      schemaVersion: INSPECTION_RECORD_VERSION,
+      sections: {},
+      sectionNotes: {}
+    };
+  }
+
+  static normalizeRating(value: unknown): InspectionRating {
+    if (typeof value === 'boolean') return value ? 'G' : 'not-checked';
+    if (typeof value !== 'string') return 'not-checked';
+    if ((INSPECTION_RATINGS as string[]).includes(value)) return value as InspectionRating;
+    return RATING_ALIASES[value.toLowerCase()] || 'not-checked';
+  }
+
+  private static normalizeItems(value: unknown): InspectionItemRecord[] {
+    if (!Array.isArray(value)) return [];
+
+    const seen = new Set<string>();
+    const items: InspectionItemRecord[] = [];
+    value.forEach(entry => {
+      if (!isObject(entry)) return;
+      const id = asString(entry.id);
+      // The checklist only ever reads the first entry for an item
+      if (!id || seen.has(id)) return;
+      seen.add(id);
+
+      const item: InspectionItemRecord = {
+        id,
+        label: asString(entry.label) || humanizeKey(id),
+        rating: this.normalizeRating(entry.rating)
+      };
+      const value = asItemValue(entry.value);
+      const updatedBy = asString(entry.updatedBy);
+      const updatedAt = asString(entry.updatedAt);
+      if (value !== undefined) item.value = value;
+      if (updatedBy) item.updatedBy = updatedBy;
+      if (updatedAt) item.updatedAt = updatedAt;
+      items.push(item);
+    });
+    return items;
+  }
+
+  private static normalizeNotes(value: unknown): Record<string, string> {
+    if (!isObject(value)) return {};
+    return Object.entries(value).reduce<Record<string, string>>((notes, [key, note]) => {
+      if (typeof note === 'string' && note.trim()) notes[key] = note;
+      return notes;
+    }, {});
+  }
+
+  private static normalizeDamage(value: unknown): DamagePin[] {
+    if (!Array.isArray(value)) return [];
+
+    const seen = new Set<string>();
+    return value.reduce<DamagePin[]>((pins, entry) => {
+      if (!isObject(entry)) return pins;
+      const id = asString(entry.id);
+      const x = asPercent(entry.x);
+      const y = asPercent(entry.y);
+      if (!id || seen.has(id) || x === undefined || y === undefined) return pins;
+      seen.add(id);
+
+      const createdBy = asString(entry.createdBy) || '';
+      const createdAt = asString(entry.createdAt) || '';
+      const pin: DamagePin = {
+        id,
+        view: asOption<DamageDiagramView>(entry.view, DAMAGE_DIAGRAM_VIEW_LABELS, 'top'),
+        x,
+        y,
+        type: asOption<DamageType>(entry.type, DAMAGE_TYPE_CONFIGS, 'scratch'),
+        severity: asOption<DamageSeverity>(entry.severity, DAMAGE_SEVERITY_CONFIGS, 'minor'),
+        photoPaths: Array.isArray(entry.photoPaths) ? entry.photoPaths.filter((path): path is string => typeof path === 'string') : [],
+        createdBy,
+        createdAt,
+        updatedBy: asString(entry.updatedBy) || createdBy,
+        updatedAt: asString(entry.updatedAt) || createdAt
+      };
+      if (typeof entry.estimatedCost === 'number' && isFinite(entry.estimatedCost) && entry.estimatedCost >= 0) {
+        pin.estimatedCost = entry.estimatedCost;
+      }
+      const notes = asString(entry.notes);
+      if (notes) pin.notes = notes;
+      pins.push(pin);
+      return pins;
+    }, []);
+  }
+
+  // The original VehicleInspection stored each section as an object of booleans, e.g. { smokeTest: true, notes: '...' }
+  private static migrateBooleanSection(section: JsonObject): { items: InspectionItemRecord[]; notes?: string } {
+    const updatedBy = asString(section.completedBy);
+    const updatedAt = asString(section.completedDate);
+    const items = Object.entries(section)
+      .filter(([, value]) => typeof value === 'boolean')
+      .map(([key, value]) => {
+        const item: InspectionItemRecord = { id: key, label: humanizeKey(key), rating: this.normalizeRating(value) };
+        if (value && updatedBy) item.updatedBy = updatedBy;
+        if (value && updatedAt) item.updatedAt = updatedAt;
+        return item;
+      });
+    return { items, notes: asString(section.notes) };
+  }
+
+  // Version 1 and the boolean VehicleInspection: sections sit at the top level of the blob
+  private static migrateLegacy(data: JsonObject): InspectionRecord {
+    const record = this.createEmpty();
+    record.sectionNotes = this.normalizeNotes(data.sectionNotes);
+
+    const addSection = (key: string, value: unknown) => {
+      if (Array.isArray(value)) {
+        const items = this.normalizeItems(value);
+        if (items.length > 0 || !record.sections[key]) record.sections[key] = items;
+      } else if (isObject(value)) {
+        const { items, notes } = this.migrateBooleanSection(value);
+        if (items.length > 0) record.sections[key] = items;
+        if (notes && !record.sectionNotes[key]) record.sectionNotes[key] = notes;
+      }
+    };
+
+    // customSections was reserved for custom section data but custom sections were always saved at the top level
+    if (isObject(data.customSections)) {
+      Object.entries(data.customSections).forEach(([key, value]) => addSection(key, value));
+    }
+    Object.entries(data)
+      .filter(([key]) => !LEGACY_METADATA_KEYS.includes(key))
+      .forEach(([key, value]) => addSection(key, value));
+
+    const overallNotes = asString(data.overallNotes);
+    if (overallNotes && !record.sectionNotes.summary) record.sectionNotes.summary = overallNotes;
+
+    const updatedAt = asString(data.updatedAt);
+    if (updatedAt) record.updatedAt = updatedAt;
+    return record;
+  }
+
+  /**
+   * Brings any stored inspection blob up to the current schema. Everything that reads
+   * inspection_data goes through here, so older vehicles are upgraded on load and
+   * rewritten at the current version the next time they are saved.
+   */
+  static migrate(data: unknown): InspectionRecord {
+    if (!isObject(data)) return this.createEmpty();
+
+    const version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+    if (version < 2) return this.migrateLegacy(data);
+
+    const sections = isObject(data.sections) ? data.sections : {};
+    const record: InspectionRecord = {
+      schemaVersion: INSPECTION_RECORD_VERSION,
+      sections: Object.entries(sections).reduce<Record<string, InspectionItemRecord[]>>((acc, [key, items]) => {
+        acc[key] = this.normalizeItems(items);
+        return acc;
+      }, {}),
+      sectionNotes: this.normalizeNotes(data.sectionNotes)
+    };
+    const damage = this.normalizeDamage(data.damage);
+    if (damage.length > 0) record.damage = damage;
+    const updatedAt = asString(data.updatedAt);
+    if (updatedAt) record.updatedAt = updatedAt;
+    return record;
+  }
+
+  // What gets written to the database
+  static serialize(record: InspectionRecord): InspectionRecord {
+    return {
+      ...this.migrate(record),
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  static getSectionKeys(record: InspectionRecord | null | undefined): string[] {
+    return Object.keys(record?.sections || {});
+  }
+
+  static getSectionItems(record: InspectionRecord | null | undefined, sectionKey: string): InspectionItemRecord[] {
+    return record?.sections[sectionKey] || [];
+  }
+
+  static getItem(record: InspectionRecord | null | undefined, sectionKey: string, itemId: string): InspectionItemRecord | undefined {
+    return this.getSectionItems(record, sectionKey).find(item => item.id === itemId);
+  }
+
+  static getItemRating(record: InspectionRecord | null | undefined, sectionKey: string, itemId: string): InspectionRating {
+    return this.getItem(record, sectionKey, itemId)?.rating || 'not-checked';
+  }
+
+  static getItemValue(record: InspectionRecord | null | undefined, sectionKey: string, itemId: string): InspectionItemValue | undefined {
+    return this.getItem(record, sectionKey, itemId)?.value;
+  }
+
+  static getSectionNote(record: InspectionRecord | null | undefined, sectionKey: string): string {
+    return record?.sectionNotes[sectionKey] || '';
+  }
+
+  static isRated(item: Pick<InspectionItemRecord, 'rating'>): boolean {
+    return item.rating !== 'not-checked';
+  }
+
+  // Returns a new record so it can go straight into React state
+  static setItemRating(
+    record: InspectionRecord,
+    sectionKey: string,
+    item: Pick<InspectionItem, 'id' | 'label'>,
+    rating: InspectionRating,
+    updatedBy: string
+  ): InspectionRecord {
+    const updatedAt = new Date().toISOString();
+    const items = this.getSectionItems(record, sectionKey);
+    const existing = items.find(entry => entry.id === item.id);
+    const updatedItems = existing
+      ? items.map(entry => (entry.id === item.id ? { ...entry, rating, updatedBy, updatedAt } : entry))
+      : [...items, { id: item.id, label: item.label, rating, updatedBy, updatedAt }];
+
+    return {
+      ...record,
+      sections: { ...record.sections, [sectionKey]: updatedItems }
+    };
+  }
+
+  // Puts an item back exactly as given - used to replay edits queued while offline
+  static setItem(record: InspectionRecord, sectionKey: string, item: InspectionItemRecord): InspectionRecord {
+    const items = this.getSectionItems(record, sectionKey);
+    const updatedItems = items.some(entry => entry.id === item.id)
+      ? items.map(entry => (entry.id === item.id ? item : entry))
+      : [...items, item];
+    return {
+      ...record,
+      sections: { ...record.sections, [sectionKey]: updatedItems }
+    };
+  }
+
+  static setSectionNote(record: InspectionRecord, sectionKey: string, note: string): InspectionRecord {
+    const sectionNotes = { ...record.sectionNotes };
+    if (note.trim()) {
+      sectionNotes[sectionKey] = note;
+    } else {
+      delete sectionNotes[sectionKey];
+    }
+    return { ...record, sectionNotes };
+  }
+
+  // Records what was entered for a typed item along with the rating it works out to. undefined clears it
+  static setItemValue(
+    record: InspectionRecord,
+    sectionKey: string,
+    item: InspectionItem,
+    value: InspectionItemValue | undefined,
+    updatedBy: string
+  ): InspectionRecord {
+    const rating = InspectionItemTypeManager.deriveRating(item, value);
+    const updatedAt = new Date().toISOString();
+    const items = this.getSectionItems(record, sectionKey);
+    const existing = items.find(entry => entry.id === item.id);
+    const entry: InspectionItemRecord = {
+      ...(existing || { id: item.id, label: item.label }),
+      rating,
+      updatedBy,
+      updatedAt
+    };
+    if (value === undefined) {
+      delete entry.value;
+    } else {
+      entry.value = value;
+    }
+    const updatedItems = existing
+      ? items.map(current => (current.id === item.id ? entry : current))
+      : [...items, entry];
+
+    return {
+      ...record,
+      sections: { ...record.sections, [sectionKey]: updatedItems }
+    };
+  }
+
+  static getDamagePins(record: InspectionRecord | null | undefined): DamagePin[] {
+    return record?.damage || [];
+  }
+
+  static getDamagePin(record: InspectionRecord | null | undefined, pinId: string): DamagePin | undefined {
+    return this.getDamagePins(record).find(pin => pin.id === pinId);
+  }
+
+  // Adds the pin or replaces the one with the same id
+  static setDamagePin(record: InspectionRecord, pin: DamagePin): InspectionRecord {
+    const pins = this.getDamagePins(record);
+    const damage = pins.some(entry => entry.id === pin.id)
+      ? pins.map(entry => (entry.id === pin.id ? pin : entry))
+      : [...pins, pin];
+    return { ...record, damage };
+  }
+
+  static removeDamagePin(record: InspectionRecord, pinId: string): InspectionRecord {
+    const damage = this.getDamagePins(record).filter(pin => pin.id !== pinId);
+    const updated: InspectionRecord = { ...record, damage };
+    if (damage.length === 0) delete updated.damage;
+    return updated;
+  }
+}
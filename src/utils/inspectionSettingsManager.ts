@@ -1,4 +1,4 @@
-import { InspectionSettings, InspectionSection, InspectionItem, RatingLabel, DEFAULT_INSPECTION_SETTINGS } from '../types/inspectionSettings';
+import { InspectionSettings, InspectionSection, InspectionItem, InspectionTemplate, RatingLabel, DEFAULT_INSPECTION_SETTINGS } from '../types/inspectionSettings';
 import { supabase } from './supabaseClient';
 
 export class InspectionSettingsManager {
@@ -224,9 +224,15 @@ export class InspectionSettingsManager {
     if (!settings) return false;
 
     const initialLength = settings.sections.length;
+    const deletedKey = settings.sections.find(s => s.id === sectionId)?.key;
     settings.sections = settings.sections.filter(s => s.id !== sectionId);
     
     if (settings.sections.length < initialLength) {
+      // Drop the section from templates too (vehicles already snapshotted keep their copy)
+      settings.templates = (settings.templates || []).map(template => ({
+        ...template,
+        sectionKeys: template.sectionKeys.filter(key => key !== deletedKey)
+      }));
       await this.saveSettings(dealershipId, settings);
       return true;
     }
@@ -320,6 +326,66 @@ export class InspectionSettingsManager {
     return true;
   }
 
+  // Template Management
+  static async addTemplate(dealershipId: string, templateData: Omit<InspectionTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<InspectionTemplate | null> {
+    const settings = await this.getSettings(dealershipId);
+    if (!settings) return null;
+
+    const newTemplate: InspectionTemplate = {
+      ...templateData,
+      id: `template-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    // Only one template can be the fallback
+    const templates = (settings.templates || []).map(template =>
+      newTemplate.isDefault ? { ...template, isDefault: false } : template
+    );
+    settings.templates = [...templates, newTemplate].sort((a, b) => a.order - b.order);
+
+    await this.saveSettings(dealershipId, settings);
+    return newTemplate;
+  }
+
+  static async updateTemplate(dealershipId: string, templateId: string, updates: Partial<InspectionTemplate>): Promise<InspectionTemplate | null> {
+    const settings = await this.getSettings(dealershipId);
+    if (!settings) return null;
+
+    const templates = settings.templates || [];
+    const existing = templates.find(t => t.id === templateId);
+    if (!existing) return null;
+
+    const updatedTemplate: InspectionTemplate = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString()
+    };
+    settings.templates = templates
+      .map(t => {
+        if (t.id === templateId) return updatedTemplate;
+        return updates.isDefault ? { ...t, isDefault: false } : t;
+      })
+      .sort((a, b) => a.order - b.order);
+
+    await this.saveSettings(dealershipId, settings);
+    return updatedTemplate;
+  }
+
+  static async deleteTemplate(dealershipId: string, templateId: string): Promise<boolean> {
+    const settings = await this.getSettings(dealershipId);
+    if (!settings) return false;
+
+    const templates = settings.templates || [];
+    settings.templates = templates.filter(t => t.id !== templateId);
+
+    if (settings.templates.length < templates.length) {
+      await this.saveSettings(dealershipId, settings);
+      return true;
+    }
+    return false;
+  }
+
   // Rating Labels Management
   static async updateRatingLabel(dealershipId: string, labelKey: 'great' | 'fair' | 'needs-attention' | 'not-checked', updates: Partial<RatingLabel>): Promise<RatingLabel | null> {
     const settings = await this.getSettings(dealershipId);
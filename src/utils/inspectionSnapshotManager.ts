@@ -0,0 +1,139 @@
+import { InspectionItem, InspectionSection } from '../types/inspectionSettings';
+import { InspectionRating } from '../types/inspectionRecord';
+import { InspectionItemChange, InspectionSnapshot, InspectionSnapshotKind, InspectionState } from '../types/inspectionSnapshot';
+import { InspectionRecordManager } from './inspectionRecordManager';
+import { InspectionItemTypeManager } from './inspectionItemTypeManager';
+import { supabase } from './supabaseClient';
+
+// Shape of a row in the inspection_snapshots table
+interface InspectionSnapshotRow {
+  id: string;
+  dealership_id: string;
+  vehicle_id: string;
+  kind: InspectionSnapshotKind;
+  label: string | null;
+  inspection_data: unknown;
+  sections: InspectionSection[] | null;
+  created_by: string;
+  created_at: string;
+}
+
+const RATING_SCORES: Record<InspectionRating, number> = { 'not-checked': 0, N: 1, F: 2, G: 3 };
+
+export class InspectionSnapshotManager {
+  private static fromDatabaseFormat(data: InspectionSnapshotRow): InspectionSnapshot {
+    return {
+      id: data.id,
+      vehicleId: data.vehicle_id,
+      kind: data.kind,
+      label: data.label || undefined,
+      record: InspectionRecordManager.migrate(data.inspection_data),
+      sections: data.sections || [],
+      createdBy: data.created_by,
+      createdAt: data.created_at
+    };
+  }
+
+  // Oldest first, so the list reads intake -> post-repair -> pre-delivery
+  static async getSnapshots(dealershipId: string, vehicleId: string): Promise<InspectionSnapshot[]> {
+    const { data, error } = await supabase
+      .from('inspection_snapshots')
+      .select('*')
+      .eq('dealership_id', dealershipId)
+      .eq('vehicle_id', vehicleId)
+      .order('created_at', { ascending: true });
+    if (error) {
+      console.error('Error loading inspection snapshots from Supabase:', error);
+      return [];
+    }
+    return (data || []).map(this.fromDatabaseFormat);
+  }
+
+  static async createSnapshot(
+    dealershipId: string,
+    snapshot: Omit<InspectionSnapshot, 'id' | 'createdAt'>
+  ): Promise<InspectionSnapshot | null> {
+    const { data, error } = await supabase
+      .from('inspection_snapshots')
+      .insert([{
+        dealership_id: dealershipId,
+        vehicle_id: snapshot.vehicleId,
+        kind: snapshot.kind,
+        label: snapshot.label || null,
+        inspection_data: InspectionRecordManager.serialize(snapshot.record),
+        sections: snapshot.sections,
+        created_by: snapshot.createdBy
+      }])
+      .select()
+      .single();
+    if (error) {
+      console.error('Error creating inspection snapshot in Supabase:', error);
+      return null;
+    }
+    return this.fromDatabaseFormat(data);
+  }
+
+  private static getDirection(fromRating: InspectionRating, toRating: InspectionRating): InspectionItemChange['direction'] {
+    // Going to or from unrated isn't better or worse, just different
+    if (fromRating === 'not-checked' || toRating === 'not-checked' || fromRating === toRating) return 'changed';
+    return RATING_SCORES[toRating] > RATING_SCORES[fromRating] ? 'improved' : 'worse';
+  }
+
+  /**
+   * Items whose rating or measured value differs between two inspections, in the newer
+   * checklist's order. Items that only exist on one side are compared against not-checked.
+   */
+  static compare(from: InspectionState, to: InspectionState): InspectionItemChange[] {
+    const sections = new Map<string, { label: string; items: Map<string, InspectionItem | null> }>();
+    const addSection = (key: string, label: string) => {
+      if (!sections.has(key)) sections.set(key, { label, items: new Map() });
+      return sections.get(key)!;
+    };
+
+    [to, from].forEach(state => {
+      state.sections.forEach(section => {
+        const entry = addSection(section.key, section.label);
+        section.items.forEach(item => {
+          if (!entry.items.get(item.id)) entry.items.set(item.id, item);
+        });
+      });
+    });
+    // Ratings left behind by items that aren't on either checklist
+    [to, from].forEach(state => {
+      InspectionRecordManager.getSectionKeys(state.record).forEach(sectionKey => {
+        const entry = addSection(sectionKey, sectionKey);
+        InspectionRecordManager.getSectionItems(state.record, sectionKey).forEach(item => {
+          if (!entry.items.has(item.id)) entry.items.set(item.id, null);
+        });
+      });
+    });
+
+    const changes: InspectionItemChange[] = [];
+    sections.forEach((section, sectionKey) => {
+      section.items.forEach((definition, itemId) => {
+        const fromItem = InspectionRecordManager.getItem(from.record, sectionKey, itemId);
+        const toItem = InspectionRecordManager.getItem(to.record, sectionKey, itemId);
+        const fromRating = fromItem?.rating || 'not-checked';
+        const toRating = toItem?.rating || 'not-checked';
+        const fromValue = definition ? InspectionItemTypeManager.formatValue(definition, fromItem?.value) : null;
+        const toValue = definition ? InspectionItemTypeManager.formatValue(definition, toItem?.value) : null;
+        if (fromRating === toRating && fromValue === toValue) return;
+
+        changes.push({
+          sectionKey,
+          sectionLabel: section.label,
+          itemId,
+          itemLabel: definition?.label || toItem?.label || fromItem?.label || itemId,
+          fromRating,
+          toRating,
+          ...(fromValue ? { fromValue } : {}),
+          ...(toValue ? { toValue } : {}),
+          direction: this.getDirection(fromRating, toRating),
+          ...(toItem?.updatedBy ? { changedBy: toItem.updatedBy } : {}),
+          ...(toItem?.updatedAt ? { changedAt: toItem.updatedAt } : {})
+        });
+      });
+    });
+    return changes;
+  }
+}
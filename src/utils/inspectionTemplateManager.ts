@@ -0,0 +1,132 @@
+import { Vehicle } from '../types/vehicle';
+import {
+  InspectionSection,
+  InspectionSettings,
+  InspectionTemplate,
+  InspectionTemplateRule,
+  InspectionTemplateSnapshot
+} from '../types/inspectionSettings';
+import { ProgressCalculator } from './progressCalculator';
+
+type TemplateVehicle = Pick<Vehicle, 'make' | 'year' | 'mileage' | 'price' | 'inspectionTemplate'>;
+
+// Name shown when a vehicle is inspected against every active section
+export const FULL_CHECKLIST_NAME = 'Full checklist';
+
+const inRange = (value: number, min?: number, max?: number): boolean =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+export class InspectionTemplateManager {
+  static getActiveTemplates(settings: Pick<InspectionSettings, 'templates'> | null | undefined): InspectionTemplate[] {
+    return (settings?.templates || [])
+      .filter(template => template.isActive)
+      .sort((a, b) => a.order - b.order);
+  }
+
+  static hasCriteria(rule: InspectionTemplateRule): boolean {
+    return (rule.makes || []).some(make => make.trim()) ||
+      [rule.minYear, rule.maxYear, rule.minMileage, rule.maxMileage, rule.minPrice, rule.maxPrice]
+        .some(value => value !== undefined);
+  }
+
+  static matchesRule(rule: InspectionTemplateRule, vehicle: Pick<Vehicle, 'make' | 'year' | 'mileage' | 'price'>): boolean {
+    if (!this.hasCriteria(rule)) return false;
+
+    const makes = (rule.makes || []).map(make => make.trim().toLowerCase()).filter(Boolean);
+    if (makes.length > 0 && !makes.includes((vehicle.make || '').trim().toLowerCase())) return false;
+
+    return inRange(vehicle.year, rule.minYear, rule.maxYear) &&
+      inRange(vehicle.mileage, rule.minMileage, rule.maxMileage) &&
+      inRange(vehicle.price, rule.minPrice, rule.maxPrice);
+  }
+
+  // "Toyota, Lexus · 2019–2024 · up to 80,000 mi" for the template list
+  static describeRule(rule: InspectionTemplateRule): string {
+    const range = (min: number | undefined, max: number | undefined, format: (value: number) => string) => {
+      if (min !== undefined && max !== undefined) return `${format(min)}–${format(max)}`;
+      if (min !== undefined) return `${format(min)} and up`;
+      if (max !== undefined) return `up to ${format(max)}`;
+      return null;
+    };
+    const makes = (rule.makes || []).map(make => make.trim()).filter(Boolean);
+    const parts = [
+      makes.length > 0 ? makes.join(', ') : null,
+      range(rule.minYear, rule.maxYear, value => String(value)),
+      range(rule.minMileage, rule.maxMileage, value => `${value.toLocaleString()} mi`),
+      range(rule.minPrice, rule.maxPrice, value => value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }))
+    ].filter((part): part is string => part !== null);
+    return parts.length > 0 ? parts.join(' · ') : 'Manual choice only';
+  }
+
+  /**
+   * First active template whose rules match, then the default template. Returns null
+   * when neither applies and the vehicle gets the full checklist.
+   */
+  static selectTemplate(
+    settings: Pick<InspectionSettings, 'templates'> | null | undefined,
+    vehicle: Pick<Vehicle, 'make' | 'year' | 'mileage' | 'price'>
+  ): { template: InspectionTemplate | null; selectedBy: InspectionTemplateSnapshot['selectedBy'] } {
+    const templates = this.getActiveTemplates(settings);
+    const matched = templates.find(template => this.matchesRule(template.rules, vehicle));
+    if (matched) return { template: matched, selectedBy: 'rule' };
+    return { template: templates.find(template => template.isDefault) || null, selectedBy: 'default' };
+  }
+
+  // Copies of the active sections and items a template includes, so the snapshot can't be edited through settings
+  static resolveSections(sections: InspectionSection[], template: InspectionTemplate | null): InspectionSection[] {
+    return ProgressCalculator.getActiveSections(sections)
+      .filter(section => !template || template.sectionKeys.includes(section.key))
+      .map(section => {
+        const itemIds = template?.itemIds?.[section.key];
+        const items = ProgressCalculator.getActiveItems(section)
+          .filter(item => !itemIds || itemIds.includes(item.id))
+          .map(item => ({ ...item }));
+        return { ...section, items };
+      });
+  }
+
+  static createSnapshot(
+    settings: Pick<InspectionSettings, 'sections' | 'templates'>,
+    vehicle: Pick<Vehicle, 'make' | 'year' | 'mileage' | 'price'>,
+    snapshotBy?: string,
+    manualTemplateId?: string | null // undefined = pick by rules, null = full checklist chosen by hand
+  ): InspectionTemplateSnapshot {
+    let template: InspectionTemplate | null;
+    let selectedBy: InspectionTemplateSnapshot['selectedBy'];
+    if (manualTemplateId === undefined) {
+      ({ template, selectedBy } = this.selectTemplate(settings, vehicle));
+    } else {
+      template = (settings.templates || []).find(entry => entry.id === manualTemplateId) || null;
+      selectedBy = 'manual';
+    }
+
+    return {
+      templateId: template?.id || null,
+      templateName: template?.name || FULL_CHECKLIST_NAME,
+      selectedBy,
+      sections: this.resolveSections(settings.sections, template),
+      snapshotAt: new Date().toISOString(),
+      ...(snapshotBy ? { snapshotBy } : {})
+    };
+  }
+
+  /**
+   * The sections a vehicle is inspected against: its snapshot once it has one, otherwise
+   * what the rules would pick today (which is what gets snapshotted on the first save).
+   */
+  static getVehicleSections(settings: Pick<InspectionSettings, 'sections' | 'templates'> | null | undefined, vehicle: TemplateVehicle): InspectionSection[] {
+    if (vehicle.inspectionTemplate) return vehicle.inspectionTemplate.sections;
+    if (!settings) return [];
+    return this.resolveSections(settings.sections, this.selectTemplate(settings, vehicle).template);
+  }
+
+  static getVehicleTemplateName(settings: Pick<InspectionSettings, 'templates'> | null | undefined, vehicle: TemplateVehicle): string {
+    if (vehicle.inspectionTemplate) return vehicle.inspectionTemplate.templateName;
+    return this.selectTemplate(settings, vehicle).template?.name || FULL_CHECKLIST_NAME;
+  }
+
+  // Settings with the vehicle's sections swapped in, for components that take a whole InspectionSettings
+  static applyToSettings(settings: InspectionSettings, vehicle: TemplateVehicle): InspectionSettings {
+    return { ...settings, sections: this.getVehicleSections(settings, vehicle) };
+  }
+}
@@ -0,0 +1,128 @@
+import { Vehicle, TeamNote, getStockNumber } from '../types/vehicle';
+import { InspectionSection } from '../types/inspectionSettings';
+import { InspectionRecord, SectionProgress } from '../types/inspectionRecord';
+import { XlsxWriter, XlsxCell } from './xlsxWriter';
+import { ProgressCalculator } from './progressCalculator';
+
+export type InventoryExportFormat = 'csv' | 'xlsx';
+
+type SectionExportStatus = 'completed' | 'pending' | 'needs-attention' | 'in-progress' | 'not-started';
+
+const SECTION_STATUS_LABELS: Record<SectionExportStatus, string> = {
+  'completed': 'Complete',
+  'pending': 'Fair',
+  'needs-attention': 'Needs Attention',
+  'in-progress': 'In Progress',
+  'not-started': 'Not Started'
+};
+
+export class InventoryExportManager {
+  // Partially inspected sections are reported as "In Progress" instead of grey
+  static getSectionStatus(section: SectionProgress): SectionExportStatus {
+    if (section.status === 'not-started' && section.ratedItems > 0) return 'in-progress';
+    return section.status;
+  }
+
+  static getDaysInRecon(vehicle: Vehicle): number {
+    const start = new Date(vehicle.dateAcquired);
+    if (isNaN(start.getTime())) return 0;
+
+    // Stop the clock once the vehicle has left the recon pipeline
+    const endDate = vehicle.isSold && vehicle.soldDate
+      ? new Date(vehicle.soldDate)
+      : vehicle.isPending && vehicle.pendingDate
+        ? new Date(vehicle.pendingDate)
+        : new Date();
+
+    return Math.max(0, Math.floor((endDate.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)));
+  }
+
+  static getLatestTeamNote(vehicle: Vehicle): TeamNote | undefined {
+    const notes = vehicle.teamNotes || [];
+    if (notes.length === 0) return undefined;
+    return [...notes].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  }
+
+  static buildRows(
+    vehicles: Vehicle[],
+    sections: InspectionSection[],
+    inspectionData: Record<string, InspectionRecord>,
+    getVehicleSections: (vehicle: Vehicle) => InspectionSection[] = () => sections // Per-vehicle template sections
+  ): XlsxCell[][] {
+    // Same sections, in the same order, as the progress shown on the dashboard
+    const activeSections = ProgressCalculator.getActiveSections(sections)
+      .filter(section => ProgressCalculator.getActiveItems(section).length > 0);
+
+    const headers: XlsxCell[] = [
+      'Stock #', 'VIN', 'Year', 'Make', 'Model', 'Trim', 'Color', 'Mileage', 'Price',
+      'Location', 'Inventory Status', 'Date Acquired', 'Days in Recon',
+      ...activeSections.map(section => section.label),
+      'Latest Team Note', 'Latest Note By', 'Latest Note Date'
+    ];
+
+    const rows = vehicles.map(vehicle => {
+      // Sections left off the vehicle's inspection template are blank
+      const sectionProgress = ProgressCalculator.getVehicleProgress(inspectionData[vehicle.id], getVehicleSections(vehicle)).sections;
+      const latestNote = this.getLatestTeamNote(vehicle);
+      const inventoryStatus = vehicle.isSold ? 'Sold' : vehicle.isPending ? 'Pending' : 'Active';
+
+      return [
+        getStockNumber(vehicle.vin),
+        vehicle.vin,
+        vehicle.year,
+        vehicle.make,
+        vehicle.model,
+        vehicle.trim || '',
+        vehicle.color,
+        vehicle.mileage,
+        vehicle.price,
+        vehicle.location,
+        inventoryStatus,
+        vehicle.dateAcquired,
+        this.getDaysInRecon(vehicle),
+        ...activeSections.map(column => {
+          const section = sectionProgress.find(entry => entry.sectionKey === column.key);
+          return section ? SECTION_STATUS_LABELS[this.getSectionStatus(section)] : '';
+        }),
+        latestNote?.text || '',
+        latestNote?.userInitials || '',
+        latestNote ? new Date(latestNote.timestamp).toLocaleDateString() : ''
+      ];
+    });
+
+    return [headers, ...rows];
+  }
+
+  static toCsv(rows: XlsxCell[][]): string {
+    const escape = (cell: XlsxCell) => {
+      const value = cell === null || cell === undefined ? '' : String(cell);
+      return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    };
+    return rows.map(row => row.map(escape).join(',')).join('\r\n');
+  }
+
+  static exportVehicles(
+    vehicles: Vehicle[],
+    sections: InspectionSection[],
+    inspectionData: Record<string, InspectionRecord>,
+    format: InventoryExportFormat,
+    getVehicleSections?: (vehicle: Vehicle) => InspectionSection[]
+  ): void {
+    const rows = this.buildRows(vehicles, sections, inspectionData, getVehicleSections);
+    const fileName = `recon-inventory-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    const blob = format === 'xlsx'
+      ? XlsxWriter.build('Inventory', rows, rows[0].map((_, i) => (i === 1 ? 20 : i === rows[0].length - 3 ? 50 : 14)))
+      // BOM so Excel picks up UTF-8 when the CSV is double-clicked
+      : new Blob(['\uFEFF' + this.toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
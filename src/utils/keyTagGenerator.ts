@@ -0,0 +1,179 @@
+import { Vehicle, getStockNumber } from '../types/vehicle';
+import { VinDecoder } from './vinDecoder';
+import { QRCode } from './qrCode';
+
+// Key tag QR codes read "RECONPRO:<VIN>:<stock number>"
+export const KEY_TAG_PREFIX = 'RECONPRO';
+
+export interface ScanResult {
+  vin?: string;
+  stockNumber?: string;
+  source: 'key-tag' | 'vin-barcode' | 'manual';
+}
+
+export class KeyTagGenerator {
+  static getTagPayload(vehicle: Pick<Vehicle, 'vin'>): string {
+    const vin = vehicle.vin.toUpperCase();
+    return `${KEY_TAG_PREFIX}:${vin}:${getStockNumber(vin)}`;
+  }
+
+  /**
+   * Works out what a scanned or typed code refers to: one of our key tags, a VIN barcode
+   * (door jamb / windshield Code 39, sometimes with a leading "I" for imports), or a stock number.
+   * Returns null for anything else.
+   */
+  static parseScan(text: string, source: ScanResult['source'] = 'vin-barcode'): ScanResult | null {
+    const code = text.trim().toUpperCase();
+    if (!code) return null;
+
+    if (code.startsWith(`${KEY_TAG_PREFIX}:`)) {
+      const [, vin, stockNumber] = code.split(':');
+      return vin && VinDecoder.isValidFormat(vin) ? { vin, stockNumber: stockNumber || getStockNumber(vin), source: 'key-tag' } : null;
+    }
+
+    const compact = code.replace(/[\s-]/g, '');
+    const vin = compact.length === 18 && compact.startsWith('I') ? compact.slice(1) : compact;
+    if (vin.length === 17 && VinDecoder.isValidFormat(vin)) {
+      return { vin, stockNumber: getStockNumber(vin), source };
+    }
+
+    if (/^[A-Z0-9]{6}$/.test(compact)) {
+      return { stockNumber: compact, source: 'manual' };
+    }
+
+    return null;
+  }
+
+  private static escapeHtml(value: string | number | undefined): string {
+    return String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  // Printable hang tags, several per page, each with a QR code, stock number and vehicle summary
+  static generateKeyTagsHTML(vehicles: Vehicle[], dealershipName?: string): string {
+    const tags = vehicles.map(vehicle => {
+      const stockNumber = getStockNumber(vehicle.vin);
+      const spot = vehicle.parkingSpot ? ` · ${vehicle.parkingSpot}` : '';
+      return `
+        <div class="tag">
+          <div class="hole"></div>
+          ${dealershipName ? `<div class="dealer">${this.escapeHtml(dealershipName)}</div>` : ''}
+          <div class="qr">${QRCode.toSvg(this.getTagPayload(vehicle), 132)}</div>
+          <div class="stock">#${this.escapeHtml(stockNumber)}</div>
+          <div class="title">${this.escapeHtml(vehicle.year)} ${this.escapeHtml(vehicle.make)} ${this.escapeHtml(vehicle.model)}</div>
+          <div class="detail">${this.escapeHtml(vehicle.trim)}${vehicle.trim ? ' · ' : ''}${this.escapeHtml(vehicle.color)}</div>
+          ${vehicle.location ? `<div class="detail">${this.escapeHtml(vehicle.location)}${this.escapeHtml(spot)}</div>` : ''}
+          <div class="vin">${this.escapeHtml(vehicle.vin.toUpperCase())}</div>
+        </div>`;
+    }).join('');
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        <title>Key Tags${vehicles.length === 1 ? ` - #${getStockNumber(vehicles[0].vin)}` : ` (${vehicles.length})`}</title>
+        <style>
+          body {
+            font-family: 'Helvetica', 'Arial', sans-serif;
+            color: #111;
+            margin: 0;
+            padding: 20px;
+          }
+          .toolbar {
+            margin-bottom: 16px;
+          }
+          .toolbar button {
+            font-size: 14px;
+            padding: 8px 16px;
+            border: none;
+            border-radius: 6px;
+            background: #2563eb;
+            color: #fff;
+            cursor: pointer;
+          }
+          .sheet {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+          }
+          .tag {
+            width: 2.25in;
+            height: 3.75in;
+            box-sizing: border-box;
+            border: 1px dashed #9ca3af;
+            border-radius: 10px;
+            padding: 8px 10px;
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            text-align: center;
+            page-break-inside: avoid;
+            break-inside: avoid;
+          }
+          .hole {
+            width: 14px;
+            height: 14px;
+            border: 1px solid #9ca3af;
+            border-radius: 50%;
+            margin-bottom: 6px;
+          }
+          .dealer {
+            font-size: 10px;
+            text-transform: uppercase;
+            letter-spacing: 0.05em;
+            color: #6b7280;
+          }
+          .qr svg {
+            display: block;
+            margin: 4px auto;
+          }
+          .stock {
+            font-size: 26px;
+            font-weight: bold;
+            letter-spacing: 0.04em;
+          }
+          .title {
+            font-size: 13px;
+            font-weight: bold;
+            margin-top: 2px;
+          }
+          .detail {
+            font-size: 11px;
+            color: #374151;
+          }
+          .vin {
+            margin-top: auto;
+            font-family: 'Courier New', monospace;
+            font-size: 10px;
+            letter-spacing: 0.03em;
+          }
+          @media print {
+            body {
+              padding: 0;
+            }
+            .toolbar {
+              display: none;
+            }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="toolbar"><button onclick="window.print()">Print ${vehicles.length} Tag${vehicles.length !== 1 ? 's' : ''}</button></div>
+        <div class="sheet">${tags}</div>
+      </body>
+      </html>
+    `;
+  }
+
+  static printKeyTags(vehicles: Vehicle[], dealershipName?: string) {
+    const newWindow = window.open('', '_blank');
+    if (newWindow) {
+      newWindow.document.write(this.generateKeyTagsHTML(vehicles, dealershipName));
+      newWindow.document.close();
+    }
+  }
+}
@@ -1,4 +1,5 @@
-import { Location, LocationType, LocationSettings, LocationColorSettings, LOCATION_TYPE_CONFIGS } from '../types/location';
+import { Location, LocationType, LocationSettings, LocationColorSettings, LocationStay, LocationDwellStats, LocationCapacityCheck, LotLayout, LOCATION_TYPE_CONFIGS, DEFAULT_LOCATION_SETTINGS } from '../types/location';
+import { Vehicle, getStockNumber } from '../types/vehicle';
 import { supabase } from './supabaseClient';
 
 export class LocationManager {
@@ -10,6 +11,7 @@ export class LocationManager {
       description: location.description || null,
       is_active: location.isActive,
       capacity: location.capacity || null,
+      layout: location.layout || null,
       color: location.color || '#3B82F6'
     };
   }
@@ -23,6 +25,7 @@ export class LocationManager {
       description: data.description,
       isActive: data.is_active,
       capacity: data.capacity,
+      layout: data.layout ?? undefined,
       color: data.color,
       createdAt: data.created_at,
       updatedAt: data.updated_at
@@ -56,8 +59,16 @@ export class LocationManager {
   }
 
   static async updateLocation(dealershipId: string, locationId: string, updates: Partial<Location>): Promise<Location | null> {
-    const dbUpdates = this.toDatabaseFormat(updates as any);
-    dbUpdates.updated_at = new Date().toISOString();
+    // Only write the fields being changed, so e.g. toggling isActive doesn't wipe the capacity or layout
+    const mapped = this.toDatabaseFormat(updates as any);
+    const dbUpdates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if ('name' in updates) dbUpdates.name = mapped.name;
+    if ('type' in updates) dbUpdates.type = mapped.type;
+    if ('description' in updates) dbUpdates.description = mapped.description;
+    if ('isActive' in updates) dbUpdates.is_active = mapped.is_active;
+    if ('capacity' in updates) dbUpdates.capacity = mapped.capacity;
+    if ('layout' in updates) dbUpdates.layout = mapped.layout;
+    if ('color' in updates) dbUpdates.color = mapped.color;
     
     const { data, error } = await supabase
       .from('locations')
@@ -140,11 +151,7 @@ export class LocationManager {
         
         // Merge with default settings
         const mergedSettings: LocationSettings = {
-          defaultLocationType: 'on-site',
-          allowCustomLocations: true,
-          requireLocationForVehicles: true,
-          autoAssignLocation: false,
-          locationCapacityTracking: true,
+          ...DEFAULT_LOCATION_SETTINGS,
           ...storedSettings
         };
         
@@ -166,20 +173,14 @@ export class LocationManager {
     
     if (data) {
       try {
-        return JSON.parse(data);
+        return { ...DEFAULT_LOCATION_SETTINGS, ...JSON.parse(data) };
       } catch (error) {
         console.error('Error parsing location settings from localStorage:', error);
       }
     }
 
     // Default settings
-    const defaultSettings: LocationSettings = {
-      defaultLocationType: 'on-site',
-      allowCustomLocations: true,
-      requireLocationForVehicles: true,
-      autoAssignLocation: false,
-      locationCapacityTracking: true
-    };
+    const defaultSettings: LocationSettings = { ...DEFAULT_LOCATION_SETTINGS };
 
     this.saveLocationSettingsToLocalStorage(dealershipId, defaultSettings);
     return defaultSettings;
@@ -216,6 +217,130 @@ export class LocationManager {
     }
   }
 
+  /**
+   * Periods spent at each location, oldest first. The first stay starts at dateAcquired;
+   * a sold vehicle's last stay ends on the sale date.
+   */
+  static getLocationStays(
+    vehicle: Pick<Vehicle, 'id' | 'location' | 'dateAcquired' | 'locationHistory' | 'status' | 'soldDate'>,
+    now: Date = new Date()
+  ): LocationStay[] {
+    const history = [...(vehicle.locationHistory || [])]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const stays: LocationStay[] = [];
+
+    const acquiredAt = new Date(vehicle.dateAcquired);
+    const initialLocation = history.length > 0 ? history[0].fromLocation : vehicle.location;
+    if (initialLocation && !isNaN(acquiredAt.getTime())) {
+      stays.push({ vehicleId: vehicle.id, location: initialLocation, enteredAt: acquiredAt.toISOString(), dwellDays: 0 });
+    }
+
+    history.forEach(entry => {
+      const previous = stays[stays.length - 1];
+      if (previous) previous.leftAt = entry.timestamp;
+      stays.push({
+        vehicleId: vehicle.id,
+        location: entry.location,
+        enteredAt: entry.timestamp,
+        dwellDays: 0,
+        movedInBy: entry.changedBy,
+        reason: entry.reason
+      });
+    });
+
+    const last = stays[stays.length - 1];
+    if (last && vehicle.status === 'sold' && vehicle.soldDate) {
+      last.leftAt = new Date(vehicle.soldDate).toISOString();
+    }
+
+    stays.forEach(stay => {
+      const end = stay.leftAt ? new Date(stay.leftAt) : now;
+      stay.dwellDays = Math.max(0, (end.getTime() - new Date(stay.enteredAt).getTime()) / (1000 * 60 * 60 * 24));
+    });
+    return stays;
+  }
+
+  // Dwell statistics keyed by location name, across every vehicle that has passed through
+  static getDwellStatsByLocation(vehicles: Vehicle[], now: Date = new Date()): Record<string, LocationDwellStats> {
+    const statsByLocation: Record<string, LocationDwellStats> = {};
+
+    vehicles.forEach(vehicle => {
+      this.getLocationStays(vehicle, now).forEach(stay => {
+        const stats = statsByLocation[stay.location] || (statsByLocation[stay.location] = {
+          location: stay.location,
+          stays: [],
+          vehicleCount: 0,
+          currentCount: 0
+        });
+        stats.stays.push(stay);
+      });
+    });
+
+    Object.values(statsByLocation).forEach(stats => {
+      const completedStays = stats.stays.filter(stay => stay.leftAt);
+      stats.vehicleCount = new Set(stats.stays.map(stay => stay.vehicleId)).size;
+      stats.currentCount = stats.stays.length - completedStays.length;
+      stats.averageDwellDays = completedStays.length > 0
+        ? completedStays.reduce((sum, stay) => sum + stay.dwellDays, 0) / completedStays.length
+        : undefined;
+      stats.stays.sort((a, b) => new Date(b.enteredAt).getTime() - new Date(a.enteredAt).getTime());
+    });
+
+    return statsByLocation;
+  }
+
+  // Lot map helpers - rows are lettered A..Z, then AA, AB, ...
+  static getRowLabel(rowIndex: number): string {
+    let label = '';
+    let n = rowIndex;
+    do {
+      label = String.fromCharCode(65 + (n % 26)) + label;
+      n = Math.floor(n / 26) - 1;
+    } while (n >= 0);
+    return label;
+  }
+
+  static getSpotLabel(rowIndex: number, spotIndex: number): string {
+    return `${this.getRowLabel(rowIndex)}${spotIndex + 1}`;
+  }
+
+  // Every spot label in the layout, one array per row
+  static getLayoutSpots(layout: LotLayout): string[][] {
+    return Array.from({ length: layout.rows }, (_, row) =>
+      Array.from({ length: layout.spotsPerRow }, (_, spot) => this.getSpotLabel(row, spot))
+    );
+  }
+
+  static isValidSpot(layout: LotLayout, spot: string): boolean {
+    return this.getLayoutSpots(layout).some(row => row.includes(spot));
+  }
+
+  // Vehicles parked at this location, keyed by spot. Spots outside the current layout are ignored.
+  static getSpotAssignments(location: Location, vehicles: Vehicle[]): Record<string, Vehicle> {
+    const assignments: Record<string, Vehicle> = {};
+    if (!location.layout) return assignments;
+    const layout = location.layout;
+
+    vehicles
+      .filter(vehicle => vehicle.location === location.name && vehicle.parkingSpot && vehicle.status !== 'sold')
+      .forEach(vehicle => {
+        if (vehicle.parkingSpot && this.isValidSpot(layout, vehicle.parkingSpot)) {
+          assignments[vehicle.parkingSpot] = vehicle;
+        }
+      });
+    return assignments;
+  }
+
+  // Matches stock numbers (last 6 of the VIN) and full VINs, exact stock number first
+  static findVehiclesByStockNumber(vehicles: Vehicle[], query: string): Vehicle[] {
+    const term = query.trim().toUpperCase();
+    if (!term) return [];
+
+    return vehicles
+      .filter(vehicle => vehicle.vin.toUpperCase().includes(term))
+      .sort((a, b) => Number(getStockNumber(b.vin).toUpperCase() === term) - Number(getStockNumber(a.vin).toUpperCase() === term));
+  }
+
   static getLocationTypeConfig(type: LocationType) {
     return LOCATION_TYPE_CONFIGS[type];
   }
@@ -225,9 +350,9 @@ export class LocationManager {
       .from('vehicles')
       .select('id')
       .eq('dealership_id', dealershipId)
-      .eq('location', locationName)
-      .eq('isSold', false)
-      .eq('isPending', false);
+      .eq('location_name', locationName)
+      .eq('is_sold', false)
+      .eq('is_pending', false);
     if (error) return 0;
     return data.length;
   }
@@ -235,23 +360,80 @@ export class LocationManager {
   static async getAllVehicleLocationCounts(dealershipId: string): Promise<Record<string, number>> {
     const { data, error } = await supabase
       .from('vehicles')
-      .select('location')
+      .select('location_name')
       .eq('dealership_id', dealershipId)
-      .eq('isSold', false)
-      .eq('isPending', false)
-      .not('location', 'is', null);
+      .eq('is_sold', false)
+      .eq('is_pending', false)
+      .not('location_name', 'is', null);
     if (error) return {};
 
     const locationCounts: Record<string, number> = {};
     data.forEach(vehicle => {
-      if (vehicle.location) {
-        locationCounts[vehicle.location] = (locationCounts[vehicle.location] || 0) + 1;
+      if (vehicle.location_name) {
+        locationCounts[vehicle.location_name] = (locationCounts[vehicle.location_name] || 0) + 1;
       }
     });
 
     return locationCounts;
   }
 
+  /**
+   * Checks whether moving a vehicle into a location would take it past its capacity.
+   * Vehicles already at the location don't count against it again.
+   */
+  static async checkLocationCapacity(
+    dealershipId: string,
+    locationName: string,
+    vehicleId?: string
+  ): Promise<LocationCapacityCheck> {
+    const result: LocationCapacityCheck = {
+      location: locationName,
+      currentCount: 0,
+      isOverCapacity: false,
+      allowed: true
+    };
+
+    const settings = await this.getLocationSettings(dealershipId);
+    if (!settings.locationCapacityTracking || !locationName.trim()) return result;
+
+    const locations = await this.getLocations(dealershipId);
+    const target = locations.find(loc => loc.name.toLowerCase() === locationName.trim().toLowerCase());
+    if (!target?.capacity) return result;
+
+    const counts = await this.getAllVehicleLocationCounts(dealershipId);
+    result.location = target.name;
+    result.capacity = target.capacity;
+    result.currentCount = counts[target.name] || 0;
+
+    if (vehicleId) {
+      const { data } = await supabase
+        .from('vehicles')
+        .select('location_name')
+        .eq('id', vehicleId)
+        .eq('dealership_id', dealershipId)
+        .single();
+      // Already parked there - saving doesn't add another vehicle
+      if (data?.location_name === target.name) return result;
+    }
+
+    if (result.currentCount + 1 > target.capacity) {
+      result.isOverCapacity = true;
+      result.allowed = settings.capacityEnforcement !== 'block';
+      result.message = `${target.name} is at capacity (${result.currentCount}/${target.capacity} vehicles).`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Locations with a capacity set that currently hold more vehicles than it allows
+   */
+  static getOverCapacityLocations(locations: Location[], counts: Record<string, number>): Location[] {
+    return locations
+      .filter(loc => loc.isActive && loc.capacity && (counts[loc.name] || 0) > loc.capacity)
+      .sort((a, b) => (counts[b.name] || 0) / (b.capacity || 1) - (counts[a.name] || 0) / (a.capacity || 1));
+  }
+
   // Location Color Settings Management - Using Supabase with localStorage fallback
   static async getLocationColorSettings(dealershipId: string): Promise<LocationColorSettings> {
     try {
@@ -0,0 +1,325 @@
+import { InspectionItemRecord, InspectionRecord } from '../types/inspectionRecord';
+import { DamagePin } from '../types/damage';
+import {
+  InspectionSyncConflict,
+  InspectionSyncResult,
+  PendingInspectionChange,
+  PendingPhotoUpload
+} from '../types/offlineSync';
+import { InspectionDataManager } from './inspectionDataManager';
+import { InspectionRecordManager } from './inspectionRecordManager';
+import { PhotoManager } from './photoManager';
+import { supabase } from './supabaseClient';
+
+const DB_NAME = 'reconpro-offline';
+const DB_VERSION = 1;
+
+type StoreName = 'inspectionChanges' | 'photoUploads' | 'syncConflicts';
+const STORES: StoreName[] = ['inspectionChanges', 'photoUploads', 'syncConflicts'];
+
+const PHOTO_BUCKET = 'reconpro-vehicles';
+
+// Wraps an IDBRequest in a promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const sameItem = (a: InspectionItemRecord, b: InspectionItemRecord): boolean =>
+  a.rating === b.rating && JSON.stringify(a.value ?? null) === JSON.stringify(b.value ?? null);
+
+// Everything but who touched it last and when
+const samePin = (a: DamagePin, b: DamagePin): boolean =>
+  JSON.stringify({ ...a, updatedBy: '', updatedAt: '' }) === JSON.stringify({ ...b, updatedBy: '', updatedAt: '' });
+
+/**
+ * Keeps checklist edits and photos in IndexedDB until they reach Supabase, so nothing is
+ * lost when a tech loses signal. Every edit is queued first and then synced; a failed sync
+ * simply leaves it queued for the next attempt.
+ */
+export class OfflineSyncManager {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  // One sync at a time per vehicle; later requests wait for the one in flight
+  private static syncChains: Record<string, Promise<unknown>> = {};
+
+  private static openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          STORES.forEach(store => {
+            if (!request.result.objectStoreNames.contains(store)) {
+              request.result.createObjectStore(store, { keyPath: 'id' });
+            }
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static async getAll<T>(store: StoreName): Promise<T[]> {
+    const db = await this.openDb();
+    return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+  }
+
+  private static async get<T>(store: StoreName, id: string): Promise<T | undefined> {
+    const db = await this.openDb();
+    return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(id) as IDBRequest<T | undefined>);
+  }
+
+  private static async put<T>(store: StoreName, value: T): Promise<void> {
+    const db = await this.openDb();
+    await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value));
+  }
+
+  private static async remove(store: StoreName, id: string): Promise<void> {
+    const db = await this.openDb();
+    await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(id));
+  }
+
+  static isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine;
+  }
+
+  static async getPendingChanges(vehicleId: string): Promise<PendingInspectionChange[]> {
+    const changes = await this.getAll<PendingInspectionChange>('inspectionChanges');
+    return changes
+      .filter(change => change.vehicleId === vehicleId)
+      .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  static async getPendingPhotos(vehicleId: string): Promise<PendingPhotoUpload[]> {
+    const photos = await this.getAll<PendingPhotoUpload>('photoUploads');
+    return photos
+      .filter(photo => photo.vehicleId === vehicleId)
+      .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  static async getConflicts(vehicleId: string): Promise<InspectionSyncConflict[]> {
+    const conflicts = await this.getAll<InspectionSyncConflict>('syncConflicts');
+    return conflicts.filter(conflict => conflict.change.vehicleId === vehicleId);
+  }
+
+  /**
+   * Queues an item edit. baseItem is the item as it was before the edit; when the item
+   * already has a queued edit, that edit's base is kept because the server hasn't seen either.
+   */
+  static async queueItemChange(
+    vehicleId: string,
+    sectionKey: string,
+    item: InspectionItemRecord,
+    baseItem: InspectionItemRecord | undefined,
+    userInitials: string
+  ): Promise<void> {
+    const id = `${vehicleId}:${sectionKey}:${item.id}`;
+    const existing = await this.get<PendingInspectionChange>('inspectionChanges', id);
+    await this.put<PendingInspectionChange>('inspectionChanges', {
+      id,
+      vehicleId,
+      sectionKey,
+      kind: 'item',
+      item,
+      ...(existing
+        ? (existing.baseUpdatedAt ? { baseUpdatedAt: existing.baseUpdatedAt } : {})
+        : (baseItem?.updatedAt ? { baseUpdatedAt: baseItem.updatedAt } : {})),
+      userInitials,
+      queuedAt: new Date().toISOString()
+    });
+    // A fresh edit is made on top of whatever the device shows now, which supersedes an open conflict
+    await this.remove('syncConflicts', id);
+  }
+
+  static async queueNoteChange(
+    vehicleId: string,
+    sectionKey: string,
+    note: string,
+    baseNote: string,
+    userInitials: string
+  ): Promise<void> {
+    const id = `${vehicleId}:${sectionKey}:notes`;
+    const existing = await this.get<PendingInspectionChange>('inspectionChanges', id);
+    await this.put<PendingInspectionChange>('inspectionChanges', {
+      id,
+      vehicleId,
+      sectionKey,
+      kind: 'note',
+      note,
+      baseNote: existing ? existing.baseNote ?? '' : baseNote,
+      userInitials,
+      queuedAt: new Date().toISOString()
+    });
+    await this.remove('syncConflicts', id);
+  }
+
+  // Queues an added, edited or deleted damage pin. basePin is the pin before the edit, if it existed
+  static async queueDamageChange(
+    vehicleId: string,
+    pin: DamagePin,
+    removed: boolean,
+    basePin: DamagePin | undefined,
+    userInitials: string
+  ): Promise<void> {
+    const id = `${vehicleId}:damage:${pin.id}`;
+    const existing = await this.get<PendingInspectionChange>('inspectionChanges', id);
+    const baseUpdatedAt = existing ? existing.baseUpdatedAt : basePin?.updatedAt;
+    await this.put<PendingInspectionChange>('inspectionChanges', {
+      id,
+      vehicleId,
+      sectionKey: 'damage',
+      kind: 'damage',
+      pin,
+      ...(removed ? { removed } : {}),
+      ...(baseUpdatedAt ? { baseUpdatedAt } : {}),
+      userInitials,
+      queuedAt: new Date().toISOString()
+    });
+    await this.remove('syncConflicts', id);
+  }
+
+  static async queuePhoto(photo: Omit<PendingPhotoUpload, 'id' | 'queuedAt'>): Promise<PendingPhotoUpload> {
+    const pending: PendingPhotoUpload = { ...photo, id: photo.path, queuedAt: new Date().toISOString() };
+    await this.put('photoUploads', pending);
+    return pending;
+  }
+
+  static async removePendingPhoto(id: string): Promise<void> {
+    await this.remove('photoUploads', id);
+  }
+
+  // The record as this device sees it: the last synced copy with queued edits laid on top
+  static applyPendingChanges(record: InspectionRecord, changes: PendingInspectionChange[]): InspectionRecord {
+    return changes.reduce((current, change) => {
+      if (change.kind === 'note') return InspectionRecordManager.setSectionNote(current, change.sectionKey, change.note || '');
+      if (change.kind === 'damage') {
+        if (!change.pin) return current;
+        return change.removed
+          ? InspectionRecordManager.removeDamagePin(current, change.pin.id)
+          : InspectionRecordManager.setDamagePin(current, change.pin);
+      }
+      return change.item ? InspectionRecordManager.setItem(current, change.sectionKey, change.item) : current;
+    }, record);
+  }
+
+  private static findConflict(record: InspectionRecord, change: PendingInspectionChange): InspectionSyncConflict | null {
+    const detectedAt = new Date().toISOString();
+    if (change.kind === 'note') {
+      const serverNote = InspectionRecordManager.getSectionNote(record, change.sectionKey);
+      const changedOnServer = serverNote !== (change.baseNote || '');
+      return changedOnServer && serverNote !== (change.note || '')
+        ? { id: change.id, change, serverNote, detectedAt }
+        : null;
+    }
+
+    if (change.kind === 'damage') {
+      if (!change.pin) return null;
+      const serverPin = InspectionRecordManager.getDamagePin(record, change.pin.id);
+      // A pin that was never synced can't have been changed by anyone else
+      if (!change.baseUpdatedAt) return null;
+      const changedOnServer = !serverPin || serverPin.updatedAt !== change.baseUpdatedAt;
+      if (!changedOnServer) return null;
+      // Both sides deleted it, or both made the same edit
+      if (!serverPin ? change.removed : !change.removed && samePin(serverPin, change.pin)) return null;
+      return { id: change.id, change, ...(serverPin ? { serverPin } : {}), detectedAt };
+    }
+
+    if (!change.item) return null;
+    const serverItem = InspectionRecordManager.getItem(record, change.sectionKey, change.item.id);
+    const changedOnServer = !!serverItem && serverItem.updatedAt !== change.baseUpdatedAt;
+    return serverItem && changedOnServer && !sameItem(serverItem, change.item)
+      ? { id: change.id, change, serverItem, detectedAt }
+      : null;
+  }
+
+  private static async uploadPendingPhotos(vehicleId: string): Promise<void> {
+    for (const photo of await this.getPendingPhotos(vehicleId)) {
+      if (photo.dealershipId && photo.details) {
+        await PhotoManager.uploadPhoto(photo.dealershipId, photo, photo, photo.details);
+      } else {
+        // Queued before photo details were kept
+        const { error } = await supabase.storage
+          .from(PHOTO_BUCKET)
+          .upload(photo.path, photo.file, { cacheControl: '3600', upsert: false });
+        if (error) {
+          console.error('Error uploading queued photo to Supabase:', error);
+          throw error;
+        }
+      }
+      await this.remove('photoUploads', photo.id);
+    }
+  }
+
+  private static async runSync(vehicleId: string, inspectorId: string, userInitials: string): Promise<InspectionSyncResult> {
+    const changes = await this.getPendingChanges(vehicleId);
+    let synced: InspectionRecord | null = null;
+    const newConflicts: InspectionSyncConflict[] = [];
+
+    if (changes.length > 0) {
+      // Merge onto what's on the server now rather than overwriting it with this device's copy
+      const server = await InspectionDataManager.fetchInspectionData(vehicleId);
+      const applied: PendingInspectionChange[] = [];
+      changes.forEach(change => {
+        const conflict = this.findConflict(server, change);
+        if (conflict) {
+          newConflicts.push(conflict);
+        } else {
+          applied.push(change);
+        }
+      });
+
+      synced = this.applyPendingChanges(server, applied);
+      if (applied.length > 0) {
+        await InspectionDataManager.saveInspectionData(vehicleId, inspectorId, synced, userInitials);
+      }
+
+      for (const conflict of newConflicts) {
+        await this.put('syncConflicts', conflict);
+      }
+      // Edits made while this sync was running stay queued for the next one
+      for (const change of changes) {
+        const current = await this.get<PendingInspectionChange>('inspectionChanges', change.id);
+        if (current?.queuedAt === change.queuedAt) await this.remove('inspectionChanges', change.id);
+      }
+    }
+
+    await this.uploadPendingPhotos(vehicleId);
+    return { record: synced, newConflicts };
+  }
+
+  // Throws when Supabase can't be reached; everything not yet synced stays queued
+  static syncVehicle(vehicleId: string, inspectorId: string, userInitials: string): Promise<InspectionSyncResult> {
+    const previous = this.syncChains[vehicleId] || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.runSync(vehicleId, inspectorId, userInitials));
+    this.syncChains[vehicleId] = next;
+    return next;
+  }
+
+  /**
+   * 'mine' queues this device's edit again on top of the server's version, so the next
+   * sync overwrites it. 'theirs' drops the edit and keeps what's on the server.
+   */
+  static async resolveConflict(conflict: InspectionSyncConflict, keep: 'mine' | 'theirs'): Promise<void> {
+    if (keep === 'mine') {
+      const { change } = conflict;
+      const queuedAt = new Date().toISOString();
+      let rebased: PendingInspectionChange;
+      if (change.kind === 'note') {
+        rebased = { ...change, baseNote: conflict.serverNote || '', queuedAt };
+      } else if (change.kind === 'damage') {
+        rebased = { ...change, baseUpdatedAt: conflict.serverPin?.updatedAt, queuedAt };
+      } else {
+        rebased = { ...change, baseUpdatedAt: conflict.serverItem?.updatedAt, queuedAt };
+      }
+      await this.put('inspectionChanges', rebased);
+    }
+    await this.remove('syncConflicts', conflict.id);
+  }
+}
@@ -0,0 +1,258 @@
+import { PartOrder, PartOrderStatus } from '../types/partOrder';
+import { ReconCostManager } from './reconCostManager';
+import { supabase } from './supabaseClient';
+import { TodoManager } from './todoManager';
+
+// Shape of a row in the part_orders table
+interface PartOrderRow {
+  id: string;
+  dealership_id: string;
+  vehicle_id: string;
+  vehicle_name: string;
+  part_number: string | null;
+  description: string;
+  supplier_id: string | null;
+  supplier_name: string | null;
+  cost: number | string | null;
+  ordered_date: string | null;
+  eta_date: string | null;
+  received_date: string | null;
+  inspection_section_key: string | null;
+  inspection_item_id: string | null;
+  inspection_item_label: string | null;
+  todo_id: string | null;
+  recon_cost_id: string | null;
+  notes: string | null;
+  created_by: string;
+  received_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+type NewPartOrder = Omit<PartOrder, 'id' | 'todoId' | 'reconCostId' | 'receivedDate' | 'receivedBy' | 'createdAt' | 'updatedAt'>;
+
+export class PartOrderManager {
+  // Helper function to convert frontend PartOrder to database format
+  private static toDatabaseFormat(part: Partial<Omit<PartOrder, 'id' | 'createdAt' | 'updatedAt'>>): Partial<PartOrderRow> {
+    const dbData: Partial<PartOrderRow> = {};
+    if (part.vehicleId !== undefined) dbData.vehicle_id = part.vehicleId;
+    if (part.vehicleName !== undefined) dbData.vehicle_name = part.vehicleName;
+    if (part.partNumber !== undefined) dbData.part_number = part.partNumber || null;
+    if (part.description !== undefined) dbData.description = part.description;
+    if (part.supplierId !== undefined) dbData.supplier_id = part.supplierId || null;
+    if (part.supplierName !== undefined) dbData.supplier_name = part.supplierName || null;
+    if ('cost' in part) dbData.cost = part.cost ?? null; // Passed as undefined to clear it
+    if (part.orderedDate !== undefined) dbData.ordered_date = part.orderedDate || null;
+    if (part.etaDate !== undefined) dbData.eta_date = part.etaDate || null;
+    if (part.receivedDate !== undefined) dbData.received_date = part.receivedDate || null;
+    if (part.inspectionSectionKey !== undefined) dbData.inspection_section_key = part.inspectionSectionKey || null;
+    if (part.inspectionItemId !== undefined) dbData.inspection_item_id = part.inspectionItemId || null;
+    if (part.inspectionItemLabel !== undefined) dbData.inspection_item_label = part.inspectionItemLabel || null;
+    if (part.todoId !== undefined) dbData.todo_id = part.todoId || null;
+    if (part.reconCostId !== undefined) dbData.recon_cost_id = part.reconCostId || null;
+    if (part.notes !== undefined) dbData.notes = part.notes || null;
+    if (part.createdBy !== undefined) dbData.created_by = part.createdBy;
+    if (part.receivedBy !== undefined) dbData.received_by = part.receivedBy || null;
+    return dbData;
+  }
+
+  // Helper function to convert database format to frontend PartOrder
+  private static fromDatabaseFormat(data: PartOrderRow): PartOrder {
+    return {
+      id: data.id,
+      vehicleId: data.vehicle_id,
+      vehicleName: data.vehicle_name,
+      partNumber: data.part_number || undefined,
+      description: data.description,
+      supplierId: data.supplier_id || undefined,
+      supplierName: data.supplier_name || undefined,
+      cost: data.cost !== null && data.cost !== undefined ? Number(data.cost) : undefined,
+      orderedDate: data.ordered_date || undefined,
+      etaDate: data.eta_date || undefined,
+      receivedDate: data.received_date || undefined,
+      inspectionSectionKey: data.inspection_section_key || undefined,
+      inspectionItemId: data.inspection_item_id || undefined,
+      inspectionItemLabel: data.inspection_item_label || undefined,
+      todoId: data.todo_id || undefined,
+      reconCostId: data.recon_cost_id || undefined,
+      notes: data.notes || undefined,
+      createdBy: data.created_by,
+      receivedBy: data.received_by || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at
+    };
+  }
+
+  static getStatus(part: PartOrder, today: string = new Date().toISOString().split('T')[0]): PartOrderStatus {
+    if (part.receivedDate) return 'received';
+    if (!part.orderedDate) return 'needed';
+    return part.etaDate && part.etaDate < today ? 'late' : 'ordered';
+  }
+
+  private static getTodoTitle(part: Pick<PartOrder, 'description' | 'partNumber'>): string {
+    return `Parts: ${part.description}${part.partNumber ? ` (#${part.partNumber})` : ''}`;
+  }
+
+  static async getParts(dealershipId: string, vehicleId: string): Promise<PartOrder[]> {
+    const { data, error } = await supabase
+      .from('part_orders')
+      .select('*')
+      .eq('dealership_id', dealershipId)
+      .eq('vehicle_id', vehicleId)
+      .order('created_at', { ascending: false });
+    if (error) {
+      console.error('Error loading part orders from Supabase:', error);
+      return [];
+    }
+    return (data || []).map(row => this.fromDatabaseFormat(row));
+  }
+
+  // Parts not yet received per vehicle for the whole dealership - used by the Dashboard waiting-on-parts filter
+  static async getOutstandingCountsByVehicle(dealershipId: string): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('part_orders')
+      .select('vehicle_id')
+      .eq('dealership_id', dealershipId)
+      .is('received_date', null);
+    if (error) {
+      console.error('Error loading outstanding part orders from Supabase:', error);
+      return {};
+    }
+
+    return (data || []).reduce((counts: Record<string, number>, row: Pick<PartOrderRow, 'vehicle_id'>) => {
+      counts[row.vehicle_id] = (counts[row.vehicle_id] || 0) + 1;
+      return counts;
+    }, {});
+  }
+
+  /**
+   * Records the part and opens a 'parts-order' todo for it, due on the ETA, so it shows
+   * on the todo list and calendar until the part is received.
+   */
+  static async addPart(dealershipId: string, part: NewPartOrder, assignedTo: string): Promise<PartOrder | null> {
+    const dbData = this.toDatabaseFormat(part);
+    dbData.dealership_id = dealershipId;
+
+    const { data, error } = await supabase
+      .from('part_orders')
+      .insert([dbData])
+      .select()
+      .single();
+    if (error) {
+      console.error('Error adding part order to Supabase:', error);
+      return null;
+    }
+
+    const saved = this.fromDatabaseFormat(data);
+    const todo = await TodoManager.addTodo(dealershipId, {
+      title: this.getTodoTitle(saved),
+      description: [saved.supplierName && `Supplier: ${saved.supplierName}`, saved.inspectionItemLabel && `For: ${saved.inspectionItemLabel}`]
+        .filter(Boolean)
+        .join('\n') || undefined,
+      priority: 'medium',
+      status: saved.orderedDate ? 'in-progress' : 'pending',
+      category: 'parts-order',
+      assignedTo,
+      assignedBy: part.createdBy,
+      dueDate: saved.etaDate,
+      vehicleId: saved.vehicleId,
+      vehicleName: saved.vehicleName
+    });
+    if (!todo) {
+      console.error('Error creating the parts-order todo');
+      return saved;
+    }
+    return (await this.updatePart(dealershipId, saved.id, { todoId: todo.id })) || saved;
+  }
+
+  // Keeps the linked todo's title, due date and status in step with the order
+  static async updatePart(
+    dealershipId: string,
+    partId: string,
+    updates: Partial<Omit<PartOrder, 'id' | 'vehicleId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<PartOrder | null> {
+    const dbUpdates = this.toDatabaseFormat(updates);
+    dbUpdates.updated_at = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('part_orders')
+      .update(dbUpdates)
+      .eq('id', partId)
+      .eq('dealership_id', dealershipId)
+      .select()
+      .single();
+    if (error) {
+      console.error('Error updating part order in Supabase:', error);
+      return null;
+    }
+
+    const saved = this.fromDatabaseFormat(data);
+    const touchesTodo = ['description', 'partNumber', 'etaDate', 'orderedDate'].some(key => key in updates);
+    if (saved.todoId && !saved.receivedDate && touchesTodo) {
+      await TodoManager.updateTodo(dealershipId, saved.todoId, {
+        title: this.getTodoTitle(saved),
+        dueDate: saved.etaDate || '', // Clears the old due date when the ETA is removed
+        status: saved.orderedDate ? 'in-progress' : 'pending'
+      });
+    }
+    return saved;
+  }
+
+  /**
+   * Marks the part received, closes its todo and posts its cost to the vehicle's recon
+   * costs as parts, linked to the same inspection item.
+   */
+  static async receivePart(dealershipId: string, part: PartOrder, receivedDate: string, receivedBy: string): Promise<PartOrder | null> {
+    let reconCostId = part.reconCostId;
+    if (part.cost !== undefined && !reconCostId) {
+      const cost = await ReconCostManager.addCostItem(dealershipId, {
+        vehicleId: part.vehicleId,
+        category: 'parts',
+        description: `${part.description}${part.partNumber ? ` (#${part.partNumber})` : ''}`,
+        quantity: 1,
+        unitCost: part.cost,
+        vendorId: part.supplierId,
+        vendorName: part.supplierName,
+        inspectionSectionKey: part.inspectionSectionKey,
+        inspectionItemId: part.inspectionItemId,
+        inspectionItemLabel: part.inspectionItemLabel,
+        incurredDate: receivedDate,
+        createdBy: receivedBy
+      });
+      if (!cost) {
+        console.error('Error posting part cost to recon costs');
+      }
+      reconCostId = cost?.id;
+    }
+
+    const saved = await this.updatePart(dealershipId, part.id, {
+      receivedDate,
+      receivedBy,
+      reconCostId: reconCostId || ''
+    });
+    if (!saved) return null;
+
+    if (saved.todoId && !(await TodoManager.updateTodo(dealershipId, saved.todoId, { status: 'completed' }))) {
+      console.error('Error closing the parts-order todo');
+    }
+    return saved;
+  }
+
+  // An order that won't be needed any more cancels its open todo
+  static async deletePart(dealershipId: string, part: PartOrder): Promise<boolean> {
+    const { error } = await supabase
+      .from('part_orders')
+      .delete()
+      .eq('id', part.id)
+      .eq('dealership_id', dealershipId);
+    if (error) {
+      console.error('Error deleting part order from Supabase:', error);
+      return false;
+    }
+
+    if (part.todoId && !part.receivedDate) {
+      await TodoManager.updateTodo(dealershipId, part.todoId, { status: 'cancelled' });
+    }
+    return true;
+  }
+}
@@ -1,7 +1,15 @@
 import { Vehicle } from '../types/vehicle';
 import { InspectionSettings } from '../types/inspectionSettings';
 import { ProgressCalculator } from '../utils/progressCalculator';
-import { InspectionDataManager, DEFAULT_INSPECTION_DATA } from './inspectionDataManager';
+import { InspectionRecord } from '../types/inspectionRecord';
+import { InspectionDataManager } from './inspectionDataManager';
+import { InspectionRecordManager } from './inspectionRecordManager';
+import { InspectionItemTypeManager } from './inspectionItemTypeManager';
+import { DamageDiagramManager } from './damageDiagramManager';
+
+// Typed item values are free text from the techs
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 
 export interface CustomerComment {
   id: string;
@@ -31,18 +39,15 @@ export class PDFGenerator {
   static async generateCustomerInspectionPDF(data: CustomerPdfData, inspectorId: string): Promise<string> {
     const { vehicle, inspectionSettings, customerComments, dealershipInfo, inspectionDate, inspectorName } = data;
     
-    // Get ALL sections in order (not just customer-visible)
-    const allSections = inspectionSettings.sections
-      .slice() // shallow copy
-      .sort((a, b) => a.order - b.order);
+    // Get ALL active sections in order (not just customer-visible)
+    const allSections = ProgressCalculator.getActiveSections(inspectionSettings.sections);
 
     // Load inspection data from the database (not localStorage)
-    let vehicleInspection: any = {};
+    let vehicleInspection: InspectionRecord;
     try {
-      const dbData = await InspectionDataManager.loadInspectionData(vehicle.id, inspectorId);
-      vehicleInspection = dbData || DEFAULT_INSPECTION_DATA;
+      vehicleInspection = await InspectionDataManager.loadInspectionData(vehicle.id, inspectorId);
     } catch (error) {
-      vehicleInspection = DEFAULT_INSPECTION_DATA;
+      vehicleInspection = InspectionRecordManager.createEmpty();
     }
 
     const formatDate = (dateStr: string) => {
@@ -106,31 +111,16 @@ export class PDFGenerator {
       }
     };
 
-    // Section status calculation logic (matching VehicleDetail exactly)
-    const sectionKeys = ['emissions', 'cosmetic', 'mechanical', 'cleaning', 'photos'];
-    const getSectionStatus = (sectionKey: string, inspectionData: any): string => {
-      const items = inspectionData?.[sectionKey] || [];
-      if (!Array.isArray(items) || items.length === 0) return 'not-started';
-      // If any item is 'not-checked', return 'not-started' (grey)
-      if (items.some((item: any) => item.rating === 'not-checked')) return 'not-started';
-      if (items.some((item: any) => item.rating === 'N')) return 'needs-attention';
-      if (items.some((item: any) => item.rating === 'F')) return 'pending';
-      if (items.every((item: any) => item.rating === 'G')) return 'completed';
-      return 'not-started';
-    };
-    const sectionStatuses: Record<string, string> = sectionKeys.reduce((acc, key) => {
-      acc[key] = getSectionStatus(key, vehicleInspection);
-      return acc;
-    }, {} as Record<string, string>);
-    // Count sections that are 'completed', 'pending', or 'needs-attention' as completed for progress (matching VehicleDetail)
-    const completedSections = sectionKeys.filter(key => {
-      const status = sectionStatuses[key];
-      return status === 'completed' || status === 'pending' || status === 'needs-attention';
-    }).length;
-    const needsAttention = sectionKeys.some(key => sectionStatuses[key] === 'needs-attention');
-    const inProgress = !needsAttention && sectionKeys.some(key => sectionStatuses[key] === 'pending');
-    const allCompleted = sectionKeys.filter(key => sectionStatuses[key] === 'completed').length === sectionKeys.length;
-    const progress = Math.round((completedSections / sectionKeys.length) * 100);
+    // Same status and progress rules as the dashboard and vehicle page
+    const vehicleProgress = ProgressCalculator.getVehicleProgress(
+      vehicleInspection,
+      inspectionSettings.sections,
+      ProgressCalculator.getOptions(inspectionSettings)
+    );
+    const allCompleted = ProgressCalculator.isFrontlineReady(vehicle, vehicleProgress);
+    const needsAttention = !allCompleted && vehicleProgress.readiness === 'issues';
+    const inProgress = !needsAttention && !allCompleted && vehicleProgress.sections.some(section => section.ratedItems > 0);
+    const progress = vehicleProgress.percent;
 
     let statusBadgeHtml = '';
     if (needsAttention) {
@@ -237,6 +227,11 @@ export class PDFGenerator {
           .item-name {
             font-weight: 500;
           }
+          .item-value {
+            font-size: 12px;
+            color: #4b5563;
+            margin-top: 2px;
+          }
           .item-rating {
             font-weight: bold;
             font-size: 13px;
@@ -518,17 +513,31 @@ export class PDFGenerator {
           ` : ''}
           
           ${allSections.map(section => {
-            const sectionItems = vehicleInspection[section.key] || [];
+            // Items come from the live settings so removed items don't linger on the report
+            const sectionItems = ProgressCalculator.getActiveItems(section).map(item => ({
+              label: item.label,
+              rating: InspectionRecordManager.getItemRating(vehicleInspection, section.key, item.id),
+              value: InspectionItemTypeManager.formatValue(item, InspectionRecordManager.getItemValue(vehicleInspection, section.key, item.id))
+            }));
+            const hasRatings = sectionItems.some(item => InspectionRecordManager.isRated(item));
+            const sectionNote = InspectionRecordManager.getSectionNote(vehicleInspection, section.key);
+            // Repair estimates stay internal on the customer report
+            const damageHtml = DamageDiagramManager.isEnabled(section)
+              ? DamageDiagramManager.renderReportHtml(InspectionRecordManager.getDamagePins(vehicleInspection))
+              : '';
             return `
               <div class="section">
                 <div class="section-header">
                   <h2>${section.icon} ${section.label}</h2>
                 </div>
                 <div class="section-content">
-                  ${sectionItems.length > 0 ? `
+                  ${hasRatings ? `
                     ${sectionItems.map(item => `
                       <div class="inspection-item">
-                        <div class="item-name">${item.label}</div>
+                        <div>
+                          <div class="item-name">${item.label}</div>
+                          ${item.value ? `<div class="item-value">${escapeHtml(item.value)}</div>` : ''}
+                        </div>
                         <div class="item-rating ${getRatingClass(item.rating)}">
                           ${getRatingLabel(item.rating)}
                         </div>
@@ -537,12 +546,13 @@ export class PDFGenerator {
                   ` : `
                     <p>No inspection data available for this section.</p>
                   `}
-                  ${vehicleInspection.sectionNotes && vehicleInspection.sectionNotes[section.key] ? `
+                  ${sectionNote ? `
                     <div class="section-notes">
                       <h4>Section Notes:</h4>
-                      <p>${vehicleInspection.sectionNotes[section.key]}</p>
+                      <p>${sectionNote}</p>
                     </div>
                   ` : ''}
+                  ${damageHtml}
                 </div>
               </div>
             `;
@@ -0,0 +1,459 @@
+import { PhotoTag, PreparedPhoto, VehiclePhoto, VehiclePhotoDetails } from '../types/vehiclePhoto';
+import { ZipEntry, ZipWriter } from './zipWriter';
+import { supabase } from './supabaseClient';
+
+// Shape of a row in the vehicle_photos table
+interface VehiclePhotoRow {
+  id: string;
+  dealership_id: string;
+  vehicle_id: string;
+  section_key: string;
+  item_id: string;
+  path: string;
+  thumbnail_path: string | null;
+  caption: string | null;
+  tags: PhotoTag[] | null;
+  sort_order: number | null;
+  taken_at: string | null;
+  width: number | null;
+  height: number | null;
+  uploaded_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+type PhotoLocation = Pick<VehiclePhoto, 'vehicleId' | 'sectionKey' | 'itemId' | 'path'>;
+
+const PHOTO_BUCKET = 'reconpro-vehicles';
+const THUMBNAIL_FOLDER = 'thumbnails';
+const MAX_DIMENSION = 2048;
+const THUMBNAIL_DIMENSION = 400;
+
+// Words in a section key or item id that suggest a tag for its photos
+const TAG_KEYWORDS: Array<{ tag: PhotoTag; words: string[] }> = [
+  { tag: 'damage', words: ['damage'] },
+  { tag: 'interior', words: ['interior'] },
+  { tag: 'mechanical', words: ['mechanical', 'engine', 'emissions', 'brake', 'tire'] },
+  { tag: 'exterior', words: ['exterior', 'cosmetic', 'paint', 'body'] }
+];
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('This browser could not read the image'));
+    };
+    image.src = url;
+  });
+
+// Browsers apply the EXIF orientation when drawing, so the output is always upright
+const resizeImage = (image: HTMLImageElement, maxDimension: number, quality: number): Promise<{ blob: Blob; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.round(image.naturalWidth * scale);
+    const height = Math.round(image.naturalHeight * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Canvas is not available'));
+      return;
+    }
+    context.drawImage(image, 0, 0, width, height);
+    canvas.toBlob(blob => (blob ? resolve({ blob, width, height }) : reject(new Error('Could not encode the image'))), 'image/jpeg', quality);
+  });
+
+// Finds a tag in one TIFF image file directory and returns its value offset
+const findIfdEntry = (view: DataView, tiffStart: number, ifdOffset: number, tag: number, littleEndian: boolean): number | null => {
+  const ifdStart = tiffStart + ifdOffset;
+  const count = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (view.getUint16(entry, littleEndian) === tag) {
+      return view.getUint32(entry + 8, littleEndian);
+    }
+  }
+  return null;
+};
+
+// EXIF dates look like "2024:05:01 14:32:10", in the camera's local time
+const readExifDateString = (view: DataView, start: number): string | undefined => {
+  const text = Array.from({ length: 19 }, (_, i) => String.fromCharCode(view.getUint8(start + i))).join('');
+  const match = text.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return undefined;
+  const date = new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+export class PhotoManager {
+  // Helper function to convert frontend VehiclePhoto to database format
+  private static toDatabaseFormat(dealershipId: string, photo: Omit<VehiclePhoto, 'url' | 'thumbnailUrl'>): Partial<VehiclePhotoRow> {
+    return {
+      dealership_id: dealershipId,
+      vehicle_id: photo.vehicleId,
+      section_key: photo.sectionKey,
+      item_id: photo.itemId,
+      path: photo.path,
+      thumbnail_path: photo.thumbnailPath || null,
+      caption: photo.caption || null,
+      tags: photo.tags,
+      sort_order: photo.sortOrder ?? null,
+      taken_at: photo.takenAt || null,
+      width: photo.width ?? null,
+      height: photo.height ?? null,
+      uploaded_by: photo.uploadedBy
+    };
+  }
+
+  // Helper function to convert database format to frontend VehiclePhoto
+  private static fromDatabaseFormat(data: VehiclePhotoRow): VehiclePhoto {
+    const url = PhotoManager.getPublicUrl(data.path);
+    return {
+      id: data.id,
+      vehicleId: data.vehicle_id,
+      sectionKey: data.section_key,
+      itemId: data.item_id,
+      path: data.path,
+      thumbnailPath: data.thumbnail_path || undefined,
+      caption: data.caption || undefined,
+      tags: data.tags || [],
+      sortOrder: data.sort_order ?? undefined,
+      takenAt: data.taken_at || undefined,
+      width: data.width ?? undefined,
+      height: data.height ?? undefined,
+      uploadedBy: data.uploaded_by,
+      url,
+      thumbnailUrl: data.thumbnail_path ? PhotoManager.getPublicUrl(data.thumbnail_path) : url,
+      createdAt: data.created_at
+    };
+  }
+
+  static getPublicUrl(path: string): string {
+    return supabase.storage.from(PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+  }
+
+  // "{vehicleId}/{section}/{item}/{file}" -> "{vehicleId}/thumbnails/{section}/{item}/{file}"
+  static getThumbnailPath(path: string): string {
+    const [vehicleId, ...rest] = path.split('/');
+    return [vehicleId, THUMBNAIL_FOLDER, ...rest].join('/');
+  }
+
+  static buildPath(vehicleId: string, sectionKey: string, itemId: string, extension: string): string {
+    return `${vehicleId}/${sectionKey}/${itemId}/${Date.now()}_${Math.random().toString(36).substring(2)}.${extension}`;
+  }
+
+  static getFileName(path: string): string {
+    return path.split('/').pop() || path;
+  }
+
+  static getDefaultTags(sectionKey: string, itemId: string): PhotoTag[] {
+    const text = `${sectionKey} ${itemId}`.toLowerCase();
+    const match = TAG_KEYWORDS.find(({ words }) => words.some(word => text.includes(word)));
+    return match ? [match.tag] : [];
+  }
+
+  // Tags, capture time and size for a newly prepared photo
+  static createDetails(location: Pick<VehiclePhoto, 'sectionKey' | 'itemId'>, prepared: PreparedPhoto, uploadedBy: string): VehiclePhotoDetails {
+    return {
+      tags: this.getDefaultTags(location.sectionKey, location.itemId),
+      takenAt: prepared.takenAt,
+      width: prepared.width,
+      height: prepared.height,
+      uploadedBy
+    };
+  }
+
+  // When the photo was taken according to the camera, for JPEGs that carry EXIF data
+  static async readExifDate(file: Blob): Promise<string | undefined> {
+    try {
+      // The EXIF block sits in the first few kilobytes of the file
+      const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+      if (view.getUint16(0) !== 0xFFD8) return undefined;
+
+      let offset = 2;
+      while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        if (marker === 0xFFDA) return undefined; // Image data starts, no EXIF found
+        if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+          const tiffStart = offset + 10;
+          const littleEndian = view.getUint16(tiffStart) === 0x4949;
+          const ifd0 = view.getUint32(tiffStart + 4, littleEndian);
+          const exifIfd = findIfdEntry(view, tiffStart, ifd0, 0x8769, littleEndian);
+          const original = exifIfd !== null ? findIfdEntry(view, tiffStart, exifIfd, 0x9003, littleEndian) : null;
+          const modified = findIfdEntry(view, tiffStart, ifd0, 0x0132, littleEndian);
+          const dateOffset = original ?? modified;
+          return dateOffset !== null ? readExifDateString(view, tiffStart + dateOffset) : undefined;
+        }
+        offset += 2 + view.getUint16(offset + 2);
+      }
+    } catch (error) {
+      console.warn('Could not read EXIF data from photo:', error);
+    }
+    return undefined;
+  }
+
+  /**
+   * Shrinks a photo to at most 2048px on its longest side, re-encodes it as JPEG and makes
+   * a 400px thumbnail. Files the browser can't decode (e.g. HEIC outside Safari) are kept
+   * as they are, without a thumbnail.
+   */
+  static async preparePhoto(file: File): Promise<PreparedPhoto> {
+    const takenAt = await this.readExifDate(file);
+    try {
+      const image = await loadImage(file);
+      const full = await resizeImage(image, MAX_DIMENSION, 0.82);
+      const thumbnail = await resizeImage(image, THUMBNAIL_DIMENSION, 0.7);
+      return { file: full.blob, thumbnail: thumbnail.blob, width: full.width, height: full.height, takenAt, extension: 'jpg' };
+    } catch (error) {
+      console.warn('Could not compress photo, uploading the original:', error);
+      return { file, takenAt, extension: file.name.split('.').pop()?.toLowerCase() || 'jpg' };
+    }
+  }
+
+  // Returns an error message to show when the photo bucket can't be reached, otherwise null
+  static async checkBucket(): Promise<string | null> {
+    const { error } = await supabase.storage.from(PHOTO_BUCKET).list('', { limit: 1 });
+    if (!error) return null;
+    console.error('Error accessing photo bucket in Supabase:', error);
+    return error.message.includes('does not exist')
+      ? `Storage bucket "${PHOTO_BUCKET}" does not exist. Please check your Supabase configuration.`
+      : `Storage access error: ${error.message}`;
+  }
+
+  // Turns a storage error into something a tech can act on
+  static describeUploadError(message: string): string {
+    if (message.includes('does not exist')) return 'Storage bucket not found. Please check your Supabase configuration.';
+    if (message.includes('not found')) return 'Storage bucket not accessible. Check your Supabase configuration.';
+    if (message.includes('400')) return 'Bad request (400). This usually means the storage bucket is missing or misconfigured.';
+    if (message.includes('403')) return 'Access denied (403). Check your storage policies and authentication.';
+    if (message.includes('401')) return 'Unauthorized (401). You must be logged in to upload photos.';
+    if (message.includes('JWT')) return 'Authentication error. Please log in again.';
+    return `Upload failed: ${message}`;
+  }
+
+  /**
+   * Uploads the photo and its thumbnail, then records its details. The photo still counts
+   * if only the details fail to save; it shows up untagged until someone edits it.
+   * Throws the storage error when the photo itself couldn't be uploaded.
+   */
+  static async uploadPhoto(
+    dealershipId: string,
+    location: PhotoLocation,
+    prepared: Pick<PreparedPhoto, 'file' | 'thumbnail'>,
+    details: VehiclePhotoDetails
+  ): Promise<VehiclePhoto> {
+    const { error } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .upload(location.path, prepared.file, { cacheControl: '3600', upsert: false, contentType: prepared.file.type || undefined });
+    if (error) {
+      console.error('Error uploading photo to Supabase:', error);
+      throw error;
+    }
+
+    let thumbnailPath: string | undefined;
+    if (prepared.thumbnail) {
+      const path = this.getThumbnailPath(location.path);
+      const { error: thumbnailError } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(path, prepared.thumbnail, { cacheControl: '3600', upsert: true, contentType: 'image/jpeg' });
+      if (thumbnailError) {
+        console.error('Error uploading photo thumbnail to Supabase:', thumbnailError);
+      } else {
+        thumbnailPath = path;
+      }
+    }
+
+    const photo: Omit<VehiclePhoto, 'url' | 'thumbnailUrl'> = { ...location, ...details, thumbnailPath };
+    return (await this.savePhoto(dealershipId, photo)) || this.withUrls(photo);
+  }
+
+  // Creates or updates the photo's details, matched on its storage path
+  static async savePhoto(dealershipId: string, photo: Omit<VehiclePhoto, 'url' | 'thumbnailUrl'>): Promise<VehiclePhoto | null> {
+    const { data, error } = await supabase
+      .from('vehicle_photos')
+      .upsert([this.toDatabaseFormat(dealershipId, photo)], { onConflict: 'path' })
+      .select()
+      .single();
+    if (error) {
+      console.error('Error saving photo details to Supabase:', error);
+      return null;
+    }
+    return this.fromDatabaseFormat(data);
+  }
+
+  // Saves the gallery order; photos are numbered in the order given
+  static async reorderPhotos(dealershipId: string, photos: VehiclePhoto[]): Promise<VehiclePhoto[] | null> {
+    const rows = photos.map((photo, index) => this.toDatabaseFormat(dealershipId, { ...photo, sortOrder: index }));
+    const { data, error } = await supabase
+      .from('vehicle_photos')
+      .upsert(rows, { onConflict: 'path' })
+      .select();
+    if (error) {
+      console.error('Error reordering photos in Supabase:', error);
+      return null;
+    }
+    return this.sortPhotos((data || []).map(this.fromDatabaseFormat));
+  }
+
+  /**
+   * Every photo for the vehicle: checklist items, damage pins and anything uploaded before
+   * photo details were recorded, in gallery order.
+   */
+  static async getVehiclePhotos(dealershipId: string, vehicleId: string): Promise<VehiclePhoto[]> {
+    const [{ data, error }, files] = await Promise.all([
+      supabase
+        .from('vehicle_photos')
+        .select('*')
+        .eq('dealership_id', dealershipId)
+        .eq('vehicle_id', vehicleId),
+      this.listStoragePhotos(vehicleId)
+    ]);
+    if (error) {
+      console.error('Error loading vehicle photos from Supabase:', error);
+    }
+
+    const photos = (data || []).map(this.fromDatabaseFormat);
+    const recorded = new Set(photos.map(photo => photo.path));
+    const unrecorded = files
+      .filter(file => !recorded.has(file.path))
+      .map(file => this.withUrls({
+        ...file,
+        tags: this.getDefaultTags(file.sectionKey, file.itemId),
+        uploadedBy: ''
+      }));
+
+    return this.sortPhotos([...photos, ...unrecorded]);
+  }
+
+  // Ordered photos first, then the rest oldest first
+  static sortPhotos(photos: VehiclePhoto[]): VehiclePhoto[] {
+    return [...photos].sort((a, b) => {
+      if (a.sortOrder !== undefined || b.sortOrder !== undefined) {
+        return (a.sortOrder ?? Number.MAX_SAFE_INTEGER) - (b.sortOrder ?? Number.MAX_SAFE_INTEGER);
+      }
+      return (a.takenAt || a.createdAt || '').localeCompare(b.takenAt || b.createdAt || '');
+    });
+  }
+
+  // Removes the photo, its thumbnail and its details
+  static async deletePhoto(dealershipId: string, photo: Pick<VehiclePhoto, 'path' | 'thumbnailPath'>): Promise<boolean> {
+    const paths = photo.thumbnailPath ? [photo.path, photo.thumbnailPath] : [photo.path];
+    const { error } = await supabase.storage.from(PHOTO_BUCKET).remove(paths);
+    if (error) {
+      console.error('Error deleting photo from Supabase:', error);
+      return false;
+    }
+
+    const { error: rowError } = await supabase
+      .from('vehicle_photos')
+      .delete()
+      .eq('path', photo.path)
+      .eq('dealership_id', dealershipId);
+    if (rowError) {
+      console.error('Error deleting photo details from Supabase:', rowError);
+    }
+    return true;
+  }
+
+  // The card only needs the thumbnail, so that's what gets stored when there is one
+  static getHeroPath(photo: Pick<VehiclePhoto, 'path' | 'thumbnailPath'>): string {
+    return photo.thumbnailPath || photo.path;
+  }
+
+  // Pass null to clear the hero photo
+  static async setHeroPhoto(dealershipId: string, vehicleId: string, heroPath: string | null): Promise<boolean> {
+    const { error } = await supabase
+      .from('vehicles')
+      .update({ hero_photo_path: heroPath, updated_at: new Date().toISOString() })
+      .eq('id', vehicleId)
+      .eq('dealership_id', dealershipId);
+    if (error) {
+      console.error('Error updating hero photo in Supabase:', error);
+      return false;
+    }
+    return true;
+  }
+
+  static isHeroPhoto(photo: Pick<VehiclePhoto, 'path' | 'thumbnailPath'>, heroPhotoPath?: string): boolean {
+    return !!heroPhotoPath && (heroPhotoPath === photo.path || heroPhotoPath === photo.thumbnailPath);
+  }
+
+  /**
+   * Saves the photos as one zip, named in gallery order so they sort the same way on disk.
+   * Photos that fail to download are left out; returns how many were skipped.
+   */
+  static async downloadZip(photos: VehiclePhoto[], folderName: string): Promise<number> {
+    const entries: ZipEntry[] = [];
+    let skipped = 0;
+    const digits = String(photos.length).length;
+
+    for (const [index, photo] of photos.entries()) {
+      try {
+        const response = await fetch(photo.url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const extension = photo.path.split('.').pop() || 'jpg';
+        const label = (photo.caption || `${photo.sectionKey}-${photo.itemId}`).replace(/[^a-z0-9-]+/gi, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+        entries.push({
+          name: `${folderName}/${String(index + 1).padStart(digits, '0')}_${label || 'photo'}.${extension}`,
+          data: new Uint8Array(await response.arrayBuffer()),
+          modifiedAt: photo.takenAt ? new Date(photo.takenAt) : undefined
+        });
+      } catch (error) {
+        console.error(`Error downloading photo ${photo.path}:`, error);
+        skipped++;
+      }
+    }
+
+    const blob = new Blob([ZipWriter.build(entries)], { type: 'application/zip' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${folderName}.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return skipped;
+  }
+
+  private static withUrls(photo: Omit<VehiclePhoto, 'url' | 'thumbnailUrl'>): VehiclePhoto {
+    const url = this.getPublicUrl(photo.path);
+    return { ...photo, url, thumbnailUrl: photo.thumbnailPath ? this.getPublicUrl(photo.thumbnailPath) : url };
+  }
+
+  // Storage only lists one folder level at a time: vehicle -> section -> item -> files
+  private static async listStoragePhotos(vehicleId: string): Promise<Array<PhotoLocation & { createdAt?: string }>> {
+    const listFolder = async (path: string) => {
+      const { data, error } = await supabase.storage.from(PHOTO_BUCKET).list(path, { limit: 1000 });
+      if (error) {
+        console.error(`Error listing photos in ${path}:`, error);
+        return [];
+      }
+      return data || [];
+    };
+
+    const photos: Array<PhotoLocation & { createdAt?: string }> = [];
+    const sections = (await listFolder(vehicleId)).filter(entry => !entry.id && entry.name !== THUMBNAIL_FOLDER);
+    for (const section of sections) {
+      const items = (await listFolder(`${vehicleId}/${section.name}`)).filter(entry => !entry.id);
+      for (const item of items) {
+        const files = (await listFolder(`${vehicleId}/${section.name}/${item.name}`)).filter(entry => entry.id);
+        files.forEach(file => photos.push({
+          vehicleId,
+          sectionKey: section.name,
+          itemId: item.name,
+          path: `${vehicleId}/${section.name}/${item.name}/${file.name}`,
+          createdAt: file.created_at || undefined
+        }));
+      }
+    }
+    return photos;
+  }
+}
@@ -1,57 +1,193 @@
-import { Vehicle } from '../types/vehicle';
+import { InspectionStatus, Vehicle } from '../types/vehicle';
+import { InspectionItem, InspectionSection, InspectionSettings } from '../types/inspectionSettings';
+import {
+  InspectionRecord,
+  ProgressOptions,
+  ReadinessBlocker,
+  SectionProgress,
+  VehicleProgress,
+  VehicleReadiness
+} from '../types/inspectionRecord';
+import { InspectionRecordManager } from './inspectionRecordManager';
 
+/**
+ * The one place that turns ratings into section status, progress and readiness.
+ * Everything is measured against the dealership's live settings: inactive sections
+ * and items are ignored, as are ratings left behind by items that have since been removed.
+ */
 export class ProgressCalculator {
+  static getActiveSections(sections: InspectionSection[]): InspectionSection[] {
+    return sections
+      .filter(section => section.isActive)
+      .sort((a, b) => a.order - b.order);
+  }
+
+  static getOptions(settings: Pick<InspectionSettings, 'globalSettings'> | null | undefined): ProgressOptions {
+    return { allowSkipItems: settings?.globalSettings.allowSkipItems ?? false };
+  }
+
+  static getActiveItems(section: InspectionSection): InspectionItem[] {
+    return (section.items || [])
+      .filter(item => item.isActive)
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * A section stays grey until it has been fully inspected: every required item rated,
+   * or every item rated when none are marked required. After that the worst rating wins.
+   */
+  static getSectionProgress(record: InspectionRecord | null | undefined, section: InspectionSection): SectionProgress {
+    const items = this.getActiveItems(section);
+    const progress: SectionProgress = {
+      sectionKey: section.key,
+      label: section.label,
+      status: 'not-started',
+      totalItems: items.length,
+      ratedItems: 0,
+      requiredItems: 0,
+      ratedRequiredItems: 0,
+      ratingCounts: { G: 0, F: 0, N: 0 }
+    };
+
+    items.forEach(item => {
+      const rating = InspectionRecordManager.getItemRating(record, section.key, item.id);
+      const isRated = rating !== 'not-checked';
+      if (item.isRequired) progress.requiredItems++;
+      if (!isRated) return;
+      progress.ratedItems++;
+      progress.ratingCounts[rating]++;
+      if (item.isRequired) progress.ratedRequiredItems++;
+    });
+
+    if (items.length === 0) return progress;
+
+    const fullyInspected = progress.requiredItems > 0
+      ? progress.ratedRequiredItems === progress.requiredItems
+      : progress.ratedItems === progress.totalItems;
+    if (!fullyInspected) return progress;
+
+    if (progress.ratingCounts.N > 0) {
+      progress.status = 'needs-attention';
+    } else if (progress.ratingCounts.F > 0) {
+      progress.status = 'pending';
+    } else {
+      progress.status = 'completed';
+    }
+    return progress;
+  }
+
+  static getSectionStatus(record: InspectionRecord | null | undefined, section: InspectionSection): InspectionStatus {
+    return this.getSectionProgress(record, section).status;
+  }
+
   /**
-   * Calculate the overall progress percentage based on individual inspection items
-   * rather than just counting completed sections
+   * Every item keeping the vehicle from all green: anything rated F or N, plus unrated items
+   * that hold their section open (required ones, or all of them in a section with none
+   * required) and any unrated item when the dealership doesn't allow items to be skipped.
+   * The vehicle is ready exactly when this is empty.
    */
-  static calculateDetailedProgress(vehicleId: string, vehicle: Vehicle, sections?: Array<{key: string}>): number {
-    // Get inspection data from localStorage
-    const savedInspections = localStorage.getItem('vehicleInspections');
-    if (!savedInspections) return this.calculateSectionProgress(vehicle);
-    
-    try {
-      const inspections = JSON.parse(savedInspections);
-      const vehicleInspection = inspections[vehicleId];
-      
-      if (!vehicleInspection) return this.calculateSectionProgress(vehicle);
-      
-      // Use provided sections or fall back to default hardcoded sections
-      const sectionKeys = sections ? sections.map(s => s.key) : ['emissions', 'cosmetic', 'mechanical', 'cleaning', 'photos'];
-      let completedSections = 0;
-      sectionKeys.forEach(sectionKey => {
-        const items = vehicleInspection[sectionKey];
-        if (Array.isArray(items) && items.length > 0) {
-          const allGreen = items.every(item => item.rating === 'G');
-          if (allGreen) completedSections++;
+  static getReadinessBlockers(
+    record: InspectionRecord | null | undefined,
+    sections: InspectionSection[],
+    options: ProgressOptions = {}
+  ): ReadinessBlocker[] {
+    const blockers: ReadinessBlocker[] = [];
+    this.getActiveSections(sections).forEach(section => {
+      const items = this.getActiveItems(section);
+      const hasRequiredItems = items.some(item => item.isRequired);
+      items.forEach(item => {
+        const rating = InspectionRecordManager.getItemRating(record, section.key, item.id);
+        const blocker = { sectionKey: section.key, sectionLabel: section.label, itemId: item.id, itemLabel: item.label };
+        if (rating === 'not-checked') {
+          if (item.isRequired || !hasRequiredItems || !options.allowSkipItems) {
+            blockers.push({ ...blocker, reason: 'not-rated' });
+          }
+        } else if (rating === 'N') {
+          blockers.push({ ...blocker, reason: 'needs-attention' });
+        } else if (rating === 'F') {
+          blockers.push({ ...blocker, reason: 'fair' });
         }
       });
-      return (completedSections / sectionKeys.length) * 100;
-    } catch (error) {
-      console.error('Error calculating detailed progress:', error);
-      return this.calculateSectionProgress(vehicle);
-    }
+    });
+    return blockers;
+  }
+
+  // "Emissions: Smoke Test (not rated)" - for the blockers list, alerts and the override note
+  static describeBlocker(blocker: ReadinessBlocker): string {
+    const reason = blocker.reason === 'needs-attention' ? 'needs attention' : blocker.reason === 'fair' ? 'rated fair' : 'not rated';
+    return `${blocker.sectionLabel}: ${blocker.itemLabel} (${reason})`;
   }
-  
+
   /**
-   * Fallback method that calculates progress based on overall vehicle status
-   * Used when detailed inspection data is not available
+   * Rolls the sections up to the vehicle. Sections without any active items can't be
+   * inspected, so they don't count toward progress or hold up readiness.
    */
-  static calculateSectionProgress(vehicle: Vehicle): number {
-    // Since vehicle.status is now a simple string, return progress based on that
-    switch (vehicle.status) {
-      case 'ready':
-        return 100;
-      case 'issues':
-        return 75;
-      case 'working':
-        return 50;
-      case 'pending':
-        return 25;
-      case 'sold':
-        return 100; // Sold vehicles are considered complete
-      default:
-        return 0;
+  static getVehicleProgress(
+    record: InspectionRecord | null | undefined,
+    sections: InspectionSection[],
+    options: ProgressOptions = {}
+  ): VehicleProgress {
+    const sectionProgress = this.getActiveSections(sections)
+      .map(section => this.getSectionProgress(record, section))
+      .filter(section => section.totalItems > 0);
+    const blockers = this.getReadinessBlockers(record, sections, options);
+
+    const statuses = sectionProgress.reduce<Record<string, InspectionStatus>>((acc, section) => {
+      acc[section.sectionKey] = section.status;
+      return acc;
+    }, {});
+    const inspectedSections = sectionProgress.filter(section => section.status !== 'not-started').length;
+    const totalSections = sectionProgress.length;
+
+    // The blockers cover every section short of completed, so they alone decide readiness
+    let readiness: VehicleReadiness = 'working';
+    if (sectionProgress.some(section => section.status === 'needs-attention')) {
+      readiness = 'issues';
+    } else if (totalSections > 0 && blockers.length === 0) {
+      readiness = 'ready';
     }
+
+    return {
+      sections: sectionProgress,
+      statuses,
+      inspectedSections,
+      totalSections,
+      percent: totalSections > 0 ? Math.round((inspectedSections / totalSections) * 100) : 0,
+      readiness,
+      blockers
+    };
+  }
+
+  static isReadyForSale(
+    record: InspectionRecord | null | undefined,
+    sections: InspectionSection[],
+    options: ProgressOptions = {}
+  ): boolean {
+    return this.getVehicleProgress(record, sections, options).readiness === 'ready';
+  }
+
+  static getBlockerKey(blocker: ReadinessBlocker): string {
+    return `${blocker.sectionKey}:${blocker.itemId}`;
+  }
+
+  /**
+   * A manager's override holds only over the blockers it was given for. Overrides saved
+   * before blockers were recorded have nothing to compare against and still hold.
+   */
+  static isOverrideActive(
+    vehicle: Pick<Vehicle, 'readinessOverrideDate' | 'readinessOverrideBlockers'>,
+    blockers: ReadinessBlocker[]
+  ): boolean {
+    if (!vehicle.readinessOverrideDate) return false;
+    const overridden = vehicle.readinessOverrideBlockers;
+    return !overridden || blockers.every(blocker => overridden.includes(this.getBlockerKey(blocker)));
+  }
+
+  // Ready on its own merits, or frontlined by a manager over the remaining blockers
+  static isFrontlineReady(
+    vehicle: Pick<Vehicle, 'readinessOverrideDate' | 'readinessOverrideBlockers'>,
+    progress: VehicleProgress
+  ): boolean {
+    return progress.readiness === 'ready' || this.isOverrideActive(vehicle, progress.blockers);
   }
-}
\ No newline at end of file
+}
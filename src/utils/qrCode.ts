@@ -0,0 +1,348 @@
+// Minimal QR code encoder for key tags - byte mode, error correction level M, versions 1-10
+// (up to 213 bytes, far more than a VIN and stock number need). Follows ISO/IEC 18004.
+
+// Indexed by version; level M only
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const MAX_VERSION = 10;
+const FORMAT_BITS_LEVEL_M = 0;
+
+export class QRCode {
+  /**
+   * Encodes text as a square matrix of modules, true = dark. Picks the smallest version that fits
+   * and the mask with the lowest penalty score. Throws if the text is too long.
+   */
+  static encode(text: string): boolean[][] {
+    const bytes = Array.from(new TextEncoder().encode(text));
+
+    let version = 1;
+    while (version <= MAX_VERSION && bytes.length > this.getByteCapacity(version)) version++;
+    if (version > MAX_VERSION) {
+      throw new Error(`Text is too long for a QR key tag (${bytes.length} bytes)`);
+    }
+
+    const codewords = this.addEccAndInterleave(this.getDataCodewords(bytes, version), version);
+    const size = version * 4 + 17;
+    const modules = this.createGrid(size);
+    const isFunction = this.createGrid(size);
+
+    this.drawFunctionPatterns(modules, isFunction, version);
+    this.drawCodewords(modules, isFunction, codewords);
+
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+      this.applyMask(modules, isFunction, mask);
+      this.drawFormatBits(modules, isFunction, mask);
+      const penalty = this.getPenaltyScore(modules);
+      if (penalty < bestPenalty) {
+        bestMask = mask;
+        bestPenalty = penalty;
+      }
+      this.applyMask(modules, isFunction, mask); // XOR again to undo
+    }
+
+    this.applyMask(modules, isFunction, bestMask);
+    this.drawFormatBits(modules, isFunction, bestMask);
+    return modules;
+  }
+
+  // Inline SVG, scaled to fit `size` pixels with the standard 4-module quiet zone
+  static toSvg(text: string, size: number = 128): string {
+    const modules = this.encode(text);
+    const quietZone = 4;
+    const count = modules.length + quietZone * 2;
+    let path = '';
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) path += `M${x + quietZone},${y + quietZone}h1v1h-1z`;
+      });
+    });
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${count} ${count}" shape-rendering="crispEdges">`
+      + `<rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+  }
+
+  private static createGrid(size: number): boolean[][] {
+    return Array.from({ length: size }, () => Array<boolean>(size).fill(false));
+  }
+
+  private static getNumRawDataModules(version: number): number {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+      const numAlign = Math.floor(version / 7) + 2;
+      result -= (25 * numAlign - 10) * numAlign - 55;
+      if (version >= 7) result -= 36;
+    }
+    return result;
+  }
+
+  private static getNumDataCodewords(version: number): number {
+    return Math.floor(this.getNumRawDataModules(version) / 8)
+      - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+  }
+
+  private static getCharCountBits(version: number): number {
+    return version <= 9 ? 8 : 16;
+  }
+
+  private static getByteCapacity(version: number): number {
+    return Math.floor((this.getNumDataCodewords(version) * 8 - 4 - this.getCharCountBits(version)) / 8);
+  }
+
+  // Mode indicator, length, data, terminator and pad bytes
+  private static getDataCodewords(bytes: number[], version: number): number[] {
+    const bits: number[] = [];
+    const appendBits = (value: number, length: number) => {
+      for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+
+    appendBits(0b0100, 4); // Byte mode
+    appendBits(bytes.length, this.getCharCountBits(version));
+    bytes.forEach(b => appendBits(b, 8));
+
+    const capacityBits = this.getNumDataCodewords(version) * 8;
+    appendBits(0, Math.min(4, capacityBits - bits.length));
+    appendBits(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xEC; bits.length < capacityBits; pad ^= 0xEC ^ 0x11) appendBits(pad, 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+      codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+    }
+    return codewords;
+  }
+
+  private static addEccAndInterleave(data: number[], version: number): number[] {
+    const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+    const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version];
+    const rawCodewords = Math.floor(this.getNumRawDataModules(version) / 8);
+    const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+    const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+    const divisor = this.reedSolomonComputeDivisor(blockEccLen);
+
+    const blocks: number[][] = [];
+    for (let i = 0, k = 0; i < numBlocks; i++) {
+      const blockData = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+      k += blockData.length;
+      const ecc = this.reedSolomonComputeRemainder(blockData, divisor);
+      if (i < numShortBlocks) blockData.push(0); // Placeholder so all blocks line up; skipped below
+      blocks.push(blockData.concat(ecc));
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+      blocks.forEach((block, j) => {
+        if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+      });
+    }
+    return result;
+  }
+
+  private static reedSolomonMultiply(x: number, y: number): number {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+      z = (z << 1) ^ ((z >>> 7) * 0x11D);
+      z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+  }
+
+  private static reedSolomonComputeDivisor(degree: number): number[] {
+    const result: number[] = Array(degree - 1).fill(0);
+    result.push(1);
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+      for (let j = 0; j < result.length; j++) {
+        result[j] = this.reedSolomonMultiply(result[j], root);
+        if (j + 1 < result.length) result[j] ^= result[j + 1];
+      }
+      root = this.reedSolomonMultiply(root, 0x02);
+    }
+    return result;
+  }
+
+  private static reedSolomonComputeRemainder(data: number[], divisor: number[]): number[] {
+    const result = divisor.map(() => 0);
+    data.forEach(b => {
+      const factor = b ^ (result.shift() as number);
+      result.push(0);
+      divisor.forEach((coef, i) => {
+        result[i] ^= this.reedSolomonMultiply(coef, factor);
+      });
+    });
+    return result;
+  }
+
+  private static getAlignmentPatternPositions(version: number): number[] {
+    if (version === 1) return [];
+    const numAlign = Math.floor(version / 7) + 2;
+    const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+    const result = [6];
+    for (let pos = version * 4 + 10; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+    return result;
+  }
+
+  private static drawFunctionPatterns(modules: boolean[][], isFunction: boolean[][], version: number): void {
+    const size = modules.length;
+    const setFunction = (x: number, y: number, dark: boolean) => {
+      modules[y][x] = dark;
+      isFunction[y][x] = true;
+    };
+
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+      setFunction(6, i, i % 2 === 0);
+      setFunction(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their separators
+    [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const dist = Math.max(Math.abs(dx), Math.abs(dy));
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, dist !== 2 && dist !== 4);
+        }
+      }
+    });
+
+    // Alignment patterns, except where they would overlap the finders
+    const positions = this.getAlignmentPatternPositions(version);
+    const last = positions.length - 1;
+    positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas; the real bits are drawn once the mask is chosen
+    this.drawFormatBits(modules, isFunction, 0);
+
+    if (version >= 7) {
+      let rem = version;
+      for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1F25);
+      const bits = (version << 12) | rem;
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) !== 0;
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        setFunction(a, b, dark);
+        setFunction(b, a, dark);
+      }
+    }
+  }
+
+  private static drawFormatBits(modules: boolean[][], isFunction: boolean[][], mask: number): void {
+    const size = modules.length;
+    const data = (FORMAT_BITS_LEVEL_M << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+    const setFunction = (x: number, y: number, dark: boolean) => {
+      modules[y][x] = dark;
+      isFunction[y][x] = true;
+    };
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) setFunction(8, i, bit(i));
+    setFunction(8, 7, bit(6));
+    setFunction(8, 8, bit(7));
+    setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(i));
+
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(i));
+    setFunction(8, size - 8, true); // Always-dark module
+  }
+
+  // Zigzag placement, two columns at a time from the bottom-right corner
+  private static drawCodewords(modules: boolean[][], isFunction: boolean[][], codewords: number[]): void {
+    const size = modules.length;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skip the vertical timing pattern
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vert : vert;
+          if (!isFunction[y][x] && i < codewords.length * 8) {
+            modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  private static applyMask(modules: boolean[][], isFunction: boolean[][], mask: number): void {
+    const size = modules.length;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (isFunction[y][x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+        if (invert) modules[y][x] = !modules[y][x];
+      }
+    }
+  }
+
+  private static getPenaltyScore(modules: boolean[][]): number {
+    const size = modules.length;
+    let penalty = 0;
+    const columns = modules.map((_, x) => modules.map(row => row[x]));
+    const finderLike = [
+      [true, false, true, true, true, false, true, false, false, false, false],
+      [false, false, false, false, true, false, true, true, true, false, true]
+    ];
+
+    [...modules, ...columns].forEach(line => {
+      // Runs of five or more same-coloured modules
+      let runLength = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          runLength++;
+        } else {
+          if (runLength >= 5) penalty += 3 + (runLength - 5);
+          runLength = 1;
+        }
+      }
+
+      // Patterns that look like a finder
+      for (let i = 0; i + 11 <= size; i++) {
+        if (finderLike.some(pattern => pattern.every((dark, k) => line[i + k] === dark))) penalty += 40;
+      }
+    });
+
+    // 2x2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) penalty += 3;
+      }
+    }
+
+    // Balance of dark and light
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    penalty += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+
+    return penalty;
+  }
+}
@@ -0,0 +1,87 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { PresenceActivity, VehiclePresence } from '../types/realtime';
+import { supabase } from './supabaseClient';
+
+type Row = Record<string, unknown>;
+
+export interface PresenceSession {
+  setActivity: (activity: PresenceActivity) => void;
+  leave: () => void;
+}
+
+export class RealtimeManager {
+  // supabase.channel() hands back the existing channel for a topic, so every subscriber gets its own
+  private static channelName(topic: string): string {
+    return `${topic}:${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Calls onRow for every insert, update and delete on the table that matches the filter
+   * (e.g. 'dealership_id=eq.123'). Returns a function that unsubscribes.
+   */
+  static subscribeToTable<T extends Row>(
+    table: string,
+    filter: string,
+    onRow: (payload: RealtimePostgresChangesPayload<T>) => void
+  ): () => void {
+    const channel = supabase
+      .channel(this.channelName(`${table}:${filter}`))
+      .on<T>('postgres_changes', { event: '*', schema: 'public', table, filter }, onRow)
+      .subscribe((status, error) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error(`Error subscribing to ${table} changes in Supabase:`, error || status);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Announces the user on the vehicle and reports everyone else who has it open, whenever
+   * that list changes. A user with the vehicle open in two tabs is listed once, as editing
+   * if either tab is.
+   */
+  static joinVehicle(
+    vehicleId: string,
+    user: Omit<VehiclePresence, 'since'>,
+    onChange: (others: VehiclePresence[]) => void
+  ): PresenceSession {
+    const me: VehiclePresence = { ...user, since: new Date().toISOString() };
+    const channel = supabase.channel(`vehicle-presence:${vehicleId}`, {
+      config: { presence: { key: user.userId } }
+    });
+    let subscribed = false;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<VehiclePresence>();
+        const others = Object.entries(state)
+          .filter(([userId]) => userId !== user.userId)
+          .map(([, sessions]) => {
+            const editing = sessions.find(session => session.activity === 'editing');
+            return editing || sessions.reduce((earliest, session) => (session.since < earliest.since ? session : earliest));
+          })
+          .sort((a, b) => a.since.localeCompare(b.since));
+        onChange(others.map(({ userId, initials, name, activity, since }) => ({ userId, initials, name, activity, since })));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          subscribed = true;
+          await channel.track(me);
+        }
+      });
+
+    return {
+      setActivity: (activity) => {
+        if (me.activity === activity) return;
+        me.activity = activity;
+        if (subscribed) channel.track(me);
+      },
+      leave: () => {
+        supabase.removeChannel(channel);
+      }
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import { Vehicle } from '../types/vehicle';
+import { ReconApprovalCheck, ReconApprovalSettings } from '../types/reconApproval';
+import { WorkOrderApprovalRequest, WorkOrderLine } from '../types/workOrder';
+import { DatabaseService } from './database';
+import { ReconCostManager } from './reconCostManager';
+import { TodoManager } from './todoManager';
+import { VehicleManager } from './vehicleManager';
+import { WorkOrderManager } from './workOrderManager';
+
+type ApprovalVehicle = WorkOrderApprovalRequest['vehicle'];
+
+interface ApprovalUser {
+  initials: string;
+  name: string;
+}
+
+type EstimateUpdates = Pick<WorkOrderLine, 'description' | 'estimate' | 'assigneeContactId' | 'assigneeName'>;
+
+export class ReconApprovalManager {
+  // Recon already logged on the vehicle, approved repairs not yet in that ledger, and the estimate being asked for
+  static getProjectedSpend(loggedTotal: number, lines: WorkOrderLine[], lineId: string, estimate?: number): number {
+    const committed = lines
+      .filter(line => line.id !== lineId && line.approvalStatus === 'approved' && !line.reconCostId)
+      .reduce((total, line) => total + (line.estimate || 0), 0);
+    return loggedTotal + committed + (estimate || 0);
+  }
+
+  static evaluate(settings: ReconApprovalSettings, vehiclePrice: number, projectedSpend: number): ReconApprovalCheck {
+    if (!settings.enabled) {
+      return { projectedSpend, required: true, reasons: [] };
+    }
+
+    const reasons: string[] = [];
+    if (settings.amountLimit > 0 && projectedSpend > settings.amountLimit) {
+      reasons.push(`Over the ${ReconCostManager.formatCurrency(settings.amountLimit)} limit`);
+    }
+    if (settings.pricePercentLimit > 0 && vehiclePrice > 0 && projectedSpend > vehiclePrice * settings.pricePercentLimit / 100) {
+      reasons.push(`Over ${settings.pricePercentLimit}% of the ${ReconCostManager.formatCurrency(vehiclePrice)} price`);
+    }
+    return { projectedSpend, required: reasons.length > 0, reasons };
+  }
+
+  static async checkEstimate(
+    dealershipId: string,
+    vehicle: Pick<Vehicle, 'id' | 'price'>,
+    lines: WorkOrderLine[],
+    lineId: string,
+    estimate?: number
+  ): Promise<ReconApprovalCheck> {
+    const [settings, costItems] = await Promise.all([
+      DatabaseService.getReconApprovalSettings(dealershipId),
+      ReconCostManager.getCostItems(dealershipId, vehicle.id)
+    ]);
+    const loggedTotal = ReconCostManager.getSummary(costItems).total;
+    return this.evaluate(settings, vehicle.price, this.getProjectedSpend(loggedTotal, lines, lineId, estimate));
+  }
+
+  /**
+   * Saves a line's estimate and details. A new estimate inside the dealership's limits is
+   * approved straight away; anything else goes to the approval inbox. A declined line is
+   * never approved automatically.
+   */
+  static async submitEstimate(
+    dealershipId: string,
+    vehicle: Pick<Vehicle, 'id' | 'price'>,
+    lines: WorkOrderLine[],
+    line: WorkOrderLine,
+    updates: EstimateUpdates,
+    requesterInitials: string
+  ): Promise<WorkOrderLine | null> {
+    if (line.completedDate || updates.estimate === line.estimate) {
+      return WorkOrderManager.updateLine(dealershipId, line.id, updates);
+    }
+
+    const check = await this.checkEstimate(dealershipId, vehicle, lines, line.id, updates.estimate);
+    const autoApprove = updates.estimate !== undefined && !check.required && line.approvalStatus !== 'declined';
+    return WorkOrderManager.updateLine(dealershipId, line.id, {
+      ...updates,
+      requestedBy: requesterInitials,
+      approvalStatus: autoApprove ? 'approved' : 'requested',
+      approvalReason: check.reasons.join('; '),
+      approvalBy: '',
+      approvalDate: autoApprove ? new Date().toISOString() : '',
+      approvalNotes: ''
+    });
+  }
+
+  // A manager's approve or decline, kept as a certified team note and sent to the requester
+  static async decide(
+    dealershipId: string,
+    request: { line: WorkOrderLine; vehicle: ApprovalVehicle },
+    status: 'approved' | 'declined',
+    manager: ApprovalUser,
+    comment?: string
+  ): Promise<WorkOrderLine | null> {
+    const { line, vehicle } = request;
+    const saved = await WorkOrderManager.setApproval(dealershipId, line.id, status, manager.initials, comment);
+    if (!saved) return null;
+
+    const estimate = line.estimate !== undefined ? ReconCostManager.formatCurrency(line.estimate) : 'no estimate';
+    const text = [
+      `Recon ${status} by ${manager.name}: ${line.itemLabel} (${estimate})`,
+      line.approvalReason,
+      comment ? `Comment: ${comment}` : ''
+    ].filter(Boolean).join('. ');
+
+    const timestamp = new Date().toISOString();
+    const noteSaved = await VehicleManager.addTeamNote(dealershipId, vehicle.id, {
+      id: Date.now().toString(),
+      text: `${text}.`,
+      userInitials: manager.initials,
+      timestamp,
+      category: line.sectionKey,
+      isCertified: true
+    });
+    if (!noteSaved) {
+      console.error('Error recording recon approval decision as a team note');
+    }
+
+    await this.notifyRequester(dealershipId, saved, vehicle, manager, `Repair ${status}: ${line.itemLabel}`, comment);
+    return saved;
+  }
+
+  static async comment(
+    dealershipId: string,
+    request: { line: WorkOrderLine; vehicle: ApprovalVehicle },
+    text: string,
+    author: ApprovalUser
+  ): Promise<WorkOrderLine | null> {
+    const saved = await WorkOrderManager.addComment(dealershipId, request.line, text, author);
+    if (!saved) return null;
+
+    await this.notifyRequester(
+      dealershipId,
+      saved,
+      request.vehicle,
+      author,
+      `Comment on the ${request.line.itemLabel} estimate`,
+      `${author.name}: ${text}`
+    );
+    return saved;
+  }
+
+  // Lands on the requester's todo list, linked to the vehicle. Nobody is told about their own actions
+  private static async notifyRequester(
+    dealershipId: string,
+    line: WorkOrderLine,
+    vehicle: ApprovalVehicle,
+    from: ApprovalUser,
+    title: string,
+    description?: string
+  ): Promise<void> {
+    const requester = line.requestedBy || line.createdBy;
+    if (!requester || requester === from.initials) return;
+
+    const todo = await TodoManager.addTodo(dealershipId, {
+      title,
+      description,
+      priority: 'medium',
+      status: 'pending',
+      category: 'repair',
+      assignedTo: requester,
+      assignedBy: from.initials,
+      vehicleId: vehicle.id,
+      vehicleName: `${vehicle.year} ${vehicle.make} ${vehicle.model}`
+    });
+    if (!todo) {
+      console.error('Error notifying the requester of a recon approval update');
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { ReconCostItem, ReconCostCategory, ReconCostSummary, RECON_COST_CATEGORY_CONFIGS } from '../types/reconCost';
+import { supabase } from './supabaseClient';
+
+// Shape of a row in the recon_costs table
+interface ReconCostRow {
+  id: string;
+  dealership_id: string;
+  vehicle_id: string;
+  category: ReconCostCategory;
+  description: string;
+  quantity: number | string;
+  unit_cost: number | string;
+  amount: number | string;
+  vendor_id: string | null;
+  vendor_name: string | null;
+  inspection_section_key: string | null;
+  inspection_item_id: string | null;
+  inspection_item_label: string | null;
+  incurred_date: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export class ReconCostManager {
+  // Helper function to convert frontend ReconCostItem to database format
+  private static toDatabaseFormat(item: Partial<Omit<ReconCostItem, 'id' | 'createdAt' | 'updatedAt'>>): Partial<ReconCostRow> {
+    const dbData: Partial<ReconCostRow> = {};
+    if (item.vehicleId !== undefined) dbData.vehicle_id = item.vehicleId;
+    if (item.category !== undefined) dbData.category = item.category;
+    if (item.description !== undefined) dbData.description = item.description;
+    if (item.quantity !== undefined) dbData.quantity = item.quantity;
+    if (item.unitCost !== undefined) dbData.unit_cost = item.unitCost;
+    if (item.amount !== undefined) dbData.amount = item.amount;
+    if (item.vendorId !== undefined) dbData.vendor_id = item.vendorId || null;
+    if (item.vendorName !== undefined) dbData.vendor_name = item.vendorName || null;
+    if (item.inspectionSectionKey !== undefined) dbData.inspection_section_key = item.inspectionSectionKey || null;
+    if (item.inspectionItemId !== undefined) dbData.inspection_item_id = item.inspectionItemId || null;
+    if (item.inspectionItemLabel !== undefined) dbData.inspection_item_label = item.inspectionItemLabel || null;
+    if (item.incurredDate !== undefined) dbData.incurred_date = item.incurredDate;
+    if (item.createdBy !== undefined) dbData.created_by = item.createdBy;
+    return dbData;
+  }
+
+  // Helper function to convert database format to frontend ReconCostItem
+  private static fromDatabaseFormat(data: ReconCostRow): ReconCostItem {
+    return {
+      id: data.id,
+      vehicleId: data.vehicle_id,
+      category: data.category,
+      description: data.description,
+      quantity: Number(data.quantity) || 0,
+      unitCost: Number(data.unit_cost) || 0,
+      amount: Number(data.amount) || 0,
+      vendorId: data.vendor_id || undefined,
+      vendorName: data.vendor_name || undefined,
+      inspectionSectionKey: data.inspection_section_key || undefined,
+      inspectionItemId: data.inspection_item_id || undefined,
+      inspectionItemLabel: data.inspection_item_label || undefined,
+      incurredDate: data.incurred_date,
+      createdBy: data.created_by,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at
+    };
+  }
+
+  static calculateAmount(quantity: number, unitCost: number): number {
+    return Math.round(quantity * unitCost * 100) / 100;
+  }
+
+  static async getCostItems(dealershipId: string, vehicleId: string): Promise<ReconCostItem[]> {
+    const { data, error } = await supabase
+      .from('recon_costs')
+      .select('*')
+      .eq('dealership_id', dealershipId)
+      .eq('vehicle_id', vehicleId)
+      .order('incurred_date', { ascending: false });
+    if (error) {
+      console.error('Error loading recon costs from Supabase:', error);
+      return [];
+    }
+    return (data || []).map(this.fromDatabaseFormat);
+  }
+
+  // Total spend per vehicle for the whole dealership - used by the Dashboard over-budget filter
+  static async getCostTotalsByVehicle(dealershipId: string): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('recon_costs')
+      .select('vehicle_id, amount')
+      .eq('dealership_id', dealershipId);
+    if (error) {
+      console.error('Error loading recon cost totals from Supabase:', error);
+      return {};
+    }
+
+    return (data || []).reduce((totals: Record<string, number>, row: Pick<ReconCostRow, 'vehicle_id' | 'amount'>) => {
+      totals[row.vehicle_id] = (totals[row.vehicle_id] || 0) + (Number(row.amount) || 0);
+      return totals;
+    }, {});
+  }
+
+  static async addCostItem(
+    dealershipId: string,
+    item: Omit<ReconCostItem, 'id' | 'amount' | 'createdAt' | 'updatedAt'>
+  ): Promise<ReconCostItem | null> {
+    const dbData = this.toDatabaseFormat({
+      ...item,
+      amount: this.calculateAmount(item.quantity, item.unitCost)
+    });
+    dbData.dealership_id = dealershipId;
+
+    const { data, error } = await supabase
+      .from('recon_costs')
+      .insert([dbData])
+      .select()
+      .single();
+    if (error) {
+      console.error('Error adding recon cost to Supabase:', error);
+      return null;
+    }
+    return this.fromDatabaseFormat(data);
+  }
+
+  static async updateCostItem(
+    dealershipId: string,
+    itemId: string,
+    updates: Partial<Omit<ReconCostItem, 'id' | 'vehicleId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<ReconCostItem | null> {
+    const dbUpdates = this.toDatabaseFormat(updates);
+    if (updates.quantity !== undefined && updates.unitCost !== undefined) {
+      dbUpdates.amount = this.calculateAmount(updates.quantity, updates.unitCost);
+    }
+    dbUpdates.updated_at = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('recon_costs')
+      .update(dbUpdates)
+      .eq('id', itemId)
+      .eq('dealership_id', dealershipId)
+      .select()
+      .single();
+    if (error) {
+      console.error('Error updating recon cost in Supabase:', error);
+      return null;
+    }
+    return this.fromDatabaseFormat(data);
+  }
+
+  static async deleteCostItem(dealershipId: string, itemId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('recon_costs')
+      .delete()
+      .eq('id', itemId)
+      .eq('dealership_id', dealershipId);
+    if (error) {
+      console.error('Error deleting recon cost from Supabase:', error);
+      return false;
+    }
+    return true;
+  }
+
+  // Pass null to clear the budget cap
+  static async updateBudget(dealershipId: string, vehicleId: string, budget: number | null): Promise<boolean> {
+    const { error } = await supabase
+      .from('vehicles')
+      .update({ recon_budget: budget, updated_at: new Date().toISOString() })
+      .eq('id', vehicleId)
+      .eq('dealership_id', dealershipId);
+    if (error) {
+      console.error('Error updating recon budget in Supabase:', error);
+      return false;
+    }
+    return true;
+  }
+
+  static getSummary(items: ReconCostItem[], budget?: number): ReconCostSummary {
+    const byCategory = (Object.keys(RECON_COST_CATEGORY_CONFIGS) as ReconCostCategory[]).reduce((totals, category) => {
+      totals[category] = 0;
+      return totals;
+    }, {} as Record<ReconCostCategory, number>);
+
+    items.forEach(item => {
+      byCategory[item.category] = (byCategory[item.category] || 0) + item.amount;
+    });
+
+    const total = Object.values(byCategory).reduce((sum, amount) => sum + amount, 0);
+    const hasBudget = budget !== undefined && budget !== null && budget > 0;
+
+    return {
+      total,
+      budget: hasBudget ? budget : undefined,
+      remaining: hasBudget ? budget - total : undefined,
+      isOverBudget: hasBudget ? total > budget : false,
+      percentUsed: hasBudget ? Math.round((total / budget) * 100) : undefined,
+      byCategory
+    };
+  }
+
+  static isOverBudget(total: number, budget?: number): boolean {
+    return budget !== undefined && budget !== null && budget > 0 && total > budget;
+  }
+
+  static getCategoryConfig(category: ReconCostCategory) {
+    return RECON_COST_CATEGORY_CONFIGS[category];
+  }
+
+  static formatCurrency(amount: number): string {
+    return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+  }
+}
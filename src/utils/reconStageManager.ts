@@ -0,0 +1,323 @@
+import { Vehicle } from '../types/vehicle';
+import { InspectionSection } from '../types/inspectionSettings';
+import { InspectionRecord, ProgressOptions } from '../types/inspectionRecord';
+import {
+  ReconStage,
+  StageTransition,
+  SlaSettings,
+  SlaStageResult,
+  SlaStageStatus,
+  SlaVehicleStatus,
+  DEFAULT_SLA_SETTINGS,
+  RECON_STAGE_CONFIGS
+} from '../types/reconStage';
+import { supabase } from './supabaseClient';
+import { ProgressCalculator } from './progressCalculator';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export class ReconStageManager {
+  private static createTransition(
+    stage: ReconStage,
+    recordedBy: string,
+    enteredAt: string,
+    section?: Pick<InspectionSection, 'key' | 'label'>
+  ): StageTransition {
+    return {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      stage,
+      sectionKey: section?.key,
+      sectionLabel: section?.label,
+      enteredAt,
+      recordedBy
+    };
+  }
+
+  /**
+   * Full history for display, oldest first. "Acquired" is implied by dateAcquired
+   * so it is never stored.
+   */
+  static getStageHistory(vehicle: Pick<Vehicle, 'id' | 'dateAcquired' | 'stageHistory'>): StageTransition[] {
+    const stored = (vehicle.stageHistory || []).filter(transition => transition.stage !== 'acquired');
+    const history = [...stored].sort((a, b) => new Date(a.enteredAt).getTime() - new Date(b.enteredAt).getTime());
+
+    if (vehicle.dateAcquired && !isNaN(new Date(vehicle.dateAcquired).getTime())) {
+      history.unshift({
+        id: `${vehicle.id}-acquired`,
+        stage: 'acquired',
+        enteredAt: new Date(vehicle.dateAcquired).toISOString(),
+        recordedBy: 'system'
+      });
+    }
+    return history;
+  }
+
+  // Most recent entry into a stage (a vehicle can go pending more than once)
+  static getLatestTransition(history: StageTransition[], stage: ReconStage, sectionKey?: string): StageTransition | undefined {
+    return [...history]
+      .reverse()
+      .find(transition => transition.stage === stage && (sectionKey === undefined || transition.sectionKey === sectionKey));
+  }
+
+  /**
+   * Status changes (pending / sold) are appended every time they happen. Setting the
+   * same status twice in a row is ignored so repeated saves don't pad the history.
+   */
+  static appendTransition(
+    history: StageTransition[] | undefined,
+    stage: ReconStage,
+    recordedBy: string,
+    enteredAt: string = new Date().toISOString()
+  ): StageTransition[] {
+    const current = history || [];
+    const last = current[current.length - 1];
+    if (last && last.stage === stage && !last.sectionKey) return current;
+    return [...current, this.createTransition(stage, recordedBy, enteredAt)];
+  }
+
+  /**
+   * Inspection-driven stages are recorded the first time they are reached. Regressions
+   * (a section re-opened after a failed road test) don't rewrite the history.
+   */
+  static deriveTransitions(
+    history: StageTransition[] | undefined,
+    inspectionData: InspectionRecord | null | undefined,
+    sections: InspectionSection[],
+    recordedBy: string,
+    options: ProgressOptions = {},
+    enteredAt: string = new Date().toISOString()
+  ): StageTransition[] {
+    const updated = [...(history || [])];
+    const progress = ProgressCalculator.getVehicleProgress(inspectionData, sections, options);
+    const hasStage = (stage: ReconStage, sectionKey?: string) =>
+      updated.some(transition => transition.stage === stage && (sectionKey === undefined || transition.sectionKey === sectionKey));
+
+    const anyRated = progress.sections.some(section => section.ratedItems > 0);
+    if (anyRated && !hasStage('inspection-started')) {
+      updated.push(this.createTransition('inspection-started', recordedBy, enteredAt));
+    }
+
+    // A section counts as complete once it is fully inspected, matching the progress bar
+    progress.sections.forEach(section => {
+      if (section.status !== 'not-started' && !hasStage('section-complete', section.sectionKey)) {
+        updated.push(this.createTransition('section-complete', recordedBy, enteredAt, { key: section.sectionKey, label: section.label }));
+      }
+    });
+
+    if (progress.readiness === 'ready' && !hasStage('ready')) {
+      updated.push(this.createTransition('ready', recordedBy, enteredAt));
+    }
+
+    return updated;
+  }
+
+  static getElapsedDays(from: string, to: string | Date = new Date()): number {
+    const start = new Date(from).getTime();
+    const end = (to instanceof Date ? to : new Date(to)).getTime();
+    if (isNaN(start) || isNaN(end)) return 0;
+    return Math.max(0, (end - start) / DAY_MS);
+  }
+
+  static getSectionTarget(settings: SlaSettings, sectionKey: string): number {
+    const override = settings.sectionTargets?.[sectionKey];
+    return override !== undefined && override > 0 ? override : settings.sectionCompleteDays;
+  }
+
+  /**
+   * One result per SLA clock. Clocks that run from acquisition stop once the vehicle goes
+   * pending or sold, so a car sold straight off the lot isn't reported as stuck in recon.
+   */
+  static evaluateSla(
+    vehicle: Pick<Vehicle, 'id' | 'dateAcquired' | 'stageHistory' | 'status'>,
+    settings: SlaSettings,
+    sections: InspectionSection[],
+    inspectionData?: InspectionRecord | null,
+    options: ProgressOptions = {},
+    now: Date = new Date()
+  ): SlaStageResult[] {
+    if (!settings.enabled) return [];
+
+    // Vehicles that pre-date stage tracking have no history, so fill in what the inspection already shows
+    const storedHistory = inspectionData
+      ? this.deriveTransitions(vehicle.stageHistory, inspectionData, sections, 'system', options, now.toISOString())
+      : vehicle.stageHistory;
+    const history = this.getStageHistory({ ...vehicle, stageHistory: storedHistory });
+    const acquired = this.getLatestTransition(history, 'acquired');
+    if (!acquired) return [];
+
+    const pending = this.getLatestTransition(history, 'pending');
+    const sold = this.getLatestTransition(history, 'sold');
+    const isSold = vehicle.status === 'sold';
+    const isPending = vehicle.status === 'pending';
+    const exitedAt = isSold ? sold?.enteredAt || now.toISOString() : isPending ? pending?.enteredAt || now.toISOString() : undefined;
+
+    const evaluate = (
+      stage: ReconStage,
+      label: string,
+      targetDays: number,
+      startedAt: string,
+      reached?: StageTransition,
+      clockStoppedAt?: string,
+      sectionKey?: string
+    ): SlaStageResult | null => {
+      if (!targetDays || targetDays <= 0) return null;
+      const endedAt = reached?.enteredAt || clockStoppedAt;
+      const elapsedDays = this.getElapsedDays(startedAt, endedAt || now);
+
+      let status: SlaStageStatus;
+      if (reached) {
+        status = elapsedDays > targetDays ? 'missed' : 'met';
+      } else if (clockStoppedAt) {
+        // Vehicle left recon before reaching this stage - nothing left to chase
+        return null;
+      } else if (elapsedDays > targetDays) {
+        status = 'breached';
+      } else if (elapsedDays >= targetDays * (settings.atRiskPercent / 100)) {
+        status = 'at-risk';
+      } else {
+        status = 'on-track';
+      }
+
+      return { stage, sectionKey, label, targetDays, elapsedDays, status, enteredAt: reached?.enteredAt };
+    };
+
+    const results: Array<SlaStageResult | null> = [
+      evaluate(
+        'inspection-started',
+        RECON_STAGE_CONFIGS['inspection-started'].label,
+        settings.inspectionStartDays,
+        acquired.enteredAt,
+        this.getLatestTransition(history, 'inspection-started'),
+        exitedAt
+      ),
+      // Sections without active items can never complete, so they get no clock
+      ...ProgressCalculator.getActiveSections(sections)
+        .filter(section => ProgressCalculator.getActiveItems(section).length > 0)
+        .map(section => evaluate(
+          'section-complete',
+          `${section.label} Complete`,
+          this.getSectionTarget(settings, section.key),
+          acquired.enteredAt,
+          this.getLatestTransition(history, 'section-complete', section.key),
+          exitedAt,
+          section.key
+        )),
+      evaluate(
+        'ready',
+        'Frontline Ready',
+        settings.frontlineDays,
+        acquired.enteredAt,
+        this.getLatestTransition(history, 'ready'),
+        exitedAt
+      )
+    ];
+
+    // The pending → sold clock only runs while the deal is pending
+    if (pending && (isPending || isSold)) {
+      const soldAfterPending = sold && new Date(sold.enteredAt).getTime() >= new Date(pending.enteredAt).getTime() ? sold : undefined;
+      results.push(evaluate(
+        'sold',
+        'Pending to Sold',
+        settings.pendingToSoldDays,
+        pending.enteredAt,
+        soldAfterPending,
+        isSold && !soldAfterPending ? now.toISOString() : undefined
+      ));
+    }
+
+    return results.filter((result): result is SlaStageResult => result !== null);
+  }
+
+  static getVehicleSlaStatus(results: SlaStageResult[]): SlaVehicleStatus {
+    if (results.some(result => result.status === 'breached')) return 'breached';
+    if (results.some(result => result.status === 'at-risk')) return 'at-risk';
+    return 'on-track';
+  }
+
+  // Open clocks past their target, worst first
+  static getSlaBreaches(results: SlaStageResult[]): SlaStageResult[] {
+    return results
+      .filter(result => result.status === 'breached')
+      .sort((a, b) => (b.elapsedDays - b.targetDays) - (a.elapsedDays - a.targetDays));
+  }
+
+  static formatDays(days: number): string {
+    const rounded = Math.round(days * 10) / 10;
+    return `${rounded % 1 === 0 ? rounded.toFixed(0) : rounded.toFixed(1)}d`;
+  }
+
+  // Settings Management - Using Supabase with localStorage fallback
+  static async getSlaSettings(dealershipId: string): Promise<SlaSettings> {
+    try {
+      // First try to get from Supabase
+      const { data, error } = await supabase
+        .from('sla_settings')
+        .select('settings')
+        .eq('dealership_id', dealershipId)
+        .single();
+
+      if (!error && data && data.settings) {
+        // Merge with default settings
+        const mergedSettings: SlaSettings = {
+          ...DEFAULT_SLA_SETTINGS,
+          ...data.settings,
+          sectionTargets: { ...(data.settings.sectionTargets || {}) }
+        };
+
+        // Also save to localStorage as backup
+        this.saveSlaSettingsToLocalStorage(dealershipId, mergedSettings);
+        return mergedSettings;
+      }
+    } catch (error) {
+      console.error('Error fetching SLA settings from Supabase:', error);
+    }
+
+    // Fallback to localStorage
+    return this.getSlaSettingsFromLocalStorage(dealershipId);
+  }
+
+  private static getSlaSettingsFromLocalStorage(dealershipId: string): SlaSettings {
+    const key = `sla_settings_${dealershipId}`;
+    const data = localStorage.getItem(key);
+
+    if (data) {
+      try {
+        return { ...DEFAULT_SLA_SETTINGS, ...JSON.parse(data) };
+      } catch (error) {
+        console.error('Error parsing SLA settings from localStorage:', error);
+      }
+    }
+
+    return { ...DEFAULT_SLA_SETTINGS, sectionTargets: {} };
+  }
+
+  private static saveSlaSettingsToLocalStorage(dealershipId: string, settings: SlaSettings): void {
+    const key = `sla_settings_${dealershipId}`;
+    localStorage.setItem(key, JSON.stringify(settings));
+  }
+
+  static async saveSlaSettings(dealershipId: string, settings: SlaSettings): Promise<void> {
+    // Always save to localStorage first (as default)
+    this.saveSlaSettingsToLocalStorage(dealershipId, settings);
+
+    try {
+      // Then try to save to Supabase (database priority)
+      const { error } = await supabase
+        .from('sla_settings')
+        .upsert({
+          dealership_id: dealershipId,
+          settings,
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'dealership_id'
+        });
+
+      if (error) {
+        console.error('Error saving SLA settings to Supabase:', error);
+        // Don't throw error, localStorage is the fallback
+      }
+    } catch (error) {
+      console.error('Error saving SLA settings to Supabase:', error);
+    }
+  }
+}
@@ -0,0 +1,342 @@
+import { Contact } from '../types/contact';
+import { SubletJob, SubletJobStatus, VendorJobSummary, VendorRankMetric, VendorScorecard } from '../types/subletJob';
+import { Vehicle } from '../types/vehicle';
+import { ReconCostManager } from './reconCostManager';
+import { ReconStageManager } from './reconStageManager';
+import { supabase } from './supabaseClient';
+import { VehicleManager } from './vehicleManager';
+
+// Shape of a row in the sublet_jobs table
+interface SubletJobRow {
+  id: string;
+  dealership_id: string;
+  vehicle_id: string;
+  vehicle_name: string;
+  contact_id: string | null;
+  vendor_name: string;
+  description: string;
+  sent_date: string;
+  expected_return_date: string | null;
+  returned_date: string | null;
+  from_location: string | null;
+  invoice_amount: number | string | null;
+  invoice_number: string | null;
+  recon_cost_id: string | null;
+  is_comeback: boolean | null;
+  notes: string | null;
+  sent_by: string;
+  returned_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const DAYS_PER_MONTH = 30.44;
+
+type SubletJobDetails = Pick<SubletJob, 'description' | 'sentDate' | 'expectedReturnDate' | 'notes'>;
+
+export class SubletJobManager {
+  // Helper function to convert frontend SubletJob to database format
+  private static toDatabaseFormat(job: Partial<Omit<SubletJob, 'id' | 'createdAt' | 'updatedAt'>>): Partial<SubletJobRow> {
+    const dbData: Partial<SubletJobRow> = {};
+    if (job.vehicleId !== undefined) dbData.vehicle_id = job.vehicleId;
+    if (job.vehicleName !== undefined) dbData.vehicle_name = job.vehicleName;
+    if (job.contactId !== undefined) dbData.contact_id = job.contactId || null;
+    if (job.vendorName !== undefined) dbData.vendor_name = job.vendorName;
+    if (job.description !== undefined) dbData.description = job.description;
+    if (job.sentDate !== undefined) dbData.sent_date = job.sentDate;
+    if (job.expectedReturnDate !== undefined) dbData.expected_return_date = job.expectedReturnDate || null;
+    if (job.returnedDate !== undefined) dbData.returned_date = job.returnedDate || null;
+    if (job.fromLocation !== undefined) dbData.from_location = job.fromLocation || null;
+    if (job.invoiceAmount !== undefined) dbData.invoice_amount = job.invoiceAmount;
+    if (job.invoiceNumber !== undefined) dbData.invoice_number = job.invoiceNumber || null;
+    if (job.reconCostId !== undefined) dbData.recon_cost_id = job.reconCostId || null;
+    if (job.isComeback !== undefined) dbData.is_comeback = job.isComeback;
+    if (job.notes !== undefined) dbData.notes = job.notes || null;
+    if (job.sentBy !== undefined) dbData.sent_by = job.sentBy;
+    if (job.returnedBy !== undefined) dbData.returned_by = job.returnedBy || null;
+    return dbData;
+  }
+
+  // Helper function to convert database format to frontend SubletJob
+  private static fromDatabaseFormat(data: SubletJobRow): SubletJob {
+    return {
+      id: data.id,
+      vehicleId: data.vehicle_id,
+      vehicleName: data.vehicle_name,
+      contactId: data.contact_id || undefined,
+      vendorName: data.vendor_name,
+      description: data.description,
+      sentDate: data.sent_date,
+      expectedReturnDate: data.expected_return_date || undefined,
+      returnedDate: data.returned_date || undefined,
+      fromLocation: data.from_location || undefined,
+      invoiceAmount: data.invoice_amount !== null && data.invoice_amount !== undefined ? Number(data.invoice_amount) : undefined,
+      invoiceNumber: data.invoice_number || undefined,
+      reconCostId: data.recon_cost_id || undefined,
+      isComeback: !!data.is_comeback,
+      notes: data.notes || undefined,
+      sentBy: data.sent_by,
+      returnedBy: data.returned_by || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at
+    };
+  }
+
+  static getStatus(job: SubletJob, today: string = new Date().toISOString().split('T')[0]): SubletJobStatus {
+    if (job.returnedDate) return 'returned';
+    return job.expectedReturnDate && job.expectedReturnDate < today ? 'overdue' : 'out';
+  }
+
+  // Days at the vendor, counted to today while the vehicle is still out
+  static getTurnaroundDays(job: SubletJob, now: Date = new Date()): number {
+    return Math.round(ReconStageManager.getElapsedDays(job.sentDate, job.returnedDate || now));
+  }
+
+  static getVendorSummary(jobs: SubletJob[], now: Date = new Date()): VendorJobSummary {
+    const returned = jobs.filter(job => job.returnedDate);
+    const totalDays = returned.reduce((total, job) => total + this.getTurnaroundDays(job), 0);
+    const promised = returned.filter(job => job.expectedReturnDate);
+    const onTime = promised.filter(job => job.returnedDate && job.expectedReturnDate && job.returnedDate <= job.expectedReturnDate);
+    const invoiced = jobs.filter(job => job.invoiceAmount !== undefined);
+    const totalInvoiced = invoiced.reduce((total, job) => total + (job.invoiceAmount || 0), 0);
+
+    const firstSent = jobs.reduce<string | undefined>((first, job) => (!first || job.sentDate < first ? job.sentDate : first), undefined);
+    const months = firstSent ? Math.max(1, ReconStageManager.getElapsedDays(firstSent, now) / DAYS_PER_MONTH) : 1;
+
+    return {
+      jobCount: jobs.length,
+      openJobs: jobs.length - returned.length,
+      averageTurnaroundDays: returned.length > 0 ? Math.round(totalDays / returned.length * 10) / 10 : undefined,
+      onTimeRate: promised.length > 0 ? Math.round(onTime.length / promised.length * 100) : undefined,
+      comebackRate: returned.length > 0 ? Math.round(returned.filter(job => job.isComeback).length / returned.length * 100) : undefined,
+      averageInvoice: invoiced.length > 0 ? Math.round(totalInvoiced / invoiced.length * 100) / 100 : undefined,
+      jobsPerMonth: Math.round(jobs.length / months * 10) / 10,
+      totalInvoiced
+    };
+  }
+
+  // One scorecard per vendor contact, including vendors that haven't had a job yet
+  static getVendorScorecards(
+    contacts: Pick<Contact, 'id' | 'name' | 'company' | 'category' | 'isFavorite'>[],
+    jobs: SubletJob[],
+    now: Date = new Date()
+  ): VendorScorecard[] {
+    return contacts.map(contact => ({
+      contactId: contact.id,
+      vendorName: this.getVendorLocation(contact),
+      category: contact.category,
+      isFavorite: !!contact.isFavorite,
+      summary: this.getVendorSummary(jobs.filter(job => job.contactId === contact.id), now)
+    }));
+  }
+
+  /**
+   * Best vendor first for the chosen measure. Vendors without the history to be measured
+   * go last, and ties go to the vendor with more jobs.
+   */
+  static rankScorecards(scorecards: VendorScorecard[], metric: VendorRankMetric): VendorScorecard[] {
+    const getValue = (scorecard: VendorScorecard): number | undefined => {
+      const { summary } = scorecard;
+      switch (metric) {
+        case 'on-time':
+          return summary.onTimeRate !== undefined ? -summary.onTimeRate : undefined;
+        case 'turnaround':
+          return summary.averageTurnaroundDays;
+        case 'comebacks':
+          return summary.comebackRate;
+        case 'invoice':
+          return summary.averageInvoice;
+        case 'volume':
+          return summary.jobCount > 0 ? -summary.jobsPerMonth : undefined;
+      }
+    };
+
+    return [...scorecards].sort((a, b) => {
+      const aValue = getValue(a);
+      const bValue = getValue(b);
+      if (aValue === undefined || bValue === undefined) {
+        if (aValue !== bValue) return aValue === undefined ? 1 : -1;
+      } else if (aValue !== bValue) {
+        return aValue - bValue;
+      }
+      return b.summary.jobCount - a.summary.jobCount || a.vendorName.localeCompare(b.vendorName);
+    });
+  }
+
+  // Vendors are usually known by their company, a one-person shop by its contact's name
+  static getVendorLocation(contact: Pick<Contact, 'name' | 'company'>): string {
+    return contact.company || contact.name;
+  }
+
+  static async getJobs(dealershipId: string, vehicleId: string): Promise<SubletJob[]> {
+    const { data, error } = await supabase
+      .from('sublet_jobs')
+      .select('*')
+      .eq('dealership_id', dealershipId)
+      .eq('vehicle_id', vehicleId)
+      .order('sent_date', { ascending: false });
+    if (error) {
+      console.error('Error loading sublet jobs from Supabase:', error);
+      return [];
+    }
+    return (data || []).map(row => this.fromDatabaseFormat(row));
+  }
+
+  static async getAllJobs(dealershipId: string): Promise<SubletJob[]> {
+    const { data, error } = await supabase
+      .from('sublet_jobs')
+      .select('*')
+      .eq('dealership_id', dealershipId)
+      .order('sent_date', { ascending: false });
+    if (error) {
+      console.error('Error loading sublet jobs from Supabase:', error);
+      return [];
+    }
+    return (data || []).map(row => this.fromDatabaseFormat(row));
+  }
+
+  static async getVendorJobs(dealershipId: string, contactId: string): Promise<SubletJob[]> {
+    const { data, error } = await supabase
+      .from('sublet_jobs')
+      .select('*')
+      .eq('dealership_id', dealershipId)
+      .eq('contact_id', contactId)
+      .order('sent_date', { ascending: false });
+    if (error) {
+      console.error('Error loading vendor sublet jobs from Supabase:', error);
+      return [];
+    }
+    return (data || []).map(row => this.fromDatabaseFormat(row));
+  }
+
+  /**
+   * Records the job and moves the vehicle to the vendor, so the lot and location history
+   * show where it is. The job remembers where the vehicle came from for its return.
+   */
+  static async sendOut(
+    dealershipId: string,
+    vehicle: Pick<Vehicle, 'id' | 'year' | 'make' | 'model' | 'location'>,
+    contact: Pick<Contact, 'id' | 'name' | 'company'>,
+    details: SubletJobDetails,
+    sentBy: string
+  ): Promise<{ job: SubletJob; vehicle: Vehicle | null } | null> {
+    const dbData = this.toDatabaseFormat({
+      ...details,
+      vehicleId: vehicle.id,
+      vehicleName: `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
+      contactId: contact.id,
+      vendorName: this.getVendorLocation(contact),
+      fromLocation: vehicle.location,
+      sentBy
+    });
+    dbData.dealership_id = dealershipId;
+
+    const { data, error } = await supabase
+      .from('sublet_jobs')
+      .insert([dbData])
+      .select()
+      .single();
+    if (error) {
+      console.error('Error adding sublet job to Supabase:', error);
+      return null;
+    }
+
+    const job = this.fromDatabaseFormat(data);
+    const movedVehicle = await VehicleManager.updateVehicleLocation(dealershipId, vehicle.id, {
+      location: job.vendorName,
+      locationChangedBy: sentBy,
+      reason: `Sublet: ${job.description}`
+    });
+    return { job, vehicle: movedVehicle };
+  }
+
+  // Closes the job and brings the vehicle back, to where it came from unless another location is given
+  static async markReturned(
+    dealershipId: string,
+    job: SubletJob,
+    returnedDate: string,
+    returnedBy: string,
+    returnLocation?: string
+  ): Promise<{ job: SubletJob; vehicle: Vehicle | null } | null> {
+    const saved = await this.updateJob(dealershipId, job.id, { returnedDate, returnedBy });
+    if (!saved) return null;
+
+    const location = returnLocation || job.fromLocation;
+    const movedVehicle = location
+      ? await VehicleManager.updateVehicleLocation(dealershipId, job.vehicleId, {
+          location,
+          locationChangedBy: returnedBy,
+          reason: `Back from sublet: ${job.vendorName}`
+        })
+      : null;
+    return { job: saved, vehicle: movedVehicle };
+  }
+
+  // Posts the invoice to the vehicle's recon costs as a sublet cost, updating it if already posted
+  static async setInvoice(
+    dealershipId: string,
+    job: SubletJob,
+    invoiceAmount: number,
+    invoiceNumber: string | undefined,
+    enteredBy: string
+  ): Promise<SubletJob | null> {
+    const description = `${job.description}${invoiceNumber ? ` (invoice ${invoiceNumber})` : ''}`;
+    const cost = job.reconCostId
+      ? await ReconCostManager.updateCostItem(dealershipId, job.reconCostId, { description, quantity: 1, unitCost: invoiceAmount })
+      : await ReconCostManager.addCostItem(dealershipId, {
+          vehicleId: job.vehicleId,
+          category: 'sublet',
+          description,
+          quantity: 1,
+          unitCost: invoiceAmount,
+          vendorId: job.contactId,
+          vendorName: job.vendorName,
+          incurredDate: job.returnedDate || new Date().toISOString().split('T')[0],
+          createdBy: enteredBy
+        });
+    if (!cost) {
+      console.error('Error posting sublet invoice to recon costs');
+    }
+
+    return this.updateJob(dealershipId, job.id, {
+      invoiceAmount,
+      invoiceNumber: invoiceNumber || '',
+      reconCostId: cost?.id || job.reconCostId || ''
+    });
+  }
+
+  static async updateJob(
+    dealershipId: string,
+    jobId: string,
+    updates: Partial<Omit<SubletJob, 'id' | 'vehicleId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<SubletJob | null> {
+    const dbUpdates = this.toDatabaseFormat(updates);
+    dbUpdates.updated_at = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('sublet_jobs')
+      .update(dbUpdates)
+      .eq('id', jobId)
+      .eq('dealership_id', dealershipId)
+      .select()
+      .single();
+    if (error) {
+      console.error('Error updating sublet job in Supabase:', error);
+      return null;
+    }
+    return this.fromDatabaseFormat(data);
+  }
+
+  static async deleteJob(dealershipId: string, jobId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('sublet_jobs')
+      .delete()
+      .eq('id', jobId)
+      .eq('dealership_id', dealershipId);
+    if (error) {
+      console.error('Error deleting sublet job from Supabase:', error);
+      return false;
+    }
+    return true;
+  }
+}
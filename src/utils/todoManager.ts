@@ -1,5 +1,18 @@
 import { Todo, CalendarEvent, TodoCategory, TodoSettings, TODO_CATEGORY_CONFIGS } from '../types/todo';
 import { supabase } from './supabaseClient';
+import { RealtimeManager } from './realtimeManager';
+import { RealtimeChange } from '../types/realtime';
+
+export interface TodoStats {
+  total: number;
+  pending: number;
+  inProgress: number;
+  completed: number;
+  overdue: number;
+  byCategory: Record<TodoCategory, number>;
+  byPriority: Record<Todo['priority'], number>;
+  byUser: Record<string, number>;
+}
 
 export class TodoManager {
   // Helper function to convert frontend Todo to database format
@@ -145,6 +158,17 @@ export class TodoManager {
     }
   }
 
+  // Live todo changes for the dealership. Returns an unsubscribe function
+  static subscribeToTodos(dealershipId: string, onChange: (change: RealtimeChange<Todo>) => void): () => void {
+    return RealtimeManager.subscribeToTable('todos', `dealership_id=eq.${dealershipId}`, async payload => {
+      if (payload.eventType === 'DELETE') {
+        if (payload.old.id) onChange({ type: 'delete', id: String(payload.old.id) });
+      } else {
+        onChange({ type: 'upsert', record: await this.fromDatabaseFormat(payload.new) });
+      }
+    });
+  }
+
   static async addTodo(dealershipId: string, todoData: Omit<Todo, 'id' | 'createdAt' | 'updatedAt'>): Promise<Todo | null> {
     try {
       // Get current user's UUID
@@ -225,7 +249,7 @@ export class TodoManager {
       if (updates.priority !== undefined) dbUpdates.priority = updates.priority;
       if (updates.status !== undefined) dbUpdates.status = updates.status;
       if (updates.category !== undefined) dbUpdates.category = updates.category;
-      if (updates.dueDate !== undefined) dbUpdates.due_date = updates.dueDate;
+      if (updates.dueDate !== undefined) dbUpdates.due_date = updates.dueDate || null; // Empty string clears it
       if (updates.dueTime !== undefined) dbUpdates.due_time = updates.dueTime;
       if (updates.vehicleId !== undefined) dbUpdates.vehicle_id = updates.vehicleId;
       if (updates.vehicleName !== undefined) dbUpdates.vehicle_name = updates.vehicleName;
@@ -605,18 +629,12 @@ export class TodoManager {
   }
 
   // Statistics
-  static async getTodoStats(dealershipId: string): Promise<{
-    total: number;
-    pending: number;
-    inProgress: number;
-    completed: number;
-    overdue: number;
-    byCategory: Record<TodoCategory, number>;
-    byPriority: Record<Todo['priority'], number>;
-    byUser: Record<string, number>;
-  }> {
-    const todos = await this.getTodos(dealershipId);
-    
+  static async getTodoStats(dealershipId: string): Promise<TodoStats> {
+    return this.calculateStats(await this.getTodos(dealershipId));
+  }
+
+  // Stats for todos already loaded, so realtime updates don't have to refetch every todo
+  static calculateStats(todos: Todo[]): TodoStats {
     const stats = {
       total: todos.length,
       pending: todos.filter(t => t.status === 'pending').length,
@@ -0,0 +1,393 @@
+import { Vehicle, TeamNote } from '../types/vehicle';
+import {
+  ImportField,
+  ImportColumnMapping,
+  ImportOptions,
+  ImportPreviewRow,
+  ImportRowResult,
+  ImportSummary,
+  ParsedCsv,
+  IMPORT_FIELD_CONFIGS
+} from '../types/vehicleImport';
+import { VehicleManager } from './vehicleManager';
+import { VinDecoder } from './vinDecoder';
+
+const DEFAULT_BATCH_SIZE = 25;
+
+// Fields that get copied onto an existing vehicle when duplicates are set to "update"
+const UPDATABLE_FIELDS: ImportField[] = ['trim', 'mileage', 'color', 'targetSaleDate', 'price', 'location', 'notes'];
+
+export class VehicleImportManager {
+  /**
+   * Parse CSV text (quoted fields, escaped quotes and CRLF supported).
+   * Tab and semicolon delimited exports are detected from the header line.
+   */
+  static parseCsv(text: string): ParsedCsv {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.split(/\r?\n/, 1)[0] || '';
+    const delimiter = [',', '\t', ';'].reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    , ',');
+
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    const nonEmpty = records.filter(row => row.some(cell => cell.trim() !== ''));
+    const [headers = [], ...rows] = nonEmpty;
+    return { headers: headers.map(header => header.trim()), rows };
+  }
+
+  // Guess a mapping from header names using the aliases in IMPORT_FIELD_CONFIGS
+  static autoMapColumns(headers: string[]): ImportColumnMapping {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const mapping: ImportColumnMapping = {};
+    const used = new Set<ImportField>();
+
+    headers.forEach((header, index) => {
+      const normalized = normalize(header);
+      const match = (Object.keys(IMPORT_FIELD_CONFIGS) as ImportField[]).find(field =>
+        !used.has(field) && IMPORT_FIELD_CONFIGS[field].aliases.some(alias => normalize(alias) === normalized)
+      );
+      mapping[index] = match || null;
+      if (match) used.add(match);
+    });
+
+    return mapping;
+  }
+
+  static getMissingRequiredFields(mapping: ImportColumnMapping, options: ImportOptions): ImportField[] {
+    const mapped = new Set(Object.values(mapping).filter(Boolean));
+    return (Object.keys(IMPORT_FIELD_CONFIGS) as ImportField[]).filter(field => {
+      if (!IMPORT_FIELD_CONFIGS[field].required || mapped.has(field)) return false;
+      // These can be supplied by defaults or the VIN decoder
+      if (field === 'location' && options.defaultLocation.trim()) return false;
+      if (field === 'dateAcquired' && options.defaultDateAcquired) return false;
+      if ((field === 'year' || field === 'make' || field === 'model') && options.fillFromVin) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Build the preview shown before anything is written. Each row is validated the
+   * same way VehicleManager.toDatabaseFormat validates, and checked for duplicate
+   * VINs both inside the file and against the dealership's existing inventory.
+   */
+  static async buildPreview(
+    dealershipId: string,
+    parsed: ParsedCsv,
+    mapping: ImportColumnMapping,
+    options: ImportOptions
+  ): Promise<ImportPreviewRow[]> {
+    const existingVehicles = await VehicleManager.getVehicles(dealershipId);
+    const existingByVin = new Map(existingVehicles.map(vehicle => [vehicle.vin.toUpperCase(), vehicle]));
+    const seenVins = new Map<string, number>();
+
+    return parsed.rows.map((row, index) => {
+      const rowNumber = index + 1;
+      const errors: string[] = [];
+      const warnings: string[] = [];
+      const vehicle = this.mapRow(row, mapping, errors);
+
+      if (!vehicle.location && options.defaultLocation.trim()) vehicle.location = options.defaultLocation.trim();
+      if (!vehicle.dateAcquired && options.defaultDateAcquired) vehicle.dateAcquired = options.defaultDateAcquired;
+
+      const vin = vehicle.vin || '';
+      if (vin) {
+        if (!VinDecoder.isValidFormat(vin)) {
+          errors.push(vin.length !== 17 ? `VIN must be 17 characters (got ${vin.length})` : 'VIN contains invalid characters');
+        } else {
+          if (!VinDecoder.isCheckDigitValid(vin) && VinDecoder.getRegion(vin).region === 'North America') warnings.push('VIN check digit is invalid');
+
+          if (options.fillFromVin) {
+            const decoded = VinDecoder.decode(vin);
+            if (!vehicle.year && decoded.modelYear) {
+              vehicle.year = decoded.modelYear;
+              warnings.push(`Year filled from VIN (${decoded.modelYear})`);
+            }
+            if (!vehicle.make && decoded.make) {
+              vehicle.make = decoded.make;
+              warnings.push(`Make filled from VIN (${decoded.make})`);
+            }
+            if (!vehicle.model && decoded.model) {
+              vehicle.model = decoded.model;
+              warnings.push(`Model filled from VIN (${decoded.model})`);
+            }
+            if (!vehicle.trim && decoded.trim) vehicle.trim = decoded.trim;
+          }
+        }
+      }
+
+      errors.push(...VehicleManager.getValidationErrors(vehicle));
+
+      if (vin && seenVins.has(vin)) {
+        errors.push(`Duplicate VIN - also on row ${seenVins.get(vin)}`);
+      } else if (vin) {
+        seenVins.set(vin, rowNumber);
+      }
+
+      const existingVehicle = vin ? existingByVin.get(vin) : undefined;
+
+      if (errors.length > 0) {
+        return { rowNumber, vin, action: 'error', vehicle, existingVehicle, errors, warnings };
+      }
+
+      if (existingVehicle) {
+        if (options.duplicateMode === 'skip') {
+          return { rowNumber, vin, action: 'skip', vehicle, existingVehicle, errors, warnings: [...warnings, 'VIN already in inventory'] };
+        }
+
+        const changes = this.getChanges(existingVehicle, vehicle, mapping);
+        return {
+          rowNumber,
+          vin,
+          action: changes.length > 0 ? 'update' : 'skip',
+          vehicle,
+          existingVehicle,
+          changes,
+          errors,
+          warnings: changes.length > 0 ? warnings : [...warnings, 'No changes from existing vehicle']
+        };
+      }
+
+      return { rowNumber, vin, action: 'create', vehicle, errors, warnings };
+    });
+  }
+
+  /**
+   * Write the preview to Supabase. New vehicles are inserted in batches and
+   * updates are applied one at a time; every row gets an entry in the report.
+   */
+  static async commitImport(
+    dealershipId: string,
+    previewRows: ImportPreviewRow[],
+    importedBy: { name: string; initials: string },
+    fileName: string,
+    onProgress?: (processed: number, total: number) => void,
+    batchSize: number = DEFAULT_BATCH_SIZE
+  ): Promise<ImportSummary> {
+    const results: ImportRowResult[] = [];
+    const toCreate = previewRows.filter(row => row.action === 'create');
+    const toUpdate = previewRows.filter(row => row.action === 'update');
+    const total = toCreate.length + toUpdate.length;
+    let processed = 0;
+
+    previewRows
+      .filter(row => row.action === 'skip' || row.action === 'error')
+      .forEach(row => results.push({
+        rowNumber: row.rowNumber,
+        vin: row.vin,
+        action: row.action,
+        success: row.action === 'skip',
+        message: row.action === 'skip' ? row.warnings[row.warnings.length - 1] : row.errors.join('; ')
+      }));
+
+    for (let start = 0; start < toCreate.length; start += batchSize) {
+      const batch = toCreate.slice(start, start + batchSize);
+      const vehicles = batch.map(row => ({
+        ...row.vehicle,
+        status: null,
+        teamNotes: [this.createImportNote(importedBy, fileName, 'Imported')]
+      }) as Omit<Vehicle, 'id'>);
+
+      const batchResults = await VehicleManager.addVehiclesBatch(dealershipId, vehicles);
+      batchResults.forEach((result, i) => {
+        results.push({
+          rowNumber: batch[i].rowNumber,
+          vin: batch[i].vin,
+          action: 'create',
+          success: !!result.vehicle,
+          message: result.error
+        });
+      });
+
+      processed += batch.length;
+      onProgress?.(processed, total);
+    }
+
+    for (const row of toUpdate) {
+      const existing = row.existingVehicle!;
+      const updates: Partial<Vehicle> = {};
+      row.changes?.forEach(change => {
+        Object.assign(updates, { [change.field]: row.vehicle[change.field] });
+      });
+      updates.teamNotes = [this.createImportNote(importedBy, fileName, 'Updated'), ...(existing.teamNotes || [])];
+
+      const updated = await VehicleManager.updateVehicle(dealershipId, existing.id, updates, importedBy.initials);
+      results.push({
+        rowNumber: row.rowNumber,
+        vin: row.vin,
+        action: 'update',
+        success: !!updated,
+        message: updated ? undefined : 'Failed to update existing vehicle'
+      });
+
+      processed++;
+      onProgress?.(processed, total);
+    }
+
+    results.sort((a, b) => a.rowNumber - b.rowNumber);
+
+    return {
+      created: results.filter(result => result.action === 'create' && result.success).length,
+      updated: results.filter(result => result.action === 'update' && result.success).length,
+      skipped: results.filter(result => result.action === 'skip').length,
+      failed: results.filter(result => !result.success).length,
+      results
+    };
+  }
+
+  // Per-row report as CSV so failed rows can be fixed and re-imported
+  static buildErrorReportCsv(summary: ImportSummary): string {
+    const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const lines = ['Row,VIN,Action,Result,Message'];
+    summary.results.forEach(result => {
+      lines.push([
+        result.rowNumber.toString(),
+        result.vin,
+        result.action,
+        result.success ? 'OK' : 'FAILED',
+        result.message || ''
+      ].map(escape).join(','));
+    });
+    return lines.join('\n');
+  }
+
+  static parseDate(value: string): string | null {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (iso) return this.toIsoDate(parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3]));
+
+    // US style M/D/YYYY or M/D/YY as exported by most DMS systems
+    const us = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+    if (us) {
+      const year = us[3].length === 2 ? 2000 + parseInt(us[3]) : parseInt(us[3]);
+      return this.toIsoDate(year, parseInt(us[1]), parseInt(us[2]));
+    }
+
+    const parsed = new Date(trimmed);
+    return isNaN(parsed.getTime()) ? null : parsed.toISOString().split('T')[0];
+  }
+
+  // Round-trips through Date so 13/45/2024 or Feb 30 is rejected rather than passed to the database
+  private static toIsoDate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().split('T')[0];
+  }
+
+  static parseNumber(value: string): number | null {
+    const cleaned = value.replace(/[$,\s]|mi(les)?$/gi, '');
+    if (!cleaned) return null;
+    const parsed = Number(cleaned);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  private static mapRow(row: string[], mapping: ImportColumnMapping, errors: string[]): Partial<Omit<Vehicle, 'id'>> {
+    const vehicle: Partial<Omit<Vehicle, 'id'>> = {};
+
+    Object.entries(mapping).forEach(([columnIndex, field]) => {
+      if (!field) return;
+      const raw = (row[Number(columnIndex)] || '').trim();
+      if (!raw) return;
+
+      switch (field) {
+        case 'vin':
+          vehicle.vin = VinDecoder.normalize(raw);
+          break;
+        case 'year': {
+          const year = parseInt(raw);
+          if (isNaN(year) || year < 1900 || year > new Date().getFullYear() + 1) {
+            errors.push(`Invalid year "${raw}"`);
+          } else {
+            vehicle.year = year;
+          }
+          break;
+        }
+        case 'mileage':
+        case 'price': {
+          const num = this.parseNumber(raw);
+          if (num === null || num < 0) {
+            errors.push(`Invalid ${IMPORT_FIELD_CONFIGS[field].label.toLowerCase()} "${raw}"`);
+          } else {
+            vehicle[field] = field === 'mileage' ? Math.round(num) : num;
+          }
+          break;
+        }
+        case 'dateAcquired':
+        case 'targetSaleDate': {
+          const date = this.parseDate(raw);
+          if (!date) {
+            errors.push(`Invalid ${IMPORT_FIELD_CONFIGS[field].label.toLowerCase()} "${raw}"`);
+          } else {
+            vehicle[field] = date;
+          }
+          break;
+        }
+        default:
+          vehicle[field] = raw;
+      }
+    });
+
+    return vehicle;
+  }
+
+  private static getChanges(
+    existing: Vehicle,
+    incoming: Partial<Omit<Vehicle, 'id'>>,
+    mapping: ImportColumnMapping
+  ): Array<{ field: ImportField; from: string; to: string }> {
+    const mapped = new Set(Object.values(mapping).filter(Boolean));
+
+    return UPDATABLE_FIELDS
+      .filter(field => mapped.has(field) && incoming[field] !== undefined)
+      .filter(field => String(existing[field] ?? '') !== String(incoming[field]))
+      .map(field => ({ field, from: String(existing[field] ?? ''), to: String(incoming[field]) }));
+  }
+
+  private static createImportNote(importedBy: { name: string; initials: string }, fileName: string, verb: string): TeamNote {
+    return {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      text: `Vehicle ${verb} By ${importedBy.name} - ${new Date().toLocaleDateString()} (bulk import from ${fileName})`,
+      userInitials: importedBy.initials,
+      timestamp: new Date().toISOString(),
+      category: 'general'
+    };
+  }
+}
@@ -1,17 +1,30 @@
-import { Vehicle, InspectionStatus } from '../types/vehicle';
+import { Vehicle, InspectionStatus, LocationHistoryEntry, VehicleStatusDetails } from '../types/vehicle';
+import { StageTransition } from '../types/reconStage';
 import { supabase } from './supabaseClient';
+import { ReconStageManager } from './reconStageManager';
+import { InspectionRecordManager } from './inspectionRecordManager';
+import { RealtimeManager } from './realtimeManager';
+import { RealtimeChange } from '../types/realtime';
 
 export class VehicleManager {
+  // Required field checks shared by toDatabaseFormat and the bulk importer
+  static getValidationErrors(vehicle: Partial<Omit<Vehicle, 'id'>>): string[] {
+    const errors: string[] = [];
+    if (!vehicle.vin) errors.push('VIN is required');
+    if (!vehicle.year) errors.push('Year is required');
+    if (!vehicle.make) errors.push('Make is required');
+    if (!vehicle.model) errors.push('Model is required');
+    if (!vehicle.color) errors.push('Color is required');
+    if (!vehicle.location) errors.push('Location is required');
+    if (!vehicle.dateAcquired) errors.push('Date acquired is required');
+    return errors;
+  }
+
   // Helper function to convert frontend Vehicle to database format
   private static toDatabaseFormat(vehicle: Omit<Vehicle, 'id'>): any {
     // Validate required fields
-    if (!vehicle.vin) throw new Error('VIN is required');
-    if (!vehicle.year) throw new Error('Year is required');
-    if (!vehicle.make) throw new Error('Make is required');
-    if (!vehicle.model) throw new Error('Model is required');
-    if (!vehicle.color) throw new Error('Color is required');
-    if (!vehicle.location) throw new Error('Location is required');
-    if (!vehicle.dateAcquired) throw new Error('Date acquired is required');
+    const validationErrors = this.getValidationErrors(vehicle);
+    if (validationErrors.length > 0) throw new Error(validationErrors[0]);
 
     return {
       vin: vehicle.vin,
@@ -24,14 +37,37 @@ export class VehicleManager {
       date_acquired: vehicle.dateAcquired,
       target_sale_date: vehicle.targetSaleDate || null,
       price: vehicle.price || 0,
+      recon_budget: vehicle.reconBudget ?? null,
       location_name: vehicle.location, // Map location to location_name
+      parking_spot: vehicle.parkingSpot || null,
+      hero_photo_path: vehicle.heroPhotoPath || null,
       status: vehicle.status,
       notes: vehicle.notes || null,
       team_notes: vehicle.teamNotes || [],
+      stage_history: vehicle.stageHistory || [],
       customer_comments: vehicle.customerComments || null,
-      inspection_data: vehicle.inspection || {},
+      inspection_data: InspectionRecordManager.serialize(vehicle.inspection || InspectionRecordManager.createEmpty()),
+      inspection_template: vehicle.inspectionTemplate || null,
       is_sold: vehicle.isSold || false,
-      is_pending: vehicle.isPending || false
+      is_pending: vehicle.isPending || false,
+      sold_by: vehicle.soldBy || null,
+      sold_date: vehicle.soldDate || null,
+      sold_price: vehicle.soldPrice ?? null,
+      sold_to: vehicle.soldTo || null,
+      sold_notes: vehicle.soldNotes || null,
+      pending_by: vehicle.pendingBy || null,
+      pending_date: vehicle.pendingDate || null,
+      pending_notes: vehicle.pendingNotes || null,
+      reactivated_by: vehicle.reactivatedBy || null,
+      reactivated_date: vehicle.reactivatedDate || null,
+      reactivated_from: vehicle.reactivatedFrom || null,
+      location_changed_by: vehicle.locationChangedBy || null,
+      location_changed_date: vehicle.locationChangedDate || null,
+      location_history: vehicle.locationHistory || [],
+      readiness_override_by: vehicle.readinessOverrideBy || null,
+      readiness_override_date: vehicle.readinessOverrideDate || null,
+      readiness_override_reason: vehicle.readinessOverrideReason || null,
+      readiness_override_blockers: vehicle.readinessOverrideBlockers || null
     };
   }
 
@@ -49,28 +85,128 @@ export class VehicleManager {
       dateAcquired: data.date_acquired,
       targetSaleDate: data.target_sale_date,
       price: data.price,
+      reconBudget: data.recon_budget ?? undefined,
       location: data.location_name, // Map location_name to location
+      parkingSpot: data.parking_spot ?? undefined,
+      heroPhotoPath: data.hero_photo_path ?? undefined,
       status: data.status,
       notes: data.notes,
       teamNotes: data.team_notes || [],
+      stageHistory: data.stage_history || [],
       customerComments: data.customer_comments,
-      inspection: data.inspection_data,
+      inspection: InspectionRecordManager.migrate(data.inspection_data),
+      inspectionTemplate: data.inspection_template ?? undefined,
       isSold: data.is_sold || false,
       isPending: data.is_pending || false,
-      // These fields don't exist in the database, so set to undefined
-      soldBy: undefined,
-      soldDate: undefined,
-      soldPrice: undefined,
-      soldNotes: undefined,
-      pendingBy: undefined,
-      pendingDate: undefined,
-      pendingNotes: undefined,
-      reactivatedBy: undefined,
-      reactivatedDate: undefined,
-      reactivatedFrom: undefined,
-      locationChangedBy: undefined,
-      locationChangedDate: undefined,
-      locationHistory: undefined
+      soldBy: data.sold_by ?? undefined,
+      soldDate: data.sold_date ?? undefined,
+      soldPrice: data.sold_price !== null && data.sold_price !== undefined ? Number(data.sold_price) : undefined,
+      soldTo: data.sold_to ?? undefined,
+      soldNotes: data.sold_notes ?? undefined,
+      pendingBy: data.pending_by ?? undefined,
+      pendingDate: data.pending_date ?? undefined,
+      pendingNotes: data.pending_notes ?? undefined,
+      reactivatedBy: data.reactivated_by ?? undefined,
+      reactivatedDate: data.reactivated_date ?? undefined,
+      reactivatedFrom: data.reactivated_from ?? undefined,
+      locationChangedBy: data.location_changed_by ?? undefined,
+      locationChangedDate: data.location_changed_date ?? undefined,
+      locationHistory: data.location_history || [],
+      readinessOverrideBy: data.readiness_override_by ?? undefined,
+      readinessOverrideDate: data.readiness_override_date ?? undefined,
+      readinessOverrideReason: data.readiness_override_reason ?? undefined,
+      readinessOverrideBlockers: data.readiness_override_blockers ?? undefined
+    };
+  }
+
+  // Column updates for a sold / pending / reactivated status change
+  private static getStatusDetailUpdates(
+    status: string | null,
+    details: VehicleStatusDetails,
+    previousStatus?: 'sold' | 'pending'
+  ): Record<string, unknown> {
+    const now = new Date().toISOString();
+    if (status === 'sold') {
+      return {
+        is_sold: true,
+        is_pending: false,
+        sold_by: details.soldBy || null,
+        sold_date: details.soldDate || now.split('T')[0],
+        sold_price: details.soldPrice ?? null,
+        sold_to: details.soldTo || null,
+        sold_notes: details.soldNotes || null,
+        parking_spot: null // Frees the spot on the lot map
+      };
+    }
+    if (status === 'pending') {
+      return {
+        is_sold: false,
+        is_pending: true,
+        pending_by: details.pendingBy || null,
+        pending_date: details.pendingDate || now,
+        pending_notes: details.pendingNotes || null
+      };
+    }
+
+    const updates: Record<string, unknown> = { is_sold: false, is_pending: false };
+    if (previousStatus) {
+      updates.reactivated_by = details.reactivatedBy || null;
+      updates.reactivated_date = now;
+      updates.reactivated_from = previousStatus;
+      // A vehicle back in recon has to earn readiness again
+      updates.readiness_override_by = null;
+      updates.readiness_override_date = null;
+      updates.readiness_override_reason = null;
+      updates.readiness_override_blockers = null;
+    }
+    if (status === 'ready' && details.readinessOverrideBy) {
+      updates.readiness_override_by = details.readinessOverrideBy;
+      updates.readiness_override_date = now;
+      updates.readiness_override_reason = details.readinessOverrideReason || null;
+      updates.readiness_override_blockers = details.readinessOverrideBlockers || [];
+    }
+    return updates;
+  }
+
+  /**
+   * Location columns for a move, with the new location appended to location_history.
+   * Returns an empty object when the location hasn't actually changed.
+   */
+  private static async getLocationChangeUpdates(
+    dealershipId: string,
+    vehicleId: string,
+    location: string,
+    changedBy?: string,
+    reason?: string,
+    changedAt: string = new Date().toISOString()
+  ): Promise<Record<string, unknown>> {
+    const { data: current, error } = await supabase
+      .from('vehicles')
+      .select('location_name, location_history')
+      .eq('id', vehicleId)
+      .eq('dealership_id', dealershipId)
+      .maybeSingle();
+    if (error) {
+      console.error('Error fetching vehicle location history from Supabase:', error);
+      return { location_name: location };
+    }
+    if (current?.location_name === location) return {};
+
+    const entry: LocationHistoryEntry = {
+      location,
+      fromLocation: current?.location_name || undefined,
+      changedBy: changedBy || 'system',
+      changedDate: changedAt.split('T')[0],
+      timestamp: changedAt,
+      reason: reason?.trim() || undefined
+    };
+
+    return {
+      location_name: location,
+      parking_spot: null, // The old spot belongs to the old location
+      location_changed_by: entry.changedBy,
+      location_changed_date: changedAt,
+      location_history: [...(current?.location_history || []), entry]
     };
   }
 
@@ -84,6 +220,18 @@ export class VehicleManager {
     return (data || []).map(this.fromDatabaseFormat);
   }
 
+  // Live inserts, updates and deletes for the dealership's vehicles, or just one. Returns an unsubscribe function
+  static subscribeToVehicles(filter: { dealershipId: string } | { vehicleId: string }, onChange: (change: RealtimeChange<Vehicle>) => void): () => void {
+    const column = 'vehicleId' in filter ? `id=eq.${filter.vehicleId}` : `dealership_id=eq.${filter.dealershipId}`;
+    return RealtimeManager.subscribeToTable('vehicles', column, payload => {
+      if (payload.eventType === 'DELETE') {
+        if (payload.old.id) onChange({ type: 'delete', id: String(payload.old.id) });
+      } else {
+        onChange({ type: 'upsert', record: this.fromDatabaseFormat(payload.new) });
+      }
+    });
+  }
+
   static async getActiveVehicles(dealershipId: string): Promise<Vehicle[]> {
     const { data, error } = await supabase
       .from('vehicles')
@@ -168,7 +316,73 @@ export class VehicleManager {
     }
   }
 
-  static async updateVehicle(dealershipId: string, vehicleId: string, updates: Partial<Vehicle>): Promise<Vehicle | null> {
+  /**
+   * Insert a batch of vehicles in one request. If the batch is rejected (e.g. one
+   * VIN violates the unique constraint) each row is retried on its own so the
+   * caller gets a per-row result instead of losing the whole batch.
+   */
+  static async addVehiclesBatch(
+    dealershipId: string,
+    vehicles: Omit<Vehicle, 'id'>[]
+  ): Promise<Array<{ vehicle: Vehicle | null; error?: string }>> {
+    const rows: Array<{ index: number; data: { vin: string } & Record<string, unknown> }> = [];
+    const results: Array<{ vehicle: Vehicle | null; error?: string }> = vehicles.map(() => ({ vehicle: null }));
+
+    vehicles.forEach((vehicleData, index) => {
+      try {
+        rows.push({ index, data: { ...this.toDatabaseFormat(vehicleData), dealership_id: dealershipId } });
+      } catch (validationError) {
+        results[index] = { vehicle: null, error: (validationError as Error).message };
+      }
+    });
+
+    if (rows.length === 0) return results;
+
+    const { data, error } = await supabase
+      .from('vehicles')
+      .insert(rows.map(row => row.data))
+      .select();
+
+    if (!error && data && data.length === rows.length) {
+      rows.forEach(row => {
+        const inserted = data.find((item: { vin: string }) => item.vin === row.data.vin);
+        results[row.index] = inserted
+          ? { vehicle: this.fromDatabaseFormat(inserted) }
+          : { vehicle: null, error: 'Vehicle was not returned after insert' };
+      });
+      return results;
+    }
+
+    console.error('Batch insert failed, retrying rows individually:', error);
+
+    for (const row of rows) {
+      const { data: single, error: singleError } = await supabase
+        .from('vehicles')
+        .insert([row.data])
+        .select()
+        .single();
+
+      if (singleError) {
+        results[row.index] = {
+          vehicle: null,
+          error: singleError.code === '23505'
+            ? `A vehicle with VIN ${row.data.vin} already exists`
+            : singleError.message
+        };
+      } else {
+        results[row.index] = { vehicle: this.fromDatabaseFormat(single) };
+      }
+    }
+
+    return results;
+  }
+
+  static async updateVehicle(
+    dealershipId: string,
+    vehicleId: string,
+    updates: Partial<Vehicle>,
+    changedBy?: string // user initials, recorded in the location history if the location changed
+  ): Promise<Vehicle | null> {
     // Build dbUpdates only from provided fields
     const dbUpdates: any = { updated_at: new Date().toISOString() };
     if (updates.vin !== undefined) dbUpdates.vin = updates.vin;
@@ -181,14 +395,40 @@ export class VehicleManager {
     if (updates.dateAcquired !== undefined) dbUpdates.date_acquired = updates.dateAcquired;
     if (updates.targetSaleDate !== undefined) dbUpdates.target_sale_date = updates.targetSaleDate;
     if (updates.price !== undefined) dbUpdates.price = updates.price;
-    if (updates.location !== undefined) dbUpdates.location_name = updates.location;
+    if (updates.reconBudget !== undefined) dbUpdates.recon_budget = updates.reconBudget;
     if (updates.status !== undefined) dbUpdates.status = updates.status;
     if (updates.notes !== undefined) dbUpdates.notes = updates.notes;
     if (updates.teamNotes !== undefined) dbUpdates.team_notes = updates.teamNotes;
+    if (updates.stageHistory !== undefined) dbUpdates.stage_history = updates.stageHistory;
     if (updates.customerComments !== undefined) dbUpdates.customer_comments = updates.customerComments;
-    if (updates.inspection !== undefined) dbUpdates.inspection_data = updates.inspection;
+    if (updates.inspection !== undefined) dbUpdates.inspection_data = InspectionRecordManager.serialize(updates.inspection);
+    if (updates.inspectionTemplate !== undefined) dbUpdates.inspection_template = updates.inspectionTemplate;
     if (updates.isSold !== undefined) dbUpdates.is_sold = updates.isSold;
     if (updates.isPending !== undefined) dbUpdates.is_pending = updates.isPending;
+    if (updates.soldBy !== undefined) dbUpdates.sold_by = updates.soldBy;
+    if (updates.soldDate !== undefined) dbUpdates.sold_date = updates.soldDate;
+    if (updates.soldPrice !== undefined) dbUpdates.sold_price = updates.soldPrice;
+    if (updates.soldTo !== undefined) dbUpdates.sold_to = updates.soldTo;
+    if (updates.soldNotes !== undefined) dbUpdates.sold_notes = updates.soldNotes;
+    if (updates.pendingBy !== undefined) dbUpdates.pending_by = updates.pendingBy;
+    if (updates.pendingDate !== undefined) dbUpdates.pending_date = updates.pendingDate;
+    if (updates.pendingNotes !== undefined) dbUpdates.pending_notes = updates.pendingNotes;
+    if (updates.reactivatedBy !== undefined) dbUpdates.reactivated_by = updates.reactivatedBy;
+    if (updates.reactivatedDate !== undefined) dbUpdates.reactivated_date = updates.reactivatedDate;
+    if (updates.reactivatedFrom !== undefined) dbUpdates.reactivated_from = updates.reactivatedFrom;
+    if (updates.locationChangedBy !== undefined) dbUpdates.location_changed_by = updates.locationChangedBy;
+    if (updates.locationChangedDate !== undefined) dbUpdates.location_changed_date = updates.locationChangedDate;
+    if (updates.locationHistory !== undefined) dbUpdates.location_history = updates.locationHistory;
+    if (updates.parkingSpot !== undefined) dbUpdates.parking_spot = updates.parkingSpot || null;
+    if (updates.heroPhotoPath !== undefined) dbUpdates.hero_photo_path = updates.heroPhotoPath || null;
+    if (updates.readinessOverrideBy !== undefined) dbUpdates.readiness_override_by = updates.readinessOverrideBy || null;
+    if (updates.readinessOverrideDate !== undefined) dbUpdates.readiness_override_date = updates.readinessOverrideDate || null;
+    if (updates.readinessOverrideReason !== undefined) dbUpdates.readiness_override_reason = updates.readinessOverrideReason || null;
+    if (updates.readinessOverrideBlockers !== undefined) dbUpdates.readiness_override_blockers = updates.readinessOverrideBlockers;
+    // Last, so a real move's appended history wins over any locationHistory passed in alongside it
+    if (updates.location !== undefined) {
+      Object.assign(dbUpdates, await this.getLocationChangeUpdates(dealershipId, vehicleId, updates.location, changedBy));
+    }
     // Add any other fields as needed
     
     const { data, error } = await supabase
@@ -256,13 +496,18 @@ export class VehicleManager {
     return true;
   }
 
-  static async markVehicleAsSold(dealershipId: string, vehicleId: string, soldBy: string, soldDate: string): Promise<Vehicle | null> {
+  static async markVehicleAsSold(
+    dealershipId: string,
+    vehicleId: string,
+    soldBy: string,
+    soldDate: string,
+    sale: Pick<VehicleStatusDetails, 'soldPrice' | 'soldTo' | 'soldNotes'> = {}
+  ): Promise<Vehicle | null> {
     const { data, error } = await supabase
       .from('vehicles')
       .update({
-        is_sold: true,
+        ...this.getStatusDetailUpdates('sold', { ...sale, soldBy, soldDate }),
         updated_at: new Date().toISOString()
-        // Note: sold_by and sold_date fields don't exist in the database schema
       })
       .eq('id', vehicleId)
       .eq('dealership_id', dealershipId)
@@ -275,13 +520,18 @@ export class VehicleManager {
     return this.fromDatabaseFormat(data);
   }
 
-  static async markVehicleAsPending(dealershipId: string, vehicleId: string, pendingBy: string, pendingDate: string): Promise<Vehicle | null> {
+  static async markVehicleAsPending(
+    dealershipId: string,
+    vehicleId: string,
+    pendingBy: string,
+    pendingDate: string,
+    pendingNotes?: string
+  ): Promise<Vehicle | null> {
     const { data, error } = await supabase
       .from('vehicles')
       .update({
-        is_pending: true,
+        ...this.getStatusDetailUpdates('pending', { pendingBy, pendingDate, pendingNotes }),
         updated_at: new Date().toISOString()
-        // Note: pending_by and pending_date fields don't exist in the database schema
       })
       .eq('id', vehicleId)
       .eq('dealership_id', dealershipId)
@@ -296,10 +546,8 @@ export class VehicleManager {
 
   static async reactivateVehicle(dealershipId: string, vehicleId: string, reactivatedBy: string, fromType: 'sold' | 'pending'): Promise<Vehicle | null> {
     const updateData: any = {
-      is_sold: false,
-      is_pending: false,
+      ...this.getStatusDetailUpdates(null, { reactivatedBy }, fromType),
       updated_at: new Date().toISOString()
-      // Note: reactivated_by, reactivated_date, reactivated_from fields don't exist in the database schema
     };
 
     const { data, error } = await supabase
@@ -340,6 +588,7 @@ export class VehicleManager {
     userInitials: string;
     timestamp: string;
     category: string;
+    isCertified?: boolean;
   }): Promise<Vehicle | null> {
     // First get the current vehicle to append to existing notes
     const currentVehicle = await this.getVehicleById(dealershipId, vehicleId);
@@ -375,6 +624,29 @@ export class VehicleManager {
     return this.fromDatabaseFormat(data);
   }
 
+  static async getVehicleByVin(dealershipId: string, vin: string): Promise<Vehicle | null> {
+    const { data, error } = await supabase
+      .from('vehicles')
+      .select('*')
+      .eq('dealership_id', dealershipId)
+      .eq('vin', vin.toUpperCase())
+      .maybeSingle();
+    if (error || !data) return null;
+    return this.fromDatabaseFormat(data);
+  }
+
+  // Stock numbers are the last 6 characters of the VIN
+  static async getVehiclesByStockNumber(dealershipId: string, stockNumber: string): Promise<Vehicle[]> {
+    const { data, error } = await supabase
+      .from('vehicles')
+      .select('*')
+      .eq('dealership_id', dealershipId)
+      .ilike('vin', `%${stockNumber}`)
+      .order('created_at', { ascending: false });
+    if (error) return [];
+    return (data || []).map(this.fromDatabaseFormat);
+  }
+
   static async searchVehicles(dealershipId: string, query: string): Promise<Vehicle[]> {
     const { data, error } = await supabase
       .from('vehicles')
@@ -416,9 +688,17 @@ export class VehicleManager {
     location: string;
     locationChangedBy?: string;
     locationChangedDate?: string;
+    reason?: string;
   }): Promise<Vehicle | null> {
     const dbUpdates: any = {
-      location_name: locationUpdate.location,
+      ...await this.getLocationChangeUpdates(
+        dealershipId,
+        vehicleId,
+        locationUpdate.location,
+        locationUpdate.locationChangedBy,
+        locationUpdate.reason,
+        locationUpdate.locationChangedDate
+      ),
       updated_at: new Date().toISOString()
     };
 
@@ -488,10 +768,12 @@ export class VehicleManager {
     dealershipId: string, 
     vehicleId: string, 
     location: string, 
-    teamNotes: any[]
+    teamNotes: any[],
+    changedBy?: string, // user initials, recorded in the location history
+    reason?: string
   ): Promise<Vehicle | null> {
     const dbUpdates: any = {
-      location_name: location,
+      ...await this.getLocationChangeUpdates(dealershipId, vehicleId, location, changedBy, reason),
       updated_at: new Date().toISOString(),
       team_notes: teamNotes
     };
@@ -510,6 +792,57 @@ export class VehicleManager {
     return this.fromDatabaseFormat(data);
   }
 
+  /**
+   * Parks a vehicle in a spot on a location's lot map, moving it to that location first if needed.
+   * Pass a null spot to take it off the map. Returns null if another active vehicle has the spot.
+   */
+  static async assignParkingSpot(
+    dealershipId: string,
+    vehicleId: string,
+    location: string,
+    spot: string | null,
+    changedBy?: string
+  ): Promise<Vehicle | null> {
+    if (spot) {
+      const { data: occupant, error: occupantError } = await supabase
+        .from('vehicles')
+        .select('id')
+        .eq('dealership_id', dealershipId)
+        .eq('location_name', location)
+        .eq('parking_spot', spot)
+        .eq('is_sold', false)
+        .neq('id', vehicleId)
+        .maybeSingle();
+      if (occupantError) {
+        console.error('Error checking parking spot in Supabase:', occupantError);
+        return null;
+      }
+      if (occupant) {
+        console.error(`Parking spot ${spot} at ${location} is already taken`);
+        return null;
+      }
+    }
+
+    const dbUpdates = {
+      ...await this.getLocationChangeUpdates(dealershipId, vehicleId, location, changedBy, 'Parked on lot map'),
+      parking_spot: spot,
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = await supabase
+      .from('vehicles')
+      .update(dbUpdates)
+      .eq('id', vehicleId)
+      .eq('dealership_id', dealershipId)
+      .select()
+      .single();
+    if (error) {
+      console.error('Error assigning parking spot in Supabase:', error);
+      return null;
+    }
+    return this.fromDatabaseFormat(data);
+  }
+
   // NEW: Specialized method to update vehicle info and team notes without affecting inspection data
   static async updateVehicleInfoAndTeamNotes(
     dealershipId: string, 
@@ -525,7 +858,8 @@ export class VehicleManager {
       location?: string;
       dateAcquired?: string;
     },
-    teamNotes: any[]
+    teamNotes: any[],
+    changedBy?: string // user initials, recorded in the location history if the location changed
   ): Promise<Vehicle | null> {
     const dbUpdates: any = { 
       updated_at: new Date().toISOString(),
@@ -540,7 +874,9 @@ export class VehicleManager {
     if (vehicleInfo.mileage !== undefined) dbUpdates.mileage = vehicleInfo.mileage;
     if (vehicleInfo.color !== undefined) dbUpdates.color = vehicleInfo.color;
     if (vehicleInfo.price !== undefined) dbUpdates.price = vehicleInfo.price;
-    if (vehicleInfo.location !== undefined) dbUpdates.location_name = vehicleInfo.location;
+    if (vehicleInfo.location !== undefined) {
+      Object.assign(dbUpdates, await this.getLocationChangeUpdates(dealershipId, vehicleId, vehicleInfo.location, changedBy));
+    }
     if (vehicleInfo.dateAcquired !== undefined) dbUpdates.date_acquired = vehicleInfo.dateAcquired;
     
     const { data, error } = await supabase
@@ -562,13 +898,40 @@ export class VehicleManager {
     dealershipId: string, 
     vehicleId: string, 
     status: string | null, 
-    teamNotes: any[]
+    teamNotes: any[],
+    changedBy?: string, // user initials, recorded on the stage history entry
+    statusDetails: VehicleStatusDetails = {} // who sold it, for how much, etc.
   ): Promise<Vehicle | null> {
     const dbUpdates: any = { 
       status: status,
       updated_at: new Date().toISOString(),
       team_notes: teamNotes
     };
+
+    const { data: current, error: fetchError } = await supabase
+      .from('vehicles')
+      .select('status, stage_history')
+      .eq('id', vehicleId)
+      .eq('dealership_id', dealershipId)
+      .maybeSingle();
+    if (fetchError) {
+      console.error('Error fetching vehicle status from Supabase:', fetchError);
+    }
+
+    // Clearing a sold / pending status is a reactivation - record where it came back from
+    const previousStatus = current?.status === 'sold' || current?.status === 'pending' ? current.status : undefined;
+    Object.assign(dbUpdates, this.getStatusDetailUpdates(status, statusDetails, previousStatus));
+
+    // Pending and sold are recon stages - keep a timestamped record of each change
+    if ((status === 'pending' || status === 'sold') && !fetchError) {
+      dbUpdates.stage_history = ReconStageManager.appendTransition(current?.stage_history, status, changedBy || 'system');
+    } else if (status === 'ready' && !fetchError) {
+      // A readiness override - like the inspection-driven transition, ready is only recorded once
+      const history: StageTransition[] = current?.stage_history || [];
+      if (!history.some(transition => transition.stage === 'ready')) {
+        dbUpdates.stage_history = ReconStageManager.appendTransition(history, 'ready', changedBy || 'system');
+      }
+    }
     
     const { data, error } = await supabase
       .from('vehicles')
@@ -0,0 +1,287 @@
+import { Vehicle } from '../types/vehicle';
+import { DecodedVin, VinLookupTable, VinModelEntry, VinMismatchWarning } from '../types/vinDecoder';
+import { VIN_LOOKUP_TABLE } from '../data/vinLookupTable';
+
+const LOOKUP_TABLE_STORAGE_KEY = 'vin_lookup_table';
+
+// Letter values used by the North American check digit (I, O and Q are never valid)
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 codes in order, starting from 1980 (and again from 2010)
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+export class VinDecoder {
+  static normalize(vin: string): string {
+    return (vin || '').trim().toUpperCase().replace(/[\s-]/g, '');
+  }
+
+  static isValidFormat(vin: string): boolean {
+    return /^[A-HJ-NPR-Z0-9]{17}$/.test(this.normalize(vin));
+  }
+
+  static calculateCheckDigit(vin: string): string | null {
+    const normalized = this.normalize(vin);
+    if (!this.isValidFormat(normalized)) return null;
+
+    const sum = normalized.split('').reduce((total, char, index) => {
+      const value = /[0-9]/.test(char) ? parseInt(char, 10) : TRANSLITERATION[char];
+      return total + value * POSITION_WEIGHTS[index];
+    }, 0);
+
+    const remainder = sum % 11;
+    return remainder === 10 ? 'X' : remainder.toString();
+  }
+
+  static isCheckDigitValid(vin: string): boolean {
+    const expected = this.calculateCheckDigit(vin);
+    return expected !== null && this.normalize(vin)[8] === expected;
+  }
+
+  /**
+   * Lookup table currently in use - the bundled table with any dealership
+   * additions saved through setLookupTable layered on top
+   */
+  static getLookupTable(): VinLookupTable {
+    const data = localStorage.getItem(LOOKUP_TABLE_STORAGE_KEY);
+    if (!data) return VIN_LOOKUP_TABLE;
+
+    try {
+      const override: Partial<VinLookupTable> = JSON.parse(data);
+      const plants = { ...VIN_LOOKUP_TABLE.plants };
+      Object.entries(override.plants || {}).forEach(([make, codes]) => {
+        plants[make] = { ...(plants[make] || {}), ...codes };
+      });
+
+      return {
+        version: override.version || VIN_LOOKUP_TABLE.version,
+        updatedAt: override.updatedAt || VIN_LOOKUP_TABLE.updatedAt,
+        wmi: { ...VIN_LOOKUP_TABLE.wmi, ...(override.wmi || {}) },
+        plants,
+        // Override patterns come first so they win ties against bundled ones
+        models: [...(override.models || []), ...VIN_LOOKUP_TABLE.models],
+        makeAliases: { ...VIN_LOOKUP_TABLE.makeAliases, ...(override.makeAliases || {}) }
+      };
+    } catch (error) {
+      console.error('Error parsing VIN lookup table from localStorage:', error);
+      return VIN_LOOKUP_TABLE;
+    }
+  }
+
+  static setLookupTable(table: Partial<VinLookupTable>): void {
+    localStorage.setItem(LOOKUP_TABLE_STORAGE_KEY, JSON.stringify(table));
+  }
+
+  static resetLookupTable(): void {
+    localStorage.removeItem(LOOKUP_TABLE_STORAGE_KEY);
+  }
+
+  static getRegion(vin: string): { region?: string; country?: string } {
+    const first = this.normalize(vin).charAt(0);
+    const second = this.normalize(vin).charAt(1);
+
+    if (/[1-5]/.test(first)) {
+      const countries: Record<string, string> = { '1': 'United States', '2': 'Canada', '3': 'Mexico', '4': 'United States', '5': 'United States' };
+      return { region: 'North America', country: countries[first] };
+    }
+    if (/[6-7]/.test(first)) return { region: 'Oceania' };
+    if (/[8-9]/.test(first)) return { region: 'South America' };
+    if (/[A-H]/.test(first)) return { region: 'Africa' };
+    if (/[J-R]/.test(first)) {
+      if (first === 'J') return { region: 'Asia', country: 'Japan' };
+      if (first === 'K' && /[L-R]/.test(second)) return { region: 'Asia', country: 'South Korea' };
+      if (first === 'L') return { region: 'Asia', country: 'China' };
+      return { region: 'Asia' };
+    }
+    if (/[S-Z]/.test(first)) {
+      if (first === 'S' && /[A-M]/.test(second)) return { region: 'Europe', country: 'United Kingdom' };
+      if (first === 'W') return { region: 'Europe', country: 'Germany' };
+      if (first === 'Y' && /[S-W]/.test(second)) return { region: 'Europe', country: 'Sweden' };
+      if (first === 'Z' && /[A-R]/.test(second)) return { region: 'Europe', country: 'Italy' };
+      return { region: 'Europe' };
+    }
+    return {};
+  }
+
+  /**
+   * Model year from position 10. The code repeats every 30 years, so North
+   * American VINs use position 7 to pick the cycle (letter = 2010 onward).
+   * Everything else falls back to the most recent cycle that isn't in the future.
+   */
+  static getModelYear(vin: string): number | undefined {
+    const normalized = this.normalize(vin);
+    const index = MODEL_YEAR_CODES.indexOf(normalized.charAt(9));
+    if (normalized.length < 10 || index === -1) return undefined;
+
+    const earlyCycle = 1980 + index;
+    const lateCycle = 2010 + index;
+
+    if (this.getRegion(normalized).region === 'North America' && normalized.length >= 7) {
+      return /[A-Z]/.test(normalized.charAt(6)) ? lateCycle : earlyCycle;
+    }
+
+    return lateCycle <= new Date().getFullYear() + 1 ? lateCycle : earlyCycle;
+  }
+
+  static decode(vin: string): DecodedVin {
+    const normalized = this.normalize(vin);
+    const table = this.getLookupTable();
+    const errors: string[] = [];
+
+    const isValidFormat = this.isValidFormat(normalized);
+    if (normalized.length !== 17) {
+      errors.push(`VIN must be 17 characters (got ${normalized.length})`);
+    } else if (!isValidFormat) {
+      errors.push('VIN contains invalid characters (letters I, O and Q are not allowed)');
+    }
+
+    const { region, country } = this.getRegion(normalized);
+    const expectedCheckDigit = this.calculateCheckDigit(normalized) || undefined;
+    const isCheckDigitValid = !!expectedCheckDigit && normalized.charAt(8) === expectedCheckDigit;
+    // Only North American VINs are required to carry a check digit in position 9
+    if (isValidFormat && !isCheckDigitValid && region === 'North America') {
+      errors.push(`Check digit mismatch: position 9 is "${normalized.charAt(8)}", expected "${expectedCheckDigit}"`);
+    }
+
+    const wmi = normalized.slice(0, 3);
+    const vds = normalized.slice(3, 8);
+    const plantCode = normalized.charAt(10);
+    const wmiEntry = table.wmi[wmi];
+    const modelYear = this.getModelYear(normalized);
+
+    let make = wmiEntry?.make;
+    const modelEntry = isValidFormat ? this.findModel(table, wmi, vds, make, modelYear) : undefined;
+    if (!make && modelEntry) make = modelEntry.make;
+
+    const plant = make ? table.plants[make]?.[plantCode] : undefined;
+
+    return {
+      vin: normalized,
+      isValidFormat,
+      isCheckDigitValid,
+      expectedCheckDigit,
+      wmi,
+      vds,
+      vis: normalized.slice(9),
+      manufacturer: wmiEntry?.manufacturer,
+      make,
+      country: wmiEntry?.country || country,
+      region,
+      modelYear,
+      plantCode,
+      plant,
+      model: modelEntry?.model,
+      trim: modelEntry?.trim,
+      bodyStyle: modelEntry?.bodyStyle,
+      serialNumber: normalized.slice(11),
+      errors
+    };
+  }
+
+  /**
+   * Compare a decoded VIN against what was typed into the vehicle record.
+   * Only fields the decoder could actually resolve are compared.
+   */
+  static getMismatchWarnings(vehicle: Pick<Vehicle, 'vin' | 'year' | 'make' | 'model' | 'trim'>): VinMismatchWarning[] {
+    const decoded = this.decode(vehicle.vin);
+    const warnings: VinMismatchWarning[] = [];
+
+    if (!decoded.isValidFormat) {
+      warnings.push({ field: 'vin', message: decoded.errors[0] || 'VIN could not be decoded' });
+      return warnings;
+    }
+
+    if (!decoded.isCheckDigitValid && decoded.region === 'North America') {
+      warnings.push({
+        field: 'vin',
+        message: 'VIN check digit is invalid - the VIN may have been mistyped',
+        decodedValue: decoded.expectedCheckDigit,
+        recordedValue: decoded.vin.charAt(8)
+      });
+    }
+
+    if (decoded.modelYear && vehicle.year && decoded.modelYear !== vehicle.year) {
+      warnings.push({
+        field: 'year',
+        message: `VIN decodes to model year ${decoded.modelYear}, but the vehicle is recorded as ${vehicle.year}`,
+        decodedValue: decoded.modelYear.toString(),
+        recordedValue: vehicle.year.toString()
+      });
+    }
+
+    if (decoded.make && vehicle.make && this.normalizeMake(vehicle.make) !== this.normalizeMake(decoded.make)) {
+      warnings.push({
+        field: 'make',
+        message: `VIN decodes to ${decoded.make}, but the vehicle is recorded as ${vehicle.make}`,
+        decodedValue: decoded.make,
+        recordedValue: vehicle.make
+      });
+    }
+
+    if (decoded.model && vehicle.model && !this.namesMatch(vehicle.model, decoded.model)) {
+      warnings.push({
+        field: 'model',
+        message: `VIN decodes to a ${decoded.model}, but the vehicle is recorded as ${vehicle.model}`,
+        decodedValue: decoded.model,
+        recordedValue: vehicle.model
+      });
+    }
+
+    if (decoded.trim && vehicle.trim && !this.namesMatch(vehicle.trim, decoded.trim)) {
+      warnings.push({
+        field: 'trim',
+        message: `VIN decodes to the ${decoded.trim} trim, but the vehicle is recorded as ${vehicle.trim}`,
+        decodedValue: decoded.trim,
+        recordedValue: vehicle.trim
+      });
+    }
+
+    return warnings;
+  }
+
+  private static findModel(
+    table: VinLookupTable,
+    wmi: string,
+    vds: string,
+    make: string | undefined,
+    modelYear: number | undefined
+  ): VinModelEntry | undefined {
+    const candidates = table.models.filter(entry => {
+      if (entry.wmi && !entry.wmi.includes(wmi)) return false;
+      if (!entry.wmi && entry.make !== make) return false;
+      if (entry.years && modelYear && (modelYear < entry.years[0] || modelYear > entry.years[1])) return false;
+      return this.matchesPattern(vds, entry.vdsPattern);
+    });
+
+    // Prefer the most specific pattern (fewest wildcards)
+    return candidates.sort((a, b) => this.wildcardCount(a.vdsPattern) - this.wildcardCount(b.vdsPattern))[0];
+  }
+
+  private static matchesPattern(vds: string, pattern: string): boolean {
+    if (pattern.length !== vds.length) return false;
+    return pattern.split('').every((char, index) => char === '*' || char === vds[index]);
+  }
+
+  private static wildcardCount(pattern: string): number {
+    return pattern.split('').filter(char => char === '*').length;
+  }
+
+  private static normalizeMake(make: string): string {
+    const key = make.trim().toLowerCase();
+    const alias = this.getLookupTable().makeAliases[key];
+    return (alias || make).trim().toLowerCase().replace(/[\s-]/g, '');
+  }
+
+  // Loose comparison so "CR-V" matches "crv" and "Silverado" matches "Silverado 1500"
+  private static namesMatch(recorded: string, decoded: string): boolean {
+    const a = recorded.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const b = decoded.toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (!a || !b) return true;
+    return a === b || a.includes(b) || b.includes(a);
+  }
+}
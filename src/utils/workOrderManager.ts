@@ -0,0 +1,371 @@
+import { InspectionItemRecord, InspectionRating, InspectionRecord } from '../types/inspectionRecord';
+import { RealtimeChange } from '../types/realtime';
+import {
+  WorkOrderApprovalRequest,
+  WorkOrderApprovalStatus,
+  WorkOrderComment,
+  WorkOrderLine,
+  WorkOrderLineStage,
+  WorkOrderSummary
+} from '../types/workOrder';
+import { InspectionRecordManager } from './inspectionRecordManager';
+import { ReconCostManager } from './reconCostManager';
+import { RealtimeManager } from './realtimeManager';
+import { supabase } from './supabaseClient';
+
+// Shape of a row in the work_order_lines table (a type alias so it fits realtime's row constraint)
+type WorkOrderLineRow = {
+  id: string;
+  dealership_id: string;
+  vehicle_id: string;
+  section_key: string;
+  item_id: string;
+  item_label: string;
+  description: string | null;
+  estimate: number | string | null;
+  approval_status: WorkOrderApprovalStatus;
+  requested_by: string | null;
+  approval_reason: string | null;
+  approval_by: string | null;
+  approval_date: string | null;
+  approval_notes: string | null;
+  assignee_contact_id: string | null;
+  assignee_name: string | null;
+  completed_by: string | null;
+  completed_date: string | null;
+  completion_notes: string | null;
+  recon_cost_id: string | null;
+  reinspection_rating: InspectionRating | null;
+  reinspected_by: string | null;
+  reinspected_at: string | null;
+  comments: WorkOrderComment[] | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type NewWorkOrderLine = Omit<WorkOrderLine, 'id' | 'approvalStatus' | 'createdAt' | 'updatedAt'>;
+
+export class WorkOrderManager {
+  // Helper function to convert frontend WorkOrderLine to database format
+  private static toDatabaseFormat(line: Partial<Omit<WorkOrderLine, 'id' | 'createdAt' | 'updatedAt'>>): Partial<WorkOrderLineRow> {
+    const dbData: Partial<WorkOrderLineRow> = {};
+    if (line.vehicleId !== undefined) dbData.vehicle_id = line.vehicleId;
+    if (line.sectionKey !== undefined) dbData.section_key = line.sectionKey;
+    if (line.itemId !== undefined) dbData.item_id = line.itemId;
+    if (line.itemLabel !== undefined) dbData.item_label = line.itemLabel;
+    if (line.description !== undefined) dbData.description = line.description || null;
+    if ('estimate' in line) dbData.estimate = line.estimate ?? null; // Passed as undefined to clear it
+    if (line.approvalStatus !== undefined) dbData.approval_status = line.approvalStatus;
+    if (line.requestedBy !== undefined) dbData.requested_by = line.requestedBy || null;
+    if (line.approvalReason !== undefined) dbData.approval_reason = line.approvalReason || null;
+    if (line.approvalBy !== undefined) dbData.approval_by = line.approvalBy || null;
+    if (line.approvalDate !== undefined) dbData.approval_date = line.approvalDate || null;
+    if (line.approvalNotes !== undefined) dbData.approval_notes = line.approvalNotes || null;
+    if (line.assigneeContactId !== undefined) dbData.assignee_contact_id = line.assigneeContactId || null;
+    if (line.assigneeName !== undefined) dbData.assignee_name = line.assigneeName || null;
+    if (line.completedBy !== undefined) dbData.completed_by = line.completedBy || null;
+    if (line.completedDate !== undefined) dbData.completed_date = line.completedDate || null;
+    if (line.completionNotes !== undefined) dbData.completion_notes = line.completionNotes || null;
+    if (line.reconCostId !== undefined) dbData.recon_cost_id = line.reconCostId || null;
+    if (line.reinspectionRating !== undefined) dbData.reinspection_rating = line.reinspectionRating || null;
+    if (line.reinspectedBy !== undefined) dbData.reinspected_by = line.reinspectedBy || null;
+    if (line.reinspectedAt !== undefined) dbData.reinspected_at = line.reinspectedAt || null;
+    if (line.comments !== undefined) dbData.comments = line.comments;
+    if (line.createdBy !== undefined) dbData.created_by = line.createdBy;
+    return dbData;
+  }
+
+  // Helper function to convert database format to frontend WorkOrderLine
+  private static fromDatabaseFormat(data: WorkOrderLineRow): WorkOrderLine {
+    return {
+      id: data.id,
+      vehicleId: data.vehicle_id,
+      sectionKey: data.section_key,
+      itemId: data.item_id,
+      itemLabel: data.item_label,
+      description: data.description || undefined,
+      estimate: data.estimate !== null && data.estimate !== undefined ? Number(data.estimate) : undefined,
+      approvalStatus: data.approval_status,
+      requestedBy: data.requested_by || undefined,
+      approvalReason: data.approval_reason || undefined,
+      approvalBy: data.approval_by || undefined,
+      approvalDate: data.approval_date || undefined,
+      approvalNotes: data.approval_notes || undefined,
+      assigneeContactId: data.assignee_contact_id || undefined,
+      assigneeName: data.assignee_name || undefined,
+      completedBy: data.completed_by || undefined,
+      completedDate: data.completed_date || undefined,
+      completionNotes: data.completion_notes || undefined,
+      reconCostId: data.recon_cost_id || undefined,
+      reinspectionRating: data.reinspection_rating || undefined,
+      reinspectedBy: data.reinspected_by || undefined,
+      reinspectedAt: data.reinspected_at || undefined,
+      comments: data.comments || [],
+      createdBy: data.created_by,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at
+    };
+  }
+
+  static getStage(line: WorkOrderLine): WorkOrderLineStage {
+    if (line.approvalStatus === 'declined') return 'declined';
+    if (line.approvalStatus === 'requested') return 'awaiting-approval';
+    if (!line.completedDate) return 'in-repair';
+    return line.reinspectedAt ? 'done' : 'awaiting-reinspection';
+  }
+
+  // Still needs something from someone: approval, the repair or the re-inspection
+  static isOpen(line: WorkOrderLine): boolean {
+    const stage = this.getStage(line);
+    return stage !== 'declined' && stage !== 'done';
+  }
+
+  static getSummary(lines: WorkOrderLine[]): WorkOrderSummary {
+    return lines.reduce<WorkOrderSummary>((summary, line) => {
+      if (this.isOpen(line)) summary.openLines++;
+      if (line.approvalStatus === 'requested') {
+        summary.awaitingApproval++;
+        summary.requestedTotal += line.estimate || 0;
+      }
+      if (line.approvalStatus === 'approved') summary.approvedTotal += line.estimate || 0;
+      return summary;
+    }, { openLines: 0, awaitingApproval: 0, requestedTotal: 0, approvedTotal: 0 });
+  }
+
+  // Items rated Needs Attention that have no open line yet, e.g. flagged before work orders existed
+  static getUncoveredItems(
+    record: InspectionRecord | null | undefined,
+    lines: WorkOrderLine[]
+  ): Array<{ sectionKey: string; item: InspectionItemRecord }> {
+    const covered = new Set(lines.filter(line => this.isOpen(line)).map(line => `${line.sectionKey}:${line.itemId}`));
+    return InspectionRecordManager.getSectionKeys(record).flatMap(sectionKey =>
+      InspectionRecordManager.getSectionItems(record, sectionKey)
+        .filter(item => item.rating === 'N' && !covered.has(`${sectionKey}:${item.id}`))
+        .map(item => ({ sectionKey, item }))
+    );
+  }
+
+  // Lines whose item was re-rated after the repair was signed off
+  static getReinspectedLines(
+    lines: WorkOrderLine[],
+    oldData: InspectionRecord,
+    newData: InspectionRecord
+  ): Array<{ line: WorkOrderLine; item: InspectionItemRecord }> {
+    return lines.flatMap(line => {
+      if (this.getStage(line) !== 'awaiting-reinspection' || !line.completedDate) return [];
+      const item = InspectionRecordManager.getItem(newData, line.sectionKey, line.itemId);
+      const oldItem = InspectionRecordManager.getItem(oldData, line.sectionKey, line.itemId);
+      const wasRerated = !!item?.updatedAt && item.updatedAt !== oldItem?.updatedAt && item.updatedAt >= line.completedDate;
+      return item && wasRerated && InspectionRecordManager.isRated(item) ? [{ line, item }] : [];
+    });
+  }
+
+  // Keeps a list in step with a realtime change, newest first
+  static applyChange(lines: WorkOrderLine[], change: RealtimeChange<WorkOrderLine>): WorkOrderLine[] {
+    if (change.type === 'delete') return lines.filter(line => line.id !== change.id);
+    const others = lines.filter(line => line.id !== change.record.id);
+    return [change.record, ...others].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  static async getLines(dealershipId: string, vehicleId: string): Promise<WorkOrderLine[]> {
+    const { data, error } = await supabase
+      .from('work_order_lines')
+      .select('*')
+      .eq('dealership_id', dealershipId)
+      .eq('vehicle_id', vehicleId)
+      .order('created_at', { ascending: false });
+    if (error) {
+      console.error('Error loading work order lines from Supabase:', error);
+      return [];
+    }
+    return (data || []).map(this.fromDatabaseFormat);
+  }
+
+  // Every estimate in the dealership waiting on a manager, oldest first
+  static async getApprovalRequests(dealershipId: string): Promise<WorkOrderApprovalRequest[]> {
+    const { data, error } = await supabase
+      .from('work_order_lines')
+      .select('*, vehicle:vehicles(id, year, make, model, vin)')
+      .eq('dealership_id', dealershipId)
+      .eq('approval_status', 'requested')
+      .order('created_at', { ascending: true });
+    if (error) {
+      console.error('Error loading work order approvals from Supabase:', error);
+      return [];
+    }
+    return (data || [])
+      .filter(row => row.vehicle)
+      .map(row => ({ line: this.fromDatabaseFormat(row), vehicle: row.vehicle }));
+  }
+
+  // Calls onChange for every line added, changed or removed. Returns an unsubscribe function
+  static subscribeToLines(filter: { dealershipId: string } | { vehicleId: string }, onChange: (change: RealtimeChange<WorkOrderLine>) => void): () => void {
+    const column = 'vehicleId' in filter ? `vehicle_id=eq.${filter.vehicleId}` : `dealership_id=eq.${filter.dealershipId}`;
+    return RealtimeManager.subscribeToTable<WorkOrderLineRow>('work_order_lines', column, payload => {
+      if (payload.eventType === 'DELETE') {
+        if (payload.old.id) onChange({ type: 'delete', id: payload.old.id });
+      } else {
+        onChange({ type: 'upsert', record: this.fromDatabaseFormat(payload.new) });
+      }
+    });
+  }
+
+  static async createLines(dealershipId: string, lines: NewWorkOrderLine[]): Promise<WorkOrderLine[]> {
+    if (lines.length === 0) return [];
+    const rows = lines.map(line => ({
+      ...this.toDatabaseFormat({ ...line, approvalStatus: 'requested' }),
+      dealership_id: dealershipId
+    }));
+
+    const { data, error } = await supabase
+      .from('work_order_lines')
+      .insert(rows)
+      .select();
+    if (error) {
+      console.error('Error adding work order lines to Supabase:', error);
+      return [];
+    }
+    return (data || []).map(this.fromDatabaseFormat);
+  }
+
+  static async updateLine(
+    dealershipId: string,
+    lineId: string,
+    updates: Partial<Omit<WorkOrderLine, 'id' | 'vehicleId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<WorkOrderLine | null> {
+    const dbUpdates = this.toDatabaseFormat(updates);
+    dbUpdates.updated_at = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('work_order_lines')
+      .update(dbUpdates)
+      .eq('id', lineId)
+      .eq('dealership_id', dealershipId)
+      .select()
+      .single();
+    if (error) {
+      console.error('Error updating work order line in Supabase:', error);
+      return null;
+    }
+    return this.fromDatabaseFormat(data);
+  }
+
+  static setApproval(
+    dealershipId: string,
+    lineId: string,
+    status: WorkOrderApprovalStatus,
+    userInitials: string,
+    notes?: string
+  ): Promise<WorkOrderLine | null> {
+    const isDecision = status !== 'requested';
+    return this.updateLine(dealershipId, lineId, {
+      approvalStatus: status,
+      approvalBy: isDecision ? userInitials : '',
+      approvalDate: isDecision ? new Date().toISOString() : '',
+      approvalNotes: notes || ''
+    });
+  }
+
+  static addComment(
+    dealershipId: string,
+    line: WorkOrderLine,
+    text: string,
+    author: { initials: string; name: string }
+  ): Promise<WorkOrderLine | null> {
+    const comment: WorkOrderComment = {
+      id: Date.now().toString(),
+      text,
+      userInitials: author.initials,
+      userName: author.name,
+      timestamp: new Date().toISOString()
+    };
+    return this.updateLine(dealershipId, line.id, { comments: [...(line.comments || []), comment] });
+  }
+
+  /**
+   * Sign-off. An approved estimate is posted to the vehicle's recon costs, as sublet when a
+   * vendor did the work and labor otherwise. The item then waits to be re-rated on the checklist.
+   */
+  static async completeLine(dealershipId: string, line: WorkOrderLine, userInitials: string, notes?: string): Promise<WorkOrderLine | null> {
+    const completedDate = new Date().toISOString();
+    let reconCostId = line.reconCostId;
+    if (line.approvalStatus === 'approved' && line.estimate !== undefined && !reconCostId) {
+      const cost = await ReconCostManager.addCostItem(dealershipId, {
+        vehicleId: line.vehicleId,
+        category: line.assigneeContactId ? 'sublet' : 'labor',
+        description: line.description || line.itemLabel,
+        quantity: 1,
+        unitCost: line.estimate,
+        vendorId: line.assigneeContactId,
+        vendorName: line.assigneeName,
+        inspectionSectionKey: line.sectionKey,
+        inspectionItemId: line.itemId,
+        inspectionItemLabel: line.itemLabel,
+        incurredDate: completedDate.split('T')[0],
+        createdBy: userInitials
+      });
+      if (!cost) {
+        console.error('Error posting work order repair to recon costs');
+      }
+      reconCostId = cost?.id;
+    }
+
+    return this.updateLine(dealershipId, line.id, {
+      completedBy: userInitials,
+      completedDate,
+      completionNotes: notes || '',
+      reconCostId: reconCostId || ''
+    });
+  }
+
+  static async deleteLine(dealershipId: string, lineId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('work_order_lines')
+      .delete()
+      .eq('id', lineId)
+      .eq('dealership_id', dealershipId);
+    if (error) {
+      console.error('Error deleting work order line from Supabase:', error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Run on every inspection save: items newly rated Needs Attention get a line, and lines
+   * whose item was re-rated after sign-off record the re-inspection. A re-inspection that
+   * still finds the item Needs Attention raises a fresh line.
+   */
+  static async syncWithInspection(
+    dealershipId: string,
+    vehicleId: string,
+    oldData: InspectionRecord,
+    newData: InspectionRecord,
+    userInitials: string
+  ): Promise<void> {
+    const lines = await this.getLines(dealershipId, vehicleId);
+
+    const reinspected = this.getReinspectedLines(lines, oldData, newData);
+    for (const { line, item } of reinspected) {
+      await this.updateLine(dealershipId, line.id, {
+        reinspectionRating: item.rating,
+        reinspectedBy: item.updatedBy || userInitials,
+        reinspectedAt: item.updatedAt
+      });
+    }
+
+    const stillOpen = lines.filter(line => this.isOpen(line) && !reinspected.some(entry => entry.line.id === line.id));
+    const newlyFlagged = this.getUncoveredItems(newData, stillOpen).filter(({ sectionKey, item }) =>
+      InspectionRecordManager.getItemRating(oldData, sectionKey, item.id) !== 'N' ||
+      reinspected.some(entry => entry.line.sectionKey === sectionKey && entry.line.itemId === item.id)
+    );
+    await this.createLines(dealershipId, newlyFlagged.map(({ sectionKey, item }) => ({
+      vehicleId,
+      sectionKey,
+      itemId: item.id,
+      itemLabel: item.label,
+      createdBy: item.updatedBy || userInitials
+    })));
+  }
+}
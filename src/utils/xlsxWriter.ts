@@ -0,0 +1,118 @@
+import { ZipEntry, ZipWriter } from './zipWriter';
+
+export type XlsxCell = string | number | null | undefined;
+
+// Minimal single-sheet .xlsx writer. The package is an uncompressed (stored)
+// zip, which Excel, Numbers and Google Sheets all open without complaint.
+export class XlsxWriter {
+  static build(sheetName: string, rows: XlsxCell[][], columnWidths?: number[]): Blob {
+    const encoder = new TextEncoder();
+    const safeSheetName = sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1';
+
+    const entries: ZipEntry[] = [
+      { name: '[Content_Types].xml', data: encoder.encode(this.contentTypesXml()) },
+      { name: '_rels/.rels', data: encoder.encode(this.rootRelsXml()) },
+      { name: 'xl/workbook.xml', data: encoder.encode(this.workbookXml(safeSheetName)) },
+      { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(this.workbookRelsXml()) },
+      { name: 'xl/styles.xml', data: encoder.encode(this.stylesXml()) },
+      { name: 'xl/worksheets/sheet1.xml', data: encoder.encode(this.sheetXml(rows, columnWidths)) }
+    ];
+
+    return new Blob([ZipWriter.build(entries)], {
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    });
+  }
+
+  private static escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      // Strip control characters that are invalid in XML 1.0
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+  }
+
+  private static columnName(index: number): string {
+    let name = '';
+    let n = index + 1;
+    while (n > 0) {
+      const remainder = (n - 1) % 26;
+      name = String.fromCharCode(65 + remainder) + name;
+      n = Math.floor((n - 1) / 26);
+    }
+    return name;
+  }
+
+  private static sheetXml(rows: XlsxCell[][], columnWidths?: number[]): string {
+    const cols = columnWidths && columnWidths.length > 0
+      ? `<cols>${columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+      : '';
+
+    const sheetRows = rows.map((row, rowIndex) => {
+      const cells = row.map((cell, colIndex) => {
+        if (cell === null || cell === undefined || cell === '') return '';
+        const ref = `${this.columnName(colIndex)}${rowIndex + 1}`;
+        // First row is the header and gets the bold style
+        const style = rowIndex === 0 ? ' s="1"' : '';
+        if (typeof cell === 'number' && isFinite(cell)) {
+          return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+        }
+        return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${this.escapeXml(String(cell))}</t></is></c>`;
+      }).join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    }).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      cols +
+      `<sheetData>${sheetRows}</sheetData>` +
+      '</worksheet>';
+  }
+
+  private static contentTypesXml(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>';
+  }
+
+  private static rootRelsXml(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>';
+  }
+
+  private static workbookXml(sheetName: string): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${this.escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>';
+  }
+
+  private static workbookRelsXml(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>';
+  }
+
+  private static stylesXml(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>';
+  }
+}